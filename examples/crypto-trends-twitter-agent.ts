@@ -457,16 +457,10 @@ async function initializeVectorMemory(): Promise<void> {
       }
     };
     
-    // Create a wrapper for EmbeddingService that adapts it to MockEmbeddingService interface
-    const embeddingAdapter = {
-      // Map the embedText method to textToVector for compatibility
-      textToVector: embeddingService.embedText.bind(embeddingService)
-    };
-    
-    // Create vector memory with our adapter services
+    // Create vector memory with the Pinecone adapter and OpenAI embeddings
     vectorMemory = new VectorMemory({
       vectorService: pineconeAdapter,
-      embeddingService: embeddingAdapter
+      embeddingService
     });
     
     logger.info('Vector memory system initialized successfully');
@@ -0,0 +1,152 @@
+import { ApprovalPolicy } from '../core/types';
+
+/**
+ * A tool call waiting for human sign-off
+ */
+export interface ApprovalRequest {
+  id: string;
+  agentName: string;
+  conversationId: string;
+  callId: string;         // ID of the tool call in the conversation
+  tool: string;
+  params: Record<string, any>;
+  created: number;
+}
+
+/**
+ * A human decision on a tool call
+ */
+export type ApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'reject'; reason?: string }
+  | { action: 'edit'; params: Record<string, any> }; // Approve with replacement arguments
+
+/**
+ * Decides whether tool calls that need approval may run
+ */
+export interface ApprovalHandler {
+  /**
+   * Asks for a decision on a tool call
+   *
+   * @param request - The tool call awaiting approval
+   * @param signal - Aborted when the run is cancelled; the handler should stop waiting
+   * @returns Promise resolving to the decision
+   */
+  requestApproval(request: ApprovalRequest, signal?: AbortSignal): Promise<ApprovalDecision>;
+}
+
+/**
+ * A stored approval request and its state
+ */
+export interface ApprovalRecord extends ApprovalRequest {
+  status: 'pending' | 'decided' | 'expired' | 'cancelled';
+  decision?: ApprovalDecision;
+  decided?: number;       // When the decision was made
+}
+
+/**
+ * Interface for stores that persist approval requests so another process can decide on them
+ */
+export interface ApprovalStore {
+  /**
+   * Creates or replaces an approval record
+   *
+   * @param record - The record to save
+   * @returns Promise that resolves when the record is saved
+   */
+  save(record: ApprovalRecord): Promise<void>;
+
+  /**
+   * Loads an approval record by ID
+   *
+   * @param id - ID of the approval request
+   * @returns Promise resolving to the record, or undefined if not found
+   */
+  get(id: string): Promise<ApprovalRecord | undefined>;
+
+  /**
+   * Lists records still waiting for a decision, oldest first
+   *
+   * @returns Promise resolving to the pending records
+   */
+  listPending(): Promise<ApprovalRecord[]>;
+
+  /**
+   * Records a decision on a pending request
+   *
+   * @param id - ID of the approval request
+   * @param decision - The decision
+   * @returns Promise resolving to the updated record
+   */
+  decide(id: string, decision: ApprovalDecision): Promise<ApprovalRecord>;
+
+  /**
+   * Closes a request without a decision, if it is still pending
+   *
+   * A request that was decided in the meantime keeps its decision.
+   *
+   * @param id - ID of the approval request
+   * @param status - Why the request is closed
+   * @returns Promise resolving to the record as stored afterwards, or undefined if not found
+   */
+  close(id: string, status: 'expired' | 'cancelled'): Promise<ApprovalRecord | undefined>;
+
+  /**
+   * Deletes an approval record
+   *
+   * @param id - ID of the approval request
+   * @returns Promise resolving to true if deleted, false if not found
+   */
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Checks whether a tool call needs approval under a policy
+ *
+ * @param policy - The tool's approval policy (undefined means 'never')
+ * @param params - The validated call parameters
+ * @returns Promise resolving to true if approval is required
+ */
+export async function requiresApproval(
+  policy: ApprovalPolicy | undefined,
+  params: Record<string, any>
+): Promise<boolean> {
+  if (!policy || policy === 'never') {
+    return false;
+  }
+  if (policy === 'always') {
+    return true;
+  }
+  return await policy(params);
+}
+
+/**
+ * Applies a decision to a pending record
+ *
+ * @param record - The pending record
+ * @param decision - The decision
+ * @returns The decided record
+ */
+export function applyDecision(record: ApprovalRecord, decision: ApprovalDecision): ApprovalRecord {
+  if (record.status !== 'pending') {
+    throw new Error(`Approval request ${record.id} is already ${record.status}`);
+  }
+
+  return {
+    ...record,
+    status: 'decided',
+    decision,
+    decided: Date.now()
+  };
+}
+
+/**
+ * Closes a record without a decision, leaving records that are no longer pending as they are
+ *
+ * @param record - The stored record
+ * @param status - Why the request is closed
+ * @returns The closed record, or the record unchanged if it was not pending
+ */
+export function applyClose(record: ApprovalRecord, status: 'expired' | 'cancelled'): ApprovalRecord {
+  return record.status === 'pending' ? { ...record, status } : record;
+}
@@ -0,0 +1,88 @@
+import { ApprovalDecision, ApprovalRecord, ApprovalStore, applyClose, applyDecision } from './approval-interface';
+
+/**
+ * An approval store that keeps requests in process memory
+ *
+ * Useful when the approver runs in the same process (e.g. a chat command handler).
+ */
+export class InMemoryApprovalStore implements ApprovalStore {
+  private records: Map<string, ApprovalRecord> = new Map();
+
+  /**
+   * Creates or replaces an approval record
+   *
+   * @param record - The record to save
+   */
+  async save(record: ApprovalRecord): Promise<void> {
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  /**
+   * Loads an approval record by ID
+   *
+   * @param id - ID of the approval request
+   * @returns Promise resolving to the record, or undefined if not found
+   */
+  async get(id: string): Promise<ApprovalRecord | undefined> {
+    const record = this.records.get(id);
+    return record ? structuredClone(record) : undefined;
+  }
+
+  /**
+   * Lists records still waiting for a decision, oldest first
+   *
+   * @returns Promise resolving to the pending records
+   */
+  async listPending(): Promise<ApprovalRecord[]> {
+    return Array.from(this.records.values())
+      .filter(record => record.status === 'pending')
+      .sort((a, b) => a.created - b.created)
+      .map(record => structuredClone(record));
+  }
+
+  /**
+   * Records a decision on a pending request
+   *
+   * @param id - ID of the approval request
+   * @param decision - The decision
+   * @returns Promise resolving to the updated record
+   */
+  async decide(id: string, decision: ApprovalDecision): Promise<ApprovalRecord> {
+    const record = this.records.get(id);
+    if (!record) {
+      throw new Error(`Approval request not found: ${id}`);
+    }
+
+    const decided = applyDecision(record, decision);
+    this.records.set(id, decided);
+    return structuredClone(decided);
+  }
+
+  /**
+   * Closes a request without a decision, if it is still pending
+   *
+   * @param id - ID of the approval request
+   * @param status - Why the request is closed
+   * @returns Promise resolving to the record as stored afterwards, or undefined if not found
+   */
+  async close(id: string, status: 'expired' | 'cancelled'): Promise<ApprovalRecord | undefined> {
+    const record = this.records.get(id);
+    if (!record) {
+      return undefined;
+    }
+
+    const closed = applyClose(record, status);
+    this.records.set(id, closed);
+    return structuredClone(closed);
+  }
+
+  /**
+   * Deletes an approval record
+   *
+   * @param id - ID of the approval request
+   * @returns Promise resolving to true if deleted, false if not found
+   */
+  async delete(id: string): Promise<boolean> {
+    return this.records.delete(id);
+  }
+}
\ No newline at end of file
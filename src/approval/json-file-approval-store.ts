@@ -0,0 +1,191 @@
+import fs from 'fs';
+import path from 'path';
+import { ApprovalDecision, ApprovalRecord, ApprovalStore, applyClose, applyDecision } from './approval-interface';
+import { Logger } from '../utils/logger';
+
+/**
+ * Configuration for the JSON file approval store
+ */
+export interface JsonFileApprovalStoreConfig {
+  storageDir: string;     // Directory holding one JSON file per approval request
+}
+
+/**
+ * An approval store that writes each request to its own JSON file, so a
+ * separate process (CLI, dashboard, bot command) can list and decide on them
+ */
+export class JsonFileApprovalStore implements ApprovalStore {
+  private config: JsonFileApprovalStoreConfig;
+  private saving: Promise<void> = Promise.resolve();
+  private logger: Logger;
+
+  /**
+   * Creates a new JSON file approval store
+   *
+   * @param config - Configuration for the store
+   */
+  constructor(config: JsonFileApprovalStoreConfig) {
+    this.config = config;
+    this.logger = new Logger('JsonFileApprovalStore');
+
+    // Create storage directory if it doesn't exist
+    if (!fs.existsSync(this.config.storageDir)) {
+      fs.mkdirSync(this.config.storageDir, { recursive: true });
+      this.logger.debug('Created storage directory', { dir: this.config.storageDir });
+    }
+  }
+
+  /**
+   * Creates or replaces an approval record
+   *
+   * @param record - The record to save
+   */
+  save(record: ApprovalRecord): Promise<void> {
+    return this.serialize(() => this.writeRecord(record));
+  }
+
+  /**
+   * Loads an approval record by ID
+   *
+   * @param id - ID of the approval request
+   * @returns Promise resolving to the record, or undefined if not found
+   */
+  async get(id: string): Promise<ApprovalRecord | undefined> {
+    return this.readFile(this.getFilePath(id));
+  }
+
+  /**
+   * Lists records still waiting for a decision, oldest first
+   *
+   * @returns Promise resolving to the pending records
+   */
+  async listPending(): Promise<ApprovalRecord[]> {
+    const files = (await fs.promises.readdir(this.config.storageDir)).filter(f => f.endsWith('.json'));
+    const records = await Promise.all(
+      files.map(file => this.readFile(path.join(this.config.storageDir, file)))
+    );
+
+    return records
+      .filter((r): r is ApprovalRecord => r !== undefined && r.status === 'pending')
+      .sort((a, b) => a.created - b.created);
+  }
+
+  /**
+   * Records a decision on a pending request
+   *
+   * @param id - ID of the approval request
+   * @param decision - The decision
+   * @returns Promise resolving to the updated record
+   */
+  decide(id: string, decision: ApprovalDecision): Promise<ApprovalRecord> {
+    return this.serialize(async () => {
+      const record = await this.get(id);
+      if (!record) {
+        throw new Error(`Approval request not found: ${id}`);
+      }
+
+      const decided = applyDecision(record, decision);
+      await this.writeRecord(decided);
+
+      this.logger.debug('Recorded approval decision', { id, action: decision.action });
+      return decided;
+    });
+  }
+
+  /**
+   * Closes a request without a decision, if it is still pending
+   *
+   * @param id - ID of the approval request
+   * @param status - Why the request is closed
+   * @returns Promise resolving to the record as stored afterwards, or undefined if not found
+   */
+  close(id: string, status: 'expired' | 'cancelled'): Promise<ApprovalRecord | undefined> {
+    return this.serialize(async () => {
+      const record = await this.get(id);
+      if (!record) {
+        return undefined;
+      }
+
+      const closed = applyClose(record, status);
+      if (closed !== record) {
+        await this.writeRecord(closed);
+      }
+      return closed;
+    });
+  }
+
+  /**
+   * Deletes an approval record
+   *
+   * @param id - ID of the approval request
+   * @returns Promise resolving to true if deleted, false if not found
+   */
+  async delete(id: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(this.getFilePath(id));
+      return true;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Runs a write (or read-modify-write) after the ones already queued, so
+   * this process never interleaves updates to the same record
+   *
+   * @param task - The operation to run
+   * @returns Promise resolving to the operation's result
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.saving.then(task);
+    this.saving = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  /**
+   * Writes a record to its file
+   *
+   * Writes to a temporary file first so readers never see a partial record;
+   * the temporary name includes the process ID as other processes (e.g. an
+   * approval CLI) write to the same directory.
+   *
+   * @param record - The record to write
+   */
+  private async writeRecord(record: ApprovalRecord): Promise<void> {
+    const filePath = this.getFilePath(record.id);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    await fs.promises.writeFile(tempPath, JSON.stringify(record, null, 2), 'utf8');
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  /**
+   * Gets the file path for an approval request ID
+   *
+   * @param id - ID of the approval request
+   * @returns Path to the record's JSON file
+   */
+  private getFilePath(id: string): string {
+    return path.join(this.config.storageDir, `${encodeURIComponent(id)}.json`);
+  }
+
+  /**
+   * Reads one approval record file
+   *
+   * @param filePath - Path to the file
+   * @returns The record, or undefined if the file is missing or unreadable
+   */
+  private async readFile(filePath: string): Promise<ApprovalRecord | undefined> {
+    try {
+      return JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        this.logger.error('Failed to read approval file', { filePath, error });
+      }
+      return undefined;
+    }
+  }
+}
\ No newline at end of file
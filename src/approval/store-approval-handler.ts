@@ -0,0 +1,104 @@
+import {
+  ApprovalDecision,
+  ApprovalHandler,
+  ApprovalRequest,
+  ApprovalStore
+} from './approval-interface';
+import { AbortError } from '../utils/abort-utils';
+import { Logger } from '../utils/logger';
+
+/**
+ * Configuration for the store-backed approval handler
+ */
+export interface StoreApprovalHandlerConfig {
+  store: ApprovalStore;
+  pollInterval?: number;  // How often to check for a decision in milliseconds (default: 1000)
+  timeout?: number;       // Reject the call if nobody decides within this many milliseconds
+}
+
+/**
+ * An approval handler that persists each request as pending and waits until
+ * a decision is recorded in the store, typically by a separate process
+ */
+export class StoreApprovalHandler implements ApprovalHandler {
+  private config: StoreApprovalHandlerConfig;
+  private logger: Logger;
+
+  /**
+   * Creates a new store-backed approval handler
+   *
+   * @param config - Configuration for the handler
+   */
+  constructor(config: StoreApprovalHandlerConfig) {
+    this.config = {
+      pollInterval: 1000,
+      ...config
+    };
+
+    this.logger = new Logger('StoreApprovalHandler');
+  }
+
+  /**
+   * Stores the request and waits for a decision
+   *
+   * @param request - The tool call awaiting approval
+   * @param signal - Aborted when the run is cancelled
+   * @returns Promise resolving to the decision (a rejection if it expires)
+   */
+  async requestApproval(request: ApprovalRequest, signal?: AbortSignal): Promise<ApprovalDecision> {
+    const store = this.config.store;
+    await store.save({ ...request, status: 'pending' });
+
+    this.logger.info('Waiting for approval', { id: request.id, tool: request.tool });
+    const deadline = this.config.timeout !== undefined ? Date.now() + this.config.timeout : undefined;
+
+    while (true) {
+      const record = await store.get(request.id);
+
+      if (!record) {
+        return { action: 'reject', reason: 'The approval request was withdrawn' };
+      }
+      if (record.status === 'decided' && record.decision) {
+        return record.decision;
+      }
+
+      // Closing only touches a request that is still pending, so a decision
+      // recorded since the read above is never overwritten
+      if (signal?.aborted) {
+        await store.close(request.id, 'cancelled');
+        throw new AbortError('Run was cancelled while waiting for approval');
+      }
+
+      if (deadline !== undefined && Date.now() >= deadline) {
+        const closed = await store.close(request.id, 'expired');
+        if (closed?.status === 'decided' && closed.decision) {
+          return closed.decision;
+        }
+        this.logger.warn('Approval request expired', { id: request.id, tool: request.tool });
+        return { action: 'reject', reason: `No decision was made within ${this.config.timeout}ms` };
+      }
+
+      await this.wait(signal);
+    }
+  }
+
+  /**
+   * Sleeps for one poll interval, waking early if the signal aborts
+   *
+   * @param signal - Optional signal to observe
+   */
+  private wait(signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, this.config.pollInterval);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
\ No newline at end of file
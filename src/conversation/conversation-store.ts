@@ -0,0 +1,126 @@
+import { Conversation } from '../core/types';
+import { getTextContent } from '../utils/message-content';
+
+/**
+ * Interface for stores that persist agent conversations between runs
+ */
+export interface ConversationStore {
+  /**
+   * Loads a conversation by ID
+   *
+   * @param id - ID of the conversation
+   * @returns Promise resolving to the conversation, or undefined if not found
+   */
+  get(id: string): Promise<Conversation | undefined>;
+
+  /**
+   * Creates or replaces a conversation
+   *
+   * @param conversation - The conversation to save
+   * @returns Promise that resolves when the conversation is saved
+   */
+  save(conversation: Conversation): Promise<void>;
+
+  /**
+   * Lists conversations, most recently updated first
+   *
+   * @param options - Optional filters and paging
+   * @returns Promise resolving to conversation summaries
+   */
+  list(options?: ConversationListOptions): Promise<ConversationSummary[]>;
+
+  /**
+   * Finds conversations containing a piece of text (case-insensitive)
+   *
+   * @param query - Text to look for in message content
+   * @param options - Optional filters and paging
+   * @returns Promise resolving to summaries of matching conversations
+   */
+  search(query: string, options?: ConversationListOptions): Promise<ConversationSummary[]>;
+
+  /**
+   * Deletes a conversation by ID
+   *
+   * @param id - ID of the conversation to delete
+   * @returns Promise resolving to true if deleted, false if not found
+   */
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Filters and paging for listing or searching conversations
+ */
+export interface ConversationListOptions {
+  agentName?: string;     // Only conversations owned by this agent
+  limit?: number;         // Maximum number of results
+  offset?: number;        // Number of results to skip
+}
+
+/**
+ * Lightweight description of a stored conversation
+ */
+export interface ConversationSummary {
+  id: string;
+  agentName?: string;
+  messageCount: number;
+  preview: string;        // Start of the first user message
+  created: number;
+  updated: number;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Maximum length of ConversationSummary.preview
+ */
+export const PREVIEW_LENGTH = 100;
+
+/**
+ * Builds a summary of a conversation
+ *
+ * @param conversation - The conversation to summarize
+ * @returns The conversation summary
+ */
+export function toConversationSummary(conversation: Conversation): ConversationSummary {
+  const firstUserMessage = conversation.messages.find(m => m.role === 'user');
+
+  return {
+    id: conversation.id,
+    agentName: conversation.agentName,
+    messageCount: conversation.messages.length,
+    preview: firstUserMessage ? getTextContent(firstUserMessage.content).slice(0, PREVIEW_LENGTH) : '',
+    created: conversation.created,
+    updated: conversation.updated,
+    metadata: conversation.metadata
+  };
+}
+
+/**
+ * Checks whether any message in a conversation contains the query
+ *
+ * @param conversation - The conversation to check
+ * @param query - Text to look for (case-insensitive)
+ * @returns True if a message contains the query
+ */
+export function conversationMatches(conversation: Conversation, query: string): boolean {
+  const needle = query.toLowerCase();
+  return conversation.messages.some(m => getTextContent(m.content).toLowerCase().includes(needle));
+}
+
+/**
+ * Applies list filters, recency ordering and paging to conversations
+ *
+ * @param conversations - Conversations to filter
+ * @param options - Filters and paging
+ * @returns The selected conversations
+ */
+export function selectConversations(
+  conversations: Conversation[],
+  options: ConversationListOptions = {}
+): Conversation[] {
+  const offset = options.offset || 0;
+
+  return conversations
+    .filter(c => !options.agentName || c.agentName === options.agentName)
+    .sort((a, b) => b.updated - a.updated)
+    .slice(offset, options.limit !== undefined ? offset + options.limit : undefined);
+}
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { Conversation } from '../core/types';
+import {
+  ConversationStore,
+  ConversationListOptions,
+  ConversationSummary,
+  conversationMatches,
+  selectConversations,
+  toConversationSummary
+} from './conversation-store';
+import { Logger } from '../utils/logger';
+
+/**
+ * A conversation store that keeps conversations in process memory
+ *
+ * Conversations are copied on save and load so callers cannot mutate stored state.
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  private conversations: Map<string, Conversation> = new Map();
+  private logger: Logger;
+
+  /**
+   * Creates a new in-memory conversation store
+   */
+  constructor() {
+    this.logger = new Logger('InMemoryConversationStore');
+  }
+
+  /**
+   * Loads a conversation by ID
+   *
+   * @param id - ID of the conversation
+   * @returns Promise resolving to the conversation, or undefined if not found
+   */
+  async get(id: string): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    return conversation ? structuredClone(conversation) : undefined;
+  }
+
+  /**
+   * Creates or replaces a conversation
+   *
+   * @param conversation - The conversation to save
+   */
+  async save(conversation: Conversation): Promise<void> {
+    this.conversations.set(conversation.id, structuredClone(conversation));
+    this.logger.debug('Saved conversation', { id: conversation.id, messages: conversation.messages.length });
+  }
+
+  /**
+   * Lists conversations, most recently updated first
+   *
+   * @param options - Optional filters and paging
+   * @returns Promise resolving to conversation summaries
+   */
+  async list(options?: ConversationListOptions): Promise<ConversationSummary[]> {
+    return selectConversations(Array.from(this.conversations.values()), options).map(toConversationSummary);
+  }
+
+  /**
+   * Finds conversations containing a piece of text (case-insensitive)
+   *
+   * @param query - Text to look for in message content
+   * @param options - Optional filters and paging
+   * @returns Promise resolving to summaries of matching conversations
+   */
+  async search(query: string, options?: ConversationListOptions): Promise<ConversationSummary[]> {
+    const matches = Array.from(this.conversations.values()).filter(c => conversationMatches(c, query));
+    return selectConversations(matches, options).map(toConversationSummary);
+  }
+
+  /**
+   * Deletes a conversation by ID
+   *
+   * @param id - ID of the conversation to delete
+   * @returns Promise resolving to true if deleted, false if not found
+   */
+  async delete(id: string): Promise<boolean> {
+    const deleted = this.conversations.delete(id);
+    if (deleted) {
+      this.logger.debug('Deleted conversation', { id });
+    }
+    return deleted;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,151 @@
+import fs from 'fs';
+import path from 'path';
+import { Conversation } from '../core/types';
+import {
+  ConversationStore,
+  ConversationListOptions,
+  ConversationSummary,
+  conversationMatches,
+  selectConversations,
+  toConversationSummary
+} from './conversation-store';
+import { Logger } from '../utils/logger';
+
+/**
+ * Configuration for the JSON file conversation store
+ */
+export interface JsonFileConversationStoreConfig {
+  storageDir: string;     // Directory holding one JSON file per conversation
+}
+
+/**
+ * A conversation store that writes each conversation to its own JSON file
+ */
+export class JsonFileConversationStore implements ConversationStore {
+  private config: JsonFileConversationStoreConfig;
+  private logger: Logger;
+
+  /**
+   * Creates a new JSON file conversation store
+   *
+   * @param config - Configuration for the store
+   */
+  constructor(config: JsonFileConversationStoreConfig) {
+    this.config = config;
+    this.logger = new Logger('JsonFileConversationStore');
+
+    // Create storage directory if it doesn't exist
+    if (!fs.existsSync(this.config.storageDir)) {
+      fs.mkdirSync(this.config.storageDir, { recursive: true });
+      this.logger.debug('Created storage directory', { dir: this.config.storageDir });
+    }
+  }
+
+  /**
+   * Loads a conversation by ID
+   *
+   * @param id - ID of the conversation
+   * @returns Promise resolving to the conversation, or undefined if not found
+   */
+  async get(id: string): Promise<Conversation | undefined> {
+    return this.readFile(this.getFilePath(id));
+  }
+
+  /**
+   * Creates or replaces a conversation
+   *
+   * Writes to a temporary file first so a crash never leaves a truncated file.
+   *
+   * @param conversation - The conversation to save
+   */
+  async save(conversation: Conversation): Promise<void> {
+    const filePath = this.getFilePath(conversation.id);
+    const tempPath = `${filePath}.tmp`;
+
+    await fs.promises.writeFile(tempPath, JSON.stringify(conversation, null, 2), 'utf8');
+    await fs.promises.rename(tempPath, filePath);
+
+    this.logger.debug('Saved conversation', { id: conversation.id, messages: conversation.messages.length });
+  }
+
+  /**
+   * Lists conversations, most recently updated first
+   *
+   * @param options - Optional filters and paging
+   * @returns Promise resolving to conversation summaries
+   */
+  async list(options?: ConversationListOptions): Promise<ConversationSummary[]> {
+    return selectConversations(await this.readAll(), options).map(toConversationSummary);
+  }
+
+  /**
+   * Finds conversations containing a piece of text (case-insensitive)
+   *
+   * @param query - Text to look for in message content
+   * @param options - Optional filters and paging
+   * @returns Promise resolving to summaries of matching conversations
+   */
+  async search(query: string, options?: ConversationListOptions): Promise<ConversationSummary[]> {
+    const matches = (await this.readAll()).filter(c => conversationMatches(c, query));
+    return selectConversations(matches, options).map(toConversationSummary);
+  }
+
+  /**
+   * Deletes a conversation by ID
+   *
+   * @param id - ID of the conversation to delete
+   * @returns Promise resolving to true if deleted, false if not found
+   */
+  async delete(id: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(this.getFilePath(id));
+      this.logger.debug('Deleted conversation', { id });
+      return true;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the file path for a conversation ID
+   *
+   * @param id - ID of the conversation
+   * @returns Path to the conversation's JSON file
+   */
+  private getFilePath(id: string): string {
+    return path.join(this.config.storageDir, `${encodeURIComponent(id)}.json`);
+  }
+
+  /**
+   * Reads one conversation file
+   *
+   * @param filePath - Path to the file
+   * @returns The conversation, or undefined if the file is missing or unreadable
+   */
+  private async readFile(filePath: string): Promise<Conversation | undefined> {
+    try {
+      return JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        this.logger.error('Failed to read conversation file', { filePath, error });
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Reads every stored conversation
+   *
+   * @returns All conversations that could be read
+   */
+  private async readAll(): Promise<Conversation[]> {
+    const files = (await fs.promises.readdir(this.config.storageDir)).filter(f => f.endsWith('.json'));
+    const conversations = await Promise.all(
+      files.map(file => this.readFile(path.join(this.config.storageDir, file)))
+    );
+    return conversations.filter((c): c is Conversation => c !== undefined);
+  }
+}
\ No newline at end of file
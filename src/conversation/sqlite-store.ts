@@ -0,0 +1,252 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Conversation, Message } from '../core/types';
+import {
+  ConversationStore,
+  ConversationListOptions,
+  ConversationSummary,
+  PREVIEW_LENGTH
+} from './conversation-store';
+import { Logger } from '../utils/logger';
+import { getTextContent } from '../utils/message-content';
+
+/**
+ * Configuration for the SQLite conversation store
+ */
+export interface SqliteConversationStoreConfig {
+  filePath: string;       // Path to the database file (":memory:" for a temporary database)
+}
+
+/**
+ * Row shape returned by the summary queries
+ */
+interface ConversationRow {
+  id: string;
+  agent_name: string | null;
+  created: number;
+  updated: number;
+  metadata: string | null;
+  message_count: number;
+  preview: string | null;
+}
+
+/**
+ * A conversation store backed by a SQLite database
+ *
+ * Messages are stored one row each so searching does not have to load whole
+ * conversations.
+ */
+export class SqliteConversationStore implements ConversationStore {
+  private db: Database.Database;
+  private logger: Logger;
+
+  /**
+   * Creates a new SQLite conversation store
+   *
+   * @param config - Configuration for the store
+   */
+  constructor(config: SqliteConversationStoreConfig) {
+    this.logger = new Logger('SqliteConversationStore');
+
+    // Create the database directory if it doesn't exist
+    if (config.filePath !== ':memory:') {
+      const dir = path.dirname(config.filePath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+    }
+
+    this.db = new Database(config.filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.migrate();
+  }
+
+  /**
+   * Loads a conversation by ID
+   *
+   * @param id - ID of the conversation
+   * @returns Promise resolving to the conversation, or undefined if not found
+   */
+  async get(id: string): Promise<Conversation | undefined> {
+    const row = this.db
+      .prepare('SELECT id, agent_name, created, updated, metadata FROM conversations WHERE id = ?')
+      .get(id) as Omit<ConversationRow, 'message_count' | 'preview'> | undefined;
+
+    if (!row) {
+      return undefined;
+    }
+
+    const messages = (this.db
+      .prepare('SELECT data FROM messages WHERE conversation_id = ? ORDER BY position')
+      .all(id) as { data: string }[])
+      .map(m => JSON.parse(m.data) as Message);
+
+    return {
+      id: row.id,
+      agentName: row.agent_name || undefined,
+      messages,
+      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+      created: row.created,
+      updated: row.updated
+    };
+  }
+
+  /**
+   * Creates or replaces a conversation
+   *
+   * @param conversation - The conversation to save
+   */
+  async save(conversation: Conversation): Promise<void> {
+    const upsertConversation = this.db.prepare(`
+      INSERT INTO conversations (id, agent_name, created, updated, metadata)
+      VALUES (@id, @agentName, @created, @updated, @metadata)
+      ON CONFLICT(id) DO UPDATE SET
+        agent_name = excluded.agent_name,
+        updated = excluded.updated,
+        metadata = excluded.metadata
+    `);
+    const deleteMessages = this.db.prepare('DELETE FROM messages WHERE conversation_id = ?');
+    const insertMessage = this.db.prepare(
+      'INSERT INTO messages (conversation_id, position, role, content, data) VALUES (?, ?, ?, ?, ?)'
+    );
+
+    this.db.transaction(() => {
+      upsertConversation.run({
+        id: conversation.id,
+        agentName: conversation.agentName ?? null,
+        created: conversation.created,
+        updated: conversation.updated,
+        metadata: conversation.metadata ? JSON.stringify(conversation.metadata) : null
+      });
+
+      deleteMessages.run(conversation.id);
+      conversation.messages.forEach((message, position) => {
+        insertMessage.run(conversation.id, position, message.role, getTextContent(message.content), JSON.stringify(message));
+      });
+    })();
+
+    this.logger.debug('Saved conversation', { id: conversation.id, messages: conversation.messages.length });
+  }
+
+  /**
+   * Lists conversations, most recently updated first
+   *
+   * @param options - Optional filters and paging
+   * @returns Promise resolving to conversation summaries
+   */
+  async list(options: ConversationListOptions = {}): Promise<ConversationSummary[]> {
+    return this.querySummaries(options);
+  }
+
+  /**
+   * Finds conversations containing a piece of text (case-insensitive)
+   *
+   * @param query - Text to look for in message content
+   * @param options - Optional filters and paging
+   * @returns Promise resolving to summaries of matching conversations
+   */
+  async search(query: string, options: ConversationListOptions = {}): Promise<ConversationSummary[]> {
+    return this.querySummaries(options, query);
+  }
+
+  /**
+   * Deletes a conversation by ID
+   *
+   * @param id - ID of the conversation to delete
+   * @returns Promise resolving to true if deleted, false if not found
+   */
+  async delete(id: string): Promise<boolean> {
+    // Messages are removed by the ON DELETE CASCADE foreign key
+    const result = this.db.prepare('DELETE FROM conversations WHERE id = ?').run(id);
+
+    if (result.changes > 0) {
+      this.logger.debug('Deleted conversation', { id });
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Closes the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Creates the schema if it doesn't exist
+   */
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        agent_name TEXT,
+        created INTEGER NOT NULL,
+        updated INTEGER NOT NULL,
+        metadata TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_conversations_agent ON conversations (agent_name, updated);
+
+      CREATE TABLE IF NOT EXISTS messages (
+        conversation_id TEXT NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (conversation_id, position)
+      );
+    `);
+  }
+
+  /**
+   * Runs the shared list/search query
+   *
+   * @param options - Filters and paging
+   * @param query - Optional text that a message must contain
+   * @returns Conversation summaries, most recently updated first
+   */
+  private querySummaries(options: ConversationListOptions, query?: string): ConversationSummary[] {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (options.agentName) {
+      conditions.push('c.agent_name = ?');
+      params.push(options.agentName);
+    }
+
+    if (query) {
+      conditions.push(`EXISTS (
+        SELECT 1 FROM messages m
+        WHERE m.conversation_id = c.id AND m.content LIKE ? ESCAPE '\\'
+      )`);
+      params.push(`%${query.replace(/[\\%_]/g, char => `\\${char}`)}%`);
+    }
+
+    params.push(options.limit ?? -1, options.offset ?? 0);
+
+    const rows = this.db.prepare(`
+      SELECT
+        c.id, c.agent_name, c.created, c.updated, c.metadata,
+        (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id) AS message_count,
+        (SELECT content FROM messages m
+          WHERE m.conversation_id = c.id AND m.role = 'user'
+          ORDER BY m.position LIMIT 1) AS preview
+      FROM conversations c
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY c.updated DESC
+      LIMIT ? OFFSET ?
+    `).all(...params) as ConversationRow[];
+
+    return rows.map(row => ({
+      id: row.id,
+      agentName: row.agent_name || undefined,
+      messageCount: row.message_count,
+      preview: (row.preview || '').slice(0, PREVIEW_LENGTH),
+      created: row.created,
+      updated: row.updated,
+      metadata: row.metadata ? JSON.parse(row.metadata) : undefined
+    }));
+  }
+}
\ No newline at end of file
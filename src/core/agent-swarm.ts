@@ -1,12 +1,16 @@
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
 import { Agent } from './agent';
-import { RunOptions, RunResult, AgentEvent } from './types';
+import { AgentMiddleware } from './middleware';
+import { RunOptions, RunResult, AgentEvent, AgentStreamEvent } from './types';
 import { FeedbackSystem } from './feedback-system';
-import { PlannerInterface, PlanningStrategy } from '../planning/planner-interface';
+import { PlannerInterface, PlanningStrategy, createSubtaskOptions, createSummaryOptions } from '../planning/planner-interface';
 import { DefaultPlanner } from '../planning/default-planner';
 import { Logger } from '../utils/logger';
 import { createCollaborationPrompt } from '../utils/prompt-utils';
+import { createCancelledResult, createLinkedSignal, getAbortReason } from '../utils/abort-utils';
+import { createEventStream, emitTaskStatus } from '../utils/event-stream';
+import { UsageLedger } from '../usage/usage-ledger';
 
 /**
  * Configuration for creating an agent swarm
@@ -17,6 +21,8 @@ export interface AgentSwarmConfig {
   planningStrategy?: 'sequential' | 'parallel' | 'hierarchical'; // Use string literals instead of enum
   maxConcurrentAgents?: number;
   enableFeedback?: boolean;
+  middleware?: AgentMiddleware[]; // Applied to every member agent and the coordinator
+  usageLedger?: UsageLedger; // Records usage of every member agent and the coordinator
 }
 
 /**
@@ -53,6 +59,8 @@ export class AgentSwarm extends EventEmitter {
   private coordinator: Agent;
   private planningStrategy: 'sequential' | 'parallel' | 'hierarchical';
   private maxConcurrentAgents: number;
+  private middleware: AgentMiddleware[] = [];
+  protected usageLedger?: UsageLedger;
   private logger: Logger;
   private feedbackSystem?: FeedbackSystem; // Optional, only initialized if feedback is enabled
   
@@ -93,6 +101,63 @@ export class AgentSwarm extends EventEmitter {
     this.planningStrategy = config.planningStrategy || 'sequential';
     this.maxConcurrentAgents = config.maxConcurrentAgents || 3;
     this.logger = new Logger(`AgentSwarm:${this.id}`);
+    
+    (config.middleware || []).forEach(middleware => this.use(middleware));
+    if (config.usageLedger) {
+      this.setUsageLedger(config.usageLedger);
+    }
+  }
+  
+  /**
+   * Sets the usage ledger on every member agent and the coordinator,
+   * including agents added later
+   * 
+   * Swarm runs are tracked as a single ledger run, so per-run budgets apply
+   * to the whole swarm run.
+   * 
+   * @param ledger - The usage ledger to use
+   * @returns The swarm instance (for chaining)
+   */
+  setUsageLedger(ledger: UsageLedger): AgentSwarm {
+    this.usageLedger = ledger;
+    this.getAllAgents().forEach(agent => agent.setUsageLedger(ledger));
+    this.coordinator.setUsageLedger(ledger);
+    return this;
+  }
+  
+  /**
+   * Adds middleware to every member agent and the coordinator, including
+   * agents added later
+   * 
+   * @param middleware - The middleware to add
+   * @returns The swarm instance (for chaining)
+   */
+  use(middleware: AgentMiddleware): AgentSwarm {
+    if (!this.middleware.includes(middleware)) {
+      this.middleware.push(middleware);
+    }
+    
+    this.getAllAgents().forEach(agent => agent.use(middleware));
+    this.coordinator.use(middleware);
+    return this;
+  }
+  
+  /**
+   * Removes swarm-level middleware from every member agent and the coordinator
+   * 
+   * @param middleware - The middleware to remove
+   * @returns True if it was swarm-level middleware
+   */
+  removeMiddleware(middleware: AgentMiddleware): boolean {
+    const index = this.middleware.indexOf(middleware);
+    if (index === -1) {
+      return false;
+    }
+    
+    this.middleware.splice(index, 1);
+    this.getAllAgents().forEach(agent => agent.removeMiddleware(middleware));
+    this.coordinator.removeMiddleware(middleware);
+    return true;
   }
   
   /**
@@ -103,6 +168,10 @@ export class AgentSwarm extends EventEmitter {
    */
   addAgent(agent: Agent): AgentSwarm {
     this.agents.set(agent.id, agent);
+    this.middleware.forEach(middleware => agent.use(middleware));
+    if (this.usageLedger) {
+      agent.setUsageLedger(this.usageLedger);
+    }
     return this;
   }
   
@@ -113,6 +182,10 @@ export class AgentSwarm extends EventEmitter {
    * @returns Boolean indicating if an agent was removed
    */
   removeAgent(agentId: string): boolean {
+    const agent = this.agents.get(agentId);
+    if (agent) {
+      this.middleware.forEach(middleware => agent.removeMiddleware(middleware));
+    }
     return this.agents.delete(agentId);
   }
   
@@ -142,6 +215,13 @@ export class AgentSwarm extends EventEmitter {
    * @returns The swarm instance (for chaining)
    */
   setCoordinator(agent: Agent): AgentSwarm {
+    this.middleware.forEach(middleware => {
+      this.coordinator.removeMiddleware(middleware);
+      agent.use(middleware);
+    });
+    if (this.usageLedger) {
+      agent.setUsageLedger(this.usageLedger);
+    }
     this.coordinator = agent;
     return this;
   }
@@ -155,36 +235,96 @@ export class AgentSwarm extends EventEmitter {
   async run(options: RunOptions): Promise<RunResult> {
     this.logger.info('Running swarm', { task: options.task });
     
-    // Create a coordination plan
-    const plan = await this.createCoordinationPlan(options.task);
-    
-    // Execute the plan based on the planning strategy
-    let result: RunResult;
-    
-    switch (this.planningStrategy) {
-      case 'parallel':
-        result = await this.executeParallel(plan, options);
-        break;
-      case 'hierarchical':
-        result = await this.executeHierarchical(plan, options);
-        break;
-      case 'sequential':
-      default:
-        result = await this.executeSequential(plan, options);
-        break;
+    // One signal for the whole swarm run, shared by the coordinator and every member agent
+    const linked = createLinkedSignal(options.signal, options.timeout, 'Swarm run');
+    
+    // Charge the coordinator and every member to one ledger run
+    const ownsUsageRun = !!this.usageLedger && !options.usageRunId;
+    const usageRunId = ownsUsageRun ? this.usageLedger!.beginRun(error => linked.abort(error)) : options.usageRunId;
+    options = { ...options, signal: linked.signal, timeout: undefined, usageRunId };
+    
+    try {
+      // Create a coordination plan
+      const plan = await this.createCoordinationPlan(options.task, options.signal, usageRunId);
+      options.onEvent?.({
+        type: 'plan_created',
+        planId: plan.id,
+        tasks: plan.tasks.map(t => ({ id: t.id, description: t.description, dependencies: t.dependencies }))
+      });
+      
+      if (options.signal?.aborted) {
+        this.emit(AgentEvent.CANCELLED, { task: options.task, reason: getAbortReason(options.signal) });
+        return createCancelledResult('', undefined, options.signal);
+      }
+      
+      // Execute the plan based on the planning strategy
+      let result: RunResult;
+      
+      switch (this.planningStrategy) {
+        case 'parallel':
+          result = await this.executeParallel(plan, options);
+          break;
+        case 'hierarchical':
+          result = await this.executeHierarchical(plan, options);
+          break;
+        case 'sequential':
+        default:
+          result = await this.executeSequential(plan, options);
+          break;
+      }
+      
+      if (result.cancelled) {
+        this.logger.info('Swarm execution cancelled', { reason: result.cancelReason });
+        this.emit(AgentEvent.CANCELLED, { task: options.task, reason: result.cancelReason });
+      } else {
+        this.logger.info('Swarm execution completed');
+      }
+      
+      if (ownsUsageRun) {
+        result.usage = this.usageLedger!.getSummary({ runId: usageRunId });
+      }
+      return result;
+    } finally {
+      if (ownsUsageRun) {
+        this.usageLedger!.endRun(usageRunId!);
+      }
+      linked.cleanup();
     }
-    
-    this.logger.info('Swarm execution completed');
-    return result;
+  }
+  
+  /**
+   * Runs the swarm and yields typed progress events as they happen
+   * 
+   * Yields the coordination plan, task status changes, member agents' text and
+   * tool events, and finally a `final_result` event. Breaking out of the loop
+   * early cancels the run.
+   * 
+   * @param options - Execution options including the task to perform
+   * @returns Async iterable of stream events
+   */
+  stream(options: RunOptions): AsyncIterable<AgentStreamEvent> {
+    return createEventStream<AgentStreamEvent>(async (emit, signal) => {
+      const result = await this.run({
+        ...options,
+        signal,
+        onEvent: event => {
+          options.onEvent?.(event);
+          emit(event);
+        }
+      });
+      emit({ type: 'final_result', result });
+    }, options.signal);
   }
   
   /**
    * Creates a coordination plan for the swarm
    * 
    * @param task - The task to create a plan for
+   * @param signal - Optional signal that cancels plan creation
+   * @param usageRunId - Optional usage ledger run to charge the planning call to
    * @returns Promise resolving to the created plan
    */
-  private async createCoordinationPlan(task: string): Promise<SwarmPlan> {
+  private async createCoordinationPlan(task: string, signal?: AbortSignal, usageRunId?: string): Promise<SwarmPlan> {
     this.logger.debug('Creating coordination plan');
     
     // Get all agent names for the prompt
@@ -198,6 +338,8 @@ export class AgentSwarm extends EventEmitter {
     // Ask the coordinator to create a plan
     const planResult = await this.coordinator.run({
       task: collaborationPrompt,
+      signal,
+      usageRunId
     });
     
     // Parse the coordination plan from the response
@@ -244,6 +386,11 @@ export class AgentSwarm extends EventEmitter {
     
     // Execute tasks in sequence, respecting dependencies
     for (const task of currentPlan.tasks) {
+      // Stop before starting new work once the run is cancelled
+      if (options.signal?.aborted) {
+        break;
+      }
+      
       // Check if all dependencies are completed
       const dependencies = currentPlan.tasks.filter(t => task.dependencies.includes(t.id));
       const canExecute = dependencies.every(d => d.status === 'completed');
@@ -252,6 +399,7 @@ export class AgentSwarm extends EventEmitter {
         this.logger.warn('Cannot execute task, dependencies not met', { taskId: task.id });
         currentPlan = this.updateTaskStatus(currentPlan, task.id, 'failed', 
           undefined, 'Dependencies not satisfied');
+        emitTaskStatus(options, currentPlan, task.id);
         continue;
       }
       
@@ -261,11 +409,13 @@ export class AgentSwarm extends EventEmitter {
         this.logger.error('Agent not found', { agentId: task.agentId });
         currentPlan = this.updateTaskStatus(currentPlan, task.id, 'failed', 
           undefined, 'Agent not found');
+        emitTaskStatus(options, currentPlan, task.id);
         continue;
       }
       
       // Update status to in_progress
       currentPlan = this.updateTaskStatus(currentPlan, task.id, 'in_progress');
+      emitTaskStatus(options, currentPlan, task.id);
       
       // Emit progress event
       this.emit(AgentEvent.THINKING, { 
@@ -274,10 +424,14 @@ export class AgentSwarm extends EventEmitter {
       
       try {
         // Execute the task
-        const taskResult = await agent.run({
-          ...options,
-          task: task.description,
-        });
+        const taskResult = await agent.run(createSubtaskOptions(options, task.description));
+        
+        if (taskResult.cancelled) {
+          currentPlan = this.updateTaskStatus(currentPlan, task.id, 'failed', 
+            taskResult.response, 'Cancelled');
+          emitTaskStatus(options, currentPlan, task.id);
+          break;
+        }
         
         // Store the result
         results.push({
@@ -293,6 +447,7 @@ export class AgentSwarm extends EventEmitter {
           'completed', 
           taskResult.response
         );
+        emitTaskStatus(options, currentPlan, task.id);
       } catch (error) {
         this.logger.error('Task execution failed', { taskId: task.id, error });
         
@@ -304,6 +459,7 @@ export class AgentSwarm extends EventEmitter {
           undefined, 
           error instanceof Error ? error.message : String(error)
         );
+        emitTaskStatus(options, currentPlan, task.id);
         
         // Mark the plan as failed
         currentPlan = {
@@ -326,6 +482,12 @@ export class AgentSwarm extends EventEmitter {
       };
     }
     
+    // Return the partial results without synthesis if the run was cancelled
+    if (options.signal?.aborted) {
+      return createCancelledResult(
+        results.map(r => `${r.agent}: ${r.result}`).join('\n\n'), undefined, options.signal);
+    }
+    
     // Ask the coordinator to synthesize the results
     const synthesisPrompt = `
       I've coordinated a group of agents to complete this task:
@@ -343,14 +505,15 @@ export class AgentSwarm extends EventEmitter {
     `;
     
     // Get the synthesis
-    const synthesis = await this.coordinator.run({
-      ...options,
-      task: synthesisPrompt,
-    });
+    const synthesis = await this.coordinator.run(createSummaryOptions(options, synthesisPrompt));
     
     return {
       response: synthesis.response,
       conversation: synthesis.conversation,
+    
+      data: synthesis.data,
+    
+      dataErrors: synthesis.dataErrors,
     };
   }
   
@@ -376,6 +539,11 @@ export class AgentSwarm extends EventEmitter {
     
     // While we have pending tasks
     while (currentPlan.tasks.some(t => t.status === 'pending' || t.status === 'in_progress')) {
+      // Stop scheduling new work once the run is cancelled
+      if (options.signal?.aborted) {
+        break;
+      }
+      
       // Find tasks that can be executed in parallel
       const executableTasks = currentPlan.tasks.filter(task => {
         // Task must be pending
@@ -404,6 +572,7 @@ export class AgentSwarm extends EventEmitter {
       // Update status to in_progress
       for (const task of tasksToExecute) {
         currentPlan = this.updateTaskStatus(currentPlan, task.id, 'in_progress');
+        emitTaskStatus(options, currentPlan, task.id);
       }
       
       // Execute tasks in parallel
@@ -426,10 +595,15 @@ export class AgentSwarm extends EventEmitter {
         
         try {
           // Execute the task
-          const taskResult = await agent.run({
-            ...options,
-            task: task.description,
-          });
+          const taskResult = await agent.run(createSubtaskOptions(options, task.description));
+          
+          if (taskResult.cancelled) {
+            return {
+              task,
+              status: 'failed' as const,
+              error: 'Cancelled'
+            };
+          }
           
           // Return the result
           return {
@@ -470,6 +644,7 @@ export class AgentSwarm extends EventEmitter {
             'completed', 
             taskResult.result
           );
+          emitTaskStatus(options, currentPlan, taskResult.task.id);
           
           // Request feedback if enabled
           if (this.feedbackSystem && this.feedbackSystem.shouldRequestFeedback()) {
@@ -495,7 +670,8 @@ export class AgentSwarm extends EventEmitter {
                 taskResult.task.description,
                 taskResult.result || '',
                 producer,
-                evaluator
+                evaluator,
+                options.usageRunId
               ).then(feedback => {
                 this.emit(AgentEvent.THINKING, { 
                   message: `Received feedback from ${evaluator.config.name} on ${producer.config.name}'s work` 
@@ -514,6 +690,7 @@ export class AgentSwarm extends EventEmitter {
             undefined, 
             taskResult.error
           );
+          emitTaskStatus(options, currentPlan, taskResult.task.id);
         }
       }
     }
@@ -534,6 +711,12 @@ export class AgentSwarm extends EventEmitter {
       };
     }
     
+    // Return the partial results without synthesis if the run was cancelled
+    if (options.signal?.aborted) {
+      return createCancelledResult(
+        results.map(r => `${r.agent}: ${r.result}`).join('\n\n'), undefined, options.signal);
+    }
+    
     // Ask the coordinator to synthesize the results
     const synthesisPrompt = `
       I've coordinated a group of agents to complete this task:
@@ -551,14 +734,15 @@ export class AgentSwarm extends EventEmitter {
     `;
     
     // Get the synthesis
-    const synthesis = await this.coordinator.run({
-      ...options,
-      task: synthesisPrompt,
-    });
+    const synthesis = await this.coordinator.run(createSummaryOptions(options, synthesisPrompt));
     
     return {
       response: synthesis.response,
       conversation: synthesis.conversation,
+    
+      data: synthesis.data,
+    
+      dataErrors: synthesis.dataErrors,
     };
   }
   
@@ -582,8 +766,22 @@ export class AgentSwarm extends EventEmitter {
     
     // For each agent, combine their tasks into one larger task
     const agentResults = [];
+    let currentPlan = plan;
+    
+    // Grouped tasks share one run, so they change status together
+    const setGroupStatus = (tasks: AgentTask[], status: AgentTask['status'], result?: string, error?: string) => {
+      for (const task of tasks) {
+        currentPlan = this.updateTaskStatus(currentPlan, task.id, status, result, error);
+        emitTaskStatus(options, currentPlan, task.id);
+      }
+    };
     
     for (const [agentId, tasks] of agentTaskMap.entries()) {
+      // Stop before starting new work once the run is cancelled
+      if (options.signal?.aborted) {
+        break;
+      }
+      
       const agent = this.agents.get(agentId);
       if (!agent) {
         this.logger.error('Agent not found', { agentId });
@@ -604,12 +802,17 @@ export class AgentSwarm extends EventEmitter {
         message: `Agent ${agent.config.name} executing ${tasks.length} tasks` 
       });
       
+      setGroupStatus(tasks, 'in_progress');
+      
       try {
-        const result = await agent.run({
-          ...options,
-          task: combinedTask,
-        });
+        const result = await agent.run(createSubtaskOptions(options, combinedTask));
+        
+        if (result.cancelled) {
+          setGroupStatus(tasks, 'failed', result.response, 'Cancelled');
+          break;
+        }
         
+        setGroupStatus(tasks, 'completed', result.response);
         agentResults.push({
           agent: agent.config.name,
           tasks: tasks.map(t => t.description),
@@ -617,9 +820,16 @@ export class AgentSwarm extends EventEmitter {
         });
       } catch (error) {
         this.logger.error('Agent execution failed', { agentId, error });
+        setGroupStatus(tasks, 'failed', undefined, error instanceof Error ? error.message : String(error));
       }
     }
     
+    // Return the partial results without synthesis if the run was cancelled
+    if (options.signal?.aborted) {
+      return createCancelledResult(
+        agentResults.map(r => `${r.agent}: ${r.result}`).join('\n\n'), undefined, options.signal);
+    }
+    
     // Ask the coordinator to synthesize the results
     const synthesisPrompt = `
       I've coordinated a group of agents to complete this task:
@@ -637,14 +847,15 @@ export class AgentSwarm extends EventEmitter {
     `;
     
     // Get the synthesis
-    const synthesis = await this.coordinator.run({
-      ...options,
-      task: synthesisPrompt,
-    });
+    const synthesis = await this.coordinator.run(createSummaryOptions(options, synthesisPrompt));
     
     return {
       response: synthesis.response,
       conversation: synthesis.conversation,
+    
+      data: synthesis.data,
+    
+      dataErrors: synthesis.dataErrors,
     };
   }
   
@@ -8,27 +8,97 @@ import {
   Conversation, 
   RunOptions, 
   RunResult,
-  Tool
+  Tool,
+  ApprovalPolicy,
+  AgentStreamEvent,
+  ToolCallRecord,
+  ToolErrorKind
 } from './types';
 import { MemoryInterface } from '../memory/memory-interface';
 import { EnhancedMemoryInterface } from '../memory/enhanced-memory-interface';
-import { LLMProviderInterface } from './provider-interface';
+import { AgentMemory, toAgentMemory } from '../memory/agent-memory';
+import {
+  DefaultContextPolicy,
+  DefaultWritePolicy,
+  MemoryContextPolicy,
+  MemoryPolicies,
+  MemoryWritePolicy
+} from '../memory/memory-policies';
+import {
+  LLMProviderInterface,
+  GenerateOptions,
+  GenerateResult,
+  ProviderStreamEvent,
+  ToolCall
+} from './provider-interface';
+import { ModelInfo } from './model-catalog';
 import { ProviderFactory, ProviderConfig } from './provider-factory';
 import { PlannerInterface } from '../planning/planner-interface';
+import { ContextManager, estimateToolTokens } from './context-manager';
+import { AgentMiddleware, HookContext, MiddlewarePipeline } from './middleware';
+import { ApprovalDecision, ApprovalHandler, ApprovalRequest, requiresApproval } from '../approval/approval-interface';
+import {
+  ConversationStore,
+  ConversationListOptions,
+  ConversationSummary
+} from '../conversation/conversation-store';
 import { DefaultPlanner } from '../planning/default-planner';
 import { createSystemPrompt } from '../utils/prompt-utils';
+import {
+  formatSchemaErrors,
+  SchemaValidationError,
+  SchemaValidationResult,
+  validateSchema
+} from '../utils/schema-validator';
+import { extractJson } from '../utils/structured-output';
+import {
+  AbortError,
+  createCancelledResult,
+  createLinkedSignal,
+  getAbortReason,
+  raceWithSignal,
+  runWithTimeout
+} from '../utils/abort-utils';
+import { createEventStream } from '../utils/event-stream';
+import { UsageLedger } from '../usage/usage-ledger';
+import { appendContentParts, getTextContent } from '../utils/message-content';
 import { Logger } from '../utils/logger';
 
+/**
+ * Default cap on model calls per run when RunOptions.maxSteps is not set
+ */
+const DEFAULT_MAX_STEPS = 10;
+
+/**
+ * Default number of re-prompts when an answer fails RunOptions.responseSchema
+ */
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Name given to the response format when requesting structured output
+ */
+const RESPONSE_FORMAT_NAME = 'final_response';
+
 /**
  * Core Agent class that serves as the foundation for AI agents in the framework
  */
 export class Agent extends EventEmitter {
   id: string;
   config: AgentConfig;
-  memory?: MemoryInterface | EnhancedMemoryInterface;
+  memory?: MemoryInterface | EnhancedMemoryInterface | AgentMemory;
+  memoryContextPolicy: MemoryContextPolicy = new DefaultContextPolicy();
+  memoryWritePolicy: MemoryWritePolicy = new DefaultWritePolicy();
   provider: LLMProviderInterface;
   planner?: PlannerInterface;
+  contextManager?: ContextManager;
+  conversationStore?: ConversationStore;
+  middleware: MiddlewarePipeline = new MiddlewarePipeline();
+  approvalHandler?: ApprovalHandler;
+  usageLedger?: UsageLedger;
   logger: Logger;
+  private approvalPolicies: Map<string, ApprovalPolicy> = new Map();
+  private agentMemory?: { source: object; adapted: AgentMemory }; // Adapter of the current memory
+  private reportedErrors: WeakSet<object> = new WeakSet();
 
   /**
    * Creates a new Agent instance
@@ -68,14 +138,46 @@ export class Agent extends EventEmitter {
   /**
    * Sets the memory system for the agent
    * 
-   * @param memory - The memory implementation to use
+   * @param memory - The memory implementation to use (either memory interface, or AgentMemory)
+   * @param policies - Optional policies replacing how memories are injected and written back
    * @returns The agent instance (for chaining)
    */
-  setMemory(memory: MemoryInterface | EnhancedMemoryInterface): Agent {
+  setMemory(memory: MemoryInterface | EnhancedMemoryInterface | AgentMemory, policies?: MemoryPolicies): Agent {
     this.memory = memory;
+    if (policies) {
+      this.setMemoryPolicies(policies);
+    }
     return this;
   }
 
+  /**
+   * Sets the policies for injecting memories into tasks and writing runs back
+   * 
+   * @param policies - The policies to replace (omitted ones are kept)
+   * @returns The agent instance (for chaining)
+   */
+  setMemoryPolicies(policies: MemoryPolicies): Agent {
+    this.memoryContextPolicy = policies.context || this.memoryContextPolicy;
+    this.memoryWritePolicy = policies.write || this.memoryWritePolicy;
+    return this;
+  }
+
+  /**
+   * Gets the agent's memory as AgentMemory
+   * 
+   * @returns The adapted memory, or undefined if the agent has no memory
+   */
+  getAgentMemory(): AgentMemory | undefined {
+    if (!this.memory) {
+      return undefined;
+    }
+    // Adapt again if the memory was replaced, including by direct assignment
+    if (this.agentMemory?.source !== this.memory) {
+      this.agentMemory = { source: this.memory, adapted: toAgentMemory(this.memory) };
+    }
+    return this.agentMemory.adapted;
+  }
+
   /**
    * Sets the planner for breaking down complex tasks
    * 
@@ -87,14 +189,271 @@ export class Agent extends EventEmitter {
     return this;
   }
 
+  /**
+   * Sets the context manager that keeps conversations within the model's context window
+   * 
+   * @param contextManager - The context manager to use
+   * @returns The agent instance (for chaining)
+   */
+  setContextManager(contextManager: ContextManager): Agent {
+    this.contextManager = contextManager;
+    return this;
+  }
+
+  /**
+   * Adds middleware that can observe and rewrite model and tool calls
+   * 
+   * @param middleware - The middleware to add (runs after previously added middleware)
+   * @returns The agent instance (for chaining)
+   */
+  use(middleware: AgentMiddleware): Agent {
+    this.middleware.use(middleware);
+    return this;
+  }
+
+  /**
+   * Removes previously added middleware
+   * 
+   * @param middleware - The middleware to remove
+   * @returns True if it was removed
+   */
+  removeMiddleware(middleware: AgentMiddleware): boolean {
+    return this.middleware.remove(middleware);
+  }
+
+  /**
+   * Sets the handler that decides on tool calls needing approval
+   * 
+   * @param handler - The approval handler to use
+   * @returns The agent instance (for chaining)
+   */
+  setApprovalHandler(handler: ApprovalHandler): Agent {
+    this.approvalHandler = handler;
+    return this;
+  }
+
+  /**
+   * Sets the approval policy for a tool by name, overriding Tool.approval
+   * 
+   * @param toolName - Name of the tool
+   * @param policy - When calls to the tool need approval
+   * @returns The agent instance (for chaining)
+   */
+  setApprovalPolicy(toolName: string, policy: ApprovalPolicy): Agent {
+    this.approvalPolicies.set(toolName, policy);
+    return this;
+  }
+
+  /**
+   * Sets the ledger that records token usage and cost and enforces budgets
+   * 
+   * @param ledger - The usage ledger to use (can be shared between agents)
+   * @returns The agent instance (for chaining)
+   */
+  setUsageLedger(ledger: UsageLedger): Agent {
+    this.usageLedger = ledger;
+    return this;
+  }
+
+  /**
+   * Gets the catalog entry of the model the agent's provider uses
+   * 
+   * @returns The model's capabilities and limits, or undefined if unknown
+   */
+  getModelInfo(): ModelInfo | undefined {
+    return this.provider.getModelInfo?.();
+  }
+
+  /**
+   * Sets the store used to persist conversations for RunOptions.conversationId
+   * 
+   * @param store - The conversation store to use
+   * @returns The agent instance (for chaining)
+   */
+  setConversationStore(store: ConversationStore): Agent {
+    this.conversationStore = store;
+    return this;
+  }
+
+  /**
+   * Lists this agent's stored conversations, most recently updated first
+   * 
+   * @param options - Optional paging
+   * @returns Promise resolving to conversation summaries
+   */
+  async listConversations(options: Omit<ConversationListOptions, 'agentName'> = {}): Promise<ConversationSummary[]> {
+    return this.requireConversationStore().list({ ...options, agentName: this.config.name });
+  }
+
+  /**
+   * Searches this agent's stored conversations for a piece of text
+   * 
+   * @param query - Text to look for in message content
+   * @param options - Optional paging
+   * @returns Promise resolving to summaries of matching conversations
+   */
+  async searchConversations(
+    query: string,
+    options: Omit<ConversationListOptions, 'agentName'> = {}
+  ): Promise<ConversationSummary[]> {
+    return this.requireConversationStore().search(query, { ...options, agentName: this.config.name });
+  }
+
+  /**
+   * Deletes one of this agent's stored conversations
+   * 
+   * @param id - ID of the conversation to delete
+   * @returns Promise resolving to true if deleted, false if not found
+   */
+  async deleteConversation(id: string): Promise<boolean> {
+    const store = this.requireConversationStore();
+    const conversation = await store.get(id);
+    
+    if (!conversation || (conversation.agentName && conversation.agentName !== this.config.name)) {
+      return false;
+    }
+    return store.delete(id);
+  }
+
   /**
    * Runs the agent with a specific task
    * 
    * @param options - Execution options including the task to perform
-   * @returns Promise resolving to the execution result
+   * @returns Promise resolving to the execution result (with typed `data` when
+   *          options.responseSchema is set)
    */
-  async run(options: RunOptions): Promise<RunResult> {
+  async run<T = any>(options: RunOptions): Promise<RunResult<T>> {
+    // Link the caller's signal and the run deadline into one signal for the whole run
+    const linked = createLinkedSignal(options.signal, options.timeout, `Run of agent ${this.config.name}`);
+    
+    // The outermost run opens a ledger run; nested planner and swarm runs are charged to it
+    const ownsUsageRun = !!this.usageLedger && !options.usageRunId;
+    const usageRunId = ownsUsageRun ? this.usageLedger!.beginRun(error => linked.abort(error)) : options.usageRunId;
+    
+    try {
+      // Resume a stored conversation when one is requested by ID
+      const conversation = options.conversationId && !options.conversation
+        ? await this.loadConversation(options.conversationId)
+        : options.conversation;
+      
+      const result = await this.runTask({
+        ...options,
+        conversation,
+        signal: linked.signal,
+        timeout: undefined, // The deadline is now carried by the signal
+        usageRunId
+      });
+      
+      if (ownsUsageRun) {
+        result.usage = this.usageLedger!.getSummary({ runId: usageRunId });
+      }
+      
+      // The runs of a plan don't use the caller's conversation; record the task and summary in it
+      if (conversation && result.conversation !== conversation && result.response) {
+        conversation.messages.push(
+          { role: 'user', content: options.task, timestamp: Date.now() },
+          { role: 'assistant', content: result.response, timestamp: Date.now() }
+        );
+      }
+      
+      if (options.conversationId && conversation) {
+        conversation.updated = Date.now();
+        await this.conversationStore!.save(conversation);
+      }
+      
+      return result;
+    } catch (error) {
+      // Model and tool errors have already been reported at their own stage
+      if (!(error instanceof Object && this.reportedErrors.has(error))) {
+        await this.middleware.onError({
+          agent: this,
+          task: options.task,
+          conversationId: options.conversation?.id || options.conversationId || '',
+          stage: 'run',
+          error
+        });
+      }
+      throw error;
+    } finally {
+      if (ownsUsageRun) {
+        this.usageLedger!.endRun(usageRunId!);
+      }
+      linked.cleanup();
+    }
+  }
+  
+  /**
+   * Runs the agent and yields typed progress events as they happen
+   * 
+   * Yields text and tool-call deltas from the provider stream, tool results,
+   * plan and task updates, and finally a `final_result` event. Breaking out of
+   * the loop early cancels the run.
+   * 
+   * @param options - Execution options including the task to perform
+   * @returns Async iterable of stream events
+   */
+  stream(options: RunOptions): AsyncIterable<AgentStreamEvent> {
+    return createEventStream<AgentStreamEvent>(async (emit, signal) => {
+      const result = await this.run({
+        ...options,
+        signal,
+        onEvent: event => {
+          options.onEvent?.(event);
+          emit(event);
+        }
+      });
+      emit({ type: 'final_result', result });
+    }, options.signal);
+  }
+  
+  /**
+   * Loads a conversation from the store, or starts a new one with the given ID
+   * 
+   * @param id - ID of the conversation
+   * @returns The stored conversation or a new, empty one
+   * @throws If the stored conversation belongs to another agent
+   */
+  private async loadConversation(id: string): Promise<Conversation> {
+    const stored = await this.requireConversationStore().get(id);
+    if (stored?.agentName && stored.agentName !== this.config.name) {
+      throw new Error(`Conversation ${id} belongs to agent '${stored.agentName}'`);
+    }
+    if (stored) {
+      this.logger.debug('Resuming stored conversation', { id, messages: stored.messages.length });
+      return stored;
+    }
+    
+    return {
+      id,
+      agentName: this.config.name,
+      messages: [],
+      created: Date.now(),
+      updated: Date.now(),
+      metadata: {}
+    };
+  }
+  
+  /**
+   * Gets the conversation store, failing if none has been set
+   * 
+   * @returns The conversation store
+   */
+  private requireConversationStore(): ConversationStore {
+    if (!this.conversationStore) {
+      throw new Error(`Agent ${this.config.name} has no conversation store. Call setConversationStore() first.`);
+    }
+    return this.conversationStore;
+  }
+  
+  /**
+   * Runs a task once cancellation has been resolved into options.signal
+   * 
+   * @param options - Execution options including the task to perform
+   * @returns Promise resolving to the execution result (partial if cancelled)
+   */
+  private async runTask(options: RunOptions): Promise<RunResult> {
     this.logger.debug('Running agent', { task: options.task });
+    const signal = options.signal;
     
     // Create or use provided conversation
     const conversation = options.conversation || {
@@ -129,11 +488,18 @@ export class Agent extends EventEmitter {
       
       try {
         // Add _skipPlanning flag to prevent recursion when planner calls agent.run()
-        const plan = await this.planner.createPlan(options.task, this, {
-          _skipPlanning: true
-        } as any);
+        const plan = await raceWithSignal(this.planner.createPlan(options.task, this, {
+          signal,
+          _skipPlanning: true,
+          usageRunId: options.usageRunId
+        } as any), signal);
         
         this.emit(AgentEvent.PLAN_CREATED, { plan });
+        options.onEvent?.({
+          type: 'plan_created',
+          planId: plan.id,
+          tasks: plan.tasks.map(t => ({ id: t.id, description: t.description, dependencies: t.dependencies }))
+        });
         
         // Execute the plan with _skipPlanning flag
         const planOptions = {
@@ -142,52 +508,31 @@ export class Agent extends EventEmitter {
         };
         return await this.planner.executePlan(plan, this, planOptions);
       } catch (error) {
+        if (signal?.aborted) {
+          this.emit(AgentEvent.CANCELLED, { task: options.task, reason: getAbortReason(signal) });
+          return createCancelledResult('', conversation, signal);
+        }
+        
         this.logger.error('Planning failed', error);
         // Fall back to direct execution
       }
     }
 
     // Retrieve relevant memories if memory is enabled
-    let context = '';
-    if (this.memory) {
-      // Handle different memory interface types
-      if ('retrieve' in this.memory) {
-        // Basic memory interface
-        const memories = await this.memory.retrieve(options.task);
-        if (Array.isArray(memories) && memories.length > 0) {
-          context = `Relevant information from your memory:\n${memories.join('\n')}`;
-        }
-      } else {
-        // Enhanced memory interface
-        const memoryResult = await (this.memory as EnhancedMemoryInterface).retrieve(options.task);
-        
-        // Format short-term memories
-        if (memoryResult.shortTerm.length > 0) {
-          context += `Recent memories:\n${memoryResult.shortTerm.map(m => 
-            `- Q: ${m.input}\n  A: ${m.output}`
-          ).join('\n')}\n\n`;
-        }
-        
-        // Format long-term memories
-        if (memoryResult.longTerm.length > 0) {
-          context += `Long-term memories:\n${memoryResult.longTerm.map(m => 
-            `- Q: ${m.input}\n  A: ${m.output}`
-          ).join('\n')}\n\n`;
-        }
-        
-        // Format notes
-        if (memoryResult.notes.length > 0) {
-          context += `Notes:\n${memoryResult.notes.map(n => 
-            `- ${n.title}: ${n.content}`
-          ).join('\n')}\n\n`;
-        }
-      }
-    }
+    const memory = this.getAgentMemory();
+    const context = memory ? await this.memoryContextPolicy.buildContext(memory, options.task) : '';
 
     // Add user message with context if available
+    // Images and documents attached to the task travel with the user message
+    if (options.attachments?.some(part => part.type !== 'text') && this.getModelInfo()?.vision === false) {
+      this.logger.warn('The model does not support images or documents; attachments may be ignored');
+    }
     const userMessage: Message = {
       role: 'user',
-      content: context ? `${context}\n\n${options.task}` : options.task,
+      content: appendContentParts(
+        context ? `${context}\n\n${options.task}` : options.task,
+        options.attachments || []
+      ),
       timestamp: Date.now()
     };
     
@@ -197,9 +542,10 @@ export class Agent extends EventEmitter {
     this.emit(AgentEvent.THINKING, { message: 'Processing...' });
     
     // Log tools being passed to the model (for debugging)
-    if (options.tools && options.tools.length > 0) {
-      this.logger.debug('Passing tools to model:', options.tools.map(t => t.name));
-      this.emit(AgentEvent.THINKING, { message: `Available tools: ${options.tools.map(t => t.name).join(', ')}` });
+    const tools = options.tools || [];
+    if (tools.length > 0) {
+      this.logger.debug('Passing tools to model:', tools.map(t => t.name));
+      this.emit(AgentEvent.THINKING, { message: `Available tools: ${tools.map(t => t.name).join(', ')}` });
     } else {
       this.logger.debug('No tools provided');
       this.emit(AgentEvent.THINKING, { message: 'No tools available' });
@@ -217,164 +563,649 @@ export class Agent extends EventEmitter {
       }
     };
     
-    this.logger.debug('Calling provider.generateResponse with tools');
-    
-    const result = await this.provider.generateResponse({
-      messages: conversation.messages,
-      tools: options.tools || [],
-      maxTokens: options.maxTokens,
-      temperature: options.temperature,
-      stream: options.stream,
-      onPartialResponse: options.stream ? handleStream : undefined
+    // Get the tools mapped by name for easy lookup
+    const toolsMap = new Map<string, Tool>();
+    tools.forEach(tool => {
+      toolsMap.set(tool.name, tool);
     });
     
-    // Log if tool calls were returned
-    if (result.toolCalls && result.toolCalls.length > 0) {
-      this.logger.debug(`Received ${result.toolCalls.length} tool calls from model`);
-      this.emit(AgentEvent.THINKING, { message: `Model requested ${result.toolCalls.length} tool calls` });
-    } else {
-      this.logger.debug('No tool calls received from model');
-      this.emit(AgentEvent.THINKING, { message: 'Model did not request any tool calls' });
-    }
+    const maxSteps = Math.max(1, options.maxSteps ?? DEFAULT_MAX_STEPS);
+    const toolCalls: ToolCallRecord[] = [];
+    const hookContext: HookContext = { agent: this, task: options.task, conversationId: conversation.id };
+    let stepsTaken = 0;
+    const tokens = { input: 0, output: 0, total: 0 };
+    let response = '';
+    let structuredOutput: any = undefined;
+    let cancelled = false;
     
-    // Store the assistant's response
-    const assistantMessage: Message = {
-      role: 'assistant',
-      content: result.message,
-      timestamp: Date.now()
-    };
-    
-    conversation.messages.push(assistantMessage);
-    conversation.updated = Date.now();
+    // Provider-native structured output, when a response schema was requested
+    const responseFormat = options.responseSchema
+      ? { name: RESPONSE_FORMAT_NAME, schema: options.responseSchema }
+      : undefined;
     
-    // Remember this interaction if memory is enabled
-    if (this.memory) {
-      if ('store' in this.memory) {
-        // Basic memory interface
-        await this.memory.store({
-          input: userMessage.content,
-          output: assistantMessage.content,
-          timestamp: Date.now()
-        });
-      } else {
-        // Enhanced memory interface
-        await (this.memory as EnhancedMemoryInterface).storeShortTerm({
-          input: userMessage.content,
-          output: assistantMessage.content,
-          timestamp: Date.now()
+    // Agentic loop: keep calling the model while it requests tools, up to maxSteps calls
+    for (let step = 0; step < maxSteps; step++) {
+      if (signal?.aborted) {
+        cancelled = true;
+        break;
+      }
+      
+      // On the last allowed step, forbid tool calls so the model has to answer
+      // (the definitions stay, as earlier tool calls in the history refer to them)
+      const isLastStep = step === maxSteps - 1;
+      
+      this.logger.debug(`Calling provider.generateResponse (step ${step + 1}/${maxSteps})`);
+      
+      await this.compactConversation(conversation, tools, options);
+      
+      let result: GenerateResult;
+      try {
+        result = await this.callModel(hookContext, step, {
+          messages: conversation.messages,
+          tools,
+          toolChoice: isLastStep ? 'none' : undefined,
+          maxTokens: options.maxTokens,
+          temperature: options.temperature,
+          stream: options.stream || !!options.onEvent,
+          onPartialResponse: options.stream ? handleStream : undefined,
+          onStreamEvent: options.onEvent ? this.createStreamEventForwarder(options.onEvent, step) : undefined,
+          signal,
+          responseFormat,
+          route: options.route
         });
+        stepsTaken = step + 1;
+      } catch (error) {
+        if (signal?.aborted) {
+          cancelled = true;
+          break;
+        }
+        throw error;
+      }
+      
+      this.addTokens(tokens, result, options);
+      structuredOutput = result.structuredOutput;
+      
+      // Make sure every requested call has an ID to pair it with its result
+      // (a structured answer is final, so any other calls alongside it are dropped)
+      const requestedCalls = (structuredOutput !== undefined ? [] : result.toolCalls || []).map(tc => ({
+        ...tc,
+        id: tc.id || `call_${uuidv4()}`
+      }));
+      
+      // Store the assistant's response, including any tool calls it made
+      conversation.messages.push({
+        role: 'assistant',
+        content: result.message,
+        toolCalls: requestedCalls.length > 0
+          ? requestedCalls.map(tc => ({ id: tc.id, name: tc.name, parameters: tc.parameters }))
+          : undefined,
+        timestamp: Date.now()
+      });
+      conversation.updated = Date.now();
+      response = result.message;
+      
+      if (requestedCalls.length === 0) {
+        this.logger.debug('No tool calls received from model');
+        this.emit(AgentEvent.THINKING, { message: 'Model did not request any tool calls' });
+        break;
+      }
+      
+      this.logger.debug(`Received ${requestedCalls.length} tool calls from model`, { step });
+      this.emit(AgentEvent.THINKING, { message: `Model requested ${requestedCalls.length} tool calls` });
+      
+      // Execute each tool call of this step
+      const stepCalls = await Promise.all(
+        requestedCalls.map(tc => this.executeToolCall(toolsMap, tc, step, options, hookContext))
+      );
+      toolCalls.push(...stepCalls);
+      
+      stepCalls.forEach(call => options.onEvent?.({
+        type: 'tool_result',
+        agent: this.config.name,
+        step,
+        callId: call.id,
+        tool: call.tool,
+        params: call.params,
+        result: call.result,
+        errorKind: call.errorKind
+      }));
+      
+      // Send each result back to the LLM as a tool message for the next step
+      for (const call of stepCalls) {
+        conversation.messages.push(this.createToolMessage(call));
       }
+      
+      this.emit(AgentEvent.THINKING, { message: 'Processing tool results...' });
     }
     
-    // Execute tool calls if any were made
-    let toolCalls = undefined;
+    // Validate (and if needed repair) the final answer against the response schema
+    let data: any;
+    let dataErrors: SchemaValidationError[] | undefined;
+    if (options.responseSchema && !cancelled) {
+      const structured = await this.resolveStructuredOutput(
+        options, conversation, response, structuredOutput, tokens, hookContext, stepsTaken
+      );
+      response = structured.response;
+      data = structured.data;
+      dataErrors = structured.errors;
+      cancelled = structured.cancelled;
+    }
     
-    if (result.toolCalls && result.toolCalls.length > 0) {
-      this.logger.debug('Tool calls detected', { count: result.toolCalls.length });
+    // Return what we have so far if the run was cancelled or timed out
+    if (cancelled) {
+      const cancelReason = getAbortReason(signal);
+      this.logger.info('Run cancelled', { task: options.task, reason: cancelReason });
+      this.emit(AgentEvent.CANCELLED, { task: options.task, reason: cancelReason });
       
-      // Get the tools mapped by name for easy lookup
-      const toolsMap = new Map();
-      (options.tools || []).forEach(tool => {
-        toolsMap.set(tool.name, tool);
+      return {
+        response,
+        conversation,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        tokens,
+        cancelled: true,
+        cancelReason
+      };
+    }
+    
+    // Remember this interaction if memory is enabled
+    if (memory) {
+      await this.memoryWritePolicy.write(memory, {
+        task: options.task,
+        response,
+        agentName: this.config.name,
+        toolNames: toolCalls.length > 0 ? Array.from(new Set(toolCalls.map(tc => tc.tool))) : undefined,
+        timestamp: Date.now()
       });
+    }
+    
+    this.emit(AgentEvent.TASK_COMPLETE, { 
+      task: options.task, 
+      response
+    });
+    
+    return {
+      response,
+      data,
+      dataErrors,
+      conversation,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      tokens
+    };
+  }
+  
+  /**
+   * Parses and validates the final answer against RunOptions.responseSchema,
+   * re-prompting the model with the validation errors until it complies or
+   * maxRepairAttempts is exhausted
+   * 
+   * @param options - The run options
+   * @param conversation - The conversation to append repair turns to
+   * @param response - The model's final response text
+   * @param structuredOutput - Provider-parsed structured output, if any
+   * @param tokens - Token totals to add repair calls to
+   * @param hookContext - Context passed to middleware hooks
+   * @param stepsTaken - Number of model calls made so far
+   * @returns The validated data, or the remaining errors
+   */
+  private async resolveStructuredOutput(
+    options: RunOptions,
+    conversation: Conversation,
+    response: string,
+    structuredOutput: any,
+    tokens: { input: number; output: number; total: number },
+    hookContext: HookContext,
+    stepsTaken: number
+  ): Promise<{ response: string; data?: any; errors?: SchemaValidationError[]; cancelled: boolean }> {
+    const schema = options.responseSchema!;
+    const signal = options.signal;
+    const maxRepairAttempts = options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+    
+    let validation = this.validateResponse(schema, structuredOutput !== undefined ? structuredOutput : extractJson(response));
+    
+    for (let attempt = 1; !validation.valid && attempt <= maxRepairAttempts; attempt++) {
+      if (signal?.aborted) {
+        return { response, errors: validation.errors, cancelled: true };
+      }
       
-      // Execute each tool call
-      const executedToolCalls = await Promise.all(
-        result.toolCalls.map(async (tc) => {
-          const tool = toolsMap.get(tc.name);
-          
-          if (!tool) {
-            this.logger.warn(`Tool not found: ${tc.name}`);
-            return {
-              tool: tc.name,
-              params: tc.parameters,
-              result: { error: `Tool not found: ${tc.name}` }
-            };
-          }
-          
-          try {
-            // Execute the tool
-            this.emit(AgentEvent.TOOL_CALL, { 
-              tool: tc.name, 
-              params: tc.parameters 
-            });
-            
-            this.logger.debug(`Executing tool: ${tc.name}`, tc.parameters);
-            this.emit(AgentEvent.THINKING, { message: `Executing tool: ${tc.name} with parameters: ${JSON.stringify(tc.parameters)}` });
-            
-            const result = await tool.execute(tc.parameters);
-            this.logger.debug(`Tool execution result:`, result);
-            this.emit(AgentEvent.THINKING, { message: `Tool returned results (first result): ${result.results ? result.results[0]?.title : 'No results'}` });
-            
-            return {
-              tool: tc.name,
-              params: tc.parameters,
-              result
-            };
-          } catch (error) {
-            this.logger.error(`Error executing tool ${tc.name}`, error);
-            return {
-              tool: tc.name,
-              params: tc.parameters,
-              result: { error: error instanceof Error ? error.message : String(error) }
-            };
-          }
-        })
-      );
+      this.logger.debug(`Response failed schema validation (repair attempt ${attempt}/${maxRepairAttempts})`, validation.errors);
+      this.emit(AgentEvent.THINKING, { message: 'Response did not match the required schema, asking for a correction...' });
       
-      toolCalls = executedToolCalls;
+      conversation.messages.push({
+        role: 'user',
+        content: `Your previous answer did not match the required JSON schema:\n${formatSchemaErrors(validation.errors)}\n\nRespond again with only the corrected JSON.`,
+        timestamp: Date.now()
+      });
       
-      // If we have tool calls, send their results back to the LLM
-      if (toolCalls.length > 0) {
-        const toolResultsMessage: Message = {
-          role: 'user',
-          content: `Tool results:\n${JSON.stringify(toolCalls, null, 2)}`,
-          timestamp: Date.now()
-        };
-        
-        conversation.messages.push(toolResultsMessage);
-        
-        // Call the LLM again with the tool results
-        this.logger.debug('Sending tool results back to LLM for final response');
-        this.emit(AgentEvent.THINKING, { message: 'Processing search results to generate response...' });
-        
-        const followUpResult = await this.provider.generateResponse({
+      await this.compactConversation(conversation, options.tools || [], options);
+      
+      let result: GenerateResult;
+      try {
+        result = await this.callModel(hookContext, stepsTaken + attempt - 1, {
           messages: conversation.messages,
-          tools: [], // No tools needed for the follow-up response
+          tools: options.tools || [],
+          toolChoice: 'none',
           maxTokens: options.maxTokens,
-          temperature: options.temperature
+          temperature: options.temperature,
+          signal,
+          responseFormat: { name: RESPONSE_FORMAT_NAME, schema },
+          route: options.route
         });
-        
-        // Update the assistant's response
-        const followUpMessage: Message = {
-          role: 'assistant',
-          content: followUpResult.message,
-          timestamp: Date.now()
-        };
-        
-        conversation.messages.push(followUpMessage);
-        conversation.updated = Date.now();
-        
-        // Update the final result
-        return {
-          response: followUpMessage.content,
-          conversation,
-          toolCalls,
-          tokens: result.tokens
-        };
+      } catch (error) {
+        if (signal?.aborted) {
+          return { response, errors: validation.errors, cancelled: true };
+        }
+        throw error;
       }
+      
+      this.addTokens(tokens, result, options);
+      conversation.messages.push({
+        role: 'assistant',
+        content: result.message,
+        timestamp: Date.now()
+      });
+      conversation.updated = Date.now();
+      response = result.message;
+      
+      validation = this.validateResponse(
+        schema,
+        result.structuredOutput !== undefined ? result.structuredOutput : extractJson(result.message)
+      );
     }
     
-    this.emit(AgentEvent.TASK_COMPLETE, { 
-      task: options.task, 
-      response: result.message 
+    if (!validation.valid) {
+      this.logger.warn('Response failed schema validation after all repair attempts', validation.errors);
+      return { response, errors: validation.errors, cancelled: false };
+    }
+    
+    return { response, data: validation.value, cancelled: false };
+  }
+  
+  /**
+   * Calls the provider through the middleware pipeline
+   * 
+   * @param hookContext - Context passed to middleware hooks
+   * @param step - Index of this model call
+   * @param generateOptions - The generate options before middleware rewrites
+   * @returns The (possibly rewritten) generation result
+   */
+  private async callModel(
+    hookContext: HookContext,
+    step: number,
+    generateOptions: GenerateOptions
+  ): Promise<GenerateResult> {
+    const signal = generateOptions.signal;
+    
+    try {
+      const finalOptions = await this.middleware.beforeModelCall({ ...hookContext, step, options: generateOptions });
+      const result = await raceWithSignal(this.provider.generateResponse(finalOptions), signal);
+      return await this.middleware.afterModelCall({ ...hookContext, step, options: finalOptions, result });
+    } catch (error) {
+      if (!signal?.aborted) {
+        await this.reportError(error, { ...hookContext, stage: 'model', step });
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Maps provider stream events to agent stream events for one step
+   * 
+   * @param onEvent - The run's event callback
+   * @param step - Index of the model call being streamed
+   * @returns A provider stream event callback
+   */
+  private createStreamEventForwarder(
+    onEvent: (event: AgentStreamEvent) => void,
+    step: number
+  ): (event: ProviderStreamEvent) => void {
+    const agent = this.config.name;
+    
+    return event => {
+      switch (event.type) {
+        case 'text_delta':
+          onEvent({ type: 'text_delta', agent, step, text: event.text });
+          break;
+        case 'tool_call_start':
+          onEvent({ type: 'tool_call_start', agent, step, callId: event.id, tool: event.name });
+          break;
+        case 'tool_call_delta':
+          onEvent({ type: 'tool_call_delta', agent, step, callId: event.id, argsDelta: event.argsDelta });
+          break;
+      }
+    };
+  }
+  
+  /**
+   * Passes an error to the onError middleware hooks once
+   * 
+   * @param error - The error to report
+   * @param context - Where the error happened
+   */
+  private async reportError(
+    error: unknown,
+    context: HookContext & { stage: 'model' | 'tool'; step?: number; tool?: string }
+  ): Promise<void> {
+    if (error instanceof Object) {
+      this.reportedErrors.add(error);
+    }
+    await this.middleware.onError({ ...context, error });
+  }
+  
+  /**
+   * Compacts the conversation in place so the next model call fits the context window
+   * 
+   * @param conversation - The conversation to compact
+   * @param tools - The tools that will be sent with the next call
+   * @param options - The run options (for the ledger run the summarizer is charged to)
+   */
+  private async compactConversation(conversation: Conversation, tools: Tool[], options: RunOptions): Promise<void> {
+    if (!this.contextManager) {
+      return;
+    }
+    
+    const { messages, compacted, report } = await this.contextManager.fit(conversation.messages, {
+      model: this.config.model,
+      reserveTokens: estimateToolTokens(tools),
+      onUsage: result => this.recordUsage(result, { ...options, usageSource: 'context-summary' })
     });
     
+    if (compacted && report) {
+      conversation.messages = messages;
+      conversation.updated = Date.now();
+      this.logger.debug(`Compacted conversation: dropped ${report.dropped.length} messages`);
+      this.emit(AgentEvent.CONTEXT_COMPACTED, { conversationId: conversation.id, report });
+    }
+  }
+  
+  /**
+   * Validates a parsed answer, treating unparseable output as a validation error
+   * 
+   * @param schema - The response schema
+   * @param candidate - The parsed answer (undefined if it was not valid JSON)
+   * @returns The validation result
+   */
+  private validateResponse(schema: Record<string, any>, candidate: any): SchemaValidationResult {
+    if (candidate === undefined) {
+      return { valid: false, value: undefined, errors: [{ path: '$', message: 'response is not valid JSON' }] };
+    }
+    return validateSchema(schema, candidate);
+  }
+  
+  /**
+   * Adds a provider call's token usage to a running total and the usage ledger
+   * 
+   * @param tokens - The running total
+   * @param result - The provider result
+   * @param options - The run options (for the ledger run and source)
+   */
+  private addTokens(
+    tokens: { input: number; output: number; total: number },
+    result: GenerateResult,
+    options: RunOptions
+  ): void {
+    if (result.tokens) {
+      tokens.input += result.tokens.input;
+      tokens.output += result.tokens.output;
+      tokens.total += result.tokens.total;
+    }
+    this.recordUsage(result, options);
+  }
+  
+  /**
+   * Records a provider call in the usage ledger, if one is set
+   * 
+   * @param result - The provider result
+   * @param options - The run options (for the ledger run and source)
+   */
+  private recordUsage(result: GenerateResult, options: RunOptions): void {
+    if (result.tokens) {
+      this.usageLedger?.record({
+        runId: options.usageRunId,
+        agent: this.config.name,
+        provider: result.provider || 'unknown',
+        model: result.model || 'unknown',
+        source: options.usageSource,
+        input: result.tokens.input,
+        output: result.tokens.output
+      });
+    }
+  }
+  
+  /**
+   * Executes a single tool call requested by the model, through the middleware pipeline
+   * 
+   * @param toolsMap - Available tools keyed by name
+   * @param tc - The tool call returned by the provider
+   * @param step - The loop step that requested the call
+   * @param options - The run options (for the cancellation signal and tool timeout)
+   * @param hookContext - Context passed to middleware hooks
+   * @returns The recorded tool call, with an error result if validation or execution failed
+   */
+  private async executeToolCall(
+    toolsMap: Map<string, Tool>,
+    tc: ToolCall & { id: string },
+    step: number,
+    options: RunOptions,
+    hookContext: HookContext
+  ): Promise<ToolCallRecord> {
+    const toolContext = { ...hookContext, step, callId: tc.id, tool: tc.name };
+    
+    // Let middleware rewrite the arguments before they are validated
+    const parameters = await this.middleware.beforeToolCall({ ...toolContext, params: tc.parameters ?? {} });
+    const record = await this.invokeTool(toolsMap, { ...tc, parameters }, step, options, hookContext);
+    
+    record.result = await this.middleware.afterToolCall({
+      ...toolContext,
+      params: record.params,
+      result: record.result,
+      errorKind: record.errorKind
+    });
+    return record;
+  }
+  
+  /**
+   * Looks up, validates and runs a single tool call
+   * 
+   * @param toolsMap - Available tools keyed by name
+   * @param tc - The tool call, with any middleware rewrites applied
+   * @param step - The loop step that requested the call
+   * @param options - The run options (for the cancellation signal and tool timeout)
+   * @param hookContext - Context passed to the onError hooks
+   * @returns The recorded tool call, with an error result if validation or execution failed
+   */
+  private async invokeTool(
+    toolsMap: Map<string, Tool>,
+    tc: ToolCall & { id: string },
+    step: number,
+    options: RunOptions,
+    hookContext: HookContext
+  ): Promise<ToolCallRecord> {
+    const tool = toolsMap.get(tc.name);
+    
+    if (!tool) {
+      this.logger.warn(`Tool not found: ${tc.name}`);
+      return {
+        id: tc.id,
+        tool: tc.name,
+        params: tc.parameters,
+        result: { error: `Tool not found: ${tc.name}` },
+        step,
+        errorKind: 'not_found'
+      };
+    }
+    
+    // Validate the arguments against the tool schema and apply defaults
+    const validation = validateSchema(tool.schema, tc.parameters ?? {});
+    if (!validation.valid) {
+      this.logger.warn(`Invalid parameters for tool ${tc.name}`, validation.errors);
+      return {
+        id: tc.id,
+        tool: tc.name,
+        params: tc.parameters,
+        result: {
+          error: `Invalid parameters for tool ${tc.name}. Fix the arguments and call the tool again.`,
+          validationErrors: validation.errors
+        },
+        step,
+        errorKind: 'validation'
+      };
+    }
+    let params = validation.value;
+    
+    // Ask a human before running sensitive tools
+    const policy = this.approvalPolicies.get(tc.name) ?? tool.approval;
+    if (await requiresApproval(policy, params)) {
+      const approval = await this.awaitApproval(tool, tc, params, step, options, hookContext);
+      if ('denied' in approval) {
+        return approval.denied;
+      }
+      params = approval.params;
+    }
+    
+    try {
+      // Execute the tool
+      this.emit(AgentEvent.TOOL_CALL, { 
+        tool: tc.name, 
+        params,
+        step
+      });
+      
+      this.logger.debug(`Executing tool: ${tc.name}`, params);
+      this.emit(AgentEvent.THINKING, { message: `Executing tool: ${tc.name} with parameters: ${JSON.stringify(params)}` });
+      
+      // Run the tool under its own timeout, linked to the run's signal
+      const result = await runWithTimeout(
+        toolSignal => tool.execute(params, { signal: toolSignal }),
+        tool.timeout ?? options.toolTimeout,
+        options.signal,
+        `Tool ${tc.name}`
+      );
+      this.logger.debug(`Tool execution result:`, result);
+      
+      return {
+        id: tc.id,
+        tool: tc.name,
+        params,
+        result,
+        step
+      };
+    } catch (error) {
+      // Distinguish run cancellation from the tool's own timeout and from plain failures
+      const errorKind: ToolErrorKind = options.signal?.aborted
+        ? 'cancelled'
+        : error instanceof AbortError && error.isTimeout ? 'timeout' : 'execution';
+      
+      this.logger.error(`Error executing tool ${tc.name}`, error);
+      if (errorKind !== 'cancelled') {
+        await this.reportError(error, { ...hookContext, stage: 'tool', step, tool: tc.name });
+      }
+      return {
+        id: tc.id,
+        tool: tc.name,
+        params,
+        result: { error: error instanceof Error ? error.message : String(error) },
+        step,
+        errorKind
+      };
+    }
+  }
+  
+  /**
+   * Asks the approval handler about a tool call
+   * 
+   * @param tool - The tool being called
+   * @param tc - The tool call
+   * @param params - The validated parameters
+   * @param step - The loop step that requested the call
+   * @param options - The run options (for the cancellation signal)
+   * @param hookContext - Context of the current run
+   * @returns The parameters to execute with, or the record to return instead of executing
+   */
+  private async awaitApproval(
+    tool: Tool,
+    tc: ToolCall & { id: string },
+    params: Record<string, any>,
+    step: number,
+    options: RunOptions,
+    hookContext: HookContext
+  ): Promise<{ params: Record<string, any> } | { denied: ToolCallRecord }> {
+    const deny = (message: string, errorKind: ToolErrorKind, validationErrors?: SchemaValidationError[]) => ({
+      denied: {
+        id: tc.id,
+        tool: tc.name,
+        params,
+        result: validationErrors ? { error: message, validationErrors } : { error: message },
+        step,
+        errorKind
+      }
+    });
+    
+    if (!this.approvalHandler) {
+      this.logger.warn(`Tool ${tc.name} requires approval but no approval handler is set`);
+      return deny(`Calling ${tc.name} requires human approval, which is not available. Do not call this tool again.`, 'rejected');
+    }
+    
+    const request: ApprovalRequest = {
+      id: uuidv4(),
+      agentName: this.config.name,
+      conversationId: hookContext.conversationId,
+      callId: tc.id,
+      tool: tc.name,
+      params,
+      created: Date.now()
+    };
+    
+    this.emit(AgentEvent.APPROVAL_REQUESTED, { request, step });
+    this.emit(AgentEvent.THINKING, { message: `Waiting for approval to run ${tc.name}...` });
+    
+    let decision: ApprovalDecision;
+    try {
+      decision = await raceWithSignal(this.approvalHandler.requestApproval(request, options.signal), options.signal);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return deny('The run was cancelled while waiting for approval', 'cancelled');
+      }
+      this.logger.error(`Approval handler failed for tool ${tc.name}`, error);
+      return deny(`Approval for ${tc.name} could not be obtained: ${error instanceof Error ? error.message : String(error)}`, 'rejected');
+    }
+    
+    this.emit(AgentEvent.APPROVAL_DECIDED, { request, decision, step });
+    
+    if (decision.action === 'reject') {
+      this.logger.info(`Tool call ${tc.name} was rejected`, { reason: decision.reason });
+      return deny(
+        `A human reviewer denied this call to ${tc.name}${decision.reason ? `: ${decision.reason}` : '.'} Do not retry it; continue without it or ask the user how to proceed.`,
+        'rejected'
+      );
+    }
+    
+    if (decision.action === 'edit') {
+      // Edited arguments must still satisfy the tool schema
+      const edited = validateSchema(tool.schema, decision.params);
+      if (!edited.valid) {
+        this.logger.warn(`Edited parameters for tool ${tc.name} are invalid`, edited.errors);
+        return deny(`The reviewer's edited arguments for ${tc.name} are invalid, so the call was not made.`, 'rejected', edited.errors);
+      }
+      return { params: edited.value };
+    }
+    
+    return { params };
+  }
+  
+  /**
+   * Builds the tool message that answers a tool call
+   * 
+   * @param call - The executed tool call
+   * @returns A tool message carrying the call ID and serialized result
+   */
+  private createToolMessage(call: ToolCallRecord): Message {
     return {
-      response: result.message,
-      conversation,
-      toolCalls,
-      tokens: result.tokens
+      role: 'tool',
+      content: typeof call.result === 'string' ? call.result : JSON.stringify(call.result),
+      toolCallId: call.id,
+      name: call.tool,
+      isError: call.errorKind ? true : undefined,
+      timestamp: Date.now()
     };
   }
   
@@ -0,0 +1,536 @@
+/**
+ * Batch generation for bulk offline jobs
+ *
+ * Runs many independent requests (persona generation, backfills, scoring)
+ * through a provider's batch endpoint when it has one, or through a local
+ * worker with limited concurrency otherwise. Progress is written to disk
+ * after every change so an interrupted batch can be resumed.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Tool } from './types';
+import {
+  BatchItemResult,
+  BatchRequest,
+  GenerateOptions,
+  LLMProviderInterface
+} from './provider-interface';
+import { isAbortError, sleep } from '../utils/abort-utils';
+import { Logger } from '../utils/logger';
+
+/**
+ * Configuration for the batch runner
+ */
+export interface BatchRunnerConfig {
+  provider: LLMProviderInterface; // Provider that runs the requests
+  storageDir: string;     // Directory holding one JSON file per batch
+  concurrency?: number;   // Requests in flight at once in local mode (default: 4)
+  pollInterval?: number;  // Milliseconds between status checks of provider batches (default: 30000)
+  useProviderBatch?: boolean; // Use the provider's batch endpoint when it has one (default: true)
+}
+
+/**
+ * How a batch is executed
+ */
+export type BatchMode = 'local' | 'remote';
+
+/**
+ * Lifecycle of a batch
+ */
+export type BatchStatus = 'running' | 'completed' | 'cancelled' | 'failed'; // Failed batches can be resumed
+
+/**
+ * Progress of a batch
+ */
+export interface BatchProgress {
+  id: string;
+  mode: BatchMode;
+  status: BatchStatus;
+  total: number;
+  succeeded: number;
+  failed: number;
+  pending: number;        // Requests without a result yet
+  error?: string;         // Why the batch failed
+}
+
+/**
+ * Options for resuming a batch
+ */
+export interface ResumeBatchOptions {
+  retryFailed?: boolean;  // Run failed requests again (default: false)
+}
+
+/**
+ * Contents of a batch file
+ */
+interface BatchState {
+  version: number;
+  id: string;
+  mode: BatchMode;
+  status: BatchStatus;
+  remoteId?: string;      // Provider batch ID while a remote batch is in flight
+  error?: string;         // Why the batch failed
+  created: number;
+  updated: number;
+  requests: BatchRequest[];
+  results: Record<string, BatchItemResult>;
+}
+
+/**
+ * Current batch file format version
+ */
+const BATCH_VERSION = 1;
+
+/**
+ * Handle to a submitted batch
+ */
+export class BatchHandle {
+  private state: BatchState;
+  private config: Required<BatchRunnerConfig>;
+  private filePath: string;
+  private controller?: AbortController;
+  private worker?: Promise<void>;
+  private failure?: unknown; // Error that stopped the local worker
+  private saving: Promise<void> = Promise.resolve();
+  private logger: Logger;
+
+  /**
+   * Creates a handle (use BatchRunner.submit or BatchRunner.resume instead)
+   *
+   * @param state - The batch state
+   * @param config - The runner configuration
+   */
+  constructor(state: BatchState, config: Required<BatchRunnerConfig>) {
+    this.state = state;
+    this.config = config;
+    this.filePath = getBatchPath(config.storageDir, state.id);
+    this.logger = new Logger('BatchHandle');
+  }
+
+  /**
+   * The batch ID, used to resume the batch
+   */
+  get id(): string {
+    return this.state.id;
+  }
+
+  /**
+   * Gets the progress of the batch without contacting the provider
+   *
+   * @returns The batch progress
+   */
+  getProgress(): BatchProgress {
+    return getProgress(this.state);
+  }
+
+  /**
+   * Updates the progress of the batch
+   *
+   * Remote batches are checked with the provider and their results are
+   * downloaded once it has finished; local batches report their progress.
+   *
+   * @returns Promise resolving to the batch progress
+   */
+  async poll(): Promise<BatchProgress> {
+    const provider = this.config.provider;
+    const remoteId = this.state.remoteId;
+
+    if (this.state.mode === 'remote' && this.state.status === 'running' && remoteId) {
+      const status = await provider.getBatchStatus!(remoteId);
+      if (status === 'ended' && this.state.remoteId === remoteId) {
+        const results = await provider.getBatchResults!(remoteId, this.getPendingRequests());
+        for (const item of results) {
+          this.state.results[item.id] = item;
+        }
+
+        // Requests the provider returned nothing for count as failed
+        for (const request of this.getPendingRequests()) {
+          this.state.results[request.id] = { id: request.id, error: 'No result returned by the provider batch' };
+        }
+
+        this.state.remoteId = undefined;
+        this.state.status = 'completed';
+        await this.save();
+        this.logger.info(`Batch ${this.id} finished`, this.getProgress());
+      }
+    }
+
+    return this.getProgress();
+  }
+
+  /**
+   * Waits until the batch has completed or was cancelled
+   *
+   * @returns Promise resolving to the results
+   * @throws The error that stopped the local worker, e.g. when the batch file can't be written
+   */
+  async wait(): Promise<BatchItemResult[]> {
+    if (this.state.mode === 'local') {
+      await this.worker;
+      if (this.state.status === 'failed') {
+        throw this.failure;
+      }
+    } else {
+      while ((await this.poll()).status === 'running') {
+        await sleep(this.config.pollInterval);
+      }
+    }
+    return this.getResults();
+  }
+
+  /**
+   * Gets the results available so far, in request order
+   *
+   * @returns One result per finished request
+   */
+  getResults(): BatchItemResult[] {
+    return this.state.requests
+      .map(request => this.state.results[request.id])
+      .filter((item): item is BatchItemResult => !!item);
+  }
+
+  /**
+   * Cancels the batch
+   *
+   * Finished results are kept; requests still pending can be run later with
+   * BatchRunner.resume.
+   *
+   * @returns Promise resolving once the cancellation is saved
+   */
+  async cancel(): Promise<void> {
+    if (this.state.status !== 'running') {
+      return;
+    }
+
+    this.state.status = 'cancelled';
+    this.controller?.abort('Batch cancelled');
+    if (this.state.mode === 'remote' && this.state.remoteId) {
+      await this.config.provider.cancelBatch!(this.state.remoteId);
+    }
+
+    await this.worker;
+    await this.save();
+    this.logger.info(`Batch ${this.id} cancelled`, this.getProgress());
+  }
+
+  /**
+   * Starts running the pending requests
+   *
+   * @returns Promise resolving once a remote batch is submitted or the local worker is started
+   */
+  async start(): Promise<void> {
+    this.state.status = 'running';
+    this.state.error = undefined;
+
+    if (this.getPendingRequests().length === 0) {
+      this.state.status = 'completed';
+    } else if (this.state.mode === 'remote') {
+      if (!this.state.remoteId) {
+        this.state.remoteId = await this.config.provider.submitBatch!(this.getPendingRequests());
+        this.logger.info(`Submitted batch ${this.id} to the provider`, { remoteId: this.state.remoteId });
+      }
+    } else {
+      this.worker = this.runLocal().catch(error => this.fail(error));
+    }
+
+    await this.save();
+  }
+
+  /**
+   * Runs the pending requests locally with limited concurrency
+   */
+  private async runLocal(): Promise<void> {
+    const controller = new AbortController();
+    this.controller = controller;
+
+    const queue = this.getPendingRequests();
+    const runNext = async (): Promise<void> => {
+      for (let request = queue.shift(); request; request = queue.shift()) {
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        try {
+          const result = await this.config.provider.generateResponse({
+            ...request.options,
+            signal: controller.signal
+          });
+          this.state.results[request.id] = { id: request.id, result };
+        } catch (error) {
+          // Requests interrupted by cancel stay pending
+          if (controller.signal.aborted && isAbortError(error)) {
+            return;
+          }
+          this.logger.warn(`Request ${request.id} failed`, error instanceof Error ? error.message : error);
+          this.state.results[request.id] = {
+            id: request.id,
+            error: error instanceof Error ? error.message : String(error)
+          };
+        }
+        await this.save();
+      }
+    };
+
+    const workers = Array.from({ length: Math.min(this.config.concurrency, queue.length) }, runNext);
+    await Promise.all(workers);
+
+    if (this.state.status === 'running') {
+      this.state.status = 'completed';
+      await this.save();
+      this.logger.info(`Batch ${this.id} finished`, this.getProgress());
+    }
+  }
+
+  /**
+   * Marks the batch failed after the local worker stopped on an error
+   *
+   * Finished results are kept, so the batch can be resumed; wait() rethrows
+   * the error.
+   *
+   * @param error - The error that stopped the worker
+   */
+  private async fail(error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    this.logger.error(`Batch ${this.id} failed; resume it to run the pending requests`, { error: message });
+
+    this.failure = error;
+    this.controller?.abort('Batch failed');
+    this.state.status = 'failed';
+    this.state.error = message;
+
+    try {
+      await this.save();
+    } catch (saveError) {
+      this.logger.error(`Error saving batch ${this.id}`, {
+        error: saveError instanceof Error ? saveError.message : String(saveError)
+      });
+    }
+  }
+
+  /**
+   * Gets the requests without a result
+   */
+  private getPendingRequests(): BatchRequest[] {
+    return this.state.requests.filter(request => !this.state.results[request.id]);
+  }
+
+  /**
+   * Writes the batch file
+   *
+   * Writes are serialized and go through a temporary file so an interrupted
+   * run never leaves a truncated batch file.
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(async () => {
+        this.state.updated = Date.now();
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify(this.state), 'utf8');
+        await fs.promises.rename(tempPath, this.filePath);
+      });
+    return this.saving;
+  }
+}
+
+/**
+ * Submits and resumes batches of independent requests
+ */
+export class BatchRunner {
+  private config: Required<BatchRunnerConfig>;
+  private logger: Logger;
+
+  /**
+   * Creates a new batch runner
+   *
+   * @param config - Configuration for the runner
+   */
+  constructor(config: BatchRunnerConfig) {
+    this.config = {
+      concurrency: 4,
+      pollInterval: 30000,
+      useProviderBatch: true,
+      ...config
+    };
+    this.logger = new Logger('BatchRunner');
+  }
+
+  /**
+   * Submits a batch
+   *
+   * Requests given as plain options get the IDs r0, r1, ...; explicit IDs
+   * must be unique and, for provider batches, match [a-zA-Z0-9_-]{1,64}.
+   *
+   * @param requests - The requests to run
+   * @returns Promise resolving to a handle for polling the batch
+   */
+  async submit(requests: Array<GenerateOptions | BatchRequest>): Promise<BatchHandle> {
+    const batchRequests = requests.map((request, index): BatchRequest =>
+      isBatchRequest(request)
+        ? { id: request.id, options: toStoredOptions(request.options) }
+        : { id: `r${index}`, options: toStoredOptions(request) }
+    );
+
+    const ids = new Set(batchRequests.map(request => request.id));
+    if (ids.size !== batchRequests.length) {
+      throw new Error('Batch request IDs must be unique');
+    }
+
+    const now = Date.now();
+    const state: BatchState = {
+      version: BATCH_VERSION,
+      id: `batch_${uuidv4()}`,
+      mode: this.canUseProviderBatch() ? 'remote' : 'local',
+      status: 'running',
+      created: now,
+      updated: now,
+      requests: batchRequests,
+      results: {}
+    };
+
+    this.logger.info(`Submitting batch ${state.id}`, { mode: state.mode, requests: batchRequests.length });
+
+    const handle = new BatchHandle(state, this.config);
+    await handle.start();
+    return handle;
+  }
+
+  /**
+   * Resumes a batch from its file
+   *
+   * Local batches run their pending requests again; remote batches continue
+   * polling, or submit their pending requests if none are in flight.
+   *
+   * @param batchId - The batch ID
+   * @param options - Resume options
+   * @returns Promise resolving to a handle for polling the batch
+   */
+  async resume(batchId: string, options: ResumeBatchOptions = {}): Promise<BatchHandle> {
+    const state = await this.load(batchId);
+
+    if (options.retryFailed) {
+      for (const [id, item] of Object.entries(state.results)) {
+        if (item.error) {
+          delete state.results[id];
+        }
+      }
+    }
+
+    // A remote batch can only continue with a provider that supports batches
+    if (state.mode === 'remote' && !this.canUseProviderBatch()) {
+      if (state.remoteId) {
+        throw new Error(`Batch ${batchId} is still running at the provider, which this runner's provider cannot poll`);
+      }
+      state.mode = 'local';
+    }
+
+    this.logger.info(`Resuming batch ${batchId}`, getProgress(state));
+
+    const handle = new BatchHandle(state, this.config);
+    await handle.start();
+    return handle;
+  }
+
+  /**
+   * Lists the batches in the storage directory
+   *
+   * @returns Promise resolving to the progress of each batch
+   */
+  async list(): Promise<BatchProgress[]> {
+    if (!fs.existsSync(this.config.storageDir)) {
+      return [];
+    }
+
+    const files = (await fs.promises.readdir(this.config.storageDir)).filter(file => file.endsWith('.json'));
+    const batches: BatchProgress[] = [];
+    for (const file of files) {
+      try {
+        batches.push(getProgress(await this.load(path.basename(file, '.json'))));
+      } catch (error) {
+        this.logger.warn(`Skipping unreadable batch file ${file}`, error instanceof Error ? error.message : error);
+      }
+    }
+    return batches;
+  }
+
+  /**
+   * Reads a batch file
+   *
+   * @param batchId - The batch ID
+   * @returns Promise resolving to the batch state
+   */
+  private async load(batchId: string): Promise<BatchState> {
+    const filePath = getBatchPath(this.config.storageDir, batchId);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Batch not found: ${batchId}`);
+    }
+
+    const state: BatchState = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+    if (state.version !== BATCH_VERSION) {
+      throw new Error(`Unsupported batch file version ${state.version}: ${filePath}`);
+    }
+    return state;
+  }
+
+  /**
+   * Checks whether batches go to the provider's batch endpoint
+   */
+  private canUseProviderBatch(): boolean {
+    const provider = this.config.provider;
+    return this.config.useProviderBatch &&
+      !!provider.supportsBatch?.() &&
+      !!provider.submitBatch && !!provider.getBatchStatus && !!provider.getBatchResults && !!provider.cancelBatch;
+  }
+}
+
+/**
+ * Gets the path of a batch file
+ */
+function getBatchPath(storageDir: string, batchId: string): string {
+  return path.join(storageDir, `${batchId}.json`);
+}
+
+/**
+ * Counts the results of a batch
+ */
+function getProgress(state: BatchState): BatchProgress {
+  const items = Object.values(state.results);
+  const failed = items.filter(item => item.error).length;
+  return {
+    id: state.id,
+    mode: state.mode,
+    status: state.status,
+    total: state.requests.length,
+    succeeded: items.length - failed,
+    failed,
+    pending: state.requests.length - items.length,
+    ...(state.error ? { error: state.error } : {})
+  };
+}
+
+/**
+ * Distinguishes requests with an explicit ID from plain options
+ */
+function isBatchRequest(request: GenerateOptions | BatchRequest): request is BatchRequest {
+  return 'options' in request && 'id' in request;
+}
+
+/**
+ * Keeps the parts of generation options that can be saved and sent in a batch
+ *
+ * Callbacks, signals and streaming do not apply to batches, and tools are
+ * reduced to their declarations (batches never execute tools).
+ */
+function toStoredOptions(options: GenerateOptions): GenerateOptions {
+  const { signal, stream, onPartialResponse, onStreamEvent, tools, ...rest } = options;
+  return {
+    ...rest,
+    ...(tools ? {
+      tools: tools.map(tool => ({ name: tool.name, description: tool.description, schema: tool.schema }) as Tool)
+    } : {})
+  };
+}
@@ -0,0 +1,377 @@
+/**
+ * Disk-backed response cache for LLM providers
+ *
+ * Wraps a provider and stores its responses in a JSON file keyed by a hash
+ * of the model, messages, tools and sampling parameters, so repeated prompts
+ * (e.g. planning during development) are answered without an API call.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { MediaSource, Message } from './types';
+import { GenerateOptions, GenerateResult, LLMProviderInterface } from './provider-interface';
+import { hashRequest, normalizeRequest } from './replay-provider';
+import { throwIfAborted } from '../utils/abort-utils';
+import { emitProviderStream, resultToStreamEvents } from '../utils/event-stream';
+import { Logger } from '../utils/logger';
+
+/**
+ * Configuration for the caching provider
+ */
+export interface CachingProviderConfig {
+  provider: LLMProviderInterface; // Provider whose responses are cached
+  cacheFile: string;      // JSON file holding the cache
+  model?: string;         // Model name included in the cache key (default: the provider's model, else its class name)
+  ttl?: number;           // Time to live in milliseconds (default: 86400000, one day; 0 never expires)
+  maxEntries?: number;    // Least recently used entries are evicted beyond this (default: 1000)
+  maxBytes?: number;      // Optional cap on the total size of cached responses
+  skipNonZeroTemperature?: boolean; // Don't cache requests whose temperature is unset or above 0 (default: false)
+}
+
+/**
+ * A cached response
+ */
+export interface ResponseCacheEntry {
+  response: GenerateResult;
+  created: number;
+  lastAccess: number;
+  size: number;           // Serialized size of the response in bytes
+}
+
+/**
+ * Cache hit/miss counters and current size
+ */
+export interface ResponseCacheStats {
+  hits: number;
+  misses: number;
+  skipped: number;        // Requests that bypassed the cache
+  evictions: number;      // Entries removed by the size cap or TTL
+  entries: number;
+  bytes: number;
+  hitRate: number;        // hits / (hits + misses), 0 before any lookup
+}
+
+/**
+ * Contents of a cache file
+ */
+interface ResponseCacheFile {
+  version: number;
+  entries: Record<string, ResponseCacheEntry>;
+}
+
+/**
+ * Current cache file format version
+ */
+const CACHE_VERSION = 1;
+
+/**
+ * Provider that serves repeated requests from a disk-backed cache
+ */
+export class CachingProvider implements LLMProviderInterface {
+  private config: CachingProviderConfig;
+  private entries: Map<string, ResponseCacheEntry> = new Map();
+  private stats = { hits: 0, misses: 0, skipped: 0, evictions: 0 };
+  private saving: Promise<void> = Promise.resolve();
+  private logger: Logger;
+
+  /**
+   * Creates a new caching provider
+   *
+   * @param config - Configuration for the cache
+   */
+  constructor(config: CachingProviderConfig) {
+    this.config = {
+      ttl: 86400000,
+      maxEntries: 1000,
+      skipNonZeroTemperature: false,
+      ...config
+    };
+    this.logger = new Logger('CachingProvider');
+    this.load();
+  }
+
+  /**
+   * Serves a cached response, or calls the provider and caches its response
+   *
+   * Cache hits report zero tokens (no API usage) and set `cached`.
+   *
+   * @param options - Generation options
+   * @returns Promise resolving to the generation result
+   */
+  async generateResponse(options: GenerateOptions): Promise<GenerateResult> {
+    throwIfAborted(options.signal);
+
+    const key = this.isCacheable(options) ? await this.getCacheKey(options) : undefined;
+    if (!key) {
+      this.stats.skipped++;
+      return this.config.provider.generateResponse(options);
+    }
+
+    const entry = this.entries.get(key);
+
+    if (entry && !this.isExpired(entry)) {
+      this.stats.hits++;
+      entry.lastAccess = Date.now();
+      this.logger.debug('Cache hit', { key: key.slice(0, 12) });
+
+      const result: GenerateResult = {
+        ...structuredClone(entry.response),
+        tokens: { input: 0, output: 0, total: 0 },
+        cached: true
+      };
+      if (options.stream && (options.onPartialResponse || options.onStreamEvent)) {
+        emitProviderStream(resultToStreamEvents(result), result.message, options);
+      }
+      return result;
+    }
+
+    this.stats.misses++;
+    if (entry) {
+      this.entries.delete(key);
+      this.stats.evictions++;
+    }
+
+    const result = await this.config.provider.generateResponse(options);
+    this.set(key, result);
+    try {
+      await this.save();
+    } catch (error) {
+      // The response is still good; it just stays cached in memory only
+      this.logger.error('Error saving response cache', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Updates the configuration, forwarding provider settings to the wrapped provider
+   *
+   * A new `model` is also used in the cache key from then on.
+   *
+   * @param config - New configuration options
+   */
+  updateConfig(config: Record<string, any>): void {
+    const { ttl, maxEntries, maxBytes, skipNonZeroTemperature, ...rest } = config;
+    this.config = {
+      ...this.config,
+      ...(ttl !== undefined ? { ttl } : {}),
+      ...(maxEntries !== undefined ? { maxEntries } : {}),
+      ...(maxBytes !== undefined ? { maxBytes } : {}),
+      ...(skipNonZeroTemperature !== undefined ? { skipNonZeroTemperature } : {}),
+      ...(rest.model ? { model: rest.model } : {})
+    };
+    this.config.provider.updateConfig(rest);
+  }
+
+  /**
+   * Gets hit/miss counters and the current cache size
+   *
+   * @returns Cache statistics
+   */
+  getStats(): ResponseCacheStats {
+    const lookups = this.stats.hits + this.stats.misses;
+    return {
+      ...this.stats,
+      entries: this.entries.size,
+      bytes: this.getTotalBytes(),
+      hitRate: lookups > 0 ? this.stats.hits / lookups : 0
+    };
+  }
+
+  /**
+   * Removes expired entries
+   *
+   * @returns Promise resolving to the number of entries removed
+   */
+  async prune(): Promise<number> {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (this.isExpired(entry)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.stats.evictions += removed;
+      await this.save();
+    }
+    return removed;
+  }
+
+  /**
+   * Removes every entry and resets the statistics
+   */
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.stats = { hits: 0, misses: 0, skipped: 0, evictions: 0 };
+    await this.save();
+  }
+
+  /**
+   * Writes pending access times to disk
+   */
+  async flush(): Promise<void> {
+    await this.save();
+  }
+
+  /**
+   * Checks whether a request may be served from or stored in the cache
+   *
+   * @param options - Generation options
+   * @returns False for sampled requests when skipNonZeroTemperature is set
+   */
+  private isCacheable(options: GenerateOptions): boolean {
+    return !this.config.skipNonZeroTemperature || options.temperature === 0;
+  }
+
+  /**
+   * Hashes the fields that determine the response
+   *
+   * File media is keyed on the file's contents rather than its path, so an
+   * edited file is not answered from the cache.
+   *
+   * @param options - Generation options
+   * @returns Hex SHA-256 cache key, or undefined if a media file cannot be read
+   */
+  private async getCacheKey(options: GenerateOptions): Promise<string | undefined> {
+    let messages: Message[];
+    try {
+      messages = await Promise.all(options.messages.map(msg => this.hashFileMedia(msg)));
+    } catch (error) {
+      // Let the provider report the unreadable file
+      this.logger.warn('Not caching a request whose media file cannot be read', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+
+    const provider = this.config.provider;
+    const model = this.config.model || provider.getModel?.() || provider.constructor.name;
+    return hashRequest({ ...normalizeRequest({ ...options, messages }), model });
+  }
+
+  /**
+   * Adds the SHA-256 of their contents to a message's file media sources
+   *
+   * @param message - The message to key
+   * @returns The message with hashed file sources (the input if it has none)
+   */
+  private async hashFileMedia(message: Message): Promise<Message> {
+    if (typeof message.content === 'string' || !message.content.some(part => part.type !== 'text' && part.source.type === 'file')) {
+      return message;
+    }
+
+    const content = await Promise.all(message.content.map(async part => {
+      if (part.type === 'text' || part.source.type !== 'file') {
+        return part;
+      }
+      const data = await fs.promises.readFile(part.source.path);
+      const source: MediaSource & { sha256: string } = {
+        ...part.source,
+        sha256: crypto.createHash('sha256').update(data).digest('hex')
+      };
+      return { ...part, source };
+    }));
+    return { ...message, content };
+  }
+
+  private isExpired(entry: ResponseCacheEntry): boolean {
+    return this.config.ttl! > 0 && Date.now() - entry.created > this.config.ttl!;
+  }
+
+  private getTotalBytes(): number {
+    let bytes = 0;
+    this.entries.forEach(entry => {
+      bytes += entry.size;
+    });
+    return bytes;
+  }
+
+  /**
+   * Stores a response and evicts least recently used entries over the caps
+   *
+   * @param key - The cache key
+   * @param response - The provider's result
+   */
+  private set(key: string, response: GenerateResult): void {
+    const now = Date.now();
+    this.entries.set(key, {
+      response: structuredClone(response),
+      created: now,
+      lastAccess: now,
+      size: Buffer.byteLength(JSON.stringify(response), 'utf8')
+    });
+
+    const overCap = () =>
+      this.entries.size > this.config.maxEntries! ||
+      (this.config.maxBytes !== undefined && this.getTotalBytes() > this.config.maxBytes);
+
+    if (!overCap()) {
+      return;
+    }
+
+    const byAccess = Array.from(this.entries.entries()).sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+    for (const [oldKey] of byAccess) {
+      // Always keep the entry just stored
+      if (!overCap() || oldKey === key) {
+        break;
+      }
+      this.entries.delete(oldKey);
+      this.stats.evictions++;
+    }
+  }
+
+  /**
+   * Loads the cache file, dropping expired entries
+   */
+  private load(): void {
+    const filePath = this.config.cacheFile;
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+
+    try {
+      const data: ResponseCacheFile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      if (data.version !== CACHE_VERSION) {
+        this.logger.warn(`Ignoring cache file with unsupported version ${data.version}`, { filePath });
+        return;
+      }
+
+      for (const [key, entry] of Object.entries(data.entries)) {
+        if (!this.isExpired(entry)) {
+          this.entries.set(key, entry);
+        }
+      }
+      this.logger.debug(`Loaded ${this.entries.size} cached responses`, { filePath });
+    } catch (error) {
+      this.logger.warn('Failed to load response cache; starting empty', error);
+    }
+  }
+
+  /**
+   * Writes the cache to disk
+   *
+   * Writes are serialized and go through a temporary file so an interrupted
+   * run never leaves a truncated cache.
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(async () => {
+        const filePath = this.config.cacheFile;
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+        const data: ResponseCacheFile = {
+          version: CACHE_VERSION,
+          entries: Object.fromEntries(this.entries)
+        };
+        const tempPath = `${filePath}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify(data), 'utf8');
+        await fs.promises.rename(tempPath, filePath);
+      });
+    return this.saving;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,359 @@
+/**
+ * Context window management for the Agentis framework
+ *
+ * Keeps a conversation within a model's context window by dropping the oldest
+ * turns and, when a summarizer is configured, folding them into a synopsis
+ * message. System prompts and pinned messages are always kept.
+ */
+
+import { Message, Tool } from './types';
+import { GenerateResult, LLMProviderInterface } from './provider-interface';
+import { ModelCatalog } from './model-catalog';
+import { Logger } from '../utils/logger';
+import { getTextContent, MEDIA_PART_TOKEN_ESTIMATE } from '../utils/message-content';
+
+/**
+ * Known context window sizes (in tokens), matched by model name prefix
+ */
+export const MODEL_CONTEXT_LIMITS: Record<string, number> = {
+  'claude-3': 200000,
+  'claude-2.1': 200000,
+  'claude-2': 100000,
+  'gpt-4o': 128000,
+  'gpt-4-turbo': 128000,
+  'gpt-4.1': 1000000,
+  'gpt-4-32k': 32768,
+  'gpt-4': 8192,
+  'gpt-3.5-turbo': 16385,
+  'o1': 200000,
+  'o3': 200000
+};
+
+/**
+ * Context window assumed for models that are not listed
+ */
+const DEFAULT_CONTEXT_LIMIT = 8192;
+
+/**
+ * Configuration for the context manager
+ */
+export interface ContextManagerConfig {
+  model?: string;               // Model whose context limit applies (providers pass their own if unset)
+  maxContextTokens?: number;    // Explicit context limit, overrides the model lookup
+  reserveOutputTokens?: number; // Tokens kept free for the response (default: 1024)
+  keepRecentTurns?: number;     // Most recent turns that are never dropped (default: 2)
+  summarizer?: LLMProviderInterface; // If set, dropped turns are summarized into a synopsis
+  synopsisMaxTokens?: number;   // Max tokens for a generated synopsis (default: 512)
+  onCompaction?: (report: CompactionReport) => void; // Called whenever messages are dropped
+}
+
+/**
+ * Per-request options for fitting messages
+ */
+export interface FitOptions {
+  model?: string;          // Used when the manager has no model of its own
+  reserveTokens?: number;  // Extra tokens to keep free (e.g. for tool definitions)
+  onUsage?: (result: GenerateResult) => void; // Called with the summarizer's result, e.g. to record its usage
+}
+
+/**
+ * What a compaction pass did
+ */
+export interface CompactionReport {
+  dropped: Message[];          // Messages removed from the context, oldest first
+  synopsis?: Message;          // The synopsis message that replaced them, if summarized
+  tokensBefore: number;        // Estimated tokens before compaction
+  tokensAfter: number;         // Estimated tokens after compaction
+  budget: number;              // Token budget the messages were fitted into
+}
+
+/**
+ * Result of fitting messages into the context window
+ */
+export interface ContextFitResult {
+  messages: Message[];
+  compacted: boolean;
+  report?: CompactionReport;   // Present only when something was dropped
+}
+
+/**
+ * Looks up the context window for a model
+ *
+ * The model catalog is consulted first; MODEL_CONTEXT_LIMITS covers models
+ * that are not in the catalog.
+ *
+ * @param model - The model name
+ * @returns The context window size in tokens
+ */
+export function getModelContextLimit(model?: string): number {
+  if (!model) {
+    return DEFAULT_CONTEXT_LIMIT;
+  }
+
+  const info = ModelCatalog.getInstance().getModel(model);
+  if (info) {
+    return info.contextWindow;
+  }
+
+  // Prefer the longest matching prefix (e.g. "gpt-4o" over "gpt-4")
+  const match = Object.keys(MODEL_CONTEXT_LIMITS)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? MODEL_CONTEXT_LIMITS[match] : DEFAULT_CONTEXT_LIMIT;
+}
+
+/**
+ * Roughly estimates the number of tokens in a piece of text
+ *
+ * Uses the common ~4 characters per token approximation; good enough for
+ * budgeting without shipping a tokenizer per provider.
+ *
+ * @param text - The text to estimate
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimates the tokens used by a single message, including tool calls and media parts
+ *
+ * @param message - The message to estimate
+ * @returns Estimated token count
+ */
+export function estimateMessageTokens(message: Message): number {
+  let tokens = 4 + estimateTokens(getTextContent(message.content)); // Per-message framing overhead
+  if (typeof message.content !== 'string') {
+    tokens += message.content.filter(part => part.type !== 'text').length * MEDIA_PART_TOKEN_ESTIMATE;
+  }
+  if (message.toolCalls) {
+    tokens += estimateTokens(JSON.stringify(message.toolCalls));
+  }
+  return tokens;
+}
+
+/**
+ * Estimates the tokens used by tool definitions sent alongside the messages
+ *
+ * @param tools - The tools offered to the model
+ * @returns Estimated token count
+ */
+export function estimateToolTokens(tools?: Tool[]): number {
+  if (!tools || tools.length === 0) {
+    return 0;
+  }
+  return tools.reduce(
+    (sum, tool) => sum + estimateTokens(tool.name + tool.description + JSON.stringify(tool.schema)),
+    0
+  );
+}
+
+/**
+ * Keeps conversations within a token budget
+ */
+export class ContextManager {
+  private config: ContextManagerConfig;
+  private logger: Logger;
+
+  /**
+   * Creates a new context manager
+   *
+   * @param config - Context manager configuration
+   */
+  constructor(config: ContextManagerConfig = {}) {
+    this.config = {
+      reserveOutputTokens: 1024,
+      keepRecentTurns: 2,
+      synopsisMaxTokens: 512,
+      ...config
+    };
+
+    this.logger = new Logger('ContextManager');
+  }
+
+  /**
+   * Gets the token budget available for messages
+   *
+   * @param options - Per-request options
+   * @returns The number of tokens messages may use
+   */
+  getBudget(options: FitOptions = {}): number {
+    const limit = this.config.maxContextTokens ?? getModelContextLimit(this.config.model || options.model);
+    return Math.max(0, limit - (this.config.reserveOutputTokens || 0) - (options.reserveTokens || 0));
+  }
+
+  /**
+   * Fits messages into the context window
+   *
+   * The input array is not modified. Messages are grouped into turns (a user
+   * message plus the assistant and tool messages that follow it) so tool
+   * calls are never separated from their results. The oldest unpinned turns
+   * are dropped first; if a summarizer is configured they are folded into a
+   * synopsis system message.
+   *
+   * @param messages - The conversation messages
+   * @param options - Per-request options
+   * @returns The fitted messages and a report of what was dropped
+   */
+  async fit(messages: Message[], options: FitOptions = {}): Promise<ContextFitResult> {
+    const budget = this.getBudget(options);
+    const tokensBefore = this.countTokens(messages);
+
+    if (tokensBefore <= budget) {
+      return { messages, compacted: false };
+    }
+
+    // System prompts (except old synopses, which get merged) are always kept
+    const previousSynopsis = messages.find(m => m.role === 'system' && m.metadata?.synopsis);
+    const systemMessages = messages.filter(m => m.role === 'system' && m !== previousSynopsis);
+    const turns = this.groupTurns(messages.filter(m => m.role !== 'system'));
+
+    const keepRecent = Math.min(this.config.keepRecentTurns || 0, turns.length);
+    const protectedFrom = turns.length - keepRecent;
+
+    // Work out which turns to drop, oldest first, skipping pinned and recent ones
+    const fixedTokens = this.countTokens(systemMessages) + (previousSynopsis ? estimateMessageTokens(previousSynopsis) : 0);
+    let keptTokens = fixedTokens + turns.reduce((sum, turn) => sum + this.countTokens(turn), 0);
+    const droppedTurns = new Set<number>();
+
+    for (let i = 0; i < protectedFrom && keptTokens > budget; i++) {
+      if (turns[i].some(m => m.pinned)) {
+        continue;
+      }
+      droppedTurns.add(i);
+      keptTokens -= this.countTokens(turns[i]);
+    }
+
+    if (droppedTurns.size === 0) {
+      this.logger.warn('Conversation exceeds the context budget but nothing can be dropped', { budget, tokensBefore });
+      return { messages, compacted: false };
+    }
+
+    const dropped = turns.filter((_, i) => droppedTurns.has(i)).flat();
+    const kept = turns.filter((_, i) => !droppedTurns.has(i)).flat();
+
+    // Fold dropped turns into a synopsis when a summarizer is available
+    let synopsis: Message | undefined;
+    if (this.config.summarizer) {
+      try {
+        synopsis = await this.summarize(dropped, previousSynopsis && getTextContent(previousSynopsis.content), options.onUsage);
+      } catch (error) {
+        this.logger.error('Failed to summarize dropped messages, trimming instead', error);
+      }
+    }
+
+    // Without a new synopsis, an existing one is still the best record of older turns
+    const synopsisMessage = synopsis || previousSynopsis;
+    const fitted = [
+      ...systemMessages,
+      ...(synopsisMessage ? [synopsisMessage] : []),
+      ...kept
+    ];
+
+    const report: CompactionReport = {
+      dropped,
+      synopsis,
+      tokensBefore,
+      tokensAfter: this.countTokens(fitted),
+      budget
+    };
+
+    this.logger.debug('Compacted conversation', {
+      dropped: dropped.length,
+      summarized: !!synopsis,
+      tokensBefore,
+      tokensAfter: report.tokensAfter
+    });
+
+    if (this.config.onCompaction) {
+      this.config.onCompaction(report);
+    }
+
+    return { messages: fitted, compacted: true, report };
+  }
+
+  /**
+   * Updates the context manager configuration
+   *
+   * @param config - New configuration options
+   */
+  updateConfig(config: Partial<ContextManagerConfig>): void {
+    this.config = {
+      ...this.config,
+      ...config
+    };
+  }
+
+  /**
+   * Sums the estimated tokens of a list of messages
+   *
+   * @param messages - The messages to count
+   * @returns Estimated token count
+   */
+  private countTokens(messages: Message[]): number {
+    return messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+  }
+
+  /**
+   * Groups non-system messages into turns that start at each user message
+   *
+   * @param messages - Non-system messages in order
+   * @returns Array of turns
+   */
+  private groupTurns(messages: Message[]): Message[][] {
+    const turns: Message[][] = [];
+
+    for (const message of messages) {
+      if (message.role === 'user' || turns.length === 0) {
+        turns.push([message]);
+      } else {
+        turns[turns.length - 1].push(message);
+      }
+    }
+
+    return turns;
+  }
+
+  /**
+   * Summarizes dropped messages (and any earlier synopsis) into a synopsis message
+   *
+   * @param dropped - The messages being removed
+   * @param previousSynopsis - The synopsis they are being merged into, if any
+   * @param onUsage - Called with the summarizer's result
+   * @returns The new synopsis message
+   */
+  private async summarize(
+    dropped: Message[],
+    previousSynopsis?: string,
+    onUsage?: (result: GenerateResult) => void
+  ): Promise<Message> {
+    const transcript = dropped.map(m => {
+      const toolInfo = m.toolCalls ? ` [called tools: ${m.toolCalls.map(tc => tc.name).join(', ')}]` : '';
+      return `${m.role.toUpperCase()}${m.name ? ` (${m.name})` : ''}: ${getTextContent(m.content)}${toolInfo}`;
+    }).join('\n\n');
+
+    const prompt = `Summarize the following earlier part of a conversation so it can replace the original messages.
+Keep facts, decisions, user preferences, open questions and tool results that may matter later. Be concise.
+${previousSynopsis ? `\nExisting summary of even earlier messages (merge it in):\n${previousSynopsis}\n` : ''}
+Conversation:
+${transcript}`;
+
+    const result = await this.config.summarizer!.generateResponse({
+      messages: [
+        { role: 'system', content: 'You write compact, factual conversation summaries.' },
+        { role: 'user', content: prompt }
+      ],
+      maxTokens: this.config.synopsisMaxTokens,
+      temperature: 0
+    });
+    onUsage?.(result);
+
+    return {
+      role: 'system',
+      content: `Summary of earlier conversation:\n${result.message}`,
+      metadata: { synopsis: true, summarizedMessages: dropped.length },
+      timestamp: Date.now()
+    };
+  }
+}
\ No newline at end of file
@@ -12,9 +12,13 @@ import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
 import { Agent } from './agent';
 import { AgentSwarm } from './agent-swarm';
+import { AgentMiddleware } from './middleware';
 import { RunOptions, RunResult, AgentEvent } from './types';
-import { ProviderType } from './provider-interface';
+import { LLMProviderInterface, ProviderType } from './provider-interface';
+import { createSubtaskOptions, createSummaryOptions } from '../planning/planner-interface';
 import { Logger } from '../utils/logger';
+import { createCancelledResult, createLinkedSignal } from '../utils/abort-utils';
+import { UsageLedger } from '../usage/usage-ledger';
 
 /**
  * Configuration for agent specialization
@@ -24,7 +28,7 @@ export interface AgentSpecialization {
   description: string;
   capabilities: string[];
   preferredTaskTypes: string[];
-  provider: ProviderType;
+  provider: ProviderType | LLMProviderInterface; // A provider instance (e.g. a RoutingProvider) is used by the agent
 }
 
 /**
@@ -73,6 +77,8 @@ export interface EnhancedAgentSwarmConfig {
   maxConcurrentAgents?: number;
   agentSpecializations?: Record<string, AgentSpecialization>;
   enabledCommunicationChannels?: string[];
+  middleware?: AgentMiddleware[]; // Applied to every member agent and the coordinator
+  usageLedger?: UsageLedger; // Records usage of every member agent and the coordinator
 }
 
 /**
@@ -111,6 +117,7 @@ export class EnhancedAgentSwarm extends AgentSwarm {
     // Store agent specializations
     if (config.agentSpecializations) {
       this.agentSpecializations = config.agentSpecializations;
+      this.applySpecializationProviders();
     } else {
       // Create default specializations based on agent providers
       this.initializeDefaultSpecializations();
@@ -145,14 +152,32 @@ export class EnhancedAgentSwarm extends AgentSwarm {
     }
   }
   
+  /**
+   * Gives agents the provider instances named in their specializations
+   */
+  private applySpecializationProviders(): void {
+    for (const [agentId, specialization] of Object.entries(this.agentSpecializations)) {
+      const agent = this.getAgent(agentId);
+      if (agent && typeof specialization.provider !== 'string') {
+        agent.provider = specialization.provider;
+      }
+    }
+  }
+  
   /**
    * Creates an enhanced coordination plan with better task allocation
    * based on agent specializations
    * 
    * @param task - The task to create a plan for
+   * @param signal - Optional signal that cancels plan creation
+   * @param usageRunId - Optional usage ledger run to charge the planning call to
    * @returns Promise resolving to the created plan
    */
-  async createEnhancedCoordinationPlan(task: string): Promise<EnhancedSwarmPlan> {
+  async createEnhancedCoordinationPlan(
+    task: string,
+    signal?: AbortSignal,
+    usageRunId?: string
+  ): Promise<EnhancedSwarmPlan> {
     this.swarmLogger.debug('Creating enhanced coordination plan');
     
     // Get all agents with their specializations for the prompt
@@ -162,7 +187,7 @@ export class EnhancedAgentSwarm extends AgentSwarm {
 - Background: ${agent.config.personality.background}
 - Specialization: ${specialization?.description || 'General purpose'}
 - Capabilities: ${specialization?.capabilities.join(', ') || agent.config.personality.traits.join(', ')}
-- Provider: ${specialization?.provider || 'Unknown'}`;
+- Provider: ${specialization ? describeProvider(specialization.provider) : 'Unknown'}`;
     });
     
     // Create a detailed collaboration prompt for the coordinator
@@ -188,6 +213,8 @@ Format your response as a structured plan with clear task assignments for each a
     // Ask the coordinator to create the plan
     const planResult = await this.getCoordinator().run({
       task: collaborationPrompt,
+      signal,
+      usageRunId
     });
     
     // Parse the enhanced coordination plan from the response
@@ -233,24 +260,46 @@ Format your response as a structured plan with clear task assignments for each a
     // Store the original task for context
     this.originalTask = options.task;
     
-    // Create an enhanced coordination plan
-    const plan = await this.createEnhancedCoordinationPlan(options.task);
+    // One signal for the whole swarm run, shared by the coordinator and every member agent
+    const linked = createLinkedSignal(options.signal, options.timeout, 'Enhanced swarm run');
     
-    // Execute the plan with specialized execution based on plan metadata
-    let result: RunResult;
+    // Charge the coordinator and every member to one ledger run
+    const ownsUsageRun = !!this.usageLedger && !options.usageRunId;
+    const usageRunId = ownsUsageRun ? this.usageLedger!.beginRun(error => linked.abort(error)) : options.usageRunId;
+    options = { ...options, signal: linked.signal, timeout: undefined, usageRunId };
     
-    // Choose execution strategy based on collaboration level and plan metadata
-    if (plan.metadata.collaborationLevel === 'high') {
-      result = await this.executeWithHighCollaboration(plan, options);
-    } else if (plan.metadata.requiresExternalData) {
-      result = await this.executeWithExternalDataFocus(plan, options);
-    } else {
-      // Even for low collaboration, let's force external data focus since that's usually needed
-      this.swarmLogger.info('Low collaboration level detected but forcing external data focus for better results');
-      result = await this.executeWithExternalDataFocus(plan, options);
+    try {
+      // Create an enhanced coordination plan
+      const plan = await this.createEnhancedCoordinationPlan(options.task, options.signal, usageRunId);
+      
+      if (options.signal?.aborted) {
+        return createCancelledResult('', undefined, options.signal);
+      }
+      
+      // Execute the plan with specialized execution based on plan metadata
+      let result: RunResult;
+      
+      // Choose execution strategy based on collaboration level and plan metadata
+      if (plan.metadata.collaborationLevel === 'high') {
+        result = await this.executeWithHighCollaboration(plan, options);
+      } else if (plan.metadata.requiresExternalData) {
+        result = await this.executeWithExternalDataFocus(plan, options);
+      } else {
+        // Even for low collaboration, let's force external data focus since that's usually needed
+        this.swarmLogger.info('Low collaboration level detected but forcing external data focus for better results');
+        result = await this.executeWithExternalDataFocus(plan, options);
+      }
+      
+      if (ownsUsageRun) {
+        result.usage = this.usageLedger!.getSummary({ runId: usageRunId });
+      }
+      return result;
+    } finally {
+      if (ownsUsageRun) {
+        this.usageLedger!.endRun(usageRunId!);
+      }
+      linked.cleanup();
     }
-    
-    return result;
   }
   
   /**
@@ -273,6 +322,9 @@ Format your response as a structured plan with clear task assignments for each a
     
     // Execute high priority tasks
     for (const task of highPriorityTasks) {
+      // Stop before starting new work once the run is cancelled
+      if (options.signal?.aborted) break;
+      
       const agent = this.getAgent(task.agentId);
       if (!agent) continue;
       
@@ -290,8 +342,8 @@ Format your response as a structured plan with clear task assignments for each a
         const enhancedTask = `${specializationContext}\n\nTask: ${task.description}`;
         
         const taskResult = await agent.run({
-          ...options,
-          task: enhancedTask,
+          ...createSubtaskOptions(options, enhancedTask),
+          route: { ...options.route, taskType: task.taskType },
         });
         
         // Store the result
@@ -310,6 +362,9 @@ Format your response as a structured plan with clear task assignments for each a
     const remainingTasks = plan.tasks.filter(t => t.priority !== 'high');
     
     for (const task of remainingTasks) {
+      // Stop before starting new work once the run is cancelled
+      if (options.signal?.aborted) break;
+      
       const agent = this.getAgent(task.agentId);
       if (!agent) continue;
       
@@ -340,8 +395,8 @@ ${contextWithPreviousResults}
 Please build upon the work of other agents where relevant. Your task is to ${task.taskType}.`;
         
         const taskResult = await agent.run({
-          ...options,
-          task: enhancedTask,
+          ...createSubtaskOptions(options, enhancedTask),
+          route: { ...options.route, taskType: task.taskType },
         });
         
         // Store the result
@@ -356,6 +411,12 @@ Please build upon the work of other agents where relevant. Your task is to ${tas
       }
     }
     
+    // Return the partial results without synthesis if the run was cancelled
+    if (options.signal?.aborted) {
+      return createCancelledResult(
+        results.map(r => `${r.agent}: ${r.result}`).join('\n\n'), undefined, options.signal);
+    }
+    
     // Ask the coordinator to synthesize the results with awareness of
     // the different provider strengths that were utilized
     const synthesisPrompt = `
@@ -364,7 +425,7 @@ I've coordinated a group of specialized agents with different AI providers to co
 
 Each agent has unique capabilities based on their provider:
 ${Object.values(this.agentSpecializations).map(s => 
-  `- ${s.name} (${s.provider}): ${s.description}`
+  `- ${s.name} (${describeProvider(s.provider)}): ${s.description}`
 ).join('\n')}
 
 Here are the results from each agent:
@@ -380,14 +441,15 @@ Highlight where different AI providers complemented each other's capabilities.
 `;
     
     // Get the synthesis
-    const synthesis = await this.getCoordinator().run({
-      ...options,
-      task: synthesisPrompt,
-    });
+    const synthesis = await this.getCoordinator().run(createSummaryOptions(options, synthesisPrompt));
     
     return {
       response: synthesis.response,
       conversation: synthesis.conversation,
+    
+      data: synthesis.data,
+    
+      dataErrors: synthesis.dataErrors,
     };
   }
   
@@ -415,6 +477,9 @@ Highlight where different AI providers complemented each other's capabilities.
     
     // Execute research tasks
     for (const task of researchTasks) {
+      // Stop before starting new work once the run is cancelled
+      if (options.signal?.aborted) break;
+      
       const agent = this.getAgent(task.agentId);
       if (!agent) continue;
       
@@ -424,8 +489,8 @@ Highlight where different AI providers complemented each other's capabilities.
       
       try {
         const taskResult = await agent.run({
-          ...options,
-          task: task.description,
+          ...createSubtaskOptions(options, task.description),
+          route: { ...options.route, taskType: task.taskType },
         });
         
         // Store the result
@@ -450,6 +515,9 @@ Highlight where different AI providers complemented each other's capabilities.
     
     // Execute analysis tasks
     for (const task of analysisTasks) {
+      // Stop before starting new work once the run is cancelled
+      if (options.signal?.aborted) break;
+      
       const agent = this.getAgent(task.agentId);
       if (!agent) continue;
       
@@ -470,8 +538,8 @@ FINDINGS: ${r.result}
 Please analyze this data to ${task.description}`;
         
         const taskResult = await agent.run({
-          ...options,
-          task: dataContext,
+          ...createSubtaskOptions(options, dataContext),
+          route: { ...options.route, taskType: task.taskType },
         });
         
         // Store the result
@@ -494,6 +562,9 @@ Please analyze this data to ${task.description}`;
     const finalResults = [...dataResults, ...analysisResults];
     
     for (const task of remainingTasks) {
+      // Stop before starting new work once the run is cancelled
+      if (options.signal?.aborted) break;
+      
       const agent = this.getAgent(task.agentId);
       if (!agent) continue;
       
@@ -514,8 +585,8 @@ RESULT: ${r.result}
 `).join('\n')}`;
         
         const taskResult = await agent.run({
-          ...options,
-          task: fullContext,
+          ...createSubtaskOptions(options, fullContext),
+          route: { ...options.route, taskType: task.taskType },
         });
         
         // Store the result
@@ -529,6 +600,12 @@ RESULT: ${r.result}
       }
     }
     
+    // Return the partial results without synthesis if the run was cancelled
+    if (options.signal?.aborted) {
+      return createCancelledResult(
+        finalResults.map(r => `${r.agent}: ${r.result}`).join('\n\n'), undefined, options.signal);
+    }
+    
     // Ask the coordinator to synthesize all results
     const synthesisPrompt = `
 I've coordinated a group of agents to complete this task involving gathering and analyzing external data:
@@ -565,14 +642,15 @@ Focus on providing a clear, accurate, and well-structured answer to the original
 `;
     
     // Get the synthesis
-    const synthesis = await this.getCoordinator().run({
-      ...options,
-      task: synthesisPrompt,
-    });
+    const synthesis = await this.getCoordinator().run(createSummaryOptions(options, synthesisPrompt));
     
     return {
       response: synthesis.response,
       conversation: synthesis.conversation,
+    
+      data: synthesis.data,
+    
+      dataErrors: synthesis.dataErrors,
     };
   }
   
@@ -1076,4 +1154,14 @@ Focus on providing a clear, accurate, and well-structured answer to the original
     // We'll need to access it through any potential method
     return (this as any).coordinator;
   }
+}
+
+/**
+ * Describes a specialization's provider for coordination prompts
+ *
+ * @param provider - A provider type or provider instance
+ * @returns A readable provider name
+ */
+function describeProvider(provider: ProviderType | LLMProviderInterface): string {
+  return typeof provider === 'string' ? provider : provider.constructor.name;
 }
\ No newline at end of file
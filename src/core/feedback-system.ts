@@ -48,6 +48,17 @@ export interface FeedbackItem {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Feedback as returned by an evaluator in structured output mode
+ */
+interface StructuredFeedback {
+  ratings: Partial<Record<FeedbackCategory, number>>;
+  comments: string;
+  suggestions: string;
+  strengths?: string;
+  weaknesses?: string;
+}
+
 /**
  * Configuration for the feedback system
  */
@@ -102,6 +113,7 @@ export class FeedbackSystem {
    * @param taskResult - Result of the task
    * @param producerAgent - Agent that produced the result
    * @param evaluatorAgent - Agent that will evaluate the result
+   * @param usageRunId - Optional usage ledger run to charge the evaluation to
    * @returns Promise resolving to feedback item
    */
   async requestFeedback(
@@ -109,7 +121,8 @@ export class FeedbackSystem {
     taskDescription: string,
     taskResult: string,
     producerAgent: Agent,
-    evaluatorAgent: Agent
+    evaluatorAgent: Agent,
+    usageRunId?: string
   ): Promise<FeedbackItem> {
     this.logger.info('Requesting feedback', { 
       taskId, 
@@ -125,18 +138,23 @@ export class FeedbackSystem {
       producerAgent.config.role
     );
     
-    // Ask the evaluator agent to provide feedback
-    const result = await evaluatorAgent.run({
-      task: feedbackPrompt
+    // Ask the evaluator agent to provide structured feedback
+    const result = await evaluatorAgent.run<StructuredFeedback>({
+      task: feedbackPrompt,
+      responseSchema: this.buildFeedbackSchema(),
+      usageRunId,
+      usageSource: 'feedback'
     });
     
-    // Parse feedback from the response
-    const feedback = this.parseFeedbackResponse(
-      result.response,
-      taskId,
-      producerAgent.id,
-      evaluatorAgent.id
-    );
+    // Use the validated feedback, falling back to parsing the text
+    const feedback = result.data
+      ? this.createFeedbackItem(result.data, taskId, producerAgent.id, evaluatorAgent.id)
+      : this.parseFeedbackResponse(
+          result.response,
+          taskId,
+          producerAgent.id,
+          evaluatorAgent.id
+        );
     
     // Store the feedback
     this.feedbackHistory.push(feedback);
@@ -302,7 +320,8 @@ export class FeedbackSystem {
     
     // The agent reflects on its own feedback
     const reflectionResult = await agent.run({
-      task: reflectionPrompt
+      task: reflectionPrompt,
+      usageSource: 'feedback'
     });
     
     // Extract improvement areas and suggestions
@@ -366,6 +385,73 @@ export class FeedbackSystem {
     `;
   }
   
+  /**
+   * Builds the response schema for structured feedback
+   * 
+   * @returns JSON Schema covering the configured rating categories
+   */
+  private buildFeedbackSchema(): Record<string, any> {
+    const ratingProperties: Record<string, any> = {};
+    for (const category of this.config.requiredCategories) {
+      ratingProperties[category] = { type: 'integer', minimum: 1, maximum: 5 };
+    }
+    
+    const properties: Record<string, any> = {
+      ratings: {
+        type: 'object',
+        properties: ratingProperties,
+        required: this.config.requiredCategories
+      },
+      comments: { type: 'string', description: 'Overall assessment of the work' },
+      suggestions: { type: 'string', description: 'Specific suggestions for improvement' }
+    };
+    const required = ['ratings', 'comments', 'suggestions'];
+    
+    if (this.config.detailedFeedback) {
+      properties.strengths = { type: 'string', description: 'Key strengths of the work' };
+      properties.weaknesses = { type: 'string', description: 'Areas that need improvement' };
+      required.push('strengths', 'weaknesses');
+    }
+    
+    return { type: 'object', properties, required };
+  }
+  
+  /**
+   * Creates a feedback item from validated structured feedback
+   * 
+   * @param data - Structured feedback returned by the evaluator
+   * @param taskId - ID of the task
+   * @param producerAgentId - ID of the agent that produced the task result
+   * @param evaluatorAgentId - ID of the agent providing feedback
+   * @returns Feedback item
+   */
+  private createFeedbackItem(
+    data: StructuredFeedback,
+    taskId: string,
+    producerAgentId: string,
+    evaluatorAgentId: string
+  ): FeedbackItem {
+    const feedbackItem: FeedbackItem = {
+      id: uuidv4(),
+      taskId,
+      evaluatorAgentId,
+      producerAgentId,
+      timestamp: Date.now(),
+      ratings: data.ratings as Record<FeedbackCategory, FeedbackRating>,
+      comments: data.comments || 'No comments provided',
+      suggestions: data.suggestions || 'No suggestions provided'
+    };
+    
+    if (this.config.detailedFeedback) {
+      feedbackItem.metadata = {
+        strengths: data.strengths || 'No strengths specified',
+        weaknesses: data.weaknesses || 'No weaknesses specified'
+      };
+    }
+    
+    return feedbackItem;
+  }
+  
   /**
    * Parses feedback from an agent's response
    * 
@@ -0,0 +1,299 @@
+/**
+ * Provider that talks to Grok through a logged-in Twitter connector
+ *
+ * Grok's chat only knows user and assistant turns and has no native tool
+ * calling, so system prompts are folded into the first user turn, tools are
+ * described in the prompt and tool calls are parsed back out of the answer.
+ */
+
+import crypto from 'crypto';
+import { Message } from './types';
+import { GenerateOptions, GenerateResult, LLMProviderInterface, ProviderType } from './provider-interface';
+import { estimateTokens } from './context-manager';
+import { ModelCatalog, ModelInfo } from './model-catalog';
+import { raceWithSignal, throwIfAborted } from '../utils/abort-utils';
+import { emitProviderStream, resultToStreamEvents } from '../utils/event-stream';
+import { getTextContent } from '../utils/message-content';
+import { extractJson } from '../utils/structured-output';
+import {
+  buildSchemaInstructions,
+  buildToolInstructions,
+  parseToolCalls,
+  toolMessagesToText
+} from '../utils/prompt-tools';
+import { Logger } from '../utils/logger';
+
+/**
+ * A turn in a Grok conversation
+ */
+export interface GrokChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Grok's answer as returned by the Twitter connectors
+ */
+export interface GrokChatResult {
+  message: string;
+  conversationId: string;
+  rateLimit?: {
+    isRateLimited: boolean;
+    message: string;
+  };
+}
+
+/**
+ * Anything that can chat with Grok, e.g. TwitterConnector or TwitterDirectConnector
+ */
+export interface GrokChatClient {
+  grokChat(messages: GrokChatMessage[], conversationId?: string): Promise<GrokChatResult>;
+}
+
+/**
+ * Configuration for the Grok provider
+ */
+export interface GrokProviderConfig {
+  connector: GrokChatClient; // A connected Twitter connector
+  model?: string;         // Name reported in results and used for catalog lookups (default: 'grok')
+  reuseConversations?: boolean; // Continue the Grok conversation a request extends (default: true)
+  maxConversations?: number; // Conversation IDs remembered for reuse (default: 100)
+}
+
+/**
+ * Error raised when Grok reports that the account is rate limited
+ *
+ * Carries status 429 so retry and failover logic treat it like an API rate limit.
+ */
+export class GrokRateLimitError extends Error {
+  readonly status = 429;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'GrokRateLimitError';
+  }
+}
+
+/**
+ * Provider for Grok through Twitter's web interface
+ */
+export class GrokProvider implements LLMProviderInterface {
+  private config: GrokProviderConfig;
+  // Fingerprint of a conversation's turns -> Grok conversation ID, oldest first
+  private conversations: Map<string, string> = new Map();
+  private logger: Logger;
+
+  /**
+   * Creates a new Grok provider
+   *
+   * @param config - Configuration for the provider
+   */
+  constructor(config: GrokProviderConfig) {
+    if (!config.connector) {
+      throw new Error('GrokProvider needs a connected Twitter connector');
+    }
+
+    this.config = {
+      model: 'grok',
+      reuseConversations: true,
+      maxConversations: 100,
+      ...config
+    };
+    this.logger = new Logger('GrokProvider');
+  }
+
+  /**
+   * Generates a response from Grok
+   *
+   * @param options - Generation options
+   * @returns Promise resolving to the generation result
+   */
+  async generateResponse(options: GenerateOptions): Promise<GenerateResult> {
+    throwIfAborted(options.signal);
+
+    // Tools are offered through the prompt, so forbidden tool calls mean no tools
+    const tools = options.toolChoice === 'none' ? [] : options.tools || [];
+    const instructions: string[] = [];
+    if (tools.length > 0) {
+      instructions.push(buildToolInstructions(tools));
+    }
+    if (options.responseFormat) {
+      instructions.push(buildSchemaInstructions(options.responseFormat.schema));
+    }
+
+    const turns = this.mapMessages(toolMessagesToText(options.messages), instructions.join('\n\n'));
+    const conversationId = this.findConversation(turns);
+
+    this.logger.debug('Sending request to Grok', {
+      turns: turns.length,
+      conversationId: conversationId || 'new'
+    });
+
+    const response = await raceWithSignal(this.config.connector.grokChat(turns, conversationId), options.signal);
+    if (response.rateLimit?.isRateLimited) {
+      throw new GrokRateLimitError(`Grok is rate limited: ${response.rateLimit.message}`);
+    }
+
+    const message = response.message || '';
+    this.rememberConversation([...turns, { role: 'assistant', content: message }], response.conversationId);
+
+    const input = turns.reduce((sum, turn) => sum + estimateTokens(turn.content), 0);
+    const output = estimateTokens(message);
+    const result: GenerateResult = {
+      message,
+      provider: ProviderType.GROK,
+      model: this.config.model,
+      tokens: { input, output, total: input + output }
+    };
+
+    if (tools.length > 0) {
+      const toolCalls = parseToolCalls(message, tools);
+      if (toolCalls.length > 0) {
+        this.logger.debug('Parsed prompt-based tool calls', toolCalls.map(tc => tc.name));
+        result.toolCalls = toolCalls;
+        result.message = '';
+      }
+    }
+
+    if (options.responseFormat && !result.toolCalls) {
+      const parsed = extractJson(message);
+      if (parsed !== undefined) {
+        result.structuredOutput = parsed;
+      }
+    }
+
+    // Grok answers in one piece; replay it to stream listeners
+    if (options.stream && (options.onPartialResponse || options.onStreamEvent)) {
+      emitProviderStream(resultToStreamEvents(result), result.message, options);
+    }
+
+    return result;
+  }
+
+  /**
+   * Updates the provider configuration
+   *
+   * @param config - New configuration options
+   */
+  updateConfig(config: Partial<GrokProviderConfig>): void {
+    this.config = {
+      ...this.config,
+      ...config
+    };
+
+    // Conversations belong to the account behind the old connector
+    if (config.connector) {
+      this.conversations.clear();
+    }
+  }
+
+  /**
+   * Gets the configured model name
+   *
+   * @returns The model name
+   */
+  getModel(): string {
+    return this.config.model || 'grok';
+  }
+
+  /**
+   * Gets the catalog entry of the configured model
+   *
+   * @returns The model's capabilities and limits, or undefined if the catalog does not know it
+   */
+  getModelInfo(): ModelInfo | undefined {
+    return ModelCatalog.getInstance().getModel(this.config.model);
+  }
+
+  /**
+   * Converts messages to Grok turns
+   *
+   * System messages and the given instructions are prepended to the first user
+   * turn, media parts are reduced to their text, and consecutive turns of the
+   * same role are merged.
+   *
+   * @param messages - Messages without tool roles
+   * @param instructions - Extra instructions for the preamble
+   * @returns Alternating user and assistant turns
+   */
+  private mapMessages(messages: Message[], instructions: string): GrokChatMessage[] {
+    const preamble = [
+      ...messages.filter(msg => msg.role === 'system').map(msg => getTextContent(msg.content)),
+      ...(instructions ? [instructions] : [])
+    ].join('\n\n');
+
+    const turns: GrokChatMessage[] = [];
+    for (const msg of messages) {
+      if (msg.role !== 'user' && msg.role !== 'assistant') {
+        continue;
+      }
+
+      const content = getTextContent(msg.content);
+      const previous = turns[turns.length - 1];
+      if (previous && previous.role === msg.role) {
+        previous.content = `${previous.content}\n\n${content}`;
+      } else {
+        turns.push({ role: msg.role, content });
+      }
+    }
+
+    if (preamble) {
+      const firstUser = turns.find(turn => turn.role === 'user');
+      if (firstUser) {
+        firstUser.content = `${preamble}\n\n${firstUser.content}`;
+      } else {
+        turns.unshift({ role: 'user', content: preamble });
+      }
+    }
+
+    return turns;
+  }
+
+  /**
+   * Finds the Grok conversation that a request continues
+   *
+   * A request continues a conversation when everything before its final user
+   * turn equals the turns of an earlier request plus Grok's answer.
+   *
+   * @param turns - The request's turns
+   * @returns The conversation ID, or undefined to start a new conversation
+   */
+  private findConversation(turns: GrokChatMessage[]): string | undefined {
+    if (!this.config.reuseConversations || turns.length < 3) {
+      return undefined;
+    }
+
+    const key = fingerprint(turns.slice(0, -1));
+    const conversationId = this.conversations.get(key);
+    if (conversationId) {
+      // Move to the end so the most recently used conversations are kept
+      this.conversations.delete(key);
+      this.conversations.set(key, conversationId);
+    }
+    return conversationId;
+  }
+
+  /**
+   * Remembers a conversation so a follow-up request can continue it
+   *
+   * @param turns - The request's turns followed by Grok's answer
+   * @param conversationId - The Grok conversation ID
+   */
+  private rememberConversation(turns: GrokChatMessage[], conversationId?: string): void {
+    if (!this.config.reuseConversations || !conversationId) {
+      return;
+    }
+
+    this.conversations.set(fingerprint(turns), conversationId);
+    while (this.conversations.size > this.config.maxConversations!) {
+      this.conversations.delete(this.conversations.keys().next().value!);
+    }
+  }
+}
+
+/**
+ * Hashes a list of turns
+ */
+function fingerprint(turns: GrokChatMessage[]): string {
+  return crypto.createHash('sha256').update(JSON.stringify(turns)).digest('hex');
+}
\ No newline at end of file
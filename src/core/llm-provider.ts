@@ -1,11 +1,21 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { Message } from './types';
+import { ContentPart, Message, MessageContent } from './types';
 import { 
   GenerateOptions, 
   GenerateResult, 
   ToolCall, 
-  LLMProviderInterface 
+  LLMProviderInterface,
+  ProviderType,
+  BatchRequest,
+  BatchItemResult,
+  RemoteBatchStatus
 } from './provider-interface';
+import { toolMessagesToText } from '../utils/prompt-tools';
+import { ObjectResponseSchema, toObjectSchema, unwrapStructuredOutput } from '../utils/structured-output';
+import { ContextManager, estimateToolTokens } from './context-manager';
+import { ModelCatalog, ModelInfo } from './model-catalog';
+import { getTextContent, resolveMediaSource } from '../utils/message-content';
+import { RateLimiter, RateLimits, estimateRequestTokens, getSharedRateLimiter } from '../utils/rate-limiter';
 
 /**
  * Configuration for the Anthropic provider
@@ -13,7 +23,10 @@ import {
 export interface AnthropicProviderConfig {
   model: string;
   apiKey?: string;
-  maxRetries?: number;
+  maxRetries?: number;     // Retries on rate limits, server errors and timeouts (default: 3)
+  contextManager?: ContextManager; // Fits messages into the model's context window before each request
+  rateLimits?: RateLimits; // Client-side budgets, shared by all providers using the same API key
+  rateLimiter?: RateLimiter; // Explicit limiter instead of the shared one
 }
 
 /**
@@ -22,6 +35,7 @@ export interface AnthropicProviderConfig {
 export class AnthropicProvider implements LLMProviderInterface {
   private client: Anthropic;
   private config: AnthropicProviderConfig;
+  private rateLimiter: RateLimiter;
   
   /**
    * Creates a new Anthropic provider instance
@@ -41,9 +55,12 @@ export class AnthropicProvider implements LLMProviderInterface {
       throw new Error('Anthropic API key is required. Set it in the ANTHROPIC_API_KEY environment variable or pass it to the constructor.');
     }
     
+    // Retries go through the rate limiter so they honor the shared budget
     this.client = new Anthropic({
-      apiKey: apiKey
+      apiKey: apiKey,
+      maxRetries: 0
     });
+    this.rateLimiter = this.createRateLimiter();
   }
   
   /**
@@ -53,23 +70,145 @@ export class AnthropicProvider implements LLMProviderInterface {
    * @returns Promise resolving to the generation result
    */
   async generateResponse(options: GenerateOptions): Promise<GenerateResult> {
+    const { messageParams, responseSchema, estimatedTokens } = await this.buildRequest(options);
+    
+    try {
+      // If streaming is requested and a callback is provided
+      let result: GenerateResult;
+      if (options.stream && (options.onPartialResponse || options.onStreamEvent)) {
+        result = await this.streamResponse(messageParams, options, estimatedTokens);
+      } else {
+        // Non-streaming mode
+        const response = await this.rateLimiter.schedule(
+          () => this.client.messages.create(messageParams, { signal: options.signal }),
+          { tokens: estimatedTokens, signal: options.signal, maxRetries: this.config.maxRetries }
+        );
+        result = this.processResponse(response);
+      }
+      this.rateLimiter.settle(estimatedTokens, result.tokens?.total || 0);
+      
+      return options.responseFormat
+        ? this.extractStructuredOutput(result, options.responseFormat.name, responseSchema!.wrapped)
+        : result;
+    } catch (error) {
+      console.error('Error generating response from LLM:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Checks whether requests can be sent through the Message Batches API
+   * 
+   * @returns Always true for Anthropic
+   */
+  supportsBatch(): boolean {
+    return true;
+  }
+  
+  /**
+   * Submits requests to the Message Batches API
+   * 
+   * @param requests - The requests (callbacks, signals and streaming are ignored)
+   * @returns Promise resolving to the Anthropic batch ID
+   */
+  async submitBatch(requests: BatchRequest[]): Promise<string> {
+    const batchRequests = await Promise.all(requests.map(async request => ({
+      custom_id: request.id,
+      params: (await this.buildRequest(request.options)).messageParams
+    })));
+    
+    const batch = await this.client.messages.batches.create({ requests: batchRequests });
+    return batch.id;
+  }
+  
+  /**
+   * Gets whether a submitted batch has finished
+   * 
+   * @param batchId - The Anthropic batch ID
+   * @returns Promise resolving to the batch status
+   */
+  async getBatchStatus(batchId: string): Promise<RemoteBatchStatus> {
+    const batch = await this.client.messages.batches.retrieve(batchId);
+    return batch.processing_status === 'ended' ? 'ended' : 'in_progress';
+  }
+  
+  /**
+   * Downloads the results of a finished batch
+   * 
+   * @param batchId - The Anthropic batch ID
+   * @param requests - The submitted requests, used to interpret the responses
+   * @returns Promise resolving to one result per request that has one
+   */
+  async getBatchResults(batchId: string, requests: BatchRequest[]): Promise<BatchItemResult[]> {
+    const byId = new Map(requests.map(request => [request.id, request]));
+    const results: BatchItemResult[] = [];
+    
+    for await (const item of await this.client.messages.batches.results(batchId)) {
+      const request = byId.get(item.custom_id);
+      if (!request) {
+        continue;
+      }
+      
+      if (item.result.type === 'succeeded') {
+        const result = this.processResponse(item.result.message);
+        const responseFormat = request.options.responseFormat;
+        results.push({
+          id: item.custom_id,
+          result: responseFormat
+            ? this.extractStructuredOutput(result, responseFormat.name, toObjectSchema(responseFormat.schema).wrapped)
+            : result
+        });
+      } else {
+        results.push({
+          id: item.custom_id,
+          error: item.result.type === 'errored'
+            ? `Request failed: ${item.result.error.error.message}`
+            : `Request ${item.result.type}`
+        });
+      }
+    }
+    
+    return results;
+  }
+  
+  /**
+   * Cancels a submitted batch
+   * 
+   * @param batchId - The Anthropic batch ID
+   */
+  async cancelBatch(batchId: string): Promise<void> {
+    await this.client.messages.batches.cancel(batchId);
+  }
+  
+  /**
+   * Builds the Messages API parameters for a request
+   * 
+   * @param options - Generation options
+   * @returns Promise resolving to the parameters, the response schema and the token estimate
+   */
+  private async buildRequest(options: GenerateOptions): Promise<{
+    messageParams: any;
+    responseSchema?: ObjectResponseSchema;
+    estimatedTokens: number;
+  }> {
     // Map our message format to Anthropic's format
     // Note: Anthropic doesn't support system messages in messages array
     // We need to extract system messages and add them as system parameter
-    const systemMessages = options.messages.filter(msg => msg.role === 'system');
-    const nonSystemMessages = options.messages.filter(msg => msg.role !== 'system');
+    const inputMessages = this.config.contextManager
+      ? (await this.config.contextManager.fit(options.messages, {
+          model: this.config.model,
+          reserveTokens: estimateToolTokens(options.tools)
+        })).messages
+      : options.messages;
+    const estimatedTokens = estimateRequestTokens(inputMessages, options.tools, options.maxTokens || 1024);
+    const systemMessages = inputMessages.filter(msg => msg.role === 'system');
+    const nonSystemMessages = inputMessages.filter(msg => msg.role !== 'system');
     
-    // Get system message (use the last one if multiple exist)
+    // Join all system messages (e.g. the system prompt and a conversation synopsis)
     const systemMessage = systemMessages.length > 0 
-      ? systemMessages[systemMessages.length - 1].content 
+      ? systemMessages.map(msg => getTextContent(msg.content)).join('\n\n')
       : "You are a helpful AI assistant.";
     
-    // Convert to Anthropic's message format
-    const messages = nonSystemMessages.map(msg => ({
-      role: msg.role as 'user' | 'assistant',
-      content: msg.content
-    }));
-    
     // Map our tools to Anthropic's tool format
     let tools;
     if (options.tools && options.tools.length > 0) {
@@ -89,46 +228,198 @@ export class AnthropicProvider implements LLMProviderInterface {
       }));
     }
     
-    try {
-      // Prepare common message parameters
-      const messageParams: any = {
-        model: this.config.model,
-        messages,
-        max_tokens: options.maxTokens || 1024,
-        temperature: options.temperature || 0.7,
-        system: systemMessage,
-        tools: tools,
-        stop_sequences: options.stopSequences,
-        top_p: options.topP || 0.9,
-      };
-      
-      // If streaming is requested and a callback is provided
-      if (options.stream && options.onPartialResponse) {
-        return await this.streamResponse(messageParams, options.onPartialResponse);
+    // Structured output is requested by forcing a dedicated "response" tool
+    const responseSchema = options.responseFormat ? toObjectSchema(options.responseFormat.schema) : undefined;
+    if (options.responseFormat && responseSchema) {
+      tools = [
+        ...(tools || []),
+        {
+          name: options.responseFormat.name,
+          description: options.responseFormat.description ||
+            'Return your final answer by calling this tool with arguments matching its schema.',
+          input_schema: responseSchema.schema
+        }
+      ];
+    }
+    
+    // Convert to Anthropic's message format; Anthropic rejects tool_use and
+    // tool_result blocks in requests without tools, so those become text
+    const messages = await this.mapMessages(tools ? nonSystemMessages : toolMessagesToText(nonSystemMessages));
+    
+    // Prepare common message parameters
+    const messageParams: any = {
+      model: this.config.model,
+      messages,
+      max_tokens: options.maxTokens || 1024,
+      temperature: options.temperature || 0.7,
+      system: systemMessage,
+      tools: tools,
+      stop_sequences: options.stopSequences,
+      top_p: options.topP || 0.9,
+    };
+    
+    // Force the response tool when it is the only tool the model may call, otherwise
+    // require some tool so the model either keeps working or answers through the response tool
+    if (options.responseFormat && tools) {
+      messageParams.tool_choice = tools.length === 1 || options.toolChoice === 'none'
+        ? { type: 'tool', name: options.responseFormat.name }
+        : { type: 'any' };
+    } else if (options.toolChoice === 'none' && tools) {
+      messageParams.tool_choice = { type: 'none' };
+    }
+    
+    return { messageParams, responseSchema, estimatedTokens };
+  }
+  
+  /**
+   * Moves the response tool call out of toolCalls and into structuredOutput
+   * 
+   * @param result - The processed generation result
+   * @param toolName - Name of the forced response tool
+   * @param wrapped - Whether the response schema was wrapped in an object
+   * @returns The result with structuredOutput set if the response tool was called
+   */
+  private extractStructuredOutput(result: GenerateResult, toolName: string, wrapped: boolean): GenerateResult {
+    const responseCall = result.toolCalls?.find(tc => tc.name === toolName);
+    if (!responseCall) {
+      return result;
+    }
+    
+    const structuredOutput = unwrapStructuredOutput(responseCall.parameters, wrapped);
+    const remainingCalls = result.toolCalls!.filter(tc => tc !== responseCall);
+    
+    return {
+      ...result,
+      message: result.message || JSON.stringify(structuredOutput),
+      toolCalls: remainingCalls.length > 0 ? remainingCalls : undefined,
+      structuredOutput
+    };
+  }
+  
+  /**
+   * Maps framework messages to Anthropic messages
+   * 
+   * Assistant tool calls become tool_use blocks and tool messages become
+   * tool_result blocks. Consecutive tool results are merged into a single
+   * user turn, as Anthropic requires. Image and document parts of user
+   * messages become image and document blocks.
+   * 
+   * @param messages - Non-system messages to convert
+   * @returns Promise resolving to messages in Anthropic's format
+   */
+  private async mapMessages(messages: Message[]): Promise<any[]> {
+    const mapped: any[] = [];
+    
+    for (const msg of messages) {
+      if (msg.role === 'tool') {
+        const block = {
+          type: 'tool_result',
+          tool_use_id: msg.toolCallId,
+          content: getTextContent(msg.content),
+          ...(msg.isError ? { is_error: true } : {})
+        };
+        
+        const previous = mapped[mapped.length - 1];
+        if (previous && previous.role === 'user' && Array.isArray(previous.content) &&
+            previous.content.every((b: any) => b.type === 'tool_result')) {
+          previous.content.push(block);
+        } else {
+          mapped.push({ role: 'user', content: [block] });
+        }
+      } else if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+        const content: any[] = [];
+        const text = getTextContent(msg.content);
+        if (text) {
+          content.push({ type: 'text', text });
+        }
+        for (const tc of msg.toolCalls) {
+          content.push({
+            type: 'tool_use',
+            id: tc.id,
+            name: tc.name,
+            input: tc.parameters
+          });
+        }
+        mapped.push({ role: 'assistant', content });
       } else {
-        // Non-streaming mode
-        const response = await this.client.messages.create(messageParams);
-        return this.processResponse(response);
+        mapped.push({
+          role: msg.role as 'user' | 'assistant',
+          content: msg.role === 'user' ? await this.mapContent(msg.content) : getTextContent(msg.content)
+        });
       }
-    } catch (error) {
-      console.error('Error generating response from LLM:', error);
-      throw error;
     }
+    
+    return mapped;
+  }
+  
+  /**
+   * Maps message content to Anthropic content blocks
+   * 
+   * @param content - Text or content parts
+   * @returns Promise resolving to a string or content blocks
+   */
+  private async mapContent(content: MessageContent): Promise<string | any[]> {
+    if (typeof content === 'string') {
+      return content;
+    }
+    return Promise.all(content.map(part => this.mapContentPart(part)));
+  }
+  
+  /**
+   * Maps one content part to an Anthropic content block
+   * 
+   * @param part - The content part
+   * @returns Promise resolving to a text, image or document block
+   */
+  private async mapContentPart(part: ContentPart): Promise<any> {
+    if (part.type === 'text') {
+      return { type: 'text', text: part.text };
+    }
+    
+    if (part.type === 'image') {
+      const media = await resolveMediaSource(part.source);
+      return {
+        type: 'image',
+        source: media.type === 'url'
+          ? { type: 'url', url: media.url }
+          : { type: 'base64', media_type: media.mediaType, data: media.data }
+      };
+    }
+    
+    // Anthropic fetches PDFs by URL itself; anything else is sent inline
+    let media = await resolveMediaSource(part.source);
+    if (media.type === 'url' && media.mediaType !== 'application/pdf') {
+      media = await resolveMediaSource(part.source, true);
+    }
+    
+    let source: any;
+    if (media.type === 'url') {
+      source = { type: 'url', url: media.url };
+    } else if (media.mediaType.startsWith('text/')) {
+      source = { type: 'text', media_type: 'text/plain', data: Buffer.from(media.data, 'base64').toString('utf8') };
+    } else {
+      source = { type: 'base64', media_type: media.mediaType, data: media.data };
+    }
+    
+    return { type: 'document', source, ...(part.title ? { title: part.title } : {}) };
   }
   
   /**
    * Streams a response from the LLM
    * 
    * @param messageParams - Parameters for the Anthropic API call
-   * @param onPartialResponse - Callback function for partial responses
+   * @param options - Generation options (stream callbacks and abort signal)
+   * @param estimatedTokens - Tokens reserved with the rate limiter
    * @returns Promise resolving to the complete generation result
    */
   private async streamResponse(
     messageParams: any, 
-    onPartialResponse: (text: string, done: boolean) => void
+    options: GenerateOptions,
+    estimatedTokens: number
   ): Promise<GenerateResult> {
+    const { onPartialResponse, onStreamEvent, signal } = options;
+    
     // Initialize containers for aggregating results
-    let fullContent: any[] = [];
     let accumulatedText = '';
     let toolCalls: ToolCall[] = [];
     let tokens = {
@@ -136,53 +427,91 @@ export class AnthropicProvider implements LLMProviderInterface {
       output: 0,
       total: 0
     };
+    let model: string = messageParams.model;
     
-    // Create a streaming request
-    const stream = await this.client.messages.create({
-      ...messageParams,
-      stream: true
-    });
+    // Tool use blocks being assembled, keyed by content block index
+    const pendingToolUses = new Map<number, { id: string; name: string; json: string }>();
     
-    // Process each chunk
+    // Create a streaming request (only opening the stream is retried, so no text is repeated)
+    const stream = await this.rateLimiter.schedule(
+      () => this.client.messages.create({
+        ...messageParams,
+        stream: true
+      }, { signal }),
+      { tokens: estimatedTokens, signal, maxRetries: this.config.maxRetries }
+    );
+    
+    // Process each event
     // @ts-ignore - The stream is iterable but TS doesn't recognize it
-    for await (const chunk of stream) {
-      // Update token counts
-      if (chunk.usage) {
-        tokens = {
-          input: chunk.usage.input_tokens,
-          output: chunk.usage.output_tokens,
-          total: chunk.usage.input_tokens + chunk.usage.output_tokens
-        };
-      }
-      
-      // Only process content if it exists in this chunk
-      if (chunk.delta?.content) {
-        for (const contentPart of chunk.delta.content) {
-          fullContent.push(contentPart);
+    for await (const event of stream) {
+      switch (event.type) {
+        case 'message_start':
+          model = event.message.model || model;
+          tokens.input = event.message.usage?.input_tokens || 0;
+          tokens.output = event.message.usage?.output_tokens || 0;
+          break;
           
-          // Handle different content types
-          if (contentPart.type === 'text') {
-            accumulatedText += contentPart.text;
-            onPartialResponse(accumulatedText, false);
-          } else if (contentPart.type === 'tool_use') {
-            // Record tool use but don't stream it
-            toolCalls.push({
-              name: contentPart.name,
-              parameters: contentPart.input,
-              // Result will be filled in later when tools are executed
+        case 'content_block_start':
+          if (event.content_block.type === 'tool_use') {
+            pendingToolUses.set(event.index, {
+              id: event.content_block.id,
+              name: event.content_block.name,
+              json: ''
             });
+            onStreamEvent?.({ type: 'tool_call_start', id: event.content_block.id, name: event.content_block.name });
+          }
+          break;
+          
+        case 'content_block_delta':
+          if (event.delta.type === 'text_delta') {
+            accumulatedText += event.delta.text;
+            onPartialResponse?.(accumulatedText, false);
+            onStreamEvent?.({ type: 'text_delta', text: event.delta.text });
+          } else if (event.delta.type === 'input_json_delta') {
+            const pending = pendingToolUses.get(event.index);
+            if (pending) {
+              pending.json += event.delta.partial_json;
+              onStreamEvent?.({ type: 'tool_call_delta', id: pending.id, argsDelta: event.delta.partial_json });
+            }
           }
+          break;
+          
+        case 'content_block_stop': {
+          const pending = pendingToolUses.get(event.index);
+          if (pending) {
+            try {
+              toolCalls.push({
+                id: pending.id,
+                name: pending.name,
+                parameters: pending.json ? JSON.parse(pending.json) : {}
+              });
+            } catch (error) {
+              console.error('Error parsing streamed tool input:', error);
+            }
+            pendingToolUses.delete(event.index);
+          }
+          break;
         }
+          
+        case 'message_delta':
+          if (event.usage) {
+            tokens.output = event.usage.output_tokens;
+          }
+          break;
       }
     }
     
+    tokens.total = tokens.input + tokens.output;
+    
     // Signal completion
-    onPartialResponse(accumulatedText, true);
+    onPartialResponse?.(accumulatedText, true);
     
     // Return the complete response in the same format as non-streaming
     return {
       message: accumulatedText,
       toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      provider: ProviderType.ANTHROPIC,
+      model,
       tokens
     };
   }
@@ -203,6 +532,7 @@ export class AnthropicProvider implements LLMProviderInterface {
         try {
           const toolUse = item as any;
           toolCalls.push({
+            id: toolUse.id,
             name: toolUse.name,
             parameters: toolUse.input,
             // We'll fill in results later when tools are executed
@@ -223,6 +553,8 @@ export class AnthropicProvider implements LLMProviderInterface {
     return {
       message,
       toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      provider: ProviderType.ANTHROPIC,
+      model: response.model || this.config.model,
       tokens: {
         input: response.usage.input_tokens,
         output: response.usage.output_tokens,
@@ -245,8 +577,50 @@ export class AnthropicProvider implements LLMProviderInterface {
     // If API key changed, recreate the client
     if (config.apiKey) {
       this.client = new Anthropic({
-        apiKey: config.apiKey
+        apiKey: config.apiKey,
+        maxRetries: 0
       });
     }
+    
+    if (config.apiKey || config.rateLimits || config.rateLimiter) {
+      this.rateLimiter = this.createRateLimiter();
+    }
+  }
+  
+  /**
+   * Gets the configured model name
+   * 
+   * @returns The model name
+   */
+  getModel(): string {
+    return this.config.model;
+  }
+  
+  /**
+   * Gets the catalog entry of the configured model
+   * 
+   * @returns The model's capabilities and limits, or undefined if the catalog does not know it
+   */
+  getModelInfo(): ModelInfo | undefined {
+    return ModelCatalog.getInstance().getModel(this.config.model);
+  }
+  
+  /**
+   * Gets the rate limiter used for requests (listen to it for queue and retry events)
+   * 
+   * @returns The rate limiter
+   */
+  getRateLimiter(): RateLimiter {
+    return this.rateLimiter;
+  }
+  
+  /**
+   * Creates the configured rate limiter, or gets the one shared by this API key
+   * 
+   * @returns The rate limiter
+   */
+  private createRateLimiter(): RateLimiter {
+    return this.config.rateLimiter ||
+      getSharedRateLimiter('anthropic', this.config.apiKey || process.env.ANTHROPIC_API_KEY, this.config.rateLimits);
   }
 }
\ No newline at end of file
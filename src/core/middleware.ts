@@ -0,0 +1,225 @@
+/**
+ * Middleware pipeline around the agent lifecycle
+ *
+ * Middleware can observe and rewrite what an agent sends to its model and
+ * tools. Each hook may return a replacement value; returning nothing keeps
+ * the current value. Hooks run in the order the middleware was added, each
+ * seeing the previous middleware's rewrite.
+ */
+
+import { Agent } from './agent';
+import { ToolErrorKind } from './types';
+import { GenerateOptions, GenerateResult } from './provider-interface';
+
+/**
+ * Information shared by every hook
+ */
+export interface HookContext {
+  agent: Agent;
+  task: string;
+  conversationId: string;
+}
+
+/**
+ * Context for model call hooks
+ */
+export interface ModelCallContext extends HookContext {
+  step: number; // Index of the model call (0-based)
+  options: GenerateOptions;
+}
+
+/**
+ * Context for afterModelCall
+ */
+export interface ModelResultContext extends ModelCallContext {
+  result: GenerateResult;
+}
+
+/**
+ * Context for tool call hooks
+ */
+export interface ToolCallContext extends HookContext {
+  step: number;
+  callId: string;
+  tool: string;
+  params: Record<string, any>;
+}
+
+/**
+ * Context for afterToolCall
+ */
+export interface ToolResultContext extends ToolCallContext {
+  result: any;
+  errorKind?: ToolErrorKind; // Set when the call failed
+}
+
+/**
+ * Context for onError
+ */
+export interface ErrorContext extends HookContext {
+  stage: 'model' | 'tool' | 'run';
+  error: unknown;
+  step?: number;
+  tool?: string;
+}
+
+/**
+ * A value or a promise of it
+ */
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Hooks around an agent's model and tool calls
+ */
+export interface AgentMiddleware {
+  name?: string;
+
+  /**
+   * Called before each model call; may return rewritten generate options
+   * (e.g. redacted messages). The conversation itself is not changed.
+   */
+  beforeModelCall?(context: ModelCallContext): MaybePromise<GenerateOptions | void>;
+
+  /**
+   * Called after each model call; may return a rewritten result
+   */
+  afterModelCall?(context: ModelResultContext): MaybePromise<GenerateResult | void>;
+
+  /**
+   * Called before a tool runs (and before its parameters are validated);
+   * may return rewritten parameters
+   */
+  beforeToolCall?(context: ToolCallContext): MaybePromise<Record<string, any> | void>;
+
+  /**
+   * Called after a tool call finishes or fails; may return a rewritten result
+   */
+  afterToolCall?(context: ToolResultContext): MaybePromise<any>;
+
+  /**
+   * Called when a model call, tool call or run fails
+   */
+  onError?(context: ErrorContext): MaybePromise<void>;
+}
+
+/**
+ * Ordered list of middleware with helpers to run each hook through it
+ */
+export class MiddlewarePipeline {
+  private middleware: AgentMiddleware[] = [];
+
+  /**
+   * Adds middleware to the end of the pipeline (ignored if already present)
+   *
+   * @param middleware - The middleware to add
+   */
+  use(middleware: AgentMiddleware): void {
+    if (!this.middleware.includes(middleware)) {
+      this.middleware.push(middleware);
+    }
+  }
+
+  /**
+   * Removes middleware from the pipeline
+   *
+   * @param middleware - The middleware to remove
+   * @returns True if it was removed
+   */
+  remove(middleware: AgentMiddleware): boolean {
+    const index = this.middleware.indexOf(middleware);
+    if (index === -1) {
+      return false;
+    }
+    this.middleware.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Gets the middleware in execution order
+   *
+   * @returns Array of middleware
+   */
+  getAll(): AgentMiddleware[] {
+    return [...this.middleware];
+  }
+
+  /**
+   * Runs beforeModelCall hooks
+   *
+   * @param context - The model call context
+   * @returns The (possibly rewritten) generate options
+   */
+  async beforeModelCall(context: ModelCallContext): Promise<GenerateOptions> {
+    let options = context.options;
+    for (const middleware of this.middleware) {
+      if (middleware.beforeModelCall) {
+        options = (await middleware.beforeModelCall({ ...context, options })) || options;
+      }
+    }
+    return options;
+  }
+
+  /**
+   * Runs afterModelCall hooks
+   *
+   * @param context - The model result context
+   * @returns The (possibly rewritten) generate result
+   */
+  async afterModelCall(context: ModelResultContext): Promise<GenerateResult> {
+    let result = context.result;
+    for (const middleware of this.middleware) {
+      if (middleware.afterModelCall) {
+        result = (await middleware.afterModelCall({ ...context, result })) || result;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Runs beforeToolCall hooks
+   *
+   * @param context - The tool call context
+   * @returns The (possibly rewritten) tool parameters
+   */
+  async beforeToolCall(context: ToolCallContext): Promise<Record<string, any>> {
+    let params = context.params;
+    for (const middleware of this.middleware) {
+      if (middleware.beforeToolCall) {
+        params = (await middleware.beforeToolCall({ ...context, params })) || params;
+      }
+    }
+    return params;
+  }
+
+  /**
+   * Runs afterToolCall hooks
+   *
+   * @param context - The tool result context
+   * @returns The (possibly rewritten) tool result
+   */
+  async afterToolCall(context: ToolResultContext): Promise<any> {
+    let result = context.result;
+    for (const middleware of this.middleware) {
+      if (middleware.afterToolCall) {
+        const rewritten = await middleware.afterToolCall({ ...context, result });
+        if (rewritten !== undefined) {
+          result = rewritten;
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Runs onError hooks
+   *
+   * @param context - The error context
+   */
+  async onError(context: ErrorContext): Promise<void> {
+    for (const middleware of this.middleware) {
+      if (middleware.onError) {
+        await middleware.onError(context);
+      }
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,169 @@
+/**
+ * Scripted provider for tests and examples
+ */
+
+import { GenerateOptions, GenerateResult, LLMProviderInterface, ProviderStreamEvent } from './provider-interface';
+import { estimateMessageTokens, estimateTokens } from './context-manager';
+import { throwIfAborted } from '../utils/abort-utils';
+import { emitProviderStream } from '../utils/event-stream';
+
+/**
+ * A scripted answer
+ */
+export interface MockResponseSpec {
+  message?: string;
+  toolCalls?: { name: string; parameters: Record<string, any>; id?: string }[];
+  structuredOutput?: any;
+  tokens?: { input: number; output: number; total: number }; // Estimated from the text when omitted
+  error?: Error | string; // Throw instead of answering
+}
+
+/**
+ * A scripted answer: plain text, a spec, or a function of the request
+ */
+export type MockResponse =
+  | string
+  | MockResponseSpec
+  | ((options: GenerateOptions, callIndex: number) => string | MockResponseSpec | Promise<string | MockResponseSpec>);
+
+/**
+ * Configuration for the mock provider
+ */
+export interface MockProviderConfig {
+  responses?: MockResponse[]; // Answered in order, one per call
+  defaultResponse?: MockResponse; // Used once the scripted responses run out (otherwise calls throw)
+  model?: string;         // Model name reported in results (default: 'mock-model')
+}
+
+/**
+ * Provider that answers with scripted responses and records every request
+ */
+export class MockProvider implements LLMProviderInterface {
+  calls: GenerateOptions[] = []; // Requests received, for assertions
+  private config: MockProviderConfig;
+  private queue: MockResponse[];
+
+  /**
+   * Creates a new mock provider
+   *
+   * @param config - Scripted responses, or a configuration object
+   */
+  constructor(config: MockProviderConfig | MockResponse[] = {}) {
+    this.config = Array.isArray(config) ? { responses: config } : { ...config };
+    this.queue = [...(this.config.responses || [])];
+  }
+
+  /**
+   * Adds scripted responses to the end of the queue
+   *
+   * @param responses - The responses to add
+   * @returns The provider instance (for chaining)
+   */
+  addResponse(...responses: MockResponse[]): MockProvider {
+    this.queue.push(...responses);
+    return this;
+  }
+
+  /**
+   * Answers with the next scripted response
+   *
+   * @param options - Generation options
+   * @returns Promise resolving to the scripted result
+   */
+  async generateResponse(options: GenerateOptions): Promise<GenerateResult> {
+    throwIfAborted(options.signal);
+
+    const callIndex = this.calls.length;
+    this.calls.push(options);
+
+    const next = this.queue.length > 0 ? this.queue.shift() : this.config.defaultResponse;
+    if (next === undefined) {
+      throw new Error(`MockProvider has no scripted response for call ${callIndex + 1}`);
+    }
+
+    const resolved = typeof next === 'function' ? await next(options, callIndex) : next;
+    const spec: MockResponseSpec = typeof resolved === 'string' ? { message: resolved } : resolved;
+
+    if (spec.error) {
+      throw typeof spec.error === 'string' ? new Error(spec.error) : spec.error;
+    }
+
+    const message = spec.message || '';
+    const toolCalls = spec.toolCalls?.map((tc, i) => ({
+      id: tc.id || `call_${callIndex + 1}_${i + 1}`,
+      name: tc.name,
+      parameters: tc.parameters
+    }));
+
+    const input = options.messages.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0);
+    const output = estimateTokens(message + (toolCalls ? JSON.stringify(toolCalls) : ''));
+
+    const result: GenerateResult = {
+      message,
+      toolCalls: toolCalls && toolCalls.length > 0 ? toolCalls : undefined,
+      structuredOutput: spec.structuredOutput,
+      provider: 'mock',
+      model: this.getModel(),
+      tokens: spec.tokens || { input, output, total: input + output }
+    };
+
+    if (options.stream && (options.onPartialResponse || options.onStreamEvent)) {
+      emitProviderStream(this.toStreamEvents(result), message, options);
+    }
+    return result;
+  }
+
+  /**
+   * Updates the provider configuration
+   *
+   * @param config - New configuration options
+   */
+  updateConfig(config: Partial<MockProviderConfig>): void {
+    this.config = { ...this.config, ...config };
+    if (config.responses) {
+      this.queue = [...config.responses];
+    }
+  }
+
+  /**
+   * Gets the model name reported in results
+   *
+   * @returns The model name
+   */
+  getModel(): string {
+    return this.config.model || 'mock-model';
+  }
+
+  /**
+   * Gets the number of scripted responses not yet used
+   *
+   * @returns The number of queued responses
+   */
+  getRemainingResponses(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Clears recorded calls and restores the configured responses
+   */
+  reset(): void {
+    this.calls = [];
+    this.queue = [...(this.config.responses || [])];
+  }
+
+  /**
+   * Splits a result into word-sized text deltas and tool call events
+   *
+   * @param result - The scripted result
+   * @returns Stream events resembling a real provider's
+   */
+  private toStreamEvents(result: GenerateResult): ProviderStreamEvent[] {
+    return [
+      ...(result.message.match(/\S+\s*/g) || []).map(text => ({ type: 'text_delta' as const, text })),
+      ...(result.toolCalls || []).flatMap(tc => [
+        { type: 'tool_call_start' as const, id: tc.id!, name: tc.name },
+        { type: 'tool_call_delta' as const, id: tc.id!, argsDelta: JSON.stringify(tc.parameters) }
+      ])
+    ];
+  }
+}
\ No newline at end of file
@@ -0,0 +1,247 @@
+/**
+ * Catalog of model capabilities and limits
+ *
+ * Each entry describes a model family by name prefix: its context window,
+ * output limit, feature support and pricing. The context manager, usage
+ * ledger and providers look models up here instead of guessing.
+ */
+
+import { ModelPricing } from '../usage/usage-ledger';
+import { Logger } from '../utils/logger';
+
+/**
+ * What a model supports and what it costs
+ */
+export interface ModelInfo {
+  provider?: string;      // Provider type that serves the model, e.g. 'anthropic'
+  contextWindow: number;  // Maximum input plus output tokens
+  maxOutputTokens: number; // Maximum tokens in one response
+  tools: boolean;         // Native tool calling
+  vision: boolean;        // Image (and document) input
+  streaming: boolean;     // Streamed responses
+  structuredOutput: boolean; // Honors responseFormat natively (JSON schema or forced tool)
+  pricing?: ModelPricing; // USD per million tokens
+}
+
+/**
+ * Built-in catalog entries, keyed by model name prefix
+ */
+export const DEFAULT_MODEL_CATALOG: Record<string, ModelInfo> = {
+  'claude-3-7-sonnet': {
+    provider: 'anthropic', contextWindow: 200000, maxOutputTokens: 8192,
+    tools: true, vision: true, streaming: true, structuredOutput: true,
+    pricing: { input: 3, output: 15 }
+  },
+  'claude-3-5-sonnet': {
+    provider: 'anthropic', contextWindow: 200000, maxOutputTokens: 8192,
+    tools: true, vision: true, streaming: true, structuredOutput: true,
+    pricing: { input: 3, output: 15 }
+  },
+  'claude-3-5-haiku': {
+    provider: 'anthropic', contextWindow: 200000, maxOutputTokens: 8192,
+    tools: true, vision: true, streaming: true, structuredOutput: true,
+    pricing: { input: 0.8, output: 4 }
+  },
+  'claude-3-opus': {
+    provider: 'anthropic', contextWindow: 200000, maxOutputTokens: 4096,
+    tools: true, vision: true, streaming: true, structuredOutput: true,
+    pricing: { input: 15, output: 75 }
+  },
+  'claude-3-sonnet': {
+    provider: 'anthropic', contextWindow: 200000, maxOutputTokens: 4096,
+    tools: true, vision: true, streaming: true, structuredOutput: true,
+    pricing: { input: 3, output: 15 }
+  },
+  'claude-3-haiku': {
+    provider: 'anthropic', contextWindow: 200000, maxOutputTokens: 4096,
+    tools: true, vision: true, streaming: true, structuredOutput: true,
+    pricing: { input: 0.25, output: 1.25 }
+  },
+  'claude-2': {
+    provider: 'anthropic', contextWindow: 100000, maxOutputTokens: 4096,
+    tools: false, vision: false, streaming: true, structuredOutput: false
+  },
+  'claude-2.1': {
+    provider: 'anthropic', contextWindow: 200000, maxOutputTokens: 4096,
+    tools: false, vision: false, streaming: true, structuredOutput: false
+  },
+  'gpt-4o-mini': {
+    provider: 'openai', contextWindow: 128000, maxOutputTokens: 16384,
+    tools: true, vision: true, streaming: true, structuredOutput: true,
+    pricing: { input: 0.15, output: 0.6 }
+  },
+  'gpt-4o': {
+    provider: 'openai', contextWindow: 128000, maxOutputTokens: 16384,
+    tools: true, vision: true, streaming: true, structuredOutput: true,
+    pricing: { input: 2.5, output: 10 }
+  },
+  'gpt-4.1': {
+    provider: 'openai', contextWindow: 1000000, maxOutputTokens: 32768,
+    tools: true, vision: true, streaming: true, structuredOutput: true,
+    pricing: { input: 2, output: 8 }
+  },
+  'gpt-4-turbo': {
+    provider: 'openai', contextWindow: 128000, maxOutputTokens: 4096,
+    tools: true, vision: true, streaming: true, structuredOutput: true,
+    pricing: { input: 10, output: 30 }
+  },
+  'gpt-4-32k': {
+    provider: 'openai', contextWindow: 32768, maxOutputTokens: 8192,
+    tools: true, vision: false, streaming: true, structuredOutput: false
+  },
+  'gpt-4': {
+    provider: 'openai', contextWindow: 8192, maxOutputTokens: 8192,
+    tools: true, vision: false, streaming: true, structuredOutput: false,
+    pricing: { input: 30, output: 60 }
+  },
+  'gpt-3.5-turbo': {
+    provider: 'openai', contextWindow: 16385, maxOutputTokens: 4096,
+    tools: true, vision: false, streaming: true, structuredOutput: false,
+    pricing: { input: 0.5, output: 1.5 }
+  },
+  'o1': {
+    provider: 'openai', contextWindow: 200000, maxOutputTokens: 100000,
+    tools: true, vision: true, streaming: true, structuredOutput: true,
+    pricing: { input: 15, output: 60 }
+  },
+  'o3': {
+    provider: 'openai', contextWindow: 200000, maxOutputTokens: 100000,
+    tools: true, vision: true, streaming: true, structuredOutput: true
+  },
+  'grok': {
+    provider: 'grok', contextWindow: 128000, maxOutputTokens: 8192,
+    tools: false, vision: false, streaming: false, structuredOutput: false
+  },
+  'llama3': {
+    provider: 'openai-compatible', contextWindow: 8192, maxOutputTokens: 4096,
+    tools: false, vision: false, streaming: true, structuredOutput: false
+  },
+  'llama3.1': {
+    provider: 'openai-compatible', contextWindow: 128000, maxOutputTokens: 4096,
+    tools: true, vision: false, streaming: true, structuredOutput: false
+  },
+  'llava': {
+    provider: 'openai-compatible', contextWindow: 4096, maxOutputTokens: 2048,
+    tools: false, vision: true, streaming: true, structuredOutput: false
+  }
+};
+
+/**
+ * Registry of model information, matched by the longest model name prefix
+ */
+export class ModelCatalog {
+  private static instance: ModelCatalog;
+  private models: Map<string, ModelInfo>;
+  private logger: Logger;
+
+  /**
+   * Private constructor (use getInstance() instead)
+   */
+  private constructor() {
+    this.models = new Map(Object.entries(DEFAULT_MODEL_CATALOG));
+    this.logger = new Logger('ModelCatalog');
+  }
+
+  /**
+   * Gets the singleton instance of the model catalog
+   *
+   * @returns The model catalog instance
+   */
+  public static getInstance(): ModelCatalog {
+    if (!ModelCatalog.instance) {
+      ModelCatalog.instance = new ModelCatalog();
+    }
+    return ModelCatalog.instance;
+  }
+
+  /**
+   * Adds or replaces a catalog entry
+   *
+   * Fields left out are taken from the entry the prefix currently matches, if
+   * any; a model the catalog does not know yet needs at least a context window.
+   *
+   * @param modelPrefix - Model name or prefix, e.g. 'claude-3-5-sonnet' or 'mistral'
+   * @param info - What the model supports
+   */
+  registerModel(modelPrefix: string, info: Partial<ModelInfo>): void {
+    const base = this.getModel(modelPrefix);
+    if (!base && info.contextWindow === undefined) {
+      throw new Error(`Model "${modelPrefix}" is not in the catalog; contextWindow is required`);
+    }
+
+    this.models.set(modelPrefix, {
+      maxOutputTokens: 4096,
+      tools: false,
+      vision: false,
+      streaming: true,
+      structuredOutput: false,
+      ...base,
+      ...info
+    } as ModelInfo);
+    this.logger.debug(`Registered model: ${modelPrefix}`);
+  }
+
+  /**
+   * Looks up a model by the longest matching prefix
+   *
+   * @param model - The model name
+   * @returns A copy of the catalog entry, or undefined if the model is unknown
+   */
+  getModel(model?: string): ModelInfo | undefined {
+    if (!model) {
+      return undefined;
+    }
+
+    // Prefer the longest matching prefix (e.g. "gpt-4o-mini" over "gpt-4o")
+    const match = Array.from(this.models.keys())
+      .filter(prefix => model.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0];
+
+    return match ? { ...this.models.get(match)! } : undefined;
+  }
+
+  /**
+   * Checks whether a model supports a feature
+   *
+   * @param model - The model name
+   * @param capability - The feature to check
+   * @returns True if the model is known and supports the feature
+   */
+  supports(model: string, capability: 'tools' | 'vision' | 'streaming' | 'structuredOutput'): boolean {
+    return this.getModel(model)?.[capability] === true;
+  }
+
+  /**
+   * Gets every catalog entry
+   *
+   * @returns Entries keyed by model prefix
+   */
+  getAllModels(): Record<string, ModelInfo> {
+    return Object.fromEntries(this.models);
+  }
+
+  /**
+   * Removes a catalog entry
+   *
+   * @param modelPrefix - The prefix the entry was registered under
+   * @returns True if an entry was removed
+   */
+  removeModel(modelPrefix: string): boolean {
+    return this.models.delete(modelPrefix);
+  }
+}
+
+/**
+ * Lists the capabilities of a model as route capability names
+ *
+ * @param info - The catalog entry
+ * @returns Names such as 'tools', 'vision' and 'json'
+ */
+export function getCapabilityNames(info: ModelInfo): string[] {
+  return [
+    ...(info.tools ? ['tools'] : []),
+    ...(info.vision ? ['vision'] : []),
+    ...(info.streaming ? ['streaming'] : []),
+    ...(info.structuredOutput ? ['json'] : [])
+  ];
+}
\ No newline at end of file
@@ -0,0 +1,237 @@
+/**
+ * Provider for OpenAI-compatible servers (Ollama, llama.cpp, vLLM, LM Studio, ...)
+ */
+
+import { Message } from './types';
+import { GenerateOptions, GenerateResult, ProviderType } from './provider-interface';
+import { OpenAIProvider } from './openai-provider';
+import { ContextManager } from './context-manager';
+import { ModelCatalog, ModelInfo } from './model-catalog';
+import { Logger } from '../utils/logger';
+import { extractJson } from '../utils/structured-output';
+import { getTextContent } from '../utils/message-content';
+import { emitProviderStream, resultToStreamEvents } from '../utils/event-stream';
+import {
+  addSystemInstructions,
+  buildSchemaInstructions,
+  buildToolInstructions,
+  parseToolCalls,
+  toolMessagesToText
+} from '../utils/prompt-tools';
+
+/**
+ * Default endpoints of common local servers
+ */
+export const LOCAL_SERVER_URLS = {
+  ollama: 'http://localhost:11434/v1',
+  llamacpp: 'http://localhost:8080/v1',
+  vllm: 'http://localhost:8000/v1',
+  lmstudio: 'http://localhost:1234/v1'
+};
+
+/**
+ * What the server and model support; unsupported features are emulated or dropped
+ */
+export interface ModelCapabilities {
+  tools?: boolean;        // Native function calling (default: true); otherwise tools are described in the prompt
+  streaming?: boolean;    // Streamed responses (default: true); otherwise the full answer is emitted at once
+  streamUsage?: boolean;  // Token usage on streamed responses via stream_options (default: true)
+  vision?: boolean;       // Image and document parts (default: false); otherwise only their text is sent
+  jsonSchema?: boolean;   // response_format json_schema (default: false); otherwise the schema is described in the prompt
+}
+
+/**
+ * Configuration for the OpenAI-compatible provider
+ */
+export interface OpenAICompatibleProviderConfig {
+  model: string;          // Model name as the server knows it, e.g. 'llama3.1:8b'
+  baseURL?: string;       // Server endpoint (default: OPENAI_COMPATIBLE_BASE_URL or the local Ollama endpoint)
+  apiKey?: string;        // Most local servers ignore it (default: OPENAI_COMPATIBLE_API_KEY)
+  maxRetries?: number;
+  capabilities?: ModelCapabilities; // Overrides what the model catalog says about the model
+  contextManager?: ContextManager; // Fits messages into the model's context window before each request
+}
+
+/**
+ * Capabilities assumed when none are configured and the model is not in the catalog
+ */
+const DEFAULT_CAPABILITIES: Required<ModelCapabilities> = {
+  tools: true,
+  streaming: true,
+  streamUsage: true,
+  vision: false,
+  jsonSchema: false
+};
+
+/**
+ * Provider for any server exposing the OpenAI chat completions API
+ *
+ * Works like OpenAIProvider, but features the model lacks are handled here:
+ * tools can be described in the prompt and parsed back out of the answer,
+ * response schemas are requested through instructions, and multimodal content
+ * is reduced to text.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  private capabilities: Required<ModelCapabilities>;
+  private localLogger: Logger;
+
+  /**
+   * Creates a new OpenAI-compatible provider instance
+   *
+   * @param config - Configuration for the provider
+   */
+  constructor(config: OpenAICompatibleProviderConfig) {
+    const capabilities = { ...DEFAULT_CAPABILITIES, ...getCatalogCapabilities(config.model), ...config.capabilities };
+
+    super({
+      model: config.model,
+      apiKey: config.apiKey || process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+      baseURL: config.baseURL || process.env.OPENAI_COMPATIBLE_BASE_URL || LOCAL_SERVER_URLS.ollama,
+      maxRetries: config.maxRetries,
+      streamUsage: capabilities.streamUsage,
+      contextManager: config.contextManager
+    });
+
+    this.capabilities = capabilities;
+    this.localLogger = new Logger('OpenAICompatibleProvider');
+  }
+
+  /**
+   * Generates a response, emulating features the model does not support
+   *
+   * @param options - Generation options
+   * @returns Promise resolving to the generation result
+   */
+  async generateResponse(options: GenerateOptions): Promise<GenerateResult> {
+    const promptTools = !this.capabilities.tools;
+    // Prompt-based tools are simply not offered when tool calls are forbidden
+    const tools = promptTools && options.toolChoice === 'none' ? [] : options.tools || [];
+    const promptSchema = !this.capabilities.jsonSchema && options.responseFormat;
+
+    let messages = options.messages;
+    if (!this.capabilities.vision) {
+      messages = messages.map(msg => this.toTextMessage(msg));
+    }
+    if (promptTools) {
+      messages = toolMessagesToText(messages);
+    }
+
+    const instructions: string[] = [];
+    if (promptTools && tools.length > 0) {
+      instructions.push(buildToolInstructions(tools));
+    }
+    if (promptSchema) {
+      instructions.push(buildSchemaInstructions(options.responseFormat!.schema));
+    }
+    if (instructions.length > 0) {
+      messages = addSystemInstructions(messages, instructions.join('\n\n'));
+    }
+
+    // Prompt-based tool calls can only be recognized in the complete answer
+    const canStream = this.capabilities.streaming && !(promptTools && tools.length > 0);
+    const wantsStream = !!options.stream && !!(options.onPartialResponse || options.onStreamEvent);
+
+    const result = await super.generateResponse({
+      ...options,
+      messages,
+      tools: promptTools ? [] : tools,
+      responseFormat: promptSchema ? undefined : options.responseFormat,
+      stream: canStream && options.stream
+    });
+    result.provider = ProviderType.OPENAI_COMPATIBLE;
+
+    if (promptTools && tools.length > 0) {
+      const toolCalls = parseToolCalls(result.message, tools);
+      if (toolCalls.length > 0) {
+        this.localLogger.debug('Parsed prompt-based tool calls', toolCalls.map(tc => tc.name));
+        result.toolCalls = toolCalls;
+        result.message = '';
+      }
+    }
+
+    if (promptSchema && !result.toolCalls) {
+      const parsed = extractJson(result.message);
+      if (parsed !== undefined) {
+        result.structuredOutput = parsed;
+      }
+    }
+
+    // Replay the complete answer to stream listeners when it was not streamed
+    if (wantsStream && !canStream) {
+      emitProviderStream(resultToStreamEvents(result), result.message, options);
+    }
+
+    return result;
+  }
+
+  /**
+   * Updates the provider configuration
+   *
+   * @param config - New configuration options
+   */
+  updateConfig(config: Partial<OpenAICompatibleProviderConfig>): void {
+    const { capabilities, ...rest } = config;
+    if (capabilities) {
+      this.capabilities = { ...this.capabilities, ...capabilities };
+    }
+    super.updateConfig({
+      ...rest,
+      ...(capabilities?.streamUsage !== undefined ? { streamUsage: capabilities.streamUsage } : {})
+    });
+  }
+
+  /**
+   * Gets the capabilities in effect
+   *
+   * @returns The model capabilities
+   */
+  getCapabilities(): Required<ModelCapabilities> {
+    return { ...this.capabilities };
+  }
+
+  /**
+   * Gets the catalog entry of the configured model, with the capabilities in effect
+   *
+   * @returns The model's capabilities and limits, or undefined if the catalog does not know it
+   */
+  getModelInfo(): ModelInfo | undefined {
+    const info = super.getModelInfo();
+    return info && {
+      ...info,
+      tools: this.capabilities.tools,
+      vision: this.capabilities.vision,
+      streaming: this.capabilities.streaming,
+      structuredOutput: this.capabilities.jsonSchema
+    };
+  }
+
+  /**
+   * Reduces multimodal content to text for models without vision support
+   *
+   * @param msg - The message to convert
+   * @returns The message with string content
+   */
+  private toTextMessage(msg: Message): Message {
+    if (typeof msg.content === 'string') {
+      return msg;
+    }
+
+    const omitted = msg.content.filter(part => part.type !== 'text').length;
+    const text = getTextContent(msg.content);
+    return {
+      ...msg,
+      content: omitted > 0 ? `${text}\n[${omitted} attachment(s) omitted: this model cannot read them]` : text
+    };
+  }
+}
+
+/**
+ * Reads the capabilities the model catalog records for a model
+ *
+ * @param model - The model name
+ * @returns Known capabilities (empty if the model is not in the catalog)
+ */
+function getCatalogCapabilities(model: string): ModelCapabilities {
+  const info = ModelCatalog.getInstance().getModel(model);
+  return info ? { tools: info.tools, vision: info.vision, streaming: info.streaming } : {};
+}
\ No newline at end of file
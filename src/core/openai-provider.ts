@@ -2,10 +2,25 @@
  * OpenAI LLM provider for the Agentis framework
  */
 
-import OpenAI from 'openai';
-import { Message } from './types';
-import { GenerateOptions, GenerateResult, ToolCall, LLMProviderInterface } from './provider-interface';
+import OpenAI, { toFile } from 'openai';
+import { v4 as uuidv4 } from 'uuid';
+import { ContentPart, Message } from './types';
+import {
+  GenerateOptions,
+  GenerateResult,
+  ToolCall,
+  LLMProviderInterface,
+  ProviderType,
+  BatchRequest,
+  BatchItemResult,
+  RemoteBatchStatus
+} from './provider-interface';
 import { Logger } from '../utils/logger';
+import { ObjectResponseSchema, extractJson, toObjectSchema, unwrapStructuredOutput } from '../utils/structured-output';
+import { ContextManager, estimateToolTokens } from './context-manager';
+import { ModelCatalog, ModelInfo } from './model-catalog';
+import { getTextContent, resolveMediaSource, toDataUrl } from '../utils/message-content';
+import { RateLimiter, RateLimits, estimateRequestTokens, getSharedRateLimiter } from '../utils/rate-limiter';
 
 /**
  * Configuration for the OpenAI provider
@@ -13,8 +28,13 @@ import { Logger } from '../utils/logger';
 export interface OpenAIProviderConfig {
   model: string;
   apiKey?: string;
-  maxRetries?: number;
+  maxRetries?: number;     // Retries on rate limits, server errors and timeouts (default: 3)
   organization?: string;
+  baseURL?: string; // Alternative API endpoint (default: the OpenAI API)
+  streamUsage?: boolean; // Request token usage on streamed responses (default: true)
+  contextManager?: ContextManager; // Fits messages into the model's context window before each request
+  rateLimits?: RateLimits; // Client-side budgets, shared by all providers using the same endpoint and API key
+  rateLimiter?: RateLimiter; // Explicit limiter instead of the shared one
 }
 
 /**
@@ -23,6 +43,7 @@ export interface OpenAIProviderConfig {
 export class OpenAIProvider implements LLMProviderInterface {
   private client: OpenAI;
   private config: OpenAIProviderConfig;
+  private rateLimiter: RateLimiter;
   private logger: Logger;
   
   /**
@@ -33,6 +54,7 @@ export class OpenAIProvider implements LLMProviderInterface {
   constructor(config: OpenAIProviderConfig) {
     this.config = {
       maxRetries: 3,
+      streamUsage: true,
       ...config
     };
     
@@ -43,10 +65,14 @@ export class OpenAIProvider implements LLMProviderInterface {
       throw new Error('OpenAI API key is required. Set it in the OPENAI_API_KEY environment variable or pass it to the constructor.');
     }
     
+    // Retries go through the rate limiter so they honor the shared budget
     this.client = new OpenAI({
       apiKey: apiKey,
-      organization: config.organization
+      organization: config.organization,
+      baseURL: config.baseURL,
+      maxRetries: 0
     });
+    this.rateLimiter = this.createRateLimiter();
     
     this.logger = new Logger('OpenAIProvider');
   }
@@ -58,11 +84,157 @@ export class OpenAIProvider implements LLMProviderInterface {
    * @returns Promise resolving to the generation result
    */
   async generateResponse(options: GenerateOptions): Promise<GenerateResult> {
+    const { messageParams, responseSchema, estimatedTokens } = await this.buildRequest(options);
+    
+    try {
+      // If streaming is requested and a callback is provided
+      let result: GenerateResult;
+      if (options.stream && (options.onPartialResponse || options.onStreamEvent)) {
+        result = await this.streamResponse(messageParams, options, estimatedTokens);
+      } else {
+        // Non-streaming mode
+        const response = await this.rateLimiter.schedule(
+          () => this.client.chat.completions.create(messageParams, { signal: options.signal }),
+          { tokens: estimatedTokens, signal: options.signal, maxRetries: this.config.maxRetries }
+        );
+        result = this.processResponse(response);
+      }
+      this.rateLimiter.settle(estimatedTokens, result.tokens?.total || 0);
+      
+      return this.applyResponseSchema(result, responseSchema);
+    } catch (error) {
+      this.logger.error('Error generating response from OpenAI:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Checks whether requests can be sent through the Batch API
+   * 
+   * Only the OpenAI API itself has the Batch API, not other endpoints.
+   * 
+   * @returns True when no alternative endpoint is configured
+   */
+  supportsBatch(): boolean {
+    return !this.config.baseURL;
+  }
+  
+  /**
+   * Uploads requests and submits them to the Batch API
+   * 
+   * @param requests - The requests (callbacks, signals and streaming are ignored)
+   * @returns Promise resolving to the OpenAI batch ID
+   */
+  async submitBatch(requests: BatchRequest[]): Promise<string> {
+    const lines = await Promise.all(requests.map(async request => JSON.stringify({
+      custom_id: request.id,
+      method: 'POST',
+      url: '/v1/chat/completions',
+      body: (await this.buildRequest(request.options)).messageParams
+    })));
+    
+    const file = await this.client.files.create({
+      file: await toFile(Buffer.from(lines.join('\n')), 'batch.jsonl'),
+      purpose: 'batch'
+    });
+    const batch = await this.client.batches.create({
+      input_file_id: file.id,
+      endpoint: '/v1/chat/completions',
+      completion_window: '24h'
+    });
+    return batch.id;
+  }
+  
+  /**
+   * Gets whether a submitted batch has finished
+   * 
+   * @param batchId - The OpenAI batch ID
+   * @returns Promise resolving to the batch status
+   */
+  async getBatchStatus(batchId: string): Promise<RemoteBatchStatus> {
+    const batch = await this.client.batches.retrieve(batchId);
+    return ['completed', 'failed', 'expired', 'cancelled'].includes(batch.status) ? 'ended' : 'in_progress';
+  }
+  
+  /**
+   * Downloads the results of a finished batch
+   * 
+   * @param batchId - The OpenAI batch ID
+   * @param requests - The submitted requests, used to interpret the responses
+   * @returns Promise resolving to one result per request that has one
+   */
+  async getBatchResults(batchId: string, requests: BatchRequest[]): Promise<BatchItemResult[]> {
+    const batch = await this.client.batches.retrieve(batchId);
+    const byId = new Map(requests.map(request => [request.id, request]));
+    const results: BatchItemResult[] = [];
+    
+    for (const fileId of [batch.output_file_id, batch.error_file_id]) {
+      if (!fileId) {
+        continue;
+      }
+      
+      const content = await (await this.client.files.content(fileId)).text();
+      for (const line of content.split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+        
+        const item = JSON.parse(line);
+        const request = byId.get(item.custom_id);
+        if (!request) {
+          continue;
+        }
+        
+        if (item.response?.status_code === 200) {
+          const responseFormat = request.options.responseFormat;
+          results.push({
+            id: item.custom_id,
+            result: this.applyResponseSchema(
+              this.processResponse(item.response.body),
+              responseFormat ? toObjectSchema(responseFormat.schema) : undefined
+            )
+          });
+        } else {
+          const message = item.error?.message || item.response?.body?.error?.message || `status ${item.response?.status_code}`;
+          results.push({ id: item.custom_id, error: `Request failed: ${message}` });
+        }
+      }
+    }
+    
+    return results;
+  }
+  
+  /**
+   * Cancels a submitted batch
+   * 
+   * @param batchId - The OpenAI batch ID
+   */
+  async cancelBatch(batchId: string): Promise<void> {
+    await this.client.batches.cancel(batchId);
+  }
+  
+  /**
+   * Builds the chat completion parameters for a request
+   * 
+   * @param options - Generation options
+   * @returns Promise resolving to the parameters, the response schema and the token estimate
+   */
+  private async buildRequest(options: GenerateOptions): Promise<{
+    messageParams: any;
+    responseSchema?: ObjectResponseSchema;
+    estimatedTokens: number;
+  }> {
+    // Keep the request within the model's context window
+    const inputMessages = this.config.contextManager
+      ? (await this.config.contextManager.fit(options.messages, {
+          model: this.config.model,
+          reserveTokens: estimateToolTokens(options.tools)
+        })).messages
+      : options.messages;
+    const estimatedTokens = estimateRequestTokens(inputMessages, options.tools, options.maxTokens || 1024);
+    
     // Convert our message format to OpenAI's format
-    const messages = options.messages.map((msg: Message) => ({
-      role: msg.role as 'user' | 'assistant' | 'system',
-      content: msg.content
-    }));
+    const messages = await Promise.all(inputMessages.map((msg: Message) => this.mapMessage(msg)));
     
     // Map our tools to OpenAI's tool format
     let tools;
@@ -77,60 +249,170 @@ export class OpenAIProvider implements LLMProviderInterface {
       }));
     }
     
-    try {
-      // Prepare common message parameters
-      const messageParams: any = {
-        model: this.config.model,
-        messages,
-        max_tokens: options.maxTokens,
-        temperature: options.temperature,
-        stop: options.stopSequences,
-        top_p: options.topP,
-        tools: tools
-      };
-      
-      // If tools are provided, set appropriate tool_choice
-      if (tools && tools.length > 0) {
-        // Force the model to use a tool to encourage tool usage
-        if (tools.length === 1) {
-          // If there's only one tool, force it to use that specific tool
-          messageParams.tool_choice = {
-            type: "function",
-            function: { name: tools[0].function.name }
-          };
-          this.logger.debug(`Forcing tool_choice to use: ${tools[0].function.name}`);
-        } else {
-          // If multiple tools, set to auto
-          messageParams.tool_choice = "auto";
-          this.logger.debug('Enabling tool_choice: auto with tools:', tools.map((t: any) => t.function.name));
+    // Prepare common message parameters
+    const messageParams: any = {
+      model: this.config.model,
+      messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      stop: options.stopSequences,
+      top_p: options.topP,
+      tools: tools
+    };
+    
+    // Ask for a JSON answer matching the response schema
+    const responseSchema = options.responseFormat ? toObjectSchema(options.responseFormat.schema) : undefined;
+    if (options.responseFormat && responseSchema) {
+      messageParams.response_format = {
+        type: 'json_schema',
+        json_schema: {
+          name: options.responseFormat.name,
+          description: options.responseFormat.description,
+          schema: responseSchema.schema,
+          strict: false
         }
-      }
-      
-      // If streaming is requested and a callback is provided
-      if (options.stream && options.onPartialResponse) {
-        return await this.streamResponse(messageParams, options.onPartialResponse);
+      };
+    }
+    
+    // If tools are provided, set appropriate tool_choice
+    if (tools && tools.length > 0 && options.toolChoice === 'none') {
+      messageParams.tool_choice = 'none';
+    } else if (tools && tools.length > 0) {
+      // Force the model to use a tool to encourage tool usage, unless it is
+      // already answering tool results (otherwise it would loop on the tool)
+      const answeringToolResults = options.messages[options.messages.length - 1]?.role === 'tool';
+      if (tools.length === 1 && !answeringToolResults) {
+        // If there's only one tool, force it to use that specific tool
+        messageParams.tool_choice = {
+          type: "function",
+          function: { name: tools[0].function.name }
+        };
+        this.logger.debug(`Forcing tool_choice to use: ${tools[0].function.name}`);
       } else {
-        // Non-streaming mode
-        const response = await this.client.chat.completions.create(messageParams);
-        return this.processResponse(response);
+        // If multiple tools, set to auto
+        messageParams.tool_choice = "auto";
+        this.logger.debug('Enabling tool_choice: auto with tools:', tools.map((t: any) => t.function.name));
+      }
+    }
+    
+    return { messageParams, responseSchema, estimatedTokens };
+  }
+  
+  /**
+   * Parses the structured output of a final answer in JSON mode
+   * 
+   * @param result - The generation result
+   * @param responseSchema - The requested response schema, if any
+   * @returns The result with structuredOutput set when the answer parses
+   */
+  private applyResponseSchema(result: GenerateResult, responseSchema?: ObjectResponseSchema): GenerateResult {
+    if (responseSchema && !result.toolCalls) {
+      const parsed = extractJson(result.message);
+      if (parsed !== undefined) {
+        result.structuredOutput = unwrapStructuredOutput(parsed, responseSchema.wrapped);
       }
-    } catch (error) {
-      this.logger.error('Error generating response from OpenAI:', error);
-      throw error;
     }
+    return result;
+  }
+  
+  /**
+   * Maps a framework message to an OpenAI chat message
+   * 
+   * Image and document parts of user messages become image_url and file parts.
+   * 
+   * @param msg - The message to convert
+   * @returns Promise resolving to the message in OpenAI's format
+   */
+  private async mapMessage(msg: Message): Promise<any> {
+    if (msg.role === 'tool') {
+      return {
+        role: 'tool',
+        tool_call_id: msg.toolCallId,
+        content: getTextContent(msg.content)
+      };
+    }
+    
+    if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: getTextContent(msg.content) || null,
+        tool_calls: msg.toolCalls.map(tc => ({
+          id: tc.id,
+          type: 'function',
+          function: {
+            name: tc.name,
+            arguments: JSON.stringify(tc.parameters)
+          }
+        }))
+      };
+    }
+    
+    if (msg.role === 'user' && typeof msg.content !== 'string') {
+      return {
+        role: 'user',
+        content: await Promise.all(msg.content.map(part => this.mapContentPart(part)))
+      };
+    }
+    
+    return {
+      role: msg.role,
+      content: getTextContent(msg.content)
+    };
+  }
+  
+  /**
+   * Maps one content part to an OpenAI content part
+   * 
+   * @param part - The content part
+   * @returns Promise resolving to a text, image_url or file part
+   */
+  private async mapContentPart(part: ContentPart): Promise<any> {
+    if (part.type === 'text') {
+      return { type: 'text', text: part.text };
+    }
+    
+    if (part.type === 'image') {
+      const media = await resolveMediaSource(part.source);
+      return {
+        type: 'image_url',
+        image_url: {
+          url: media.type === 'url' ? media.url : toDataUrl(media),
+          ...(part.detail ? { detail: part.detail } : {})
+        }
+      };
+    }
+    
+    // Documents must be sent inline; plain text is passed as a text part
+    const media = await resolveMediaSource(part.source, true) as { data: string; mediaType: string };
+    if (media.mediaType.startsWith('text/')) {
+      const text = Buffer.from(media.data, 'base64').toString('utf8');
+      return { type: 'text', text: part.title ? `${part.title}:\n${text}` : text };
+    }
+    
+    return {
+      type: 'file',
+      file: {
+        filename: part.title || 'document.pdf',
+        file_data: toDataUrl(media)
+      }
+    };
   }
   
   /**
    * Streams a response from the OpenAI LLM
    * 
    * @param messageParams - Parameters for the OpenAI API call
-   * @param onPartialResponse - Callback function for partial responses
+   * @param options - Generation options (stream callbacks and abort signal)
+   * @param estimatedTokens - Tokens reserved with the rate limiter
    * @returns Promise resolving to the complete generation result
    */
   private async streamResponse(
     messageParams: any, 
-    onPartialResponse: (text: string, done: boolean) => void
+    options: GenerateOptions,
+    estimatedTokens: number
   ): Promise<GenerateResult> {
+    const { onPartialResponse, onStreamEvent, signal } = options;
+    
     // Initialize containers for aggregating results
     let accumulatedText = '';
     let toolCalls: ToolCall[] = [];
@@ -139,20 +421,29 @@ export class OpenAIProvider implements LLMProviderInterface {
       output: 0,
       total: 0
     };
+    let model: string = messageParams.model;
     
-    let toolCallJson = '';
-    let isCollectingToolCall = false;
-    let currentToolCall: any = null;
+    // Tool calls being assembled, keyed by the index OpenAI assigns them
+    const pendingToolCalls = new Map<number, { id: string; name: string; arguments: string; started: boolean }>();
     
-    // Create a streaming request
-    const stream = await this.client.chat.completions.create({
-      ...messageParams,
-      stream: true
-    });
+    // Create a streaming request (only opening the stream is retried, so no text is repeated)
+    const stream = await this.rateLimiter.schedule(
+      () => this.client.chat.completions.create({
+        ...messageParams,
+        stream: true,
+        // Usage is only reported for streams when explicitly requested (in a final chunk without choices)
+        ...(this.config.streamUsage ? { stream_options: { include_usage: true } } : {})
+      }, { signal }),
+      { tokens: estimatedTokens, signal, maxRetries: this.config.maxRetries }
+    );
     
     // Process each chunk
     // @ts-ignore - The stream is iterable but TS doesn't recognize it
     for await (const chunk of stream) {
+      if (chunk.model) {
+        model = chunk.model;
+      }
+      
       // Update token count if available
       if (chunk.usage) {
         tokens = {
@@ -167,62 +458,65 @@ export class OpenAIProvider implements LLMProviderInterface {
       
       if (delta?.content) {
         accumulatedText += delta.content;
-        onPartialResponse(accumulatedText, false);
+        onPartialResponse?.(accumulatedText, false);
+        onStreamEvent?.({ type: 'text_delta', text: delta.content });
       }
       
-      // Handle tool calls
+      // Accumulate tool call fragments; the ID and name arrive on the first fragment
       if (delta?.tool_calls) {
         for (const toolCallDelta of delta.tool_calls) {
-          // If this is the start of a new tool call
-          if (toolCallDelta.index !== undefined && !currentToolCall) {
-            currentToolCall = {
-              index: toolCallDelta.index,
-              id: toolCallDelta.id || '',
-              type: toolCallDelta.type || 'function',
-              function: {
-                name: '',
-                arguments: ''
-              }
-            };
-            isCollectingToolCall = true;
+          let pending = pendingToolCalls.get(toolCallDelta.index);
+          if (!pending) {
+            // Some OpenAI-compatible servers omit call IDs; assign one so stream events and results match
+            pending = { id: toolCallDelta.id || `call_${uuidv4()}`, name: '', arguments: '', started: false };
+            pendingToolCalls.set(toolCallDelta.index, pending);
           }
           
-          // Update the function name if available
           if (toolCallDelta.function?.name) {
-            currentToolCall.function.name += toolCallDelta.function.name;
+            pending.name += toolCallDelta.function.name;
           }
-          
-          // Update the function arguments if available
           if (toolCallDelta.function?.arguments) {
-            currentToolCall.function.arguments += toolCallDelta.function.arguments;
+            pending.arguments += toolCallDelta.function.arguments;
           }
           
-          // If we have a complete tool call, process it
-          if (isCollectingToolCall && chunk.choices[0]?.finish_reason === 'tool_calls') {
-            try {
-              const args = JSON.parse(currentToolCall.function.arguments);
-              toolCalls.push({
-                name: currentToolCall.function.name,
-                parameters: args
-              });
-            } catch (error) {
-              this.logger.error('Error parsing tool call arguments:', error);
+          // Announce the call once its name is known, then forward argument fragments
+          if (!pending.started && pending.name) {
+            pending.started = true;
+            onStreamEvent?.({ type: 'tool_call_start', id: pending.id, name: pending.name });
+            if (pending.arguments) {
+              onStreamEvent?.({ type: 'tool_call_delta', id: pending.id, argsDelta: pending.arguments });
             }
-            
-            isCollectingToolCall = false;
-            currentToolCall = null;
+          } else if (pending.started && toolCallDelta.function?.arguments) {
+            onStreamEvent?.({ type: 'tool_call_delta', id: pending.id, argsDelta: toolCallDelta.function.arguments });
           }
         }
       }
     }
     
+    // Parse the completed tool calls in index order
+    const indices = Array.from(pendingToolCalls.keys()).sort((a, b) => a - b);
+    for (const index of indices) {
+      const pending = pendingToolCalls.get(index)!;
+      try {
+        toolCalls.push({
+          id: pending.id,
+          name: pending.name,
+          parameters: pending.arguments ? JSON.parse(pending.arguments) : {}
+        });
+      } catch (error) {
+        this.logger.error('Error parsing tool call arguments:', error);
+      }
+    }
+    
     // Signal completion
-    onPartialResponse(accumulatedText, true);
+    onPartialResponse?.(accumulatedText, true);
     
     // Return the complete response
     return {
       message: accumulatedText,
       toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      provider: ProviderType.OPENAI,
+      model,
       tokens
     };
   }
@@ -257,6 +551,7 @@ export class OpenAIProvider implements LLMProviderInterface {
             this.logger.debug(`Processing tool call: ${toolCall.function.name}`);
             const args = JSON.parse(toolCall.function.arguments);
             toolCalls.push({
+              id: toolCall.id,
               name: toolCall.function.name,
               parameters: args
             });
@@ -283,6 +578,8 @@ export class OpenAIProvider implements LLMProviderInterface {
     return {
       message,
       toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      provider: ProviderType.OPENAI,
+      model: response.model || this.config.model,
       tokens
     };
   }
@@ -298,12 +595,58 @@ export class OpenAIProvider implements LLMProviderInterface {
       ...config
     };
     
-    // If API key changed, recreate the client
-    if (config.apiKey) {
+    // If API key or endpoint changed, recreate the client
+    if (config.apiKey || config.baseURL) {
       this.client = new OpenAI({
-        apiKey: config.apiKey,
-        organization: config.organization || this.config.organization
+        apiKey: this.config.apiKey || process.env.OPENAI_API_KEY,
+        organization: this.config.organization,
+        baseURL: this.config.baseURL,
+        maxRetries: 0
       });
     }
+    
+    if (config.apiKey || config.baseURL || config.rateLimits || config.rateLimiter) {
+      this.rateLimiter = this.createRateLimiter();
+    }
+  }
+  
+  /**
+   * Gets the configured model name
+   * 
+   * @returns The model name
+   */
+  getModel(): string {
+    return this.config.model;
+  }
+  
+  /**
+   * Gets the catalog entry of the configured model
+   * 
+   * @returns The model's capabilities and limits, or undefined if the catalog does not know it
+   */
+  getModelInfo(): ModelInfo | undefined {
+    return ModelCatalog.getInstance().getModel(this.config.model);
+  }
+  
+  /**
+   * Gets the rate limiter used for requests (listen to it for queue and retry events)
+   * 
+   * @returns The rate limiter
+   */
+  getRateLimiter(): RateLimiter {
+    return this.rateLimiter;
+  }
+  
+  /**
+   * Creates the configured rate limiter, or gets the one shared by this endpoint and API key
+   * 
+   * @returns The rate limiter
+   */
+  private createRateLimiter(): RateLimiter {
+    return this.config.rateLimiter || getSharedRateLimiter(
+      `openai:${this.config.baseURL || 'https://api.openai.com/v1'}`,
+      this.config.apiKey || process.env.OPENAI_API_KEY,
+      this.config.rateLimits
+    );
   }
 }
\ No newline at end of file
@@ -3,23 +3,25 @@
  */
 
 import { ProviderType, LLMProviderInterface } from './provider-interface';
-import { AnthropicProvider, AnthropicProviderConfig } from './llm-provider';
-import { OpenAIProvider, OpenAIProviderConfig } from './openai-provider';
+import { AnthropicProviderConfig } from './llm-provider';
+import { OpenAIProviderConfig } from './openai-provider';
+import { OpenAICompatibleProviderConfig } from './openai-compatible-provider';
+import { GrokProviderConfig } from './grok-provider';
+import { ProviderDefinition, ProviderRegistry } from './provider-registry';
 
 /**
  * Combined provider configuration type
  */
-export type ProviderConfig = 
+export type ProviderConfig =
   | ({ type: ProviderType.ANTHROPIC } & AnthropicProviderConfig)
-  | ({ type: ProviderType.OPENAI } & OpenAIProviderConfig);
+  | ({ type: ProviderType.OPENAI } & OpenAIProviderConfig)
+  | ({ type: ProviderType.OPENAI_COMPATIBLE } & OpenAICompatibleProviderConfig)
+  | ({ type: ProviderType.GROK } & GrokProviderConfig);
 
 /**
- * Default models for each provider
+ * Configuration for a provider type registered at runtime
  */
-const DEFAULT_MODELS = {
-  [ProviderType.ANTHROPIC]: 'claude-3-5-sonnet-20240620',
-  [ProviderType.OPENAI]: 'gpt-4o-mini'
-};
+export type CustomProviderConfig = { type: string; model?: string } & Record<string, any>;
 
 /**
  * Factory for creating LLM providers
@@ -27,55 +29,65 @@ const DEFAULT_MODELS = {
 export class ProviderFactory {
   /**
    * Creates an LLM provider based on configuration
-   * 
-   * @param config - Provider configuration
+   *
+   * @param config - Provider configuration (built-in or registered type)
    * @returns The created provider
    */
-  static createProvider(config: ProviderConfig): LLMProviderInterface {
-    switch (config.type) {
-      case ProviderType.ANTHROPIC:
-        return new AnthropicProvider({
-          model: config.model || DEFAULT_MODELS[ProviderType.ANTHROPIC],
-          apiKey: config.apiKey,
-          maxRetries: config.maxRetries
-        });
-        
-      case ProviderType.OPENAI:
-        return new OpenAIProvider({
-          model: config.model || DEFAULT_MODELS[ProviderType.OPENAI],
-          apiKey: config.apiKey,
-          maxRetries: config.maxRetries,
-          organization: config.organization
-        });
-        
-      default:
-        throw new Error(`Unsupported provider type: ${(config as any).type}`);
+  static createProvider(config: ProviderConfig | CustomProviderConfig): LLMProviderInterface {
+    const definition = ProviderRegistry.getInstance().getProvider(config.type);
+    if (!definition) {
+      throw new Error(`Unsupported provider type: ${config.type}`);
     }
+
+    const { type, ...providerConfig } = config;
+    return definition.create({
+      ...providerConfig,
+      model: config.model || definition.defaultModel
+    });
+  }
+
+  /**
+   * Registers a provider type so createProvider can create it
+   *
+   * @param type - Name used as the config's type, e.g. 'mistral'
+   * @param definition - How to create the provider
+   */
+  static registerProvider<TConfig extends Record<string, any>>(type: string, definition: ProviderDefinition<TConfig>): void {
+    ProviderRegistry.getInstance().registerProvider(type, definition);
+  }
+
+  /**
+   * Gets the default model of a provider type
+   *
+   * @param type - The provider type
+   * @returns The default model, or undefined if the type is not registered
+   */
+  static getDefaultModel(type: string): string | undefined {
+    return ProviderRegistry.getInstance().getProvider(type)?.defaultModel;
   }
-  
+
   /**
    * Creates a provider based on available API keys
-   * 
+   *
+   * Provider types are tried in registration order (Anthropic, OpenAI, a
+   * local OpenAI-compatible server, then custom types).
+   *
    * @returns The created provider
    */
   static createDefaultProvider(): LLMProviderInterface {
-    // Check for Anthropic API key
-    if (process.env.ANTHROPIC_API_KEY) {
-      return this.createProvider({
-        type: ProviderType.ANTHROPIC,
-        model: process.env.DEFAULT_ANTHROPIC_MODEL || DEFAULT_MODELS[ProviderType.ANTHROPIC]
-      });
-    }
-    
-    // Check for OpenAI API key
-    if (process.env.OPENAI_API_KEY) {
-      return this.createProvider({
-        type: ProviderType.OPENAI,
-        model: process.env.DEFAULT_OPENAI_MODEL || DEFAULT_MODELS[ProviderType.OPENAI]
-      });
+    const registry = ProviderRegistry.getInstance();
+
+    for (const type of registry.getProviderTypes()) {
+      const definition = registry.getProvider(type)!;
+      if (definition.isConfigured?.()) {
+        return this.createProvider({
+          type,
+          model: (definition.modelEnvVar && process.env[definition.modelEnvVar]) || definition.defaultModel
+        });
+      }
     }
-    
+
     // No API keys available
-    throw new Error('No API keys found. Please set ANTHROPIC_API_KEY or OPENAI_API_KEY environment variables.');
+    throw new Error('No API keys found. Please set ANTHROPIC_API_KEY or OPENAI_API_KEY (or OPENAI_COMPATIBLE_BASE_URL for a local server) environment variables.');
   }
 }
\ No newline at end of file
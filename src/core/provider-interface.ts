@@ -3,28 +3,66 @@
  */
 
 import { Message } from './types';
+import { ModelInfo } from './model-catalog';
 
 /**
  * Tool call definition for the provider
  */
 export interface ToolCall {
+  id?: string; // Provider-assigned call ID (generated by the agent if missing)
   name: string;
   parameters: Record<string, any>;
   result?: any;
 }
 
+/**
+ * Requested shape of the model's final answer
+ */
+export interface ResponseFormat {
+  name: string; // Identifier for the schema (used as the forced tool name where applicable)
+  schema: Record<string, any>; // JSON Schema the answer must satisfy
+  description?: string;
+}
+
+/**
+ * Incremental event emitted while a provider streams a response
+ */
+export type ProviderStreamEvent =
+  | { type: 'text_delta'; text: string }
+  | { type: 'tool_call_start'; id: string; name: string }
+  | { type: 'tool_call_delta'; id: string; argsDelta: string }; // Partial JSON of the call's arguments
+
 /**
  * Input for generating a response
  */
 export interface GenerateOptions {
   messages: Message[];
   tools?: any[];
+  toolChoice?: 'auto' | 'none'; // 'none' keeps the tool definitions but forbids calling them (default: 'auto')
   maxTokens?: number;
   temperature?: number;
   stopSequences?: string[];
   topP?: number;
   stream?: boolean;
   onPartialResponse?: (text: string, done: boolean) => void;
+  onStreamEvent?: (event: ProviderStreamEvent) => void; // Typed deltas when stream is true
+  signal?: AbortSignal; // Aborts the underlying API request
+  responseFormat?: ResponseFormat; // Ask for a JSON answer matching a schema (provider-native where supported)
+  route?: RouteHints; // Used by RoutingProvider to pick a provider; ignored by others
+}
+
+/**
+ * Cost tiers used for routing, from cheapest to most expensive
+ */
+export type CostTier = 'low' | 'medium' | 'high';
+
+/**
+ * Hints describing a request, for providers that route between other providers
+ */
+export interface RouteHints {
+  taskType?: string; // e.g. 'research', 'analysis', 'writing'
+  capabilities?: string[]; // Capabilities the provider must have, e.g. ['vision']
+  costTier?: CostTier; // Most expensive tier allowed
 }
 
 /**
@@ -33,6 +71,10 @@ export interface GenerateOptions {
 export interface GenerateResult {
   message: string;
   toolCalls?: ToolCall[];
+  structuredOutput?: any; // Parsed answer when responseFormat was requested and the provider returned one
+  provider?: string; // Provider that served the call, e.g. 'anthropic'
+  model?: string; // Model reported by the API (falls back to the configured model)
+  cached?: boolean; // True when served from a response cache instead of the API
   tokens?: {
     input: number;
     output: number;
@@ -40,12 +82,36 @@ export interface GenerateResult {
   };
 }
 
+/**
+ * One request of a batch
+ */
+export interface BatchRequest {
+  id: string; // Unique within the batch; results carry the same ID
+  options: GenerateOptions; // Callbacks, signals and streaming are ignored in batches
+}
+
+/**
+ * Outcome of one request of a batch
+ */
+export interface BatchItemResult {
+  id: string;
+  result?: GenerateResult;
+  error?: string; // Set instead of result when the request failed
+}
+
+/**
+ * Status of a batch submitted to a provider's batch endpoint
+ */
+export type RemoteBatchStatus = 'in_progress' | 'ended';
+
 /**
  * LLM Provider type (currently supported)
  */
 export enum ProviderType {
   ANTHROPIC = 'anthropic',
-  OPENAI = 'openai'
+  OPENAI = 'openai',
+  OPENAI_COMPATIBLE = 'openai-compatible', // Any OpenAI-compatible server, e.g. Ollama, llama.cpp or vLLM
+  GROK = 'grok' // Grok through a logged-in Twitter connector
 }
 
 /**
@@ -66,4 +132,57 @@ export interface LLMProviderInterface {
    * @param config - New configuration options
    */
   updateConfig(config: Record<string, any>): void;
+  
+  /**
+   * Gets the catalog entry of the model this provider uses (optional)
+   * 
+   * @returns The model's capabilities and limits, or undefined if unknown
+   */
+  getModelInfo?(): ModelInfo | undefined;
+  
+  /**
+   * Gets the name of the model this provider uses (optional)
+   * 
+   * @returns The model name
+   */
+  getModel?(): string;
+  
+  /**
+   * Checks whether the provider can run batches through its API (optional)
+   * 
+   * @returns True if submitBatch and the other batch methods are usable
+   */
+  supportsBatch?(): boolean;
+  
+  /**
+   * Submits requests to the provider's batch endpoint (optional)
+   * 
+   * @param requests - The requests to run
+   * @returns Promise resolving to the provider's batch ID
+   */
+  submitBatch?(requests: BatchRequest[]): Promise<string>;
+  
+  /**
+   * Gets whether a submitted batch has finished (optional)
+   * 
+   * @param batchId - The provider's batch ID
+   * @returns Promise resolving to the batch status
+   */
+  getBatchStatus?(batchId: string): Promise<RemoteBatchStatus>;
+  
+  /**
+   * Downloads the results of a finished batch (optional)
+   * 
+   * @param batchId - The provider's batch ID
+   * @param requests - The submitted requests, used to interpret the responses
+   * @returns Promise resolving to one result per request that has one
+   */
+  getBatchResults?(batchId: string, requests: BatchRequest[]): Promise<BatchItemResult[]>;
+  
+  /**
+   * Cancels a submitted batch (optional)
+   * 
+   * @param batchId - The provider's batch ID
+   */
+  cancelBatch?(batchId: string): Promise<void>;
 }
\ No newline at end of file
@@ -0,0 +1,124 @@
+/**
+ * Registry of provider types that ProviderFactory can create
+ */
+
+import { LLMProviderInterface, ProviderType } from './provider-interface';
+import { AnthropicProvider } from './llm-provider';
+import { OpenAIProvider } from './openai-provider';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+import { GrokProvider, GrokProviderConfig } from './grok-provider';
+import { Logger } from '../utils/logger';
+
+/**
+ * How to create providers of one type
+ */
+export interface ProviderDefinition<TConfig extends Record<string, any> = Record<string, any>> {
+  create: (config: TConfig & { model: string }) => LLMProviderInterface;
+  defaultModel: string;   // Used when the config has no model
+  isConfigured?: () => boolean; // True when the environment has what the provider needs (used for the default provider)
+  modelEnvVar?: string;   // Environment variable overriding the default model
+}
+
+/**
+ * Registry of provider types, including the built-in ones
+ */
+export class ProviderRegistry {
+  private static instance: ProviderRegistry;
+  private definitions: Map<string, ProviderDefinition<any>> = new Map();
+  private logger: Logger;
+
+  /**
+   * Private constructor (use getInstance() instead)
+   */
+  private constructor() {
+    this.logger = new Logger('ProviderRegistry');
+    this.registerBuiltInProviders();
+  }
+
+  /**
+   * Gets the singleton instance of the provider registry
+   *
+   * @returns The provider registry instance
+   */
+  public static getInstance(): ProviderRegistry {
+    if (!ProviderRegistry.instance) {
+      ProviderRegistry.instance = new ProviderRegistry();
+    }
+    return ProviderRegistry.instance;
+  }
+
+  /**
+   * Registers a provider type, replacing any existing definition
+   *
+   * @param type - Name used as ProviderConfig.type, e.g. 'mistral'
+   * @param definition - How to create the provider
+   */
+  registerProvider<TConfig extends Record<string, any>>(type: string, definition: ProviderDefinition<TConfig>): void {
+    if (this.definitions.has(type)) {
+      this.logger.warn(`Replacing provider type "${type}"`);
+    }
+    this.definitions.set(type, definition);
+    this.logger.debug(`Registered provider type: ${type}`);
+  }
+
+  /**
+   * Gets the definition of a provider type
+   *
+   * @param type - The provider type
+   * @returns The definition, or undefined if the type is not registered
+   */
+  getProvider(type: string): ProviderDefinition | undefined {
+    return this.definitions.get(type);
+  }
+
+  /**
+   * Gets the registered provider types in registration order
+   *
+   * @returns The provider type names
+   */
+  getProviderTypes(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Removes a provider type
+   *
+   * @param type - The provider type
+   * @returns True if a definition was removed
+   */
+  unregisterProvider(type: string): boolean {
+    return this.definitions.delete(type);
+  }
+
+  /**
+   * Registers the providers that ship with the framework, in default-provider order
+   */
+  private registerBuiltInProviders(): void {
+    this.definitions.set(ProviderType.ANTHROPIC, {
+      create: config => new AnthropicProvider(config),
+      defaultModel: 'claude-3-5-sonnet-20240620',
+      isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+      modelEnvVar: 'DEFAULT_ANTHROPIC_MODEL'
+    });
+
+    this.definitions.set(ProviderType.OPENAI, {
+      create: config => new OpenAIProvider(config),
+      defaultModel: 'gpt-4o-mini',
+      isConfigured: () => !!process.env.OPENAI_API_KEY,
+      modelEnvVar: 'DEFAULT_OPENAI_MODEL'
+    });
+
+    this.definitions.set(ProviderType.OPENAI_COMPATIBLE, {
+      create: config => new OpenAICompatibleProvider(config),
+      defaultModel: 'llama3.1',
+      isConfigured: () => !!process.env.OPENAI_COMPATIBLE_BASE_URL,
+      modelEnvVar: 'DEFAULT_OPENAI_COMPATIBLE_MODEL'
+    });
+
+    // Needs a connected Twitter connector, so it is never the default provider
+    this.definitions.set(ProviderType.GROK, {
+      create: config => new GrokProvider(config as GrokProviderConfig),
+      defaultModel: 'grok'
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,356 @@
+/**
+ * Record/replay provider for deterministic offline runs
+ *
+ * In record mode every request is sent to a real provider and the response
+ * (including tool calls and stream events) is stored in a cassette file. In
+ * replay mode responses are served from the cassette by matching a hash of
+ * the normalized request, so agents, planners and swarms can run without
+ * API keys.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Message } from './types';
+import {
+  GenerateOptions,
+  GenerateResult,
+  LLMProviderInterface,
+  ProviderStreamEvent
+} from './provider-interface';
+import { throwIfAborted } from '../utils/abort-utils';
+import { emitProviderStream, resultToStreamEvents } from '../utils/event-stream';
+import { Logger } from '../utils/logger';
+
+/**
+ * How the replay provider uses its cassette
+ *
+ * - replay: only serve recorded responses; unknown requests throw ReplayMissError
+ * - record: call the real provider for every request and re-record the cassette
+ * - auto: serve recorded responses and record the ones that are missing
+ */
+export type ReplayMode = 'replay' | 'record' | 'auto';
+
+/**
+ * Configuration for the replay provider
+ */
+export interface ReplayProviderConfig {
+  cassettePath: string;   // JSON file holding the recorded interactions
+  provider?: LLMProviderInterface; // Real provider used for recording
+  mode?: ReplayMode;      // Default: 'auto' with a provider, 'replay' without
+}
+
+/**
+ * A request reduced to the fields that determine the response
+ */
+export interface NormalizedRequest {
+  model?: string;         // Set by callers that key on the model, e.g. the response cache
+  messages: Record<string, any>[];
+  tools: { name: string; description: string; schema: Record<string, any> }[];
+  toolChoice?: GenerateOptions['toolChoice'];
+  maxTokens?: number;
+  temperature?: number;
+  stopSequences?: string[];
+  topP?: number;
+  responseFormat?: GenerateOptions['responseFormat'];
+}
+
+/**
+ * One recorded request/response pair
+ */
+export interface CassetteInteraction {
+  hash: string;
+  request: NormalizedRequest;
+  response: GenerateResult;
+  streamEvents?: ProviderStreamEvent[]; // Present when the response was streamed while recording
+  recorded: number;
+}
+
+/**
+ * Contents of a cassette file
+ */
+export interface Cassette {
+  version: number;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Current cassette file format version
+ */
+const CASSETTE_VERSION = 1;
+
+/**
+ * Error thrown when a request has no recorded response
+ */
+export class ReplayMissError extends Error {
+  constructor(public readonly hash: string, public readonly request: NormalizedRequest) {
+    super(`No recorded response for request ${hash.slice(0, 12)}; record the cassette again with a real provider`);
+    this.name = 'ReplayMissError';
+  }
+}
+
+/**
+ * Provider that records responses of a real provider and replays them offline
+ */
+export class ReplayProvider implements LLMProviderInterface {
+  private config: ReplayProviderConfig;
+  private cassette: Cassette;
+  private playCounts: Map<string, number> = new Map();
+  private rerecording: boolean = false;
+  private saving: Promise<void> = Promise.resolve();
+  private logger: Logger;
+
+  /**
+   * Creates a new replay provider
+   *
+   * @param config - Configuration for the provider
+   */
+  constructor(config: ReplayProviderConfig) {
+    this.config = {
+      mode: config.provider ? 'auto' : 'replay',
+      ...config
+    };
+    this.logger = new Logger('ReplayProvider');
+
+    if (this.config.mode !== 'replay' && !this.config.provider) {
+      throw new Error(`ReplayProvider needs a provider to use mode '${this.config.mode}'`);
+    }
+
+    this.cassette = this.loadCassette();
+  }
+
+  /**
+   * Serves a recorded response, or records a new one
+   *
+   * @param options - Generation options
+   * @returns Promise resolving to the generation result
+   */
+  async generateResponse(options: GenerateOptions): Promise<GenerateResult> {
+    throwIfAborted(options.signal);
+
+    const request = normalizeRequest(options);
+    const hash = hashRequest(request);
+
+    if (this.config.mode !== 'record') {
+      const interaction = this.nextRecorded(hash);
+      if (interaction) {
+        this.logger.debug('Replaying recorded response', { hash: hash.slice(0, 12) });
+        return this.play(interaction, options);
+      }
+      if (this.config.mode === 'replay') {
+        throw new ReplayMissError(hash, request);
+      }
+    }
+
+    return this.record(hash, request, options);
+  }
+
+  /**
+   * Updates the provider configuration (forwarded to the wrapped provider)
+   *
+   * @param config - New configuration options
+   */
+  updateConfig(config: Record<string, any>): void {
+    const { mode, cassettePath, ...rest } = config;
+    if (mode) {
+      this.config.mode = mode;
+    }
+    if (cassettePath) {
+      this.config.cassettePath = cassettePath;
+      this.cassette = this.loadCassette();
+      this.playCounts.clear();
+    }
+    this.config.provider?.updateConfig(rest);
+  }
+
+  /**
+   * Gets the recorded interactions
+   *
+   * @returns The interactions in recording order
+   */
+  getInteractions(): CassetteInteraction[] {
+    return [...this.cassette.interactions];
+  }
+
+  /**
+   * Finds the next recorded interaction for a request
+   *
+   * Identical requests are answered in recording order; once all recordings
+   * have been played, the last one keeps being returned.
+   *
+   * @param hash - The request hash
+   * @returns The interaction, or undefined if none was recorded
+   */
+  private nextRecorded(hash: string): CassetteInteraction | undefined {
+    const matches = this.cassette.interactions.filter(i => i.hash === hash);
+    if (matches.length === 0) {
+      return undefined;
+    }
+
+    const count = this.playCounts.get(hash) || 0;
+    this.playCounts.set(hash, count + 1);
+    return matches[Math.min(count, matches.length - 1)];
+  }
+
+  /**
+   * Returns a recorded response, replaying its stream when one was requested
+   *
+   * @param interaction - The recorded interaction
+   * @param options - Generation options with the stream callbacks
+   * @returns A copy of the recorded result
+   */
+  private play(interaction: CassetteInteraction, options: GenerateOptions): GenerateResult {
+    const result = structuredClone(interaction.response);
+
+    if (options.stream && (options.onPartialResponse || options.onStreamEvent)) {
+      emitProviderStream(interaction.streamEvents || resultToStreamEvents(result), result.message, options);
+    }
+    return result;
+  }
+
+  /**
+   * Calls the real provider and stores the interaction
+   *
+   * @param hash - The request hash
+   * @param request - The normalized request
+   * @param options - Generation options
+   * @returns Promise resolving to the provider's result
+   */
+  private async record(hash: string, request: NormalizedRequest, options: GenerateOptions): Promise<GenerateResult> {
+    const streamEvents: ProviderStreamEvent[] = [];
+    const onStreamEvent = options.onStreamEvent;
+
+    const result = await this.config.provider!.generateResponse({
+      ...options,
+      onStreamEvent: options.stream
+        ? event => {
+            streamEvents.push(event);
+            onStreamEvent?.(event);
+          }
+        : onStreamEvent
+    });
+
+    // A fresh recording replaces the cassette instead of appending to it
+    if (this.config.mode === 'record' && !this.rerecording) {
+      this.rerecording = true;
+      this.cassette = { version: CASSETTE_VERSION, interactions: [] };
+    }
+
+    this.cassette.interactions.push({
+      hash,
+      request,
+      response: structuredClone(result),
+      streamEvents: streamEvents.length > 0 ? streamEvents : undefined,
+      recorded: Date.now()
+    });
+    await this.saveCassette();
+
+    this.logger.debug('Recorded response', { hash: hash.slice(0, 12) });
+    return result;
+  }
+
+  /**
+   * Loads the cassette file, or starts an empty cassette
+   *
+   * @returns The cassette
+   */
+  private loadCassette(): Cassette {
+    const filePath = this.config.cassettePath;
+    if (!fs.existsSync(filePath)) {
+      if (this.config.mode === 'replay') {
+        this.logger.warn('Cassette not found; every request will miss', { filePath });
+      }
+      return { version: CASSETTE_VERSION, interactions: [] };
+    }
+
+    const cassette: Cassette = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    if (cassette.version !== CASSETTE_VERSION) {
+      throw new Error(`Unsupported cassette version ${cassette.version} in ${filePath}`);
+    }
+    return cassette;
+  }
+
+  /**
+   * Writes the cassette to disk
+   *
+   * Writes are serialized (concurrent recordings share the temporary file)
+   * and go through a temporary file so an interrupted run never leaves a
+   * truncated cassette.
+   */
+  private saveCassette(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(async () => {
+        const filePath = this.config.cassettePath;
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+        const tempPath = `${filePath}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify(this.cassette, null, 2), 'utf8');
+        await fs.promises.rename(tempPath, filePath);
+      });
+    return this.saving;
+  }
+}
+
+/**
+ * Reduces a request to the fields that determine the response
+ *
+ * Timestamps, metadata and tool call IDs differ between runs and are dropped,
+ * as are callbacks, signals and the stream flag.
+ *
+ * @param options - Generation options
+ * @returns The normalized request
+ */
+export function normalizeRequest(options: GenerateOptions): NormalizedRequest {
+  return {
+    messages: options.messages.map(normalizeMessage),
+    tools: (options.tools || []).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      schema: tool.schema
+    })),
+    toolChoice: options.toolChoice,
+    maxTokens: options.maxTokens,
+    temperature: options.temperature,
+    stopSequences: options.stopSequences,
+    topP: options.topP,
+    responseFormat: options.responseFormat
+  };
+}
+
+/**
+ * Hashes a normalized request
+ *
+ * @param request - The normalized request
+ * @returns Hex SHA-256 of the request's canonical JSON
+ */
+export function hashRequest(request: NormalizedRequest): string {
+  return crypto.createHash('sha256').update(canonicalJson(request)).digest('hex');
+}
+
+function normalizeMessage(message: Message): Record<string, any> {
+  return {
+    role: message.role,
+    content: message.content,
+    toolCalls: message.toolCalls?.map(tc => ({ name: tc.name, parameters: tc.parameters })),
+    name: message.name,
+    isError: message.isError
+  };
+}
+
+/**
+ * Serializes a value with sorted object keys and without undefined values
+ */
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
\ No newline at end of file
@@ -0,0 +1,308 @@
+/**
+ * Composite provider with routing rules, failover and per-provider circuit breakers
+ */
+
+import {
+  CostTier,
+  GenerateOptions,
+  GenerateResult,
+  LLMProviderInterface,
+  RouteHints
+} from './provider-interface';
+import { getCapabilityNames } from './model-catalog';
+import { CircuitBreaker, CircuitState } from '../utils/circuit-breaker';
+import { isAbortError, runWithTimeout } from '../utils/abort-utils';
+import { isRetryableError } from '../utils/provider-errors';
+import { hasMediaParts } from '../utils/message-content';
+import { Logger } from '../utils/logger';
+
+/**
+ * A provider the router can send requests to
+ */
+export interface RoutedProvider {
+  name: string;           // Used in rules, logs and events
+  provider: LLMProviderInterface;
+  capabilities?: string[]; // e.g. ['tools', 'vision', 'json']; omitted means the model catalog's, or everything if unknown
+  costTier?: CostTier;    // Omitted means it is allowed at every tier
+}
+
+/**
+ * Sends matching requests to specific providers first
+ *
+ * A rule matches when every condition it sets matches the request's route hints.
+ */
+export interface RoutingRule {
+  taskType?: string | string[]; // Matches RouteHints.taskType
+  capability?: string;    // Matches when the request requires this capability
+  costTier?: CostTier;    // Matches RouteHints.costTier
+  providers: string[];    // Provider names to try first, in order
+  exclusive?: boolean;    // Only use the listed providers (default: false, others remain as fallbacks)
+}
+
+/**
+ * Reported through RoutingProviderConfig.onEvent
+ */
+export type RoutingEvent =
+  | { type: 'failover'; from: string; to?: string; error: unknown }
+  | { type: 'circuit'; provider: string; state: CircuitState; previous: CircuitState };
+
+/**
+ * Configuration for the routing provider
+ */
+export interface RoutingProviderConfig {
+  providers: RoutedProvider[]; // In order of preference
+  rules?: RoutingRule[];  // First matching rule wins
+  failureThreshold?: number; // Consecutive retryable failures that open a provider's circuit (default: 3)
+  cooldownMs?: number;    // How long an open circuit skips the provider (default: 30000)
+  attemptTimeout?: number; // Per-provider timeout in milliseconds; a timeout fails over to the next provider
+  onEvent?: (event: RoutingEvent) => void;
+}
+
+/**
+ * Error thrown when no provider could answer a request
+ */
+export class NoProviderAvailableError extends Error {
+  constructor(message: string, public readonly errors: { provider: string; error: unknown }[] = []) {
+    super(message);
+    this.name = 'NoProviderAvailableError';
+  }
+}
+
+/**
+ * Order of cost tiers, cheapest first
+ */
+const COST_TIERS: CostTier[] = ['low', 'medium', 'high'];
+
+/**
+ * Provider that routes each request to the best available provider and fails
+ * over to the next one on rate limits, server errors and timeouts
+ *
+ * If a provider fails partway through a streamed response, the next provider
+ * starts its answer from the beginning, so stream listeners may see text twice.
+ */
+export class RoutingProvider implements LLMProviderInterface {
+  private config: RoutingProviderConfig;
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private logger: Logger;
+
+  /**
+   * Creates a new routing provider
+   *
+   * @param config - Providers, rules and failover settings
+   */
+  constructor(config: RoutingProviderConfig) {
+    if (config.providers.length === 0) {
+      throw new Error('RoutingProvider needs at least one provider');
+    }
+
+    this.config = {
+      rules: [],
+      failureThreshold: 3,
+      cooldownMs: 30000,
+      ...config
+    };
+    this.logger = new Logger('RoutingProvider');
+
+    for (const entry of this.config.providers) {
+      this.breakers.set(entry.name, this.createBreaker(entry.name));
+    }
+  }
+
+  /**
+   * Generates a response with the first suitable provider that succeeds
+   *
+   * @param options - Generation options (route hints select the providers)
+   * @returns Promise resolving to the generation result
+   */
+  async generateResponse(options: GenerateOptions): Promise<GenerateResult> {
+    const candidates = this.selectProviders(options);
+    const errors: { provider: string; error: unknown }[] = [];
+
+    for (let i = 0; i < candidates.length; i++) {
+      const entry = candidates[i];
+      const breaker = this.breakers.get(entry.name)!;
+
+      if (!breaker.canRequest()) {
+        this.logger.debug(`Skipping ${entry.name}: circuit open`, { remainingMs: breaker.getRemainingCooldown() });
+        continue;
+      }
+
+      try {
+        const result = await runWithTimeout(
+          signal => entry.provider.generateResponse({ ...options, signal }),
+          this.config.attemptTimeout,
+          options.signal,
+          `Request to ${entry.name}`
+        );
+        breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        // The caller cancelled: stop without blaming the provider
+        if (options.signal?.aborted || (isAbortError(error) && !(error as any).isTimeout)) {
+          throw error;
+        }
+
+        if (!isRetryableError(error)) {
+          // The provider answered, it just rejected this request
+          breaker.recordSuccess();
+          throw error;
+        }
+
+        breaker.recordFailure();
+        errors.push({ provider: entry.name, error });
+
+        const next = candidates.slice(i + 1).find(c => this.breakers.get(c.name)!.getState() !== 'open');
+        this.logger.warn(`Provider ${entry.name} failed${next ? `, failing over to ${next.name}` : ''}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+        this.config.onEvent?.({ type: 'failover', from: entry.name, to: next?.name, error });
+      } finally {
+        // Outcomes not recorded above (e.g. the caller cancelled) must not keep a half-open trial open
+        breaker.releaseTrial();
+      }
+    }
+
+    const message = errors.length > 0
+      ? `All providers failed: ${errors.map(e => `${e.provider} (${e.error instanceof Error ? e.error.message : String(e.error)})`).join(', ')}`
+      : `No provider available: ${candidates.length > 0 ? 'all circuits are open' : 'none matches the request'}`;
+    throw new NoProviderAvailableError(message, errors);
+  }
+
+  /**
+   * Updates the routing configuration
+   *
+   * @param config - New configuration options (rules, timeouts, callbacks)
+   */
+  updateConfig(config: Partial<RoutingProviderConfig>): void {
+    this.config = { ...this.config, ...config };
+
+    for (const entry of this.config.providers) {
+      if (!this.breakers.has(entry.name)) {
+        this.breakers.set(entry.name, this.createBreaker(entry.name));
+      }
+    }
+  }
+
+  /**
+   * Gets the circuit state of every provider
+   *
+   * @returns Circuit states keyed by provider name
+   */
+  getCircuitStates(): Record<string, CircuitState> {
+    const states: Record<string, CircuitState> = {};
+    this.breakers.forEach((breaker, name) => {
+      states[name] = breaker.getState();
+    });
+    return states;
+  }
+
+  /**
+   * Closes a provider's circuit, e.g. after fixing its configuration
+   *
+   * @param name - Name of the provider
+   */
+  resetCircuit(name: string): void {
+    this.breakers.get(name)?.reset();
+  }
+
+  /**
+   * Orders the providers that may serve a request
+   *
+   * @param options - Generation options
+   * @returns Candidate providers, most preferred first
+   */
+  private selectProviders(options: GenerateOptions): RoutedProvider[] {
+    const hints: RouteHints = options.route || {};
+    const required = this.getRequiredCapabilities(options);
+
+    let candidates = this.config.providers.filter(entry =>
+      this.supportsAll(entry, required) &&
+      (!hints.costTier || !entry.costTier || COST_TIERS.indexOf(entry.costTier) <= COST_TIERS.indexOf(hints.costTier))
+    );
+
+    const rule = this.config.rules!.find(r => this.ruleMatches(r, hints, required));
+    if (rule) {
+      const preferred = rule.providers
+        .map(name => candidates.find(c => c.name === name))
+        .filter((c): c is RoutedProvider => c !== undefined);
+      const others = rule.exclusive ? [] : candidates.filter(c => !preferred.includes(c));
+      candidates = [...preferred, ...others];
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Works out which capabilities a request needs
+   *
+   * @param options - Generation options
+   * @returns Capabilities from the route hints plus those implied by the request
+   */
+  private getRequiredCapabilities(options: GenerateOptions): string[] {
+    const required = new Set(options.route?.capabilities || []);
+    if (options.tools && options.tools.length > 0) {
+      required.add('tools');
+    }
+    if (options.messages.some(msg => hasMediaParts(msg.content))) {
+      required.add('vision');
+    }
+    if (options.responseFormat) {
+      required.add('json');
+    }
+    return Array.from(required);
+  }
+
+  /**
+   * Checks whether a provider has every required capability
+   *
+   * @param entry - The routed provider
+   * @param required - Capabilities the request needs
+   * @returns True if the provider (or its model's catalog entry) lists them all
+   */
+  private supportsAll(entry: RoutedProvider, required: string[]): boolean {
+    const modelInfo = entry.capabilities ? undefined : entry.provider.getModelInfo?.();
+    const capabilities = entry.capabilities || (modelInfo && getCapabilityNames(modelInfo));
+    return !capabilities || required.every(c => capabilities.includes(c));
+  }
+
+  /**
+   * Checks whether a rule applies to a request
+   *
+   * @param rule - The routing rule
+   * @param hints - The request's route hints
+   * @param required - Capabilities the request needs
+   * @returns True if every condition the rule sets matches
+   */
+  private ruleMatches(rule: RoutingRule, hints: RouteHints, required: string[]): boolean {
+    if (rule.taskType !== undefined) {
+      const taskTypes = Array.isArray(rule.taskType) ? rule.taskType : [rule.taskType];
+      if (!hints.taskType || !taskTypes.includes(hints.taskType)) {
+        return false;
+      }
+    }
+    if (rule.capability !== undefined && !required.includes(rule.capability)) {
+      return false;
+    }
+    if (rule.costTier !== undefined && rule.costTier !== hints.costTier) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Creates the circuit breaker for a provider
+   *
+   * @param name - Name of the provider
+   * @returns The circuit breaker
+   */
+  private createBreaker(name: string): CircuitBreaker {
+    return new CircuitBreaker({
+      failureThreshold: this.config.failureThreshold,
+      cooldownMs: this.config.cooldownMs,
+      onStateChange: (state, previous) => {
+        this.logger.info(`Circuit for ${name} is now ${state}`);
+        this.config.onEvent?.({ type: 'circuit', provider: name, state, previous });
+      }
+    });
+  }
+}
\ No newline at end of file
@@ -36,12 +36,47 @@ export interface AgentConfig {
   model?: string;
 }
 
+/**
+ * A tool call requested by the model in an assistant message
+ */
+export interface MessageToolCall {
+  id: string; // Provider-assigned call ID, echoed back in the matching tool message
+  name: string;
+  parameters: Record<string, any>;
+}
+
+/**
+ * Where the bytes of an image or document come from
+ */
+export type MediaSource =
+  | { type: 'url'; url: string }
+  | { type: 'base64'; data: string; mediaType: string }
+  | { type: 'file'; path: string; mediaType?: string }; // Read from disk when the request is sent
+
+/**
+ * One part of a multimodal message
+ */
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: MediaSource; detail?: 'auto' | 'low' | 'high' } // detail is only used by OpenAI
+  | { type: 'document'; source: MediaSource; title?: string }; // PDF or plain text
+
+/**
+ * Message content: plain text, or a list of text, image and document parts
+ */
+export type MessageContent = string | ContentPart[];
+
 /**
  * Message format for agent communication
  */
 export interface Message {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  content: MessageContent; // Only user messages may carry image and document parts
+  toolCalls?: MessageToolCall[]; // Set on assistant messages that requested tools
+  toolCallId?: string; // Set on tool messages: the ID of the call being answered
+  name?: string; // Set on tool messages: the name of the tool that produced the result
+  isError?: boolean; // Set on tool messages when the tool call failed
+  pinned?: boolean; // Pinned messages are never dropped when the context is compacted
   metadata?: Record<string, any>;
   timestamp?: number;
 }
@@ -51,6 +86,7 @@ export interface Message {
  */
 export interface Conversation {
   id: string;
+  agentName?: string; // Name of the agent that owns the conversation (set when stored)
   messages: Message[];
   metadata?: Record<string, any>;
   created: number;
@@ -63,8 +99,26 @@ export interface Conversation {
 export interface Tool {
   name: string;
   description: string;
-  execute: (params: Record<string, any>) => Promise<any>;
+  execute: (params: Record<string, any>, context?: ToolExecutionContext) => Promise<any>;
   schema: Record<string, any>; // JSON Schema for the tool parameters
+  timeout?: number; // Per-tool execution timeout in milliseconds (overrides RunOptions.toolTimeout)
+  approval?: ApprovalPolicy; // Whether calls need human sign-off before executing (default: 'never')
+}
+
+/**
+ * When a tool call needs human approval: always, never, or when the predicate
+ * returns true for the call's (validated) parameters
+ */
+export type ApprovalPolicy =
+  | 'always'
+  | 'never'
+  | ((params: Record<string, any>) => boolean | Promise<boolean>);
+
+/**
+ * Context passed to a tool when it is executed
+ */
+export interface ToolExecutionContext {
+  signal: AbortSignal; // Aborted when the run is cancelled or the tool times out
 }
 
 /**
@@ -72,13 +126,25 @@ export interface Tool {
  */
 export interface RunOptions {
   task: string;
+  attachments?: ContentPart[]; // Images and documents sent along with the task
   tools?: Tool[];
   conversation?: Conversation;
+  conversationId?: string; // Loads the conversation from the agent's ConversationStore, appends to it and saves it back
   maxTokens?: number;
   temperature?: number;
   stream?: boolean;
   onStream?: (text: string, done: boolean) => void;
   context?: Record<string, any>; // Additional context for the agent
+  maxSteps?: number; // Maximum number of model calls in the tool-calling loop (default: 10)
+  signal?: AbortSignal; // Cancels the run (and any planner, swarm or tool work it started)
+  timeout?: number; // Deadline for the whole run in milliseconds
+  toolTimeout?: number; // Default timeout for each tool execution in milliseconds
+  responseSchema?: Record<string, any>; // JSON Schema for the final answer; the validated value is returned in RunResult.data
+  maxRepairAttempts?: number; // Re-prompts when the answer fails responseSchema validation (default: 2)
+  onEvent?: (event: AgentStreamEvent) => void; // Typed progress events (also enables provider streaming)
+  usageRunId?: string; // Ledger run that model calls are charged to (set by the outermost run)
+  usageSource?: string; // Label recorded with each model call, e.g. 'feedback'
+  route?: RouteHints; // Passed to the provider on every model call (used by RoutingProvider)
 }
 
 /**
@@ -87,26 +153,87 @@ export interface RunOptions {
  * in a future version.
  */
 import { PlanningStrategy as PS } from '../planning/planner-interface';
+import { SchemaValidationError } from '../utils/schema-validator';
+import { UsageSummary } from '../usage/usage-ledger';
+import { RouteHints } from './provider-interface';
 export const PlanningStrategy = PS;
 
+/**
+ * A single tool invocation made during an agent run
+ */
+export interface ToolCallRecord {
+  id: string; // Call ID linking the request to its tool message
+  tool: string;
+  params: Record<string, any>;
+  result: any;
+  step: number; // Index of the model call (0-based) that requested this tool
+  errorKind?: ToolErrorKind; // Set when the call did not produce a successful result
+}
+
+/**
+ * Why a tool call failed
+ */
+export type ToolErrorKind =
+  | 'not_found'   // The model asked for a tool that was not provided
+  | 'validation'  // The arguments did not match the tool's schema
+  | 'execution'   // The tool threw while executing
+  | 'timeout'     // The tool exceeded its timeout
+  | 'cancelled'   // The run was cancelled while the tool was running
+  | 'rejected';   // A human denied the call (see Tool.approval)
+
 /**
  * The result of an agent execution
  */
-export interface RunResult {
+export interface RunResult<T = any> {
   response: string;
+  data?: T; // Validated answer when RunOptions.responseSchema was given
+  dataErrors?: SchemaValidationError[]; // Why the answer still failed validation after all repair attempts
   conversation: Conversation;
-  toolCalls?: {
-    tool: string;
-    params: Record<string, any>;
-    result: any;
-  }[];
+  toolCalls?: ToolCallRecord[];
   tokens?: {
     input: number;
     output: number;
     total: number;
   };
+  usage?: UsageSummary; // Usage recorded by the agent's UsageLedger for this run (top-level runs only)
+  cancelled?: boolean; // True if the run was cancelled or timed out; the result is partial
+  cancelReason?: string;
 }
 
+/**
+ * Typed event emitted during a run, as yielded by agent.stream() and swarm.stream()
+ */
+export type AgentStreamEvent =
+  | { type: 'text_delta'; agent: string; step: number; text: string }
+  | { type: 'tool_call_start'; agent: string; step: number; callId: string; tool: string }
+  | { type: 'tool_call_delta'; agent: string; step: number; callId: string; argsDelta: string }
+  | {
+      type: 'tool_result';
+      agent: string;
+      step: number;
+      callId: string;
+      tool: string;
+      params: Record<string, any>;
+      result: any;
+      errorKind?: ToolErrorKind;
+    }
+  | {
+      type: 'plan_created';
+      planId: string;
+      tasks: { id: string; description: string; dependencies: string[] }[];
+    }
+  | {
+      type: 'task_status';
+      planId: string;
+      taskId: string;
+      description: string;
+      status: 'pending' | 'in_progress' | 'completed' | 'failed';
+      agentId?: string; // Set for swarm tasks
+      result?: string;
+      error?: string;
+    }
+  | { type: 'final_result'; result: RunResult };
+
 /**
  * Events that agents can emit
  */
@@ -117,4 +244,8 @@ export enum AgentEvent {
   ERROR = 'error',
   PLAN_CREATED = 'plan_created',
   TASK_COMPLETE = 'task_complete',
+  CANCELLED = 'cancelled',
+  CONTEXT_COMPACTED = 'context_compacted',
+  APPROVAL_REQUESTED = 'approval_requested',
+  APPROVAL_DECIDED = 'approval_decided',
 }
\ No newline at end of file
@@ -4,9 +4,24 @@
 // Core components
 export { Agent } from './core/agent';
 export { AgentSwarm } from './core/agent-swarm';
+export {
+  AgentMiddleware,
+  MiddlewarePipeline,
+  HookContext,
+  ModelCallContext,
+  ModelResultContext,
+  ToolCallContext,
+  ToolResultContext,
+  ErrorContext
+} from './core/middleware';
 export { 
   AgentRole, 
-  AgentEvent 
+  AgentEvent,
+  AgentStreamEvent,
+  ApprovalPolicy,
+  ContentPart,
+  MediaSource,
+  MessageContent
 } from './core/types';
 
 // Enhanced Agent Swarm System
@@ -24,17 +39,152 @@ export {
   ProviderType,
   LLMProviderInterface,
   GenerateOptions,
-  GenerateResult
+  GenerateResult,
+  ProviderStreamEvent,
+  RouteHints,
+  CostTier,
+  BatchRequest,
+  BatchItemResult,
+  RemoteBatchStatus
 } from './core/provider-interface';
 export { AnthropicProvider } from './core/llm-provider';
 export { OpenAIProvider } from './core/openai-provider';
-export { ProviderFactory } from './core/provider-factory';
+export {
+  OpenAICompatibleProvider,
+  OpenAICompatibleProviderConfig,
+  ModelCapabilities,
+  LOCAL_SERVER_URLS
+} from './core/openai-compatible-provider';
+export {
+  GrokProvider,
+  GrokProviderConfig,
+  GrokChatClient,
+  GrokChatMessage,
+  GrokChatResult,
+  GrokRateLimitError
+} from './core/grok-provider';
+export { ProviderFactory, ProviderConfig, CustomProviderConfig } from './core/provider-factory';
+export { ProviderRegistry, ProviderDefinition } from './core/provider-registry';
+export { ModelCatalog, ModelInfo, DEFAULT_MODEL_CATALOG } from './core/model-catalog';
+export {
+  RoutingProvider,
+  RoutingProviderConfig,
+  RoutedProvider,
+  RoutingRule,
+  RoutingEvent,
+  NoProviderAvailableError
+} from './core/routing-provider';
+
+// Offline testing
+export {
+  ReplayProvider,
+  ReplayProviderConfig,
+  ReplayMode,
+  ReplayMissError,
+  Cassette,
+  CassetteInteraction
+} from './core/replay-provider';
+export { MockProvider, MockProviderConfig, MockResponse, MockResponseSpec } from './core/mock-provider';
+
+// Response caching
+export {
+  CachingProvider,
+  CachingProviderConfig,
+  ResponseCacheEntry,
+  ResponseCacheStats
+} from './core/caching-provider';
+
+// Batch generation
+export {
+  BatchRunner,
+  BatchRunnerConfig,
+  BatchHandle,
+  BatchMode,
+  BatchStatus,
+  BatchProgress,
+  ResumeBatchOptions
+} from './core/batch-runner';
+
+// Context window management
+export {
+  ContextManager,
+  ContextManagerConfig,
+  CompactionReport,
+  ContextFitResult,
+  MODEL_CONTEXT_LIMITS,
+  getModelContextLimit,
+  estimateTokens
+} from './core/context-manager';
+
+// Conversation persistence
+export {
+  ConversationStore,
+  ConversationListOptions,
+  ConversationSummary
+} from './conversation/conversation-store';
+export { InMemoryConversationStore } from './conversation/in-memory-store';
+export { JsonFileConversationStore, JsonFileConversationStoreConfig } from './conversation/json-file-store';
+export { SqliteConversationStore, SqliteConversationStoreConfig } from './conversation/sqlite-store';
+
+// Tool approval
+export {
+  ApprovalRequest,
+  ApprovalDecision,
+  ApprovalHandler,
+  ApprovalRecord,
+  ApprovalStore
+} from './approval/approval-interface';
+export { InMemoryApprovalStore } from './approval/in-memory-approval-store';
+export { JsonFileApprovalStore, JsonFileApprovalStoreConfig } from './approval/json-file-approval-store';
+export { StoreApprovalHandler, StoreApprovalHandlerConfig } from './approval/store-approval-handler';
+
+// Usage and cost tracking
+export {
+  UsageLedger,
+  UsageLedgerConfig,
+  UsageBudgets,
+  UsageLimit,
+  UsageRecord,
+  UsageSummary,
+  UsageTotals,
+  ModelPricing,
+  BudgetExceededError,
+  BudgetExceededEvent,
+  DEFAULT_MODEL_PRICING
+} from './usage/usage-ledger';
 
 // Memory
 export { MemoryInterface, MemoryEntry } from './memory/memory-interface';
 export { InMemoryMemory } from './memory/in-memory';
 export { PersistentMemory } from './memory/persistent-memory';
-export { VectorMemory } from './memory/vector-memory';
+export {
+  VectorMemory,
+  VectorMemoryConfig,
+  VectorDBService,
+  InMemoryVectorDBService
+} from './memory/vector-memory';
+export { SqliteMemory, SqliteMemoryConfig, SqliteMemoryFilter } from './memory/sqlite-memory';
+export {
+  AgentMemory,
+  MemoryTier,
+  RecalledMemory,
+  MemoryRecord,
+  RecallOptions,
+  BasicMemoryAdapter,
+  EnhancedMemoryAdapter,
+  toAgentMemory
+} from './memory/agent-memory';
+export {
+  MemoryContextPolicy,
+  MemoryWritePolicy,
+  MemoryPolicies,
+  MemoryInteraction,
+  DefaultContextPolicy,
+  DefaultContextPolicyConfig,
+  DefaultWritePolicy,
+  DefaultWritePolicyConfig,
+  formatMemories
+} from './memory/memory-policies';
 
 // Enhanced memory system
 export { 
@@ -43,11 +193,36 @@ export {
   ShortTermMemory,
   LongTermMemory,
   AgentNote,
-  MemoryRetrievalResult
+  MemoryRetrievalResult,
+  EnhancedRetrievalConfig
 } from './memory/enhanced-memory-interface';
 export { EnhancedMemory } from './memory/enhanced-memory';
-export { EmbeddingService, EmbeddingServiceConfig } from './memory/embedding-service';
+export { SqliteEnhancedMemory, SqliteEnhancedMemoryConfig } from './memory/sqlite-enhanced-memory';
+export {
+  MemoryConsolidator,
+  MemoryConsolidatorConfig,
+  ConsolidationWeights,
+  ConsolidationReport
+} from './memory/memory-consolidator';
+export { EmbeddingService, EmbeddingServiceConfig, EmbeddingProvider } from './memory/embedding-service';
+export { LocalEmbeddingService, LocalEmbeddingServiceConfig } from './memory/local-embedding-service';
 export { PineconeStore, VectorStore } from './memory/pinecone-store';
+export {
+  HybridRetriever,
+  HybridRetrieverConfig,
+  HybridRetrievalOptions,
+  RetrievalDocument,
+  RetrievalResult,
+  BM25Index,
+  BM25IndexConfig,
+  MetadataFilter,
+  Reranker,
+  LLMReranker,
+  LLMRerankerConfig,
+  CrossEncoderReranker,
+  CrossEncoderRerankerConfig,
+  matchesFilter
+} from './memory/hybrid-retriever';
 
 // Planning
 export { 
@@ -86,6 +261,18 @@ export { ConfigManager } from './config/config-manager';
 
 // Utils
 export { Logger, LogLevel } from './utils/logger';
+export { AbortError } from './utils/abort-utils';
+export { getTextContent } from './utils/message-content';
+export { CircuitBreaker, CircuitBreakerConfig, CircuitState } from './utils/circuit-breaker';
+export { isRetryableError, getErrorStatus, getRetryAfterMs } from './utils/provider-errors';
+export {
+  RateLimiter,
+  RateLimiterEvent,
+  RateLimiterStats,
+  RateLimits,
+  ScheduleOptions,
+  getSharedRateLimiter
+} from './utils/rate-limiter';
 
 /**
  * Simple example usage of the framework
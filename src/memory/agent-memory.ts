@@ -0,0 +1,262 @@
+/**
+ * The memory contract agents use, with adapters for both memory interfaces
+ *
+ * MemoryInterface (InMemoryMemory, PersistentMemory, VectorMemory,
+ * SqliteMemory) keeps one flat list of interactions, while
+ * EnhancedMemoryInterface (EnhancedMemory, SqliteEnhancedMemory) has
+ * short-term, long-term and note tiers. AgentMemory covers both so agents
+ * and memory policies don't need to know which kind they were given.
+ */
+
+import { MemoryInterface, MemoryEntry } from './memory-interface';
+import { EnhancedMemoryInterface } from './enhanced-memory-interface';
+
+/**
+ * Where a memory lives
+ */
+export type MemoryTier = 'short-term' | 'long-term' | 'notes';
+
+/**
+ * A memory returned by recall
+ */
+export interface RecalledMemory {
+  tier: MemoryTier;
+  text: string;           // The memory as plain text
+  id?: string;
+  input?: string;         // Set for interaction memories
+  output?: string;
+  title?: string;         // Set for notes
+  score?: number;         // Relevance reported by the memory; scales differ between tiers
+  importance?: number;
+  timestamp?: number;
+}
+
+/**
+ * A memory to write
+ */
+export interface MemoryRecord {
+  input: string;          // For notes: the title
+  output: string;         // For notes: the content
+  importance?: number;    // 0-1 scale
+  tags?: string[];        // Note tags (stored as metadata.tags in other tiers)
+  metadata?: MemoryEntry['metadata'];
+  timestamp: number;
+}
+
+/**
+ * Options for recall
+ */
+export interface RecallOptions {
+  limit?: number;         // Maximum memories per tier (default: the memory's own defaults)
+  tiers?: MemoryTier[];   // Tiers to search (default: all)
+}
+
+/**
+ * Memory contract used by agents
+ */
+export interface AgentMemory {
+  readonly tiers: MemoryTier[]; // Tiers this memory has, preferred write tier first
+
+  /**
+   * Finds memories relevant to a query
+   *
+   * @param query - The query to find relevant memories for
+   * @param options - Optional limit and tiers
+   * @returns Promise resolving to the memories, grouped by tier
+   */
+  recall(query: string, options?: RecallOptions): Promise<RecalledMemory[]>;
+
+  /**
+   * Writes a memory
+   *
+   * @param record - The memory to write
+   * @param tier - Tier to write to (default: the first of tiers; unsupported tiers fall back to it)
+   * @returns Promise resolving when the memory is written
+   */
+  remember(record: MemoryRecord, tier?: MemoryTier): Promise<void>;
+}
+
+/**
+ * Adapts a flat MemoryInterface
+ *
+ * All tiers map to the one list of memories; notes are stored with the title
+ * as input and category 'note'.
+ */
+export class BasicMemoryAdapter implements AgentMemory {
+  readonly tiers: MemoryTier[] = ['long-term'];
+
+  /**
+   * Creates a new adapter
+   *
+   * @param memory - The memory to adapt
+   */
+  constructor(readonly memory: MemoryInterface) {}
+
+  /**
+   * Finds memories relevant to a query
+   *
+   * @param query - The query to find relevant memories for
+   * @param options - Optional limit and tiers
+   * @returns Promise resolving to the memories, grouped by tier
+   */
+  async recall(query: string, options: RecallOptions = {}): Promise<RecalledMemory[]> {
+    if (options.tiers && !options.tiers.includes('long-term')) {
+      return [];
+    }
+
+    const memories = await this.memory.retrieve(query, options.limit);
+    return memories.map(text => ({ tier: 'long-term', text }));
+  }
+
+  /**
+   * Writes a memory
+   *
+   * @param record - The memory to write
+   * @param tier - Tier to write to (only 'notes' changes how it is stored)
+   * @returns Promise resolving when the memory is written
+   */
+  async remember(record: MemoryRecord, tier?: MemoryTier): Promise<void> {
+    const metadata = {
+      ...record.metadata,
+      ...(record.tags ? { tags: record.tags } : {}),
+      ...(tier === 'notes' ? { category: 'note' } : {})
+    };
+
+    await this.memory.store({
+      input: record.input,
+      output: record.output,
+      importance: record.importance,
+      ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+      timestamp: record.timestamp
+    });
+  }
+}
+
+/**
+ * Adapts an EnhancedMemoryInterface, mapping tiers one to one
+ */
+export class EnhancedMemoryAdapter implements AgentMemory {
+  readonly tiers: MemoryTier[] = ['short-term', 'long-term', 'notes'];
+
+  /**
+   * Creates a new adapter
+   *
+   * @param memory - The memory to adapt
+   */
+  constructor(readonly memory: EnhancedMemoryInterface) {}
+
+  /**
+   * Finds memories relevant to a query
+   *
+   * @param query - The query to find relevant memories for
+   * @param options - Optional limit and tiers
+   * @returns Promise resolving to the memories, grouped by tier
+   */
+  async recall(query: string, options: RecallOptions = {}): Promise<RecalledMemory[]> {
+    const tiers = options.tiers || this.tiers;
+    const limitFor = (tier: MemoryTier) => tiers.includes(tier) ? options.limit : 0;
+    const limits = {
+      shortTermLimit: limitFor('short-term'),
+      longTermLimit: limitFor('long-term'),
+      notesLimit: limitFor('notes')
+    };
+
+    // Leave unset limits to the memory's defaults
+    const result = await this.memory.retrieve(query, Object.fromEntries(
+      Object.entries(limits).filter(([, limit]) => limit !== undefined)
+    ));
+    const scores = result.relevanceScores || {};
+    const scoreOf = (id?: string) => id !== undefined ? scores[id] : undefined;
+
+    const recalled: RecalledMemory[] = [];
+    const interactions: Array<[MemoryTier, MemoryEntry[]]> = [
+      ['short-term', result.shortTerm],
+      ['long-term', result.longTerm]
+    ];
+    for (const [tier, memories] of interactions) {
+      if (!tiers.includes(tier)) {
+        continue;
+      }
+      recalled.push(...memories.map(memory => ({
+        tier,
+        text: `${memory.input}\n${memory.output}`,
+        id: memory.id,
+        input: memory.input,
+        output: memory.output,
+        score: scoreOf(memory.id),
+        importance: memory.importance,
+        timestamp: memory.timestamp
+      })));
+    }
+
+    if (tiers.includes('notes')) {
+      recalled.push(...result.notes.map(note => ({
+        tier: 'notes' as const,
+        text: note.content,
+        id: note.id,
+        title: note.title,
+        score: scoreOf(note.id),
+        importance: note.importance,
+        timestamp: note.updated
+      })));
+    }
+
+    return recalled;
+  }
+
+  /**
+   * Writes a memory
+   *
+   * @param record - The memory to write
+   * @param tier - Tier to write to (default: 'short-term')
+   * @returns Promise resolving when the memory is written
+   */
+  async remember(record: MemoryRecord, tier: MemoryTier = 'short-term'): Promise<void> {
+    if (tier === 'notes') {
+      await this.memory.saveNote({
+        title: record.input,
+        content: record.output,
+        tags: record.tags || [],
+        importance: record.importance ?? 0.5
+      });
+      return;
+    }
+
+    const entry = {
+      input: record.input,
+      output: record.output,
+      importance: record.importance,
+      metadata: record.tags ? { ...record.metadata, tags: record.tags } : record.metadata,
+      timestamp: record.timestamp
+    };
+    if (tier === 'long-term') {
+      await this.memory.storeLongTerm(entry);
+    } else {
+      await this.memory.storeShortTerm(entry);
+    }
+  }
+}
+
+/**
+ * Wraps any supported memory in the AgentMemory contract
+ *
+ * @param memory - A MemoryInterface, EnhancedMemoryInterface or AgentMemory
+ * @returns The memory as AgentMemory (AgentMemory instances are returned as is)
+ */
+export function toAgentMemory(memory: MemoryInterface | EnhancedMemoryInterface | AgentMemory): AgentMemory {
+  if (isAgentMemory(memory)) {
+    return memory;
+  }
+  // Both memory interfaces have retrieve, so tell them apart by their write methods
+  if ('storeShortTerm' in memory) {
+    return new EnhancedMemoryAdapter(memory);
+  }
+  return new BasicMemoryAdapter(memory);
+}
+
+/**
+ * Checks whether a memory already implements AgentMemory
+ */
+function isAgentMemory(memory: object): memory is AgentMemory {
+  return 'recall' in memory && 'remember' in memory;
+}
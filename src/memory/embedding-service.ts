@@ -31,6 +31,27 @@ export interface EmbeddingServiceConfig {
   chunkOverlap?: number;       // Overlap between chunks (default: 200)
 }
 
+/**
+ * Anything that turns text into embedding vectors
+ */
+export interface EmbeddingProvider {
+  /**
+   * Generates an embedding for a single text
+   * 
+   * @param text - The text to embed
+   * @returns Promise resolving to the embedding vector
+   */
+  embedText(text: string): Promise<number[]>;
+  
+  /**
+   * Generates embeddings for multiple texts (optional)
+   * 
+   * @param texts - Array of texts to embed
+   * @returns Promise resolving to an array of embedding vectors
+   */
+  embedBatch?(texts: string[]): Promise<number[][]>;
+}
+
 // Type for cache entries
 interface CacheEntry {
   text: string;
@@ -43,7 +64,7 @@ interface CacheEntry {
  * Enhanced service that generates embeddings from text using OpenAI's API
  * with caching, batching, and retry logic
  */
-export class EmbeddingService {
+export class EmbeddingService implements EmbeddingProvider {
   private openai: OpenAI;
   private config: EmbeddingServiceConfig;
   private logger: Logger;
@@ -436,23 +457,31 @@ export class EmbeddingService {
       throw new Error('Vectors must have the same dimension');
     }
     
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
-    
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
-    
-    const denominator = Math.sqrt(normA) * Math.sqrt(normB);
-    
-    if (denominator === 0) {
-      return 0;
-    }
-    
-    // Return similarity score (0-1)
-    return dotProduct / denominator;
+    return cosineSimilarity(a, b);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Cosine similarity of two vectors
+ *
+ * @param a - First vector
+ * @param b - Second vector
+ * @returns The similarity, or 0 if the dimensions differ or a vector is all zeros
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+  return denominator === 0 ? 0 : dotProduct / denominator;
+}
@@ -4,6 +4,7 @@
  */
 
 import { MemoryEntry } from './memory-interface';
+import { HybridRetrieverConfig, MetadataFilter, Reranker } from './hybrid-retriever';
 
 /**
  * Represents a note that the agent can create and reference
@@ -24,6 +25,8 @@ export interface AgentNote {
  */
 export interface ShortTermMemory extends MemoryEntry {
   expiresAt: number; // Timestamp when this memory should expire
+  lastAccessed?: number; // Last time this memory was retrieved
+  accessCount?: number; // How many times this memory has been retrieved
 }
 
 /**
@@ -60,6 +63,19 @@ export interface EnhancedMemoryConfig {
   
   // Notes settings
   notesCapacity?: number; // Maximum number of notes to keep
+  
+  // Retrieval settings
+  retrieval?: EnhancedRetrievalConfig; // How each tier is ranked (default: hybrid BM25 + vector for all tiers)
+}
+
+/**
+ * Retrieval settings of the enhanced memory system, per tier
+ */
+export interface EnhancedRetrievalConfig {
+  shortTerm?: HybridRetrieverConfig; // Default: input weighted over output, scores halve every 12 hours
+  longTerm?: HybridRetrieverConfig;  // Default: weighted by importance
+  notes?: HybridRetrieverConfig;     // Default: title weighted over content, weighted by importance
+  reranker?: Reranker; // Reranks every tier unless the tier sets its own
 }
 
 /**
@@ -120,6 +136,7 @@ export interface EnhancedMemoryInterface {
     notesLimit?: number;
     minRelevance?: number;
     includeAll?: boolean;
+    filter?: MetadataFilter; // Only memories whose metadata (notes: tags) match are returned
   }): Promise<MemoryRetrievalResult>;
   
   /**
@@ -145,6 +162,21 @@ export interface EnhancedMemoryInterface {
    */
   getNotesByTag(tag: string): Promise<AgentNote[]>;
   
+  /**
+   * Gets all short-term memories that have not expired
+   * 
+   * @returns Promise resolving to the short-term memories, oldest first
+   */
+  getShortTermMemories(): Promise<ShortTermMemory[]>;
+  
+  /**
+   * Deletes short-term memories
+   * 
+   * @param ids - IDs of the short-term memories to delete
+   * @returns Promise resolving to the number of memories deleted
+   */
+  deleteShortTerm(ids: string[]): Promise<number>;
+  
   /**
    * Transfers short-term memories to long-term
    * (Usually called when memory meets certain criteria)
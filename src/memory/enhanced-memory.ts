@@ -14,6 +14,7 @@ import {
   MemoryRetrievalResult
 } from './enhanced-memory-interface';
 import { EmbeddingService } from './embedding-service';
+import { HybridRetriever, MetadataFilter, RetrievalDocument } from './hybrid-retriever';
 import { VectorStore } from './pinecone-store';
 import fs from 'fs';
 import path from 'path';
@@ -36,6 +37,10 @@ export class EnhancedMemory implements EnhancedMemoryInterface {
   // In-memory storage for notes
   private notes: Map<string, AgentNote> = new Map();
   
+  // Ranking for each tier, and embeddings of short-term memories and notes by ID
+  private retrievers: Record<'shortTerm' | 'longTerm' | 'notes', HybridRetriever>;
+  private embeddings: Map<string, number[]> = new Map();
+  
   // Local file paths for persistence
   private shortTermPath: string;
   private notesPath: string;
@@ -62,6 +67,7 @@ export class EnhancedMemory implements EnhancedMemoryInterface {
       vectorStoreName: 'pinecone',
       vectorStoreConfig: {},
       notesCapacity: 1000,
+      retrieval: {},
       ...config
     } as Required<EnhancedMemoryConfig>;
     
@@ -74,6 +80,28 @@ export class EnhancedMemory implements EnhancedMemoryInterface {
       dimensions: this.config.embeddingDimension
     });
     
+    // Set up hybrid retrieval for each tier
+    const { reranker, ...tiers } = this.config.retrieval;
+    this.retrievers = {
+      shortTerm: new HybridRetriever({
+        fieldWeights: { input: 1, output: 0.5 },
+        decayHalfLife: 12 * 60 * 60 * 1000, // 12 hours
+        reranker,
+        ...tiers.shortTerm
+      }),
+      longTerm: new HybridRetriever({
+        importanceWeight: 0.5,
+        reranker,
+        ...tiers.longTerm
+      }),
+      notes: new HybridRetriever({
+        fieldWeights: { title: 2, content: 1, tags: 1 },
+        importanceWeight: 1,
+        reranker,
+        ...tiers.notes
+      })
+    };
+    
     // Set up file paths for persistence
     const dataDir = process.env.MEMORY_STORAGE_PATH || './data/memory';
     const agentDir = path.join(dataDir, this.config.userId, this.config.namespace || 'default');
@@ -252,6 +280,7 @@ export class EnhancedMemory implements EnhancedMemoryInterface {
     notesLimit?: number;
     minRelevance?: number;
     includeAll?: boolean;
+    filter?: MetadataFilter;
   }): Promise<MemoryRetrievalResult> {
     await this.ensureInitialized();
     
@@ -278,27 +307,40 @@ export class EnhancedMemory implements EnhancedMemoryInterface {
       relevanceScores: scores
     };
     
-    // Retrieve short-term memories (simple keyword matching)
-    const shortTermResults = this.retrieveShortTerm(query, opts.shortTermLimit);
+    // Retrieve short-term memories (hybrid search over the in-memory store)
+    const shortTermResults = await this.retrieveShortTerm(query, queryEmbedding, opts.shortTermLimit, opts.filter);
     result.shortTerm = shortTermResults.memories;
     
     // Update relevance scores
     Object.assign(scores, shortTermResults.scores);
     
-    // Retrieve long-term memories (vector search)
-    const longTermResults = await this.retrieveLongTerm(queryEmbedding, opts.longTermLimit, opts.minRelevance);
+    // Retrieve long-term memories (vector search fused with keyword search over known memories)
+    const longTermResults = await this.retrieveLongTerm(
+      query,
+      queryEmbedding,
+      opts.longTermLimit,
+      opts.minRelevance,
+      opts.filter
+    );
     result.longTerm = longTermResults.memories;
     
     // Update relevance scores
     Object.assign(scores, longTermResults.scores);
     
-    // Retrieve notes (vector search for content + keyword matching for tags)
-    const noteResults = await this.retrieveNotes(query, queryEmbedding, opts.notesLimit);
+    // Retrieve notes (hybrid search over title, content and tags)
+    const noteResults = await this.retrieveNotes(query, queryEmbedding, opts.notesLimit, opts.filter);
     result.notes = noteResults.notes;
     
     // Update relevance scores
     Object.assign(scores, noteResults.scores);
     
+    // Drop embeddings of memories and notes that are gone
+    for (const id of Array.from(this.embeddings.keys())) {
+      if (!this.shortTermMemories.has(id) && !this.notes.has(id)) {
+        this.embeddings.delete(id);
+      }
+    }
+    
     this.logger.debug('Retrieved memories', { 
       shortTermCount: result.shortTerm.length,
       longTermCount: result.longTerm.length,
@@ -344,6 +386,39 @@ export class EnhancedMemory implements EnhancedMemoryInterface {
       .filter(note => note.tags.some(t => t.toLowerCase() === normalizedTag));
   }
   
+  /**
+   * Gets all short-term memories that have not expired
+   * 
+   * @returns Promise resolving to the short-term memories, oldest first
+   */
+  async getShortTermMemories(): Promise<ShortTermMemory[]> {
+    await this.ensureInitialized();
+    this.cleanupExpiredMemories();
+    
+    return Array.from(this.shortTermMemories.values())
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+  
+  /**
+   * Deletes short-term memories
+   * 
+   * @param ids - IDs of the short-term memories to delete
+   * @returns Promise resolving to the number of memories deleted
+   */
+  async deleteShortTerm(ids: string[]): Promise<number> {
+    await this.ensureInitialized();
+    
+    const deleted = ids.filter(id => this.shortTermMemories.delete(id)).length;
+    
+    // Persist to disk if enabled
+    if (deleted > 0 && process.env.ENABLE_MEMORY_PERSISTENCE === 'true') {
+      this.saveToDisk();
+    }
+    
+    this.logger.debug('Deleted short-term memories', { requested: ids.length, deleted });
+    return deleted;
+  }
+  
   /**
    * Transfers short-term memories to long-term
    * 
@@ -453,81 +528,73 @@ export class EnhancedMemory implements EnhancedMemoryInterface {
   }
   
   /**
-   * Retrieves short-term memories based on keyword matching
-   * 
+   * Retrieves short-term memories with hybrid keyword and vector search
+   *
    * @param query - The query to match against
+   * @param queryEmbedding - Embedding of the query
    * @param limit - Maximum number of memories to retrieve
+   * @param filter - Optional metadata filter
    * @returns Short-term memories and their relevance scores
    */
-  private retrieveShortTerm(query: string, limit: number): {
+  private async retrieveShortTerm(
+    query: string,
+    queryEmbedding: number[],
+    limit: number,
+    filter?: MetadataFilter
+  ): Promise<{
     memories: ShortTermMemory[];
     scores: Record<string, number>;
-  } {
-    // Split query into keywords
-    const keywords = query.toLowerCase().split(/\s+/);
-    const scores: Record<string, number> = {};
+  }> {
+    this.cleanupExpiredMemories();
     
-    // Score each memory
-    const scoredMemories = Array.from(this.shortTermMemories.values()).map(memory => {
-      const inputText = memory.input.toLowerCase();
-      const outputText = memory.output.toLowerCase();
-      
-      // Count keyword occurrences
-      let score = 0;
-      for (const keyword of keywords) {
-        // Skip very short keywords
-        if (keyword.length < 3) continue;
-        
-        // Escape special regex characters to avoid errors
-        const escapedKeyword = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        
-        // Check for matches in input and output
-        const inputMatches = (inputText.match(new RegExp(escapedKeyword, 'g')) || []).length;
-        const outputMatches = (outputText.match(new RegExp(escapedKeyword, 'g')) || []).length;
-        
-        score += inputMatches * 1.0 + outputMatches * 0.5;
-      }
-      
-      // Apply recency boost (fresher memories score higher)
-      const ageInHours = (Date.now() - memory.timestamp) / (1000 * 60 * 60);
-      const recencyBoost = Math.max(0, 1 - (ageInHours / 24)); // Full boost if < 1hr, linear decay to 24hr
-      
-      // Final score is keyword matches + recency boost
-      const finalScore = score > 0 ? score + recencyBoost : recencyBoost * 0.1;
-      
-      // Store the score
-      if (memory.id) {
-        scores[memory.id] = finalScore;
-      }
-      
-      return { memory, score: finalScore };
-    });
+    const memories = Array.from(this.shortTermMemories.values());
+    const embeddings = await this.embedDocuments(
+      memories.map(memory => ({ id: memory.id!, text: `${memory.input}\n${memory.output}` }))
+    );
     
-    // Sort by score and take top results
-    const topMemories = scoredMemories
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit)
-      .map(item => {
-        // Update access stats
-        const memory = item.memory;
-        return memory;
-      });
+    const documents: RetrievalDocument[] = memories.map(memory => ({
+      id: memory.id!,
+      fields: { input: memory.input, output: memory.output },
+      embedding: embeddings.get(memory.id!),
+      timestamp: memory.timestamp,
+      importance: memory.importance,
+      metadata: memory.metadata
+    }));
+    const results = await this.retrievers.shortTerm.retrieve(query, documents, { limit, queryEmbedding, filter });
+    
+    // Collect the top memories and update their access stats
+    const now = Date.now();
+    const scores: Record<string, number> = {};
+    const topMemories = results.map(result => {
+      const memory = this.shortTermMemories.get(result.id)!;
+      memory.lastAccessed = now;
+      memory.accessCount = (memory.accessCount || 0) + 1;
+      scores[result.id] = result.score;
+      return memory;
+    });
     
     return { memories: topMemories, scores };
   }
   
   /**
-   * Retrieves long-term memories using vector search
-   * 
+   * Retrieves long-term memories with hybrid keyword and vector search
+   *
+   * The vector store is searched by embedding; keyword search covers the
+   * memories this instance has stored or retrieved before.
+   *
+   * @param query - The query to match against
    * @param queryEmbedding - Embedding of the query
    * @param limit - Maximum number of memories to retrieve
-   * @param minRelevance - Minimum relevance score (0-1)
+   * @param minRelevance - Minimum vector similarity (0-1) for memories not matched by keywords
+   * @param filter - Optional metadata filter
    * @returns Long-term memories and their relevance scores
    */
   private async retrieveLongTerm(
+    query: string,
     queryEmbedding: number[],
     limit: number,
-    minRelevance: number
+    minRelevance: number,
+    filter?: MetadataFilter
   ): Promise<{
     memories: LongTermMemory[];
     scores: Record<string, number>;
@@ -537,140 +604,131 @@ export class EnhancedMemory implements EnhancedMemoryInterface {
     const longTermNamespace = `${namespace}_long_term`;
     const searchResults = await this.vectorStore.searchVectors(
       queryEmbedding,
-      limit * 2, // Get more than we need to apply the minimum relevance filter
+      limit * 2, // Get more than we need so filters and fusion have candidates to choose from
       longTermNamespace
     );
     
-    // Filter by minimum relevance and take top results
-    const filteredResults = searchResults
-      .filter(result => result.score >= minRelevance)
-      .slice(0, limit);
+    // Combine search results with known memories
+    const candidates = new Map<string, { memory: LongTermMemory; similarity?: number }>();
+    for (const memory of this.longTermCache.values()) {
+      if (memory.id) {
+        candidates.set(memory.id, { memory });
+      }
+    }
+    for (const result of searchResults) {
+      const memory = result.data as LongTermMemory;
+      if (memory.id) {
+        candidates.set(memory.id, { memory: { ...candidates.get(memory.id)?.memory, ...memory }, similarity: result.score });
+      }
+    }
+    
+    const documents: RetrievalDocument[] = Array.from(candidates.values()).map(({ memory, similarity }) => ({
+      id: memory.id!,
+      fields: { input: memory.input, output: memory.output },
+      embedding: memory.embedding,
+      similarity,
+      timestamp: memory.timestamp,
+      importance: memory.importance,
+      metadata: memory.metadata
+    }));
+    const results = await this.retrievers.longTerm.retrieve(query, documents, {
+      limit,
+      queryEmbedding,
+      minSimilarity: minRelevance,
+      filter
+    });
     
     // Extract memories and scores
     const memories: LongTermMemory[] = [];
     const scores: Record<string, number> = {};
     
-    for (const result of filteredResults) {
-      const memory = result.data as LongTermMemory;
+    for (const result of results) {
+      const memory = candidates.get(result.id)!.memory;
       
       // Update access stats
       memory.lastAccessed = Date.now();
       memory.accessCount = (memory.accessCount || 0) + 1;
       
       // Add to cache
-      if (memory.id) {
-        this.longTermCache.set(memory.id, memory);
-      }
+      this.longTermCache.set(result.id, memory);
       
       // Add to results
       memories.push(memory);
-      if (memory.id) {
-        scores[memory.id] = result.score;
-      }
+      scores[result.id] = result.score;
     }
     
     return { memories, scores };
   }
   
   /**
-   * Retrieves notes relevant to a query
-   * 
-   * @param query - Text query for keyword matching
-   * @param queryEmbedding - Embedding for semantic matching
+   * Retrieves notes with hybrid keyword and vector search
+   *
+   * @param query - The query to match against
+   * @param queryEmbedding - Embedding of the query
    * @param limit - Maximum number of notes to retrieve
+   * @param filter - Optional filter, matched against { tags }
    * @returns Notes and their relevance scores
    */
   private async retrieveNotes(
     query: string,
     queryEmbedding: number[],
-    limit: number
+    limit: number,
+    filter?: MetadataFilter
   ): Promise<{
     notes: AgentNote[];
     scores: Record<string, number>;
   }> {
-    const scores: Record<string, number> = {};
-    const keywords = query.toLowerCase().split(/\s+/);
-    
-    // If no notes, return empty result
-    if (this.notes.size === 0) {
-      return { notes: [], scores: {} };
-    }
-    
-    // Score all notes
-    const scoredNotes = await Promise.all(
-      Array.from(this.notes.values()).map(async note => {
-        let score = 0;
-        
-        // 1. Score by keywords in title and content
-        const titleMatches = this.countKeywordMatches(note.title, keywords);
-        const contentMatches = this.countKeywordMatches(note.content, keywords);
-        score += titleMatches * 2.0 + contentMatches * 0.5;
-        
-        // 2. Score by tags
-        for (const tag of note.tags) {
-          if (keywords.some(kw => tag.toLowerCase().includes(kw))) {
-            score += 1.0;
-          }
-        }
-        
-        // 3. Score by importance
-        score *= (1.0 + note.importance);
-        
-        // 4. Use embedding similarity if score is low
-        if (score < 1.0) {
-          // Generate embedding for note content (if not already cached)
-          const noteEmbedding = await this.embeddingService.embedText(note.title + "\n" + note.content);
-          
-          // Calculate similarity
-          const similarity = this.embeddingService.calculateSimilarity(queryEmbedding, noteEmbedding);
-          score += similarity * 2.0;
-        }
-        
-        // Store the score
-        if (note.id) {
-          scores[note.id] = score;
-        }
-        
-        return { note, score };
-      })
+    const notes = Array.from(this.notes.values());
+    const embeddings = await this.embedDocuments(
+      notes.map(note => ({ id: note.id, text: `${note.title}\n${note.content}` }))
     );
     
-    // Sort by score and take top results
-    const topNotes = scoredNotes
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit)
-      .map(item => item.note);
+    const documents: RetrievalDocument[] = notes.map(note => ({
+      id: note.id,
+      fields: { title: note.title, content: note.content, tags: note.tags.join(' ') },
+      embedding: embeddings.get(note.id),
+      timestamp: note.updated,
+      importance: note.importance,
+      metadata: { tags: note.tags }
+    }));
+    const results = await this.retrievers.notes.retrieve(query, documents, { limit, queryEmbedding, filter });
+    
+    const scores: Record<string, number> = {};
+    const topNotes = results.map(result => {
+      scores[result.id] = result.score;
+      return this.notes.get(result.id)!;
+    });
     
     return { notes: topNotes, scores };
   }
   
   /**
-   * Counts keyword matches in text
-   * 
-   * @param text - Text to search
-   * @param keywords - Keywords to match
-   * @returns Number of matches
+   * Gets embeddings of short-term memories or notes, embedding the ones not seen before
+   *
+   * If embedding fails, the documents are left without embeddings and only
+   * keyword search ranks them.
+   *
+   * @param documents - IDs and texts to embed
+   * @returns Embeddings by ID
    */
-  private countKeywordMatches(text: string | undefined, keywords: string[]): number {
-    if (!text) return 0;
+  private async embedDocuments(documents: Array<{ id: string; text: string }>): Promise<Map<string, number[]>> {
+    const missing = documents.filter(document => !this.embeddings.has(document.id));
     
-    const normalizedText = text.toLowerCase();
-    let matches = 0;
-    
-    for (const keyword of keywords) {
-      // Skip very short keywords
-      if (keyword.length < 3) continue;
-      
-      // Escape special regex characters to avoid errors
-      const escapedKeyword = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-      
-      // Count matches
-      const regex = new RegExp(escapedKeyword, 'g');
-      const count = (normalizedText.match(regex) || []).length;
-      matches += count;
+    if (missing.length > 0) {
+      try {
+        const vectors = await this.embeddingService.embedBatch(missing.map(document => document.text));
+        missing.forEach((document, i) => this.embeddings.set(document.id, vectors[i]));
+      } catch (error) {
+        this.logger.warn('Error embedding memories, ranking them by keywords only', {
+          count: missing.length,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
     }
     
-    return matches;
+    return new Map(documents
+      .filter(document => this.embeddings.has(document.id))
+      .map(document => [document.id, this.embeddings.get(document.id)!]));
   }
   
   /**
@@ -0,0 +1,591 @@
+/**
+ * Hybrid keyword and vector retrieval
+ *
+ * Documents are ranked twice, by BM25 over their text and by embedding
+ * similarity to the query, and the rankings are merged with reciprocal rank
+ * fusion. Fused scores can then be weighted by age and importance and
+ * reordered by a reranker.
+ */
+
+import axios from 'axios';
+import { Logger } from '../utils/logger';
+import { extractJson } from '../utils/structured-output';
+import { LLMProviderInterface } from '../core/provider-interface';
+import { cosineSimilarity } from './embedding-service';
+
+/**
+ * A document that can be retrieved
+ */
+export interface RetrievalDocument {
+  id: string;
+  fields: Record<string, string>; // Indexed text by field name; a changed text is reindexed
+  embedding?: number[];     // Compared to the query embedding
+  similarity?: number;      // Precomputed similarity to the query (takes precedence over embedding)
+  timestamp?: number;       // Used for time decay
+  importance?: number;      // 0-1 scale
+  metadata?: Record<string, any>; // Matched against metadata filters
+}
+
+/**
+ * A retrieved document with its scores
+ */
+export interface RetrievalResult {
+  id: string;
+  score: number;            // Final score; 1 for a document ranked first everywhere with no decay
+  bm25Score?: number;       // Set if the document matched the query's words
+  similarity?: number;      // Set if the document entered the vector ranking
+  rerankScore?: number;     // Set if a reranker scored the document
+}
+
+/**
+ * Filters documents by metadata
+ *
+ * An object matches when every key matches: a scalar must equal the value (or
+ * be included in it, when the metadata value is an array) and an array
+ * matches if any of its items does.
+ */
+export type MetadataFilter = Record<string, any> | ((metadata: Record<string, any>) => boolean);
+
+/**
+ * Reorders retrieved documents by relevance to the query
+ */
+export interface Reranker {
+  /**
+   * Scores documents against a query
+   *
+   * @param query - The query
+   * @param documents - Texts of the documents to score
+   * @returns Promise resolving to one score between 0 and 1 per document, in order
+   */
+  rerank(query: string, documents: string[]): Promise<number[]>;
+}
+
+/**
+ * Configuration for BM25 indexes
+ */
+export interface BM25IndexConfig {
+  k1?: number;              // Term frequency saturation (default: 1.2)
+  b?: number;               // Document length normalization (default: 0.75)
+  fieldWeights?: Record<string, number>; // Weight of each field's terms (default: 1)
+}
+
+/**
+ * Configuration for the hybrid retriever
+ */
+export interface HybridRetrieverConfig extends BM25IndexConfig {
+  rrfK?: number;            // Reciprocal rank fusion constant (default: 60)
+  bm25Weight?: number;      // Weight of the BM25 ranking in the fusion (default: 1)
+  vectorWeight?: number;    // Weight of the vector ranking in the fusion (default: 1)
+  candidateLimit?: number;  // Documents taken from each ranking (default: 50)
+  decayHalfLife?: number;   // Age at which scores halve, in ms (default: no decay)
+  importanceWeight?: number; // How much importance boosts scores; 0 disables it (default: 0)
+  reranker?: Reranker;      // Reorders the top fused results
+  rerankDepth?: number;     // Fused results passed to the reranker (default: 20)
+}
+
+/**
+ * Options for a single retrieval
+ */
+export interface HybridRetrievalOptions {
+  limit: number;
+  queryEmbedding?: number[]; // Needed to compare document embeddings
+  minSimilarity?: number;   // Documents less similar than this stay out of the vector ranking
+  filter?: MetadataFilter;
+  now?: number;             // Reference time for decay (default: now)
+}
+
+/**
+ * Indexed form of a document
+ */
+interface IndexedDocument {
+  key: string;              // Indexed text, to detect changes
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * Splits text into lowercase words of two or more letters or digits
+ *
+ * @param text - The text to split
+ * @returns The words, in order
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(word => word.length >= 2);
+}
+
+/**
+ * Incremental BM25 index
+ */
+export class BM25Index {
+  private config: Required<BM25IndexConfig>;
+  private documents: Map<string, IndexedDocument> = new Map();
+  private postings: Map<string, Set<string>> = new Map();
+  private totalLength: number = 0;
+
+  /**
+   * Creates a new BM25 index
+   *
+   * @param config - Configuration for the index
+   */
+  constructor(config: BM25IndexConfig = {}) {
+    this.config = {
+      k1: 1.2,
+      b: 0.75,
+      fieldWeights: {},
+      ...config
+    };
+  }
+
+  /**
+   * Number of indexed documents
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Adds a document, replacing any document with the same ID
+   *
+   * @param id - The document ID
+   * @param fields - Text to index by field name
+   */
+  add(id: string, fields: Record<string, string>): void {
+    const key = fieldsKey(fields);
+    if (this.documents.get(id)?.key === key) {
+      return;
+    }
+    this.remove(id);
+
+    const termFrequencies = new Map<string, number>();
+    let length = 0;
+    for (const [field, text] of Object.entries(fields)) {
+      const weight = this.config.fieldWeights[field] ?? 1;
+      for (const term of tokenize(text)) {
+        termFrequencies.set(term, (termFrequencies.get(term) || 0) + weight);
+        length += weight;
+      }
+    }
+
+    for (const term of termFrequencies.keys()) {
+      let ids = this.postings.get(term);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(term, ids);
+      }
+      ids.add(id);
+    }
+    this.documents.set(id, { key, termFrequencies, length });
+    this.totalLength += length;
+  }
+
+  /**
+   * Removes a document
+   *
+   * @param id - The document ID
+   * @returns Whether the document was indexed
+   */
+  remove(id: string): boolean {
+    const document = this.documents.get(id);
+    if (!document) {
+      return false;
+    }
+
+    for (const term of document.termFrequencies.keys()) {
+      const ids = this.postings.get(term);
+      ids?.delete(id);
+      if (ids?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+    return true;
+  }
+
+  /**
+   * Makes the index hold exactly the given documents
+   *
+   * Unchanged documents are not reindexed, so this is cheap to call before every search.
+   *
+   * @param documents - The documents to index
+   */
+  sync(documents: Iterable<{ id: string; fields: Record<string, string> }>): void {
+    const ids = new Set<string>();
+    for (const document of documents) {
+      ids.add(document.id);
+      this.add(document.id, document.fields);
+    }
+
+    for (const id of Array.from(this.documents.keys())) {
+      if (!ids.has(id)) {
+        this.remove(id);
+      }
+    }
+  }
+
+  /**
+   * Scores the documents containing any word of the query
+   *
+   * @param query - The query
+   * @param limit - Maximum results (default: all matches)
+   * @returns Matching document IDs and scores, best first
+   */
+  search(query: string, limit?: number): Array<{ id: string; score: number }> {
+    const { k1, b } = this.config;
+    const count = this.documents.size;
+    const averageLength = count > 0 ? this.totalLength / count : 0;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const ids = this.postings.get(term);
+      if (!ids) {
+        continue;
+      }
+
+      const idf = Math.log(1 + (count - ids.size + 0.5) / (ids.size + 0.5));
+      for (const id of ids) {
+        const document = this.documents.get(id)!;
+        const frequency = document.termFrequencies.get(term)!;
+        const norm = averageLength > 0 ? 1 - b + b * document.length / averageLength : 1;
+        scores.set(id, (scores.get(id) || 0) + idf * frequency * (k1 + 1) / (frequency + k1 * norm));
+      }
+    }
+
+    const results = Array.from(scores, ([id, score]) => ({ id, score }))
+      .sort((x, y) => y.score - x.score);
+    return limit !== undefined ? results.slice(0, limit) : results;
+  }
+}
+
+/**
+ * Ranks documents by BM25 and vector similarity, fused with reciprocal rank fusion
+ */
+export class HybridRetriever {
+  private config: Required<Omit<HybridRetrieverConfig, 'decayHalfLife' | 'reranker'>> &
+    Pick<HybridRetrieverConfig, 'decayHalfLife' | 'reranker'>;
+  private index: BM25Index;
+  private logger: Logger;
+
+  /**
+   * Creates a new hybrid retriever
+   *
+   * @param config - Configuration for the retriever
+   */
+  constructor(config: HybridRetrieverConfig = {}) {
+    this.config = {
+      k1: 1.2,
+      b: 0.75,
+      fieldWeights: {},
+      rrfK: 60,
+      bm25Weight: 1,
+      vectorWeight: 1,
+      candidateLimit: 50,
+      importanceWeight: 0,
+      rerankDepth: 20,
+      ...config
+    };
+    this.index = new BM25Index(this.config);
+    this.logger = new Logger('HybridRetriever');
+  }
+
+  /**
+   * Retrieves the documents most relevant to a query
+   *
+   * The keyword index is synced with the documents first, so pass the full set
+   * of documents on every call.
+   *
+   * @param query - The query
+   * @param documents - All documents that can be retrieved
+   * @param options - Limit, query embedding and filters
+   * @returns Promise resolving to the best documents, best first
+   */
+  async retrieve(
+    query: string,
+    documents: RetrievalDocument[],
+    options: HybridRetrievalOptions
+  ): Promise<RetrievalResult[]> {
+    const { rrfK, bm25Weight, vectorWeight, candidateLimit } = this.config;
+    const now = options.now ?? Date.now();
+
+    this.index.sync(documents);
+
+    const allowed = new Map(documents
+      .filter(document => !options.filter || matchesFilter(document.metadata || {}, options.filter))
+      .map(document => [document.id, document]));
+    if (allowed.size === 0 || options.limit <= 0) {
+      return [];
+    }
+
+    const keywordRanking = this.index.search(query)
+      .filter(match => allowed.has(match.id))
+      .slice(0, candidateLimit);
+
+    const vectorRanking = Array.from(allowed.values())
+      .map(document => ({ id: document.id, score: this.similarityOf(document, options.queryEmbedding) }))
+      .filter((match): match is { id: string; score: number } =>
+        match.score !== undefined && match.score > (options.minSimilarity ?? 0))
+      .sort((x, y) => y.score - x.score)
+      .slice(0, candidateLimit);
+
+    // Reciprocal rank fusion, scaled so first place in both rankings scores 1
+    const results = new Map<string, RetrievalResult>();
+    const fuse = (ranking: Array<{ id: string; score: number }>, weight: number, field: 'bm25Score' | 'similarity') => {
+      ranking.forEach((match, rank) => {
+        const result = results.get(match.id) || { id: match.id, score: 0 };
+        result.score += weight / (rrfK + rank + 1);
+        result[field] = match.score;
+        results.set(match.id, result);
+      });
+    };
+    fuse(keywordRanking, bm25Weight, 'bm25Score');
+    fuse(vectorRanking, vectorWeight, 'similarity');
+
+    const maxFused = (bm25Weight + vectorWeight) / (rrfK + 1);
+    for (const result of results.values()) {
+      result.score = result.score / maxFused * this.weightOf(allowed.get(result.id)!, now);
+    }
+
+    let ranked = Array.from(results.values()).sort((x, y) => y.score - x.score);
+    if (this.config.reranker) {
+      ranked = await this.rerank(query, ranked, allowed, Math.max(this.config.rerankDepth, options.limit), now);
+    }
+
+    return ranked.slice(0, options.limit);
+  }
+
+  /**
+   * Reorders the top results by reranker score (weighted like fused scores)
+   *
+   * Falls back to the fused order if the reranker fails.
+   */
+  private async rerank(
+    query: string,
+    ranked: RetrievalResult[],
+    documents: Map<string, RetrievalDocument>,
+    depth: number,
+    now: number
+  ): Promise<RetrievalResult[]> {
+    const top = ranked.slice(0, depth);
+    if (top.length === 0) {
+      return ranked;
+    }
+
+    try {
+      const scores = await this.config.reranker!.rerank(
+        query,
+        top.map(result => Object.values(documents.get(result.id)!.fields).join('\n'))
+      );
+
+      const reranked = top.map((result, i) => {
+        const rerankScore = Math.min(1, Math.max(0, scores[i] ?? 0));
+        return { ...result, rerankScore, score: rerankScore * this.weightOf(documents.get(result.id)!, now) };
+      }).sort((x, y) => y.score - x.score);
+
+      return [...reranked, ...ranked.slice(depth)];
+    } catch (error) {
+      this.logger.warn('Reranking failed, keeping fused order', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return ranked;
+    }
+  }
+
+  /**
+   * Similarity of a document to the query, if it can be known
+   */
+  private similarityOf(document: RetrievalDocument, queryEmbedding?: number[]): number | undefined {
+    if (document.similarity !== undefined) {
+      return document.similarity;
+    }
+    if (document.embedding && queryEmbedding) {
+      return cosineSimilarity(document.embedding, queryEmbedding);
+    }
+    return undefined;
+  }
+
+  /**
+   * Multiplier from time decay and importance, between 0 and 1
+   */
+  private weightOf(document: RetrievalDocument, now: number): number {
+    let weight = 1;
+
+    if (this.config.decayHalfLife && document.timestamp !== undefined) {
+      weight *= Math.pow(0.5, Math.max(0, now - document.timestamp) / this.config.decayHalfLife);
+    }
+
+    const importanceWeight = this.config.importanceWeight;
+    if (importanceWeight > 0) {
+      weight *= (1 + importanceWeight * (document.importance ?? 0.5)) / (1 + importanceWeight);
+    }
+
+    return weight;
+  }
+}
+
+/**
+ * Configuration for the LLM reranker
+ */
+export interface LLMRerankerConfig {
+  provider: LLMProviderInterface;
+  maxLength?: number;       // Characters of each document shown to the model (default: 1000)
+  maxTokens?: number;       // Maximum tokens of the answer (default: 500)
+}
+
+/**
+ * Reranks by asking an LLM to grade each document
+ */
+export class LLMReranker implements Reranker {
+  private config: Required<LLMRerankerConfig>;
+
+  /**
+   * Creates a new LLM reranker
+   *
+   * @param config - Configuration for the reranker
+   */
+  constructor(config: LLMRerankerConfig) {
+    this.config = {
+      maxLength: 1000,
+      maxTokens: 500,
+      ...config
+    };
+  }
+
+  /**
+   * Scores documents against a query
+   *
+   * @param query - The query
+   * @param documents - Texts of the documents to score
+   * @returns Promise resolving to one score between 0 and 1 per document, in order
+   */
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    const listing = documents
+      .map((text, i) => `[${i + 1}] ${text.length > this.config.maxLength ? `${text.slice(0, this.config.maxLength)}...` : text}`)
+      .join('\n\n');
+
+    const result = await this.config.provider.generateResponse({
+      messages: [
+        {
+          role: 'system',
+          content: 'Grade how relevant each numbered document is to the query, from 0 (unrelated) to 10 (answers it directly). ' +
+            'Answer with JSON only: {"scores": [...]} with one number per document, in order.'
+        },
+        { role: 'user', content: `Query: ${query}\n\nDocuments:\n${listing}` }
+      ],
+      responseFormat: {
+        name: 'relevance_scores',
+        schema: {
+          type: 'object',
+          properties: { scores: { type: 'array', items: { type: 'number' } } },
+          required: ['scores']
+        }
+      },
+      maxTokens: this.config.maxTokens,
+      temperature: 0
+    });
+
+    const answer = result.structuredOutput !== undefined ? result.structuredOutput : extractJson(result.message);
+    if (!answer || !Array.isArray(answer.scores)) {
+      throw new Error('Reranker answer did not contain scores');
+    }
+
+    return documents.map((_, i) => typeof answer.scores[i] === 'number' ? answer.scores[i] / 10 : 0);
+  }
+}
+
+/**
+ * Configuration for the cross-encoder reranker
+ */
+export interface CrossEncoderRerankerConfig {
+  url: string;              // Rerank endpoint, e.g. https://api.cohere.com/v2/rerank or a local TEI server's /rerank
+  apiKey?: string;          // Sent as a bearer token
+  model?: string;           // Sent as "model" when set
+  documentsField?: string;  // Request field holding the documents (default: "documents"; "texts" for TEI)
+  timeout?: number;         // Request timeout in ms (default: 30000)
+}
+
+/**
+ * Reranks with a hosted cross-encoder
+ *
+ * Works with endpoints taking {query, documents} and answering with
+ * {results: [{index, relevance_score}]} (Cohere, Jina, Voyage) or
+ * [{index, score}] (text-embeddings-inference).
+ */
+export class CrossEncoderReranker implements Reranker {
+  private config: CrossEncoderRerankerConfig;
+
+  /**
+   * Creates a new cross-encoder reranker
+   *
+   * @param config - Configuration for the reranker
+   */
+  constructor(config: CrossEncoderRerankerConfig) {
+    this.config = {
+      documentsField: 'documents',
+      timeout: 30000,
+      ...config
+    };
+  }
+
+  /**
+   * Scores documents against a query
+   *
+   * @param query - The query
+   * @param documents - Texts of the documents to score
+   * @returns Promise resolving to one score between 0 and 1 per document, in order
+   */
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    const response = await axios.post(
+      this.config.url,
+      {
+        query,
+        [this.config.documentsField!]: documents,
+        ...(this.config.model ? { model: this.config.model } : {})
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {})
+        },
+        timeout: this.config.timeout
+      }
+    );
+
+    const results: Array<{ index: number; relevance_score?: number; score?: number }> =
+      Array.isArray(response.data) ? response.data : response.data?.results;
+    if (!Array.isArray(results)) {
+      throw new Error('Rerank response did not contain results');
+    }
+
+    const scores = documents.map(() => 0);
+    for (const result of results) {
+      scores[result.index] = result.relevance_score ?? result.score ?? 0;
+    }
+    return scores;
+  }
+}
+
+/**
+ * Checks metadata against a filter
+ *
+ * @param metadata - The metadata to check
+ * @param filter - The filter
+ * @returns Whether the metadata matches
+ */
+export function matchesFilter(metadata: Record<string, any>, filter: MetadataFilter): boolean {
+  if (typeof filter === 'function') {
+    return filter(metadata);
+  }
+
+  return Object.entries(filter).every(([key, expected]) => {
+    const actual = metadata[key];
+    const accepted = Array.isArray(expected) ? expected : [expected];
+    return accepted.some(value => Array.isArray(actual) ? actual.includes(value) : actual === value);
+  });
+}
+
+/**
+ * Stable text key of a document's fields
+ */
+function fieldsKey(fields: Record<string, string>): string {
+  return JSON.stringify(fields);
+}
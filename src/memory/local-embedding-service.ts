@@ -0,0 +1,164 @@
+/**
+ * Offline embedding service based on feature hashing
+ *
+ * Words, word bigrams and character trigrams are hashed into a fixed number
+ * of dimensions and weighted by sublinear term frequency (and by inverse
+ * document frequency once fitted on a corpus). The vectors capture lexical
+ * overlap rather than meaning, but they are deterministic, need no network
+ * and make keyword-like semantic search work in tests and offline setups.
+ */
+
+import { EmbeddingProvider } from './embedding-service';
+
+/**
+ * Configuration for the local embedding service
+ */
+export interface LocalEmbeddingServiceConfig {
+  dimensions?: number;    // Vector size (default: 256)
+  wordWeight?: number;    // Weight of single words (default: 1)
+  bigramWeight?: number;  // Weight of word pairs (default: 0.5)
+  trigramWeight?: number; // Weight of character trigrams, which match word variants (default: 0.3)
+}
+
+/**
+ * Deterministic embedding service that runs without an API
+ */
+export class LocalEmbeddingService implements EmbeddingProvider {
+  private config: Required<LocalEmbeddingServiceConfig>;
+  private documentFrequencies: Map<string, number> = new Map();
+  private documentCount = 0;
+
+  /**
+   * Creates a new local embedding service
+   *
+   * @param config - Configuration for the embedding service
+   */
+  constructor(config?: LocalEmbeddingServiceConfig) {
+    this.config = {
+      dimensions: 256,
+      wordWeight: 1,
+      bigramWeight: 0.5,
+      trigramWeight: 0.3,
+      ...config
+    };
+  }
+
+  /**
+   * Generates an embedding for a text
+   *
+   * @param text - The text to embed
+   * @returns Promise resolving to the unit-length embedding vector (all zeros for empty text)
+   */
+  async embedText(text: string): Promise<number[]> {
+    const vector = new Array(this.config.dimensions).fill(0);
+
+    for (const [feature, weight] of this.extractFeatures(text)) {
+      const hash = fnv1a(feature);
+      const index = hash % this.config.dimensions;
+      // A second hash bit picks the sign so collisions cancel out on average
+      const sign = (hash >>> 31) === 0 ? 1 : -1;
+      vector[index] += sign * weight * this.getIdf(feature);
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+    return norm === 0 ? vector : vector.map(val => val / norm);
+  }
+
+  /**
+   * Generates embeddings for multiple texts
+   *
+   * @param texts - Array of texts to embed
+   * @returns Promise resolving to an array of embedding vectors
+   */
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.embedText(text)));
+  }
+
+  /**
+   * Learns inverse document frequencies from a corpus
+   *
+   * Common features then weigh less than distinctive ones. Vectors created
+   * before fitting are not comparable with vectors created after it, so fit
+   * before storing anything.
+   *
+   * @param documents - Representative texts
+   */
+  fit(documents: string[]): void {
+    for (const document of documents) {
+      for (const feature of new Set(this.extractFeatures(document).keys())) {
+        this.documentFrequencies.set(feature, (this.documentFrequencies.get(feature) || 0) + 1);
+      }
+      this.documentCount++;
+    }
+  }
+
+  /**
+   * Gets the vector size
+   *
+   * @returns The number of dimensions
+   */
+  getDimensions(): number {
+    return this.config.dimensions;
+  }
+
+  /**
+   * Splits a text into weighted features
+   *
+   * @param text - The text
+   * @returns Map of feature to sublinear, weighted term frequency
+   */
+  private extractFeatures(text: string): Map<string, number> {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    const counts = new Map<string, { count: number; weight: number }>();
+    const add = (feature: string, weight: number) => {
+      const entry = counts.get(feature);
+      if (entry) {
+        entry.count++;
+      } else {
+        counts.set(feature, { count: 1, weight });
+      }
+    };
+
+    words.forEach((word, index) => {
+      add(`w:${word}`, this.config.wordWeight);
+      if (index > 0) {
+        add(`b:${words[index - 1]} ${word}`, this.config.bigramWeight);
+      }
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`c:${padded.slice(i, i + 3)}`, this.config.trigramWeight);
+      }
+    });
+
+    const features = new Map<string, number>();
+    for (const [feature, { count, weight }] of counts) {
+      if (weight > 0) {
+        features.set(feature, weight * (1 + Math.log(count)));
+      }
+    }
+    return features;
+  }
+
+  /**
+   * Gets the inverse document frequency of a feature (1 before fitting)
+   */
+  private getIdf(feature: string): number {
+    if (this.documentCount === 0) {
+      return 1;
+    }
+    const df = this.documentFrequencies.get(feature) || 0;
+    return Math.log((1 + this.documentCount) / (1 + df)) + 1;
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
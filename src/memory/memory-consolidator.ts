@@ -0,0 +1,427 @@
+/**
+ * Memory consolidation ("reflection") for the enhanced memory system
+ *
+ * Short-term memories expire unless something moves them. The consolidator
+ * periodically scores them by importance, recency and access frequency,
+ * groups related ones, and asks an LLM to summarize each group into a
+ * long-term memory, plus a note when the group yields a lasting insight.
+ */
+
+import { Logger } from '../utils/logger';
+import { extractJson } from '../utils/structured-output';
+import { LLMProviderInterface } from '../core/provider-interface';
+import { EnhancedMemoryInterface, ShortTermMemory } from './enhanced-memory-interface';
+import { UsageLedger } from '../usage/usage-ledger';
+import { EmbeddingProvider, cosineSimilarity } from './embedding-service';
+import { LocalEmbeddingService } from './local-embedding-service';
+import { AgentMemory } from './agent-memory';
+import { MemoryInteraction, MemoryWritePolicy } from './memory-policies';
+
+/**
+ * Weights of the consolidation score components
+ */
+export interface ConsolidationWeights {
+  importance: number;     // Weight of the memory's importance (missing importance counts as 0.5)
+  recency: number;        // Weight of how recently the memory was stored or retrieved
+  frequency: number;      // Weight of how often the memory was retrieved
+}
+
+/**
+ * Configuration for the memory consolidator
+ */
+export interface MemoryConsolidatorConfig {
+  memory: EnhancedMemoryInterface;
+  provider: LLMProviderInterface;       // Summarizes clusters of related memories
+  embeddingService?: EmbeddingProvider; // Used to cluster memories (default: LocalEmbeddingService)
+  weights?: Partial<ConsolidationWeights>; // Default: importance 0.5, recency 0.3, frequency 0.2
+  minScore?: number;            // Memories scoring below this are left to expire (default: 0.4)
+  minAge?: number;              // Only memories older than this are consolidated, in ms (default: 1 hour)
+  recencyHalfLife?: number;     // Age at which the recency score halves, in ms (default: 6 hours)
+  similarityThreshold?: number; // Minimum similarity for a memory to join a cluster (default: 0.5)
+  minClusterSize?: number;      // Smaller clusters are transferred as they are (default: 2)
+  maxClusterSize?: number;      // Maximum memories summarized together (default: 10)
+  interval?: number;            // Run every this many ms once started (default: never)
+  everyInteractions?: number;   // Run after this many recorded interactions (default: never)
+  maxTokens?: number;           // Maximum tokens of each summary (default: 800)
+  usageLedger?: UsageLedger;    // Records the summarization calls (source 'memory-consolidation')
+  agentName?: string;           // Agent the usage is recorded under (default: 'MemoryConsolidator')
+}
+
+/**
+ * Outcome of one consolidation run
+ */
+export interface ConsolidationReport {
+  examined: number;         // Short-term memories considered
+  consolidated: string[];   // Short-term IDs folded into summaries
+  transferred: string[];    // Short-term IDs moved to long-term as they were
+  longTermIds: string[];    // Long-term memories created (summaries and transfers)
+  noteIds: string[];        // Notes created from insights
+  failedClusters: number;   // Clusters left in short-term because summarizing failed
+  timestamp: number;
+}
+
+/**
+ * A short-term memory with its consolidation score
+ */
+interface ScoredMemory {
+  memory: ShortTermMemory;
+  score: number;
+  embedding: number[];
+}
+
+/**
+ * Answer expected from the LLM for each cluster
+ */
+interface ClusterSummary {
+  title: string;
+  summary: string;
+  importance?: number;
+  tags?: string[];
+  insight?: string;
+}
+
+/**
+ * JSON schema of ClusterSummary
+ */
+const SUMMARY_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: 'A short title for what these memories are about' },
+    summary: { type: 'string', description: 'What happened and what was learned, keeping concrete facts' },
+    importance: { type: 'number', minimum: 0, maximum: 1, description: 'How useful this is likely to be later' },
+    tags: { type: 'array', items: { type: 'string' } },
+    insight: { type: 'string', description: 'A general lesson or pattern worth keeping as a note; empty if there is none' }
+  },
+  required: ['title', 'summary']
+};
+
+const REFLECTION_PROMPT = `You are reflecting on an agent's recent memories. Summarize the related memories you are given into one long-term memory.
+Keep concrete facts, decisions and outcomes; drop small talk and repetition.
+If they show a general lesson, preference or pattern that would help with future tasks, state it as an insight; otherwise leave the insight empty.
+Answer with JSON only.`;
+
+/**
+ * Consolidates short-term memories into long-term memories and notes
+ */
+export class MemoryConsolidator {
+  private config: MemoryConsolidatorConfig & Required<Omit<MemoryConsolidatorConfig,
+    'embeddingService' | 'weights' | 'interval' | 'everyInteractions' | 'usageLedger'>>;
+  private weights: ConsolidationWeights;
+  private embeddingService: EmbeddingProvider;
+  private logger: Logger;
+  private timer?: NodeJS.Timeout;
+  private interactions: number = 0;
+  private running?: Promise<ConsolidationReport>;
+
+  /**
+   * Creates a new memory consolidator
+   *
+   * @param config - Configuration for the consolidator
+   */
+  constructor(config: MemoryConsolidatorConfig) {
+    this.config = {
+      minScore: 0.4,
+      minAge: 60 * 60 * 1000, // 1 hour
+      recencyHalfLife: 6 * 60 * 60 * 1000, // 6 hours
+      similarityThreshold: 0.5,
+      minClusterSize: 2,
+      maxClusterSize: 10,
+      maxTokens: 800,
+      agentName: 'MemoryConsolidator',
+      ...config
+    };
+    this.weights = {
+      importance: 0.5,
+      recency: 0.3,
+      frequency: 0.2,
+      ...config.weights
+    };
+    this.embeddingService = config.embeddingService || new LocalEmbeddingService();
+    this.logger = new Logger('MemoryConsolidator');
+  }
+
+  /**
+   * Starts consolidating on the configured interval
+   */
+  start(): void {
+    if (this.timer || !this.config.interval) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.consolidate().catch(error => this.logger.error('Scheduled consolidation failed', error));
+    }, this.config.interval);
+    this.timer.unref?.();
+
+    this.logger.debug('Started scheduled consolidation', { interval: this.config.interval });
+  }
+
+  /**
+   * Stops scheduled consolidation
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Counts an interaction, consolidating once everyInteractions is reached
+   *
+   * @returns Promise resolving to the report if a run was triggered
+   */
+  async recordInteraction(): Promise<ConsolidationReport | undefined> {
+    if (!this.config.everyInteractions) {
+      return undefined;
+    }
+
+    this.interactions++;
+    if (this.interactions < this.config.everyInteractions) {
+      return undefined;
+    }
+
+    this.interactions = 0;
+    return this.consolidate();
+  }
+
+  /**
+   * Wraps a write policy so every write counts as an interaction
+   *
+   * Consolidation runs in the background so agent runs don't wait for it.
+   *
+   * @param policy - The policy doing the writing
+   * @returns A write policy to pass to Agent.setMemoryPolicies
+   */
+  createWritePolicy(policy: MemoryWritePolicy): MemoryWritePolicy {
+    return {
+      write: async (memory: AgentMemory, interaction: MemoryInteraction) => {
+        await policy.write(memory, interaction);
+        this.recordInteraction().catch(error => this.logger.error('Consolidation failed', error));
+      }
+    };
+  }
+
+  /**
+   * Runs one consolidation pass
+   *
+   * Runs requested while one is in progress share its result.
+   *
+   * @returns Promise resolving to what was consolidated
+   */
+  consolidate(): Promise<ConsolidationReport> {
+    if (!this.running) {
+      this.running = this.runConsolidation().finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Scores a short-term memory for consolidation
+   *
+   * @param memory - The memory to score
+   * @param now - Reference time (default: now)
+   * @returns Score between 0 and 1 (with the default weights)
+   */
+  score(memory: ShortTermMemory, now: number = Date.now()): number {
+    const lastSeen = Math.max(memory.timestamp, memory.lastAccessed || 0);
+    const recency = Math.pow(0.5, Math.max(0, now - lastSeen) / this.config.recencyHalfLife);
+    const accessCount = memory.accessCount || 0;
+    const frequency = accessCount / (accessCount + 1);
+
+    return this.weights.importance * (memory.importance ?? 0.5) +
+      this.weights.recency * recency +
+      this.weights.frequency * frequency;
+  }
+
+  /**
+   * Consolidates the memories old and important enough
+   */
+  private async runConsolidation(): Promise<ConsolidationReport> {
+    const now = Date.now();
+    const report: ConsolidationReport = {
+      examined: 0,
+      consolidated: [],
+      transferred: [],
+      longTermIds: [],
+      noteIds: [],
+      failedClusters: 0,
+      timestamp: now
+    };
+
+    const memories = (await this.config.memory.getShortTermMemories())
+      .filter(memory => now - memory.timestamp >= this.config.minAge);
+    report.examined = memories.length;
+
+    const candidates = memories
+      .map(memory => ({ memory, score: this.score(memory, now) }))
+      .filter(item => item.score >= this.config.minScore);
+    if (candidates.length === 0) {
+      this.logger.debug('Nothing to consolidate', { examined: report.examined });
+      return report;
+    }
+
+    const embeddings = await this.embed(candidates.map(item => `${item.memory.input}\n${item.memory.output}`));
+    const clusters = this.cluster(candidates.map((item, i) => ({ ...item, embedding: embeddings[i] })));
+
+    const singles: string[] = [];
+    for (const cluster of clusters) {
+      if (cluster.length < this.config.minClusterSize) {
+        singles.push(...cluster.map(item => item.memory.id!));
+        continue;
+      }
+
+      try {
+        await this.summarize(cluster, report);
+      } catch (error) {
+        report.failedClusters++;
+        this.logger.warn('Could not summarize memory cluster, leaving it in short-term', {
+          size: cluster.length,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    if (singles.length > 0) {
+      const longTermIds = await this.config.memory.transferToLongTerm(singles);
+      report.transferred.push(...singles.slice(0, longTermIds.length));
+      report.longTermIds.push(...longTermIds);
+    }
+
+    this.logger.info('Consolidated memories', {
+      examined: report.examined,
+      consolidated: report.consolidated.length,
+      transferred: report.transferred.length,
+      notes: report.noteIds.length,
+      failedClusters: report.failedClusters
+    });
+
+    return report;
+  }
+
+  /**
+   * Summarizes a cluster into long-term memory (and a note for its insight)
+   * and removes its short-term memories
+   */
+  private async summarize(cluster: ScoredMemory[], report: ConsolidationReport): Promise<void> {
+    const memories = cluster
+      .map(item => item.memory)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    const listing = memories
+      .map((memory, i) => `[${i + 1}] ${new Date(memory.timestamp).toISOString()}\nInput: ${memory.input}\nOutput: ${memory.output}`)
+      .join('\n\n');
+
+    const result = await this.config.provider.generateResponse({
+      messages: [
+        { role: 'system', content: REFLECTION_PROMPT },
+        { role: 'user', content: listing }
+      ],
+      responseFormat: {
+        name: 'memory_reflection',
+        description: 'Summary of related memories',
+        schema: SUMMARY_SCHEMA
+      },
+      maxTokens: this.config.maxTokens,
+      temperature: 0.2
+    });
+    if (result.tokens) {
+      this.config.usageLedger?.record({
+        agent: this.config.agentName,
+        provider: result.provider || 'unknown',
+        model: result.model || 'unknown',
+        source: 'memory-consolidation',
+        input: result.tokens.input,
+        output: result.tokens.output
+      });
+    }
+
+    const summary: ClusterSummary | undefined = result.structuredOutput !== undefined
+      ? result.structuredOutput
+      : extractJson(result.message);
+    if (!summary || typeof summary.title !== 'string' || typeof summary.summary !== 'string') {
+      throw new Error('Summary did not match the expected format');
+    }
+
+    const maxImportance = Math.max(...memories.map(memory => memory.importance ?? 0.5));
+    const importance = typeof summary.importance === 'number'
+      ? Math.min(1, Math.max(0, summary.importance))
+      : maxImportance;
+    const tags = Array.isArray(summary.tags) ? summary.tags.filter(tag => typeof tag === 'string') : [];
+    const sourceIds = memories.map(memory => memory.id!);
+
+    const longTermId = await this.config.memory.storeLongTerm({
+      input: summary.title,
+      output: summary.summary,
+      importance,
+      metadata: {
+        category: 'reflection',
+        tags,
+        source: 'consolidation',
+        sourceIds,
+        period: { from: memories[0].timestamp, to: memories[memories.length - 1].timestamp }
+      },
+      timestamp: memories[memories.length - 1].timestamp
+    });
+    report.longTermIds.push(longTermId);
+
+    if (typeof summary.insight === 'string' && summary.insight.trim()) {
+      const noteId = await this.config.memory.saveNote({
+        title: summary.title,
+        content: summary.insight.trim(),
+        tags: Array.from(new Set([...tags, 'reflection'])),
+        importance
+      });
+      report.noteIds.push(noteId);
+    }
+
+    await this.config.memory.deleteShortTerm(sourceIds);
+    report.consolidated.push(...sourceIds);
+  }
+
+  /**
+   * Greedily groups memories whose similarity to a cluster's centroid passes the threshold
+   *
+   * Higher-scored memories seed clusters first.
+   */
+  private cluster(items: ScoredMemory[]): ScoredMemory[][] {
+    const clusters: Array<{ members: ScoredMemory[]; centroid: number[] }> = [];
+
+    for (const item of [...items].sort((a, b) => b.score - a.score)) {
+      let best: { members: ScoredMemory[]; centroid: number[] } | undefined;
+      let bestSimilarity = this.config.similarityThreshold;
+
+      for (const cluster of clusters) {
+        if (cluster.members.length >= this.config.maxClusterSize) {
+          continue;
+        }
+        const similarity = cosineSimilarity(item.embedding, cluster.centroid);
+        if (similarity >= bestSimilarity) {
+          best = cluster;
+          bestSimilarity = similarity;
+        }
+      }
+
+      if (best) {
+        const n = best.members.length;
+        best.centroid = best.centroid.map((value, i) => (value * n + item.embedding[i]) / (n + 1));
+        best.members.push(item);
+      } else {
+        clusters.push({ members: [item], centroid: item.embedding });
+      }
+    }
+
+    return clusters.map(cluster => cluster.members);
+  }
+
+  /**
+   * Embeds texts, in one batch when the embedding service supports it
+   */
+  private async embed(texts: string[]): Promise<number[][]> {
+    if (this.embeddingService.embedBatch) {
+      return this.embeddingService.embedBatch(texts);
+    }
+    return Promise.all(texts.map(text => this.embeddingService.embedText(text)));
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Policies deciding how agents read from and write to memory
+ *
+ * A context policy turns recalled memories into the context added to a task;
+ * a write policy decides what an agent remembers after a run, how much of it
+ * and in which tier.
+ */
+
+import { AgentMemory, MemoryRecord, MemoryTier, RecalledMemory } from './agent-memory';
+
+/**
+ * A finished agent run, as seen by write policies
+ */
+export interface MemoryInteraction {
+  task: string;           // The task as given, without injected memory context
+  response: string;
+  agentName: string;
+  toolNames?: string[];   // Tools called during the run
+  timestamp: number;
+}
+
+/**
+ * Builds the memory context for a task
+ */
+export interface MemoryContextPolicy {
+  /**
+   * Recalls memories for a task and formats them
+   *
+   * @param memory - The agent's memory
+   * @param task - The task about to run
+   * @returns Promise resolving to the context to prepend to the task ('' for none)
+   */
+  buildContext(memory: AgentMemory, task: string): Promise<string>;
+}
+
+/**
+ * Writes what an agent should remember from a run
+ */
+export interface MemoryWritePolicy {
+  /**
+   * Stores (or skips) a finished run
+   *
+   * @param memory - The agent's memory
+   * @param interaction - The finished run
+   * @returns Promise resolving when writing is complete
+   */
+  write(memory: AgentMemory, interaction: MemoryInteraction): Promise<void>;
+}
+
+/**
+ * Context and write policies of an agent
+ */
+export interface MemoryPolicies {
+  context?: MemoryContextPolicy;
+  write?: MemoryWritePolicy;
+}
+
+/**
+ * Configuration for the default context policy
+ */
+export interface DefaultContextPolicyConfig {
+  limit?: number;         // Maximum memories per tier (default: the memory's own defaults)
+  tiers?: MemoryTier[];   // Tiers to recall from (default: all)
+  minScore?: number;      // Drop memories scored below this (memories without a score are kept)
+  maxLength?: number;     // Maximum characters of context (default: 4000)
+  format?: (memories: RecalledMemory[]) => string; // Replaces the default formatting
+}
+
+/**
+ * Configuration for the default write policy
+ */
+export interface DefaultWritePolicyConfig {
+  tier?: MemoryTier | ((interaction: MemoryInteraction) => MemoryTier); // Where runs are stored (default: 'short-term')
+  maxLength?: number;     // Maximum characters kept of the task and of the response (default: 2000)
+  filter?: (interaction: MemoryInteraction) => boolean; // Return false to skip a run (default: skip empty responses)
+  importance?: (interaction: MemoryInteraction) => number | undefined; // Importance of the stored memory
+}
+
+/**
+ * Headings of each tier in the default context format
+ */
+const TIER_HEADINGS: Record<MemoryTier, string> = {
+  'short-term': 'Recent memories',
+  'long-term': 'Long-term memories',
+  'notes': 'Notes'
+};
+
+/**
+ * Recalls memories relevant to the task and lists them by tier
+ */
+export class DefaultContextPolicy implements MemoryContextPolicy {
+  private config: DefaultContextPolicyConfig;
+
+  /**
+   * Creates a new context policy
+   *
+   * @param config - Configuration for the policy
+   */
+  constructor(config: DefaultContextPolicyConfig = {}) {
+    this.config = {
+      maxLength: 4000,
+      ...config
+    };
+  }
+
+  /**
+   * Recalls memories for a task and formats them
+   *
+   * @param memory - The agent's memory
+   * @param task - The task about to run
+   * @returns Promise resolving to the context to prepend to the task ('' for none)
+   */
+  async buildContext(memory: AgentMemory, task: string): Promise<string> {
+    const recalled = (await memory.recall(task, { limit: this.config.limit, tiers: this.config.tiers }))
+      .filter(item => this.config.minScore === undefined || item.score === undefined || item.score >= this.config.minScore);
+
+    if (recalled.length === 0) {
+      return '';
+    }
+
+    const context = this.config.format ? this.config.format(recalled) : formatMemories(recalled);
+    return context.length > this.config.maxLength!
+      ? `${context.slice(0, this.config.maxLength!)}\n[...]`
+      : context;
+  }
+}
+
+/**
+ * Stores each run's task and response in one tier
+ */
+export class DefaultWritePolicy implements MemoryWritePolicy {
+  private config: DefaultWritePolicyConfig;
+
+  /**
+   * Creates a new write policy
+   *
+   * @param config - Configuration for the policy
+   */
+  constructor(config: DefaultWritePolicyConfig = {}) {
+    this.config = {
+      tier: 'short-term',
+      maxLength: 2000,
+      filter: interaction => interaction.response.trim().length > 0,
+      ...config
+    };
+  }
+
+  /**
+   * Stores (or skips) a finished run
+   *
+   * Tiers the memory doesn't have fall back to its preferred tier.
+   *
+   * @param memory - The agent's memory
+   * @param interaction - The finished run
+   * @returns Promise resolving when writing is complete
+   */
+  async write(memory: AgentMemory, interaction: MemoryInteraction): Promise<void> {
+    if (!this.config.filter!(interaction)) {
+      return;
+    }
+
+    const tier = typeof this.config.tier === 'function' ? this.config.tier(interaction) : this.config.tier!;
+    const record: MemoryRecord = {
+      input: truncate(interaction.task, this.config.maxLength!),
+      output: truncate(interaction.response, this.config.maxLength!),
+      importance: this.config.importance?.(interaction),
+      metadata: {
+        source: interaction.agentName,
+        ...(interaction.toolNames?.length ? { tools: interaction.toolNames } : {})
+      },
+      timestamp: interaction.timestamp
+    };
+
+    await memory.remember(record, memory.tiers.includes(tier) ? tier : memory.tiers[0]);
+  }
+}
+
+/**
+ * Formats recalled memories as a list per tier
+ *
+ * @param memories - The recalled memories
+ * @returns The formatted context
+ */
+export function formatMemories(memories: RecalledMemory[]): string {
+  const sections: string[] = [];
+
+  for (const tier of Object.keys(TIER_HEADINGS) as MemoryTier[]) {
+    const items = memories.filter(item => item.tier === tier);
+    if (items.length === 0) {
+      continue;
+    }
+
+    const lines = items.map(item => {
+      if (item.title !== undefined) {
+        return `- ${item.title}: ${item.text}`;
+      }
+      if (item.input !== undefined) {
+        return `- Q: ${item.input}\n  A: ${item.output}`;
+      }
+      return `- ${item.text}`;
+    });
+    sections.push(`${TIER_HEADINGS[tier]}:\n${lines.join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Shortens text to a maximum length
+ */
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text;
+}
@@ -0,0 +1,860 @@
+/**
+ * SQLite-backed implementation of EnhancedMemoryInterface
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  EnhancedMemoryInterface,
+  EnhancedMemoryConfig,
+  ShortTermMemory,
+  LongTermMemory,
+  AgentNote,
+  MemoryRetrievalResult
+} from './enhanced-memory-interface';
+import { EmbeddingProvider, cosineSimilarity } from './embedding-service';
+import { LocalEmbeddingService } from './local-embedding-service';
+import {
+  blobToVector,
+  createFtsSchema,
+  openDatabase,
+  toFtsQuery,
+  vectorToBlob
+} from './sqlite-utils';
+import { MetadataFilter, matchesFilter } from './hybrid-retriever';
+import { Logger } from '../utils/logger';
+
+/**
+ * Configuration for SQLite enhanced memory
+ */
+export interface SqliteEnhancedMemoryConfig extends Pick<EnhancedMemoryConfig,
+  'userId' | 'namespace' | 'shortTermTTL' | 'shortTermCapacity' | 'longTermPruneThreshold' | 'notesCapacity'> {
+  filePath: string;       // Path to the database file (":memory:" for a temporary database)
+  embeddingService?: EmbeddingProvider; // Embeds long-term memories and notes (default: LocalEmbeddingService)
+}
+
+/**
+ * Row shape shared by the short-term and long-term tables
+ */
+interface MemoryRow {
+  id: string;
+  input: string;
+  output: string;
+  importance: number | null;
+  metadata: string | null;
+  timestamp: number;
+}
+
+/**
+ * Row shape of the short-term table
+ */
+interface ShortTermRow extends MemoryRow {
+  expires_at: number;
+  last_accessed: number | null;
+  access_count: number;
+}
+
+/**
+ * Row shape of the long-term table
+ */
+interface LongTermRow extends MemoryRow {
+  last_accessed: number | null;
+  access_count: number;
+  embedding: Buffer | null;
+}
+
+/**
+ * Row shape of the notes table
+ */
+interface NoteRow {
+  id: string;
+  title: string;
+  content: string;
+  tags: string;
+  importance: number;
+  created: number;
+  updated: number;
+  embedding: Buffer | null;
+}
+
+/**
+ * Enhanced memory backed by a SQLite database
+ *
+ * Short-term memories, long-term memories and notes are rows in indexed
+ * tables scoped by user and namespace, so each change writes one row instead
+ * of a whole JSON file. Short-term memories and notes are searched through
+ * FTS5 indexes ranked by BM25; long-term memories and notes keep their
+ * embeddings in BLOB columns for similarity search, so no vector store is
+ * needed.
+ */
+export class SqliteEnhancedMemory implements EnhancedMemoryInterface {
+  private db: Database.Database;
+  private config: Required<Omit<SqliteEnhancedMemoryConfig, 'embeddingService'>>;
+  private embeddingService: EmbeddingProvider;
+  private scope: string;
+  private logger: Logger;
+
+  /**
+   * Creates a new SQLite enhanced memory system
+   *
+   * @param config - Configuration for the memory system
+   */
+  constructor(config: SqliteEnhancedMemoryConfig) {
+    const { embeddingService, ...rest } = config;
+    this.config = {
+      userId: 'default',
+      namespace: 'default',
+      shortTermTTL: 24 * 60 * 60 * 1000, // 24 hours
+      shortTermCapacity: 100,
+      longTermPruneThreshold: 10000,
+      notesCapacity: 1000,
+      ...rest
+    };
+
+    this.embeddingService = embeddingService || new LocalEmbeddingService();
+    this.scope = `${this.config.userId}/${this.config.namespace}`;
+    this.logger = new Logger('SqliteEnhancedMemory');
+
+    this.db = openDatabase(config.filePath);
+    this.migrate();
+  }
+
+  /**
+   * Initializes the memory system
+   *
+   * The schema is created by the constructor; this removes expired short-term memories.
+   *
+   * @returns Promise that resolves when initialization is complete
+   */
+  async initialize(): Promise<void> {
+    this.deleteExpired();
+    this.logger.debug('SQLite enhanced memory initialized', { scope: this.scope });
+  }
+
+  /**
+   * Stores a memory in short-term memory
+   *
+   * @param memory - The memory to store
+   * @returns Promise that resolves to the stored memory ID
+   */
+  async storeShortTerm(memory: Omit<ShortTermMemory, 'id' | 'expiresAt'>): Promise<string> {
+    const id = uuidv4();
+
+    this.db.prepare(`
+      INSERT INTO short_term_memories (id, scope, input, output, importance, metadata, timestamp, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id, this.scope, memory.input, memory.output, memory.importance ?? null,
+      memory.metadata ? JSON.stringify(memory.metadata) : null,
+      memory.timestamp, Date.now() + this.config.shortTermTTL
+    );
+
+    if (this.countRows('short_term_memories') > this.config.shortTermCapacity) {
+      this.pruneShortTerm();
+    }
+
+    this.logger.debug('Stored short-term memory', { id });
+    return id;
+  }
+
+  /**
+   * Stores a memory in long-term memory
+   *
+   * @param memory - The memory to store
+   * @returns Promise that resolves to the stored memory ID
+   */
+  async storeLongTerm(memory: Omit<LongTermMemory, 'id' | 'embedding'>): Promise<string> {
+    const id = uuidv4();
+    const embedding = await this.embeddingService.embedText(`${memory.input}\n${memory.output}`);
+
+    this.db.prepare(`
+      INSERT INTO long_term_memories
+        (id, scope, input, output, importance, metadata, timestamp, last_accessed, access_count, embedding)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id, this.scope, memory.input, memory.output, memory.importance ?? null,
+      memory.metadata ? JSON.stringify(memory.metadata) : null,
+      memory.timestamp, memory.lastAccessed ?? Date.now(), memory.accessCount ?? 0,
+      vectorToBlob(embedding)
+    );
+
+    this.logger.debug('Stored long-term memory', { id });
+    return id;
+  }
+
+  /**
+   * Creates a note
+   *
+   * @param note - The note to create
+   * @returns Promise that resolves to the note ID
+   */
+  async saveNote(note: Omit<AgentNote, 'id' | 'created' | 'updated'>): Promise<string> {
+    const id = uuidv4();
+    const now = Date.now();
+    const agentNote: AgentNote = { ...note, id, created: now, updated: now };
+    const embedding = await this.embeddingService.embedText(`${note.title}\n${note.content}`);
+
+    this.db.transaction(() => this.insertNote(agentNote, embedding))();
+
+    if (this.countRows('notes') > this.config.notesCapacity) {
+      this.pruneNotes();
+    }
+
+    this.logger.debug('Saved note', { id, title: note.title });
+    return id;
+  }
+
+  /**
+   * Retrieves memories relevant to a query
+   *
+   * @param query - The query to find relevant memories for
+   * @param options - Optional retrieval options
+   * @returns Promise resolving to retrieved memories
+   */
+  async retrieve(query: string, options?: {
+    shortTermLimit?: number;
+    longTermLimit?: number;
+    notesLimit?: number;
+    minRelevance?: number;
+    includeAll?: boolean;
+    filter?: MetadataFilter;
+  }): Promise<MemoryRetrievalResult> {
+    const opts = {
+      shortTermLimit: 5,
+      longTermLimit: 10,
+      notesLimit: 3,
+      minRelevance: 0.7,
+      ...options
+    };
+
+    this.logger.debug('Retrieving memories', { query, options: opts });
+
+    this.deleteExpired();
+    const queryEmbedding = await this.embeddingService.embedText(query);
+    const scores: Record<string, number> = {};
+
+    const result: MemoryRetrievalResult = {
+      shortTerm: this.retrieveShortTerm(query, opts.shortTermLimit, scores, opts.filter),
+      longTerm: this.retrieveLongTerm(queryEmbedding, opts.longTermLimit, opts.minRelevance, scores, opts.filter),
+      notes: this.retrieveNotes(query, queryEmbedding, opts.notesLimit, scores, opts.filter),
+      relevanceScores: scores
+    };
+
+    this.logger.debug('Retrieved memories', {
+      shortTermCount: result.shortTerm.length,
+      longTermCount: result.longTerm.length,
+      notesCount: result.notes.length
+    });
+
+    return result;
+  }
+
+  /**
+   * Gets a note by ID
+   *
+   * @param id - The note ID
+   * @returns Promise resolving to the note or undefined if not found
+   */
+  async getNote(id: string): Promise<AgentNote | undefined> {
+    const row = this.db
+      .prepare('SELECT * FROM notes WHERE id = ? AND scope = ?')
+      .get(id, this.scope) as NoteRow | undefined;
+    return row && toNote(row);
+  }
+
+  /**
+   * Gets all notes
+   *
+   * @returns Promise resolving to all notes
+   */
+  async getAllNotes(): Promise<AgentNote[]> {
+    const rows = this.db
+      .prepare('SELECT * FROM notes WHERE scope = ? ORDER BY created')
+      .all(this.scope) as NoteRow[];
+    return rows.map(toNote);
+  }
+
+  /**
+   * Gets notes by tag
+   *
+   * @param tag - The tag to filter by
+   * @returns Promise resolving to notes with the specified tag
+   */
+  async getNotesByTag(tag: string): Promise<AgentNote[]> {
+    const rows = this.db.prepare(`
+      SELECT n.* FROM notes n
+      JOIN note_tags t ON t.note_id = n.id
+      WHERE n.scope = ? AND t.tag = ?
+      ORDER BY n.created
+    `).all(this.scope, tag.toLowerCase()) as NoteRow[];
+    return rows.map(toNote);
+  }
+
+  /**
+   * Gets all short-term memories that have not expired
+   *
+   * @returns Promise resolving to the short-term memories, oldest first
+   */
+  async getShortTermMemories(): Promise<ShortTermMemory[]> {
+    this.deleteExpired();
+    const rows = this.db
+      .prepare('SELECT * FROM short_term_memories WHERE scope = ? ORDER BY timestamp')
+      .all(this.scope) as ShortTermRow[];
+    return rows.map(toShortTermMemory);
+  }
+
+  /**
+   * Deletes short-term memories
+   *
+   * @param ids - IDs of the short-term memories to delete
+   * @returns Promise resolving to the number of memories deleted
+   */
+  async deleteShortTerm(ids: string[]): Promise<number> {
+    const remove = this.db.prepare('DELETE FROM short_term_memories WHERE id = ? AND scope = ?');
+    let deleted = 0;
+    this.db.transaction(() => {
+      for (const id of ids) {
+        deleted += remove.run(id, this.scope).changes;
+      }
+    })();
+
+    this.logger.debug('Deleted short-term memories', { requested: ids.length, deleted });
+    return deleted;
+  }
+
+  /**
+   * Transfers short-term memories to long-term
+   *
+   * @param shortTermIds - IDs of short-term memories to transfer
+   * @returns Promise resolving to the IDs of the new long-term memories
+   */
+  async transferToLongTerm(shortTermIds: string[]): Promise<string[]> {
+    const newLongTermIds: string[] = [];
+
+    for (const shortTermId of shortTermIds) {
+      const row = this.db
+        .prepare('SELECT * FROM short_term_memories WHERE id = ? AND scope = ?')
+        .get(shortTermId, this.scope) as ShortTermRow | undefined;
+
+      if (!row) {
+        this.logger.warn('Short-term memory not found', { id: shortTermId });
+        continue;
+      }
+
+      const { id, expiresAt, ...rest } = toShortTermMemory(row);
+
+      try {
+        newLongTermIds.push(await this.storeLongTerm(rest));
+        this.db.prepare('DELETE FROM short_term_memories WHERE id = ? AND scope = ?').run(shortTermId, this.scope);
+      } catch (error) {
+        this.logger.error('Error transferring memory to long-term', { id: shortTermId, error });
+      }
+    }
+
+    this.logger.debug('Transferred memories to long-term', {
+      requested: shortTermIds.length,
+      transferred: newLongTermIds.length
+    });
+
+    return newLongTermIds;
+  }
+
+  /**
+   * Prunes memories over their capacity
+   *
+   * Removes expired and the oldest short-term memories, the least important
+   * notes, and the least important, least used long-term memories beyond
+   * longTermPruneThreshold.
+   *
+   * @returns Promise resolving when pruning is complete
+   */
+  async prune(): Promise<void> {
+    this.pruneShortTerm();
+    this.pruneNotes();
+
+    const excess = this.countRows('long_term_memories') - this.config.longTermPruneThreshold;
+    if (excess > 0) {
+      this.db.prepare(`
+        DELETE FROM long_term_memories WHERE id IN (
+          SELECT id FROM long_term_memories WHERE scope = ?
+          ORDER BY COALESCE(importance, 0.5), access_count, COALESCE(last_accessed, timestamp)
+          LIMIT ?
+        )
+      `).run(this.scope, excess);
+      this.logger.debug('Pruned long-term memories', { removed: excess });
+    }
+
+    this.logger.debug('Pruned memory system');
+  }
+
+  /**
+   * Clears all memories of this user and namespace
+   *
+   * @returns Promise resolving when all memories are cleared
+   */
+  async clear(): Promise<void> {
+    this.db.transaction(() => {
+      for (const table of ['short_term_memories', 'long_term_memories', 'notes']) {
+        this.db.prepare(`DELETE FROM ${table} WHERE scope = ?`).run(this.scope);
+      }
+    })();
+    this.logger.info('Cleared all memories');
+  }
+
+  /**
+   * Imports the short-term memories and notes that EnhancedMemory saved as JSON
+   *
+   * Long-term memories lived in EnhancedMemory's vector store and are not
+   * part of these files. Expired short-term memories are skipped, and so are
+   * entries whose ID already exists, so importing twice is safe.
+   *
+   * @param dir - Directory holding short-term.json and notes.json (default: EnhancedMemory's
+   *   directory for this user and namespace under MEMORY_STORAGE_PATH)
+   * @returns Promise resolving to the number of memories and notes imported
+   */
+  async importJson(dir?: string): Promise<{ shortTerm: number; notes: number }> {
+    const sourceDir = dir || path.join(
+      process.env.MEMORY_STORAGE_PATH || './data/memory',
+      this.config.userId,
+      this.config.namespace
+    );
+    const readArray = async <T>(file: string): Promise<T[]> => {
+      const filePath = path.join(sourceDir, file);
+      return fs.existsSync(filePath) ? JSON.parse(await fs.promises.readFile(filePath, 'utf8')) : [];
+    };
+
+    const now = Date.now();
+    const shortTerm = (await readArray<ShortTermMemory>('short-term.json'))
+      .filter(memory => memory?.id && memory.expiresAt > now);
+    const notes = (await readArray<AgentNote>('notes.json')).filter(note => note?.id);
+    const noteEmbeddings = await Promise.all(
+      notes.map(note => this.embeddingService.embedText(`${note.title}\n${note.content}`))
+    );
+
+    const imported = { shortTerm: 0, notes: 0 };
+    this.db.transaction(() => {
+      const insertShortTerm = this.db.prepare(`
+        INSERT OR IGNORE INTO short_term_memories
+          (id, scope, input, output, importance, metadata, timestamp, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      for (const memory of shortTerm) {
+        const { changes } = insertShortTerm.run(
+          memory.id, this.scope, memory.input, memory.output, memory.importance ?? null,
+          memory.metadata ? JSON.stringify(memory.metadata) : null,
+          memory.timestamp, memory.expiresAt
+        );
+        if (changes === 0) {
+          this.assertInScope('short_term_memories', memory.id!);
+        }
+        imported.shortTerm += changes;
+      }
+
+      notes.forEach((note, index) => {
+        imported.notes += this.insertNote(note, noteEmbeddings[index]);
+      });
+    })();
+
+    this.logger.info('Imported memories from JSON', { dir: sourceDir, ...imported });
+    return imported;
+  }
+
+  /**
+   * Closes the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Retrieves short-term memories by keyword, topped up with the most recent ones
+   *
+   * @param query - The query to match against
+   * @param limit - Maximum number of memories to retrieve
+   * @param scores - Receives the relevance score of each memory
+   * @param filter - Optional metadata filter
+   * @returns The matching short-term memories
+   */
+  private retrieveShortTerm(
+    query: string,
+    limit: number,
+    scores: Record<string, number>,
+    filter?: MetadataFilter
+  ): ShortTermMemory[] {
+    const now = Date.now();
+    const ftsQuery = toFtsQuery(query);
+    // Filters are applied to the rows, so read all of them when filtering (LIMIT -1)
+    const rowLimit = filter ? -1 : limit;
+    const allowed = (row: ShortTermRow) => !filter || matchesFilter(toMemoryFields(row).metadata || {}, filter);
+    const matches = (ftsQuery
+      ? this.db.prepare(`
+          SELECT s.*, -bm25(short_term_memories_fts, 1.0, 0.5) AS score
+          FROM short_term_memories_fts
+          JOIN short_term_memories s ON s.seq = short_term_memories_fts.rowid
+          WHERE short_term_memories_fts MATCH ? AND s.scope = ? AND s.expires_at > ?
+          ORDER BY score DESC
+          LIMIT ?
+        `).all(ftsQuery, this.scope, now, rowLimit) as Array<ShortTermRow & { score: number }>
+      : []
+    ).filter(allowed).slice(0, limit);
+
+    // Fresher memories score higher: full boost under an hour, none after a day
+    const recencyBoost = (row: ShortTermRow) => Math.max(0, 1 - (now - row.timestamp) / (1000 * 60 * 60 * 24));
+    for (const row of matches) {
+      scores[row.id] = row.score + recencyBoost(row);
+    }
+
+    if (matches.length < limit) {
+      const recent = this.db.prepare(`
+        SELECT * FROM short_term_memories
+        WHERE scope = ? AND expires_at > ?
+        ORDER BY timestamp DESC
+        LIMIT ?
+      `).all(this.scope, now, rowLimit) as ShortTermRow[];
+
+      for (const row of recent) {
+        if (matches.length >= limit) {
+          break;
+        }
+        if (scores[row.id] === undefined && allowed(row)) {
+          scores[row.id] = recencyBoost(row) * 0.1;
+          matches.push({ ...row, score: 0 });
+        }
+      }
+    }
+
+    const recordAccess = this.db.prepare(
+      'UPDATE short_term_memories SET last_accessed = ?, access_count = access_count + 1 WHERE id = ? AND scope = ?'
+    );
+    this.db.transaction(() => {
+      for (const row of matches) {
+        recordAccess.run(now, row.id, this.scope);
+      }
+    })();
+
+    return matches
+      .sort((a, b) => scores[b.id] - scores[a.id])
+      .map(row => toShortTermMemory({ ...row, last_accessed: now, access_count: row.access_count + 1 }));
+  }
+
+  /**
+   * Retrieves long-term memories by embedding similarity and records the access
+   *
+   * @param queryEmbedding - Embedding of the query
+   * @param limit - Maximum number of memories to retrieve
+   * @param minRelevance - Minimum similarity (0-1)
+   * @param scores - Receives the relevance score of each memory
+   * @param filter - Optional metadata filter
+   * @returns The most similar long-term memories
+   */
+  private retrieveLongTerm(
+    queryEmbedding: number[],
+    limit: number,
+    minRelevance: number,
+    scores: Record<string, number>,
+    filter?: MetadataFilter
+  ): LongTermMemory[] {
+    const rows = this.db
+      .prepare('SELECT * FROM long_term_memories WHERE scope = ? AND embedding IS NOT NULL')
+      .all(this.scope) as LongTermRow[];
+
+    const top = rows
+      .filter(row => !filter || matchesFilter(toMemoryFields(row).metadata || {}, filter))
+      .map(row => ({ row, score: cosineSimilarity(queryEmbedding, blobToVector(row.embedding)!) }))
+      .filter(item => item.score >= minRelevance)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    const now = Date.now();
+    const recordAccess = this.db.prepare(
+      'UPDATE long_term_memories SET last_accessed = ?, access_count = access_count + 1 WHERE id = ? AND scope = ?'
+    );
+    this.db.transaction(() => {
+      for (const { row } of top) {
+        recordAccess.run(now, row.id, this.scope);
+      }
+    })();
+
+    return top.map(({ row, score }) => {
+      scores[row.id] = score;
+      return toLongTermMemory({ ...row, last_accessed: now, access_count: row.access_count + 1 });
+    });
+  }
+
+  /**
+   * Retrieves notes by keyword, topped up by embedding similarity
+   *
+   * @param query - Text query for keyword matching
+   * @param queryEmbedding - Embedding for semantic matching
+   * @param limit - Maximum number of notes to retrieve
+   * @param scores - Receives the relevance score of each note
+   * @param filter - Optional filter, matched against { tags }
+   * @returns The most relevant notes
+   */
+  private retrieveNotes(
+    query: string,
+    queryEmbedding: number[],
+    limit: number,
+    scores: Record<string, number>,
+    filter?: MetadataFilter
+  ): AgentNote[] {
+    const ftsQuery = toFtsQuery(query);
+    const allowed = (row: NoteRow) => !filter || matchesFilter({ tags: toNote(row).tags }, filter);
+    const matches = (ftsQuery
+      ? this.db.prepare(`
+          SELECT n.*, -bm25(notes_fts, 2.0, 0.5, 1.0) * (1.0 + n.importance) AS score
+          FROM notes_fts
+          JOIN notes n ON n.seq = notes_fts.rowid
+          WHERE notes_fts MATCH ? AND n.scope = ?
+          ORDER BY score DESC
+          LIMIT ?
+        `).all(ftsQuery, this.scope, filter ? -1 : limit) as Array<NoteRow & { score: number }>
+      : []
+    ).filter(allowed).slice(0, limit);
+
+    for (const row of matches) {
+      scores[row.id] = row.score;
+    }
+
+    if (matches.length < limit) {
+      const rows = this.db
+        .prepare('SELECT * FROM notes WHERE scope = ? AND embedding IS NOT NULL')
+        .all(this.scope) as NoteRow[];
+
+      const similar = rows
+        .filter(row => scores[row.id] === undefined && allowed(row))
+        .map(row => ({ ...row, score: cosineSimilarity(queryEmbedding, blobToVector(row.embedding)!) * 2.0 }))
+        .filter(row => row.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit - matches.length);
+
+      for (const row of similar) {
+        scores[row.id] = row.score;
+        matches.push(row);
+      }
+    }
+
+    return matches.map(toNote);
+  }
+
+  /**
+   * Writes a note and its tags, skipping notes whose ID exists (call inside a transaction)
+   *
+   * @param note - The note
+   * @param embedding - Embedding of its title and content
+   * @returns 1 if the note was written, 0 if it was skipped
+   * @throws If the ID belongs to a note of another scope
+   */
+  private insertNote(note: AgentNote, embedding: number[]): number {
+    const result = this.db.prepare(`
+      INSERT OR IGNORE INTO notes (id, scope, title, content, tags, importance, created, updated, embedding)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      note.id, this.scope, note.title, note.content, JSON.stringify(note.tags),
+      note.importance, note.created, note.updated, vectorToBlob(embedding)
+    );
+
+    if (result.changes === 0) {
+      this.assertInScope('notes', note.id);
+      return 0;
+    }
+
+    const insertTag = this.db.prepare('INSERT OR IGNORE INTO note_tags (note_id, tag) VALUES (?, ?)');
+    for (const tag of note.tags) {
+      insertTag.run(note.id, tag.toLowerCase());
+    }
+    return 1;
+  }
+
+  /**
+   * Removes expired and, beyond the capacity, the oldest short-term memories
+   */
+  private pruneShortTerm(): void {
+    let removed = this.deleteExpired();
+
+    const excess = this.countRows('short_term_memories') - this.config.shortTermCapacity;
+    if (excess > 0) {
+      removed += this.db.prepare(`
+        DELETE FROM short_term_memories WHERE id IN (
+          SELECT id FROM short_term_memories WHERE scope = ? ORDER BY timestamp LIMIT ?
+        )
+      `).run(this.scope, excess).changes;
+    }
+
+    if (removed > 0) {
+      this.logger.debug('Pruned short-term memories', { removed });
+    }
+  }
+
+  /**
+   * Removes the least important notes beyond the capacity
+   */
+  private pruneNotes(): void {
+    const excess = this.countRows('notes') - this.config.notesCapacity;
+    if (excess <= 0) {
+      return;
+    }
+
+    // Tags are removed by the ON DELETE CASCADE foreign key
+    this.db.prepare(`
+      DELETE FROM notes WHERE id IN (
+        SELECT id FROM notes WHERE scope = ? ORDER BY importance LIMIT ?
+      )
+    `).run(this.scope, excess);
+    this.logger.debug('Pruned notes', { removed: excess });
+  }
+
+  /**
+   * Deletes expired short-term memories
+   *
+   * @returns The number of memories deleted
+   */
+  private deleteExpired(): number {
+    return this.db
+      .prepare('DELETE FROM short_term_memories WHERE scope = ? AND expires_at <= ?')
+      .run(this.scope, Date.now()).changes;
+  }
+
+  /**
+   * Counts the rows of a table in this scope
+   */
+  private countRows(table: 'short_term_memories' | 'long_term_memories' | 'notes'): number {
+    const row = this.db.prepare(`SELECT COUNT(*) AS count FROM ${table} WHERE scope = ?`).get(this.scope) as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Checks that an existing row with the given ID belongs to this scope
+   *
+   * IDs are unique across the file, so a row of another scope can't be written
+   * under the same ID and must not be silently skipped either.
+   *
+   * @param table - The table holding the row
+   * @param id - The row ID
+   * @throws If the row belongs to another scope
+   */
+  private assertInScope(table: 'short_term_memories' | 'long_term_memories' | 'notes', id: string): void {
+    const row = this.db.prepare(`SELECT scope FROM ${table} WHERE id = ?`).get(id) as { scope: string } | undefined;
+    if (row && row.scope !== this.scope) {
+      throw new Error(`ID ${id} in ${table} belongs to scope '${row.scope}'`);
+    }
+  }
+
+  /**
+   * Creates the schema if it doesn't exist
+   *
+   * Rows are scoped by "userId/namespace" so several users and namespaces can share a file.
+   */
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS short_term_memories (
+        seq INTEGER PRIMARY KEY,
+        id TEXT NOT NULL UNIQUE,
+        scope TEXT NOT NULL,
+        input TEXT NOT NULL,
+        output TEXT NOT NULL,
+        importance REAL,
+        metadata TEXT,
+        timestamp INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        last_accessed INTEGER,
+        access_count INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX IF NOT EXISTS idx_short_term_scope ON short_term_memories (scope, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_short_term_expires ON short_term_memories (scope, expires_at);
+      ${createFtsSchema('short_term_memories', ['input', 'output'])}
+
+      CREATE TABLE IF NOT EXISTS long_term_memories (
+        seq INTEGER PRIMARY KEY,
+        id TEXT NOT NULL UNIQUE,
+        scope TEXT NOT NULL,
+        input TEXT NOT NULL,
+        output TEXT NOT NULL,
+        importance REAL,
+        metadata TEXT,
+        timestamp INTEGER NOT NULL,
+        last_accessed INTEGER,
+        access_count INTEGER NOT NULL DEFAULT 0,
+        embedding BLOB
+      );
+      CREATE INDEX IF NOT EXISTS idx_long_term_scope ON long_term_memories (scope, timestamp);
+      ${createFtsSchema('long_term_memories', ['input', 'output'])}
+
+      CREATE TABLE IF NOT EXISTS notes (
+        seq INTEGER PRIMARY KEY,
+        id TEXT NOT NULL UNIQUE,
+        scope TEXT NOT NULL,
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        tags TEXT NOT NULL,
+        importance REAL NOT NULL,
+        created INTEGER NOT NULL,
+        updated INTEGER NOT NULL,
+        embedding BLOB
+      );
+      CREATE INDEX IF NOT EXISTS idx_notes_scope ON notes (scope, created);
+      ${createFtsSchema('notes', ['title', 'content', 'tags'])}
+
+      CREATE TABLE IF NOT EXISTS note_tags (
+        note_id TEXT NOT NULL REFERENCES notes (id) ON DELETE CASCADE,
+        tag TEXT NOT NULL,
+        PRIMARY KEY (note_id, tag)
+      );
+      CREATE INDEX IF NOT EXISTS idx_note_tags_tag ON note_tags (tag);
+    `);
+  }
+}
+
+/**
+ * Converts the columns shared by the memory tables
+ */
+function toMemoryFields(row: MemoryRow) {
+  return {
+    id: row.id,
+    input: row.input,
+    output: row.output,
+    ...(row.importance !== null ? { importance: row.importance } : {}),
+    ...(row.metadata ? { metadata: JSON.parse(row.metadata) } : {}),
+    timestamp: row.timestamp
+  };
+}
+
+/**
+ * Converts a short-term row to a short-term memory
+ */
+function toShortTermMemory(row: ShortTermRow): ShortTermMemory {
+  return {
+    ...toMemoryFields(row),
+    expiresAt: row.expires_at,
+    ...(row.last_accessed !== null ? { lastAccessed: row.last_accessed } : {}),
+    accessCount: row.access_count
+  };
+}
+
+/**
+ * Converts a long-term row to a long-term memory (without its embedding)
+ */
+function toLongTermMemory(row: LongTermRow): LongTermMemory {
+  return {
+    ...toMemoryFields(row),
+    ...(row.last_accessed !== null ? { lastAccessed: row.last_accessed } : {}),
+    accessCount: row.access_count
+  };
+}
+
+/**
+ * Converts a notes row to a note
+ */
+function toNote(row: NoteRow): AgentNote {
+  return {
+    id: row.id,
+    title: row.title,
+    content: row.content,
+    tags: JSON.parse(row.tags),
+    importance: row.importance,
+    created: row.created,
+    updated: row.updated
+  };
+}
@@ -0,0 +1,386 @@
+/**
+ * SQLite-backed implementation of MemoryInterface
+ */
+
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import { MemoryInterface, MemoryEntry } from './memory-interface';
+import { EmbeddingProvider, cosineSimilarity } from './embedding-service';
+import {
+  blobToVector,
+  createFtsSchema,
+  openDatabase,
+  toFtsQuery,
+  vectorToBlob
+} from './sqlite-utils';
+import { Logger } from '../utils/logger';
+
+/**
+ * Configuration for SQLite memory
+ */
+export interface SqliteMemoryConfig {
+  filePath: string;       // Path to the database file (":memory:" for a temporary database)
+  namespace?: string;     // Memories of other namespaces in the same file are invisible (default: 'default')
+  embeddingService?: EmbeddingProvider; // Embeds memories so retrieval can fall back to similarity search
+}
+
+/**
+ * Filters for listing memories
+ */
+export interface SqliteMemoryFilter {
+  tag?: string;           // Matches metadata.tags entries and metadata.category
+  since?: number;         // Earliest timestamp (inclusive)
+  until?: number;         // Latest timestamp (exclusive)
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Row shape of the memories table
+ */
+interface MemoryRow {
+  id: string;
+  input: string;
+  output: string;
+  importance: number | null;
+  metadata: string | null;
+  timestamp: number;
+}
+
+/**
+ * A memory implementation backed by a SQLite database
+ *
+ * Every memory is a row, so stores and deletes do not rewrite the whole
+ * memory. Keyword retrieval uses an FTS5 index ranked by BM25; with an
+ * embedding service, embeddings are stored as BLOBs and fill up the results
+ * by similarity when too few memories match the keywords.
+ */
+export class SqliteMemory implements MemoryInterface {
+  private db: Database.Database;
+  private config: Required<Omit<SqliteMemoryConfig, 'embeddingService'>> & Pick<SqliteMemoryConfig, 'embeddingService'>;
+  private logger: Logger;
+
+  /**
+   * Creates a new SQLite memory system
+   *
+   * @param config - Configuration for the memory
+   */
+  constructor(config: SqliteMemoryConfig) {
+    this.config = {
+      namespace: 'default',
+      ...config
+    };
+    this.logger = new Logger('SqliteMemory');
+
+    this.db = openDatabase(config.filePath);
+    this.migrate();
+  }
+
+  /**
+   * Stores a memory, replacing any memory with the same ID
+   *
+   * @param memory - The memory to store
+   * @returns Promise that resolves when storage is complete
+   */
+  async store(memory: MemoryEntry): Promise<void> {
+    const entry: MemoryEntry = {
+      ...memory,
+      id: memory.id || uuidv4()
+    };
+    const embedding = await this.embed(entry);
+
+    this.db.transaction(() => this.insert(entry, embedding, true))();
+    this.logger.debug('Stored memory', { id: entry.id });
+  }
+
+  /**
+   * Retrieves memories relevant to a query
+   *
+   * @param query - The query to find relevant memories for
+   * @param limit - Optional limit on number of memories to retrieve (default: 5)
+   * @returns Promise resolving to an array of memory content strings
+   */
+  async retrieve(query: string, limit: number = 5): Promise<string[]> {
+    this.logger.debug('Retrieving memories for query', { query, limit });
+
+    const ftsQuery = toFtsQuery(query);
+    const rows: MemoryRow[] = ftsQuery
+      ? this.db.prepare(`
+          SELECT m.id, m.input, m.output, m.importance, m.metadata, m.timestamp
+          FROM memories_fts
+          JOIN memories m ON m.seq = memories_fts.rowid
+          WHERE memories_fts MATCH ? AND m.namespace = ?
+          ORDER BY bm25(memories_fts)
+          LIMIT ?
+        `).all(ftsQuery, this.config.namespace, limit) as MemoryRow[]
+      : [];
+
+    if (rows.length < limit && this.config.embeddingService) {
+      const found = new Set(rows.map(row => row.id));
+      const similar = await this.searchSimilar(query, limit - rows.length, found);
+      rows.push(...similar);
+    }
+
+    this.logger.debug('Retrieved memories', { count: rows.length });
+    return rows.map(row => `${row.input}\n${row.output}`);
+  }
+
+  /**
+   * Get all stored memories, oldest first
+   *
+   * @returns Promise resolving to all memory entries
+   */
+  async getAll(): Promise<MemoryEntry[]> {
+    return this.query({}, 'ASC');
+  }
+
+  /**
+   * Lists memories by tag and time range, newest first
+   *
+   * @param filter - Optional filters and paging
+   * @returns Promise resolving to the matching memory entries
+   */
+  async find(filter: SqliteMemoryFilter = {}): Promise<MemoryEntry[]> {
+    return this.query(filter, 'DESC');
+  }
+
+  /**
+   * Delete a specific memory by ID
+   *
+   * @param id - ID of the memory to delete
+   * @returns Promise resolving to true if deleted, false if not found
+   */
+  async delete(id: string): Promise<boolean> {
+    // Tags are removed by the ON DELETE CASCADE foreign key
+    const result = this.db
+      .prepare('DELETE FROM memories WHERE id = ? AND namespace = ?')
+      .run(id, this.config.namespace);
+
+    if (result.changes > 0) {
+      this.logger.debug('Deleted memory', { id });
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Clear all memories of the namespace
+   *
+   * @returns Promise resolving when all memories are cleared
+   */
+  async clear(): Promise<void> {
+    this.db.prepare('DELETE FROM memories WHERE namespace = ?').run(this.config.namespace);
+    this.logger.debug('Cleared all memories', { namespace: this.config.namespace });
+  }
+
+  /**
+   * Imports the memories file written by PersistentMemory
+   *
+   * Memories whose ID already exists are skipped, so importing twice is safe.
+   *
+   * @param filePath - Path to the JSON file, e.g. './data/memories.json'
+   * @returns Promise resolving to the number of memories imported
+   */
+  async importJson(filePath: string): Promise<number> {
+    const memories = JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as MemoryEntry[];
+
+    const entries: Array<{ entry: MemoryEntry; embedding?: number[] }> = [];
+    for (const memory of memories) {
+      const entry = { ...memory, id: memory.id || uuidv4() };
+      entries.push({ entry, embedding: await this.embed(entry) });
+    }
+
+    let imported = 0;
+    this.db.transaction(() => {
+      for (const { entry, embedding } of entries) {
+        imported += this.insert(entry, embedding, false);
+      }
+    })();
+
+    this.logger.info(`Imported ${imported} of ${memories.length} memories`, { filePath });
+    return imported;
+  }
+
+  /**
+   * Closes the database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Writes a memory and its tags (call inside a transaction)
+   *
+   * @param entry - The memory, with an ID
+   * @param embedding - Its embedding, if any
+   * @param replace - Replace an existing memory with the same ID instead of skipping it
+   * @returns 1 if the memory was written, 0 if it was skipped
+   * @throws If the ID belongs to a memory of another namespace
+   */
+  private insert(entry: MemoryEntry, embedding: number[] | undefined, replace: boolean): number {
+    const result = this.db.prepare(`
+      INSERT INTO memories (id, namespace, input, output, importance, metadata, timestamp, embedding)
+      VALUES (@id, @namespace, @input, @output, @importance, @metadata, @timestamp, @embedding)
+      ON CONFLICT(id) DO ${replace ? `UPDATE SET
+        input = excluded.input,
+        output = excluded.output,
+        importance = excluded.importance,
+        metadata = excluded.metadata,
+        timestamp = excluded.timestamp,
+        embedding = excluded.embedding
+        WHERE memories.namespace = excluded.namespace` : 'NOTHING'}
+    `).run({
+      id: entry.id,
+      namespace: this.config.namespace,
+      input: entry.input,
+      output: entry.output,
+      importance: entry.importance ?? null,
+      metadata: entry.metadata ? JSON.stringify(entry.metadata) : null,
+      timestamp: entry.timestamp,
+      embedding: vectorToBlob(embedding)
+    });
+
+    if (result.changes === 0) {
+      const existing = this.db
+        .prepare('SELECT namespace FROM memories WHERE id = ?')
+        .get(entry.id) as { namespace: string } | undefined;
+      if (existing && existing.namespace !== this.config.namespace) {
+        throw new Error(`Memory ${entry.id} belongs to namespace '${existing.namespace}'`);
+      }
+      return 0;
+    }
+
+    this.db.prepare('DELETE FROM memory_tags WHERE memory_id = ?').run(entry.id);
+    const insertTag = this.db.prepare('INSERT OR IGNORE INTO memory_tags (memory_id, tag) VALUES (?, ?)');
+    for (const tag of getTags(entry)) {
+      insertTag.run(entry.id, tag);
+    }
+    return 1;
+  }
+
+  /**
+   * Runs the shared getAll/find query
+   *
+   * @param filter - Filters and paging
+   * @param order - Timestamp order
+   * @returns The matching memory entries
+   */
+  private query(filter: SqliteMemoryFilter, order: 'ASC' | 'DESC'): MemoryEntry[] {
+    const conditions = ['m.namespace = ?'];
+    const params: any[] = [this.config.namespace];
+
+    if (filter.tag) {
+      conditions.push('EXISTS (SELECT 1 FROM memory_tags t WHERE t.memory_id = m.id AND t.tag = ?)');
+      params.push(filter.tag.toLowerCase());
+    }
+    if (filter.since !== undefined) {
+      conditions.push('m.timestamp >= ?');
+      params.push(filter.since);
+    }
+    if (filter.until !== undefined) {
+      conditions.push('m.timestamp < ?');
+      params.push(filter.until);
+    }
+
+    params.push(filter.limit ?? -1, filter.offset ?? 0);
+
+    const rows = this.db.prepare(`
+      SELECT m.id, m.input, m.output, m.importance, m.metadata, m.timestamp
+      FROM memories m
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY m.timestamp ${order}
+      LIMIT ? OFFSET ?
+    `).all(...params) as MemoryRow[];
+
+    return rows.map(toMemoryEntry);
+  }
+
+  /**
+   * Finds the memories most similar to a query by embedding
+   *
+   * @param query - The query
+   * @param limit - Maximum number of memories
+   * @param exclude - IDs to leave out
+   * @returns The most similar memories with a positive similarity
+   */
+  private async searchSimilar(query: string, limit: number, exclude: Set<string>): Promise<MemoryRow[]> {
+    const queryEmbedding = await this.config.embeddingService!.embedText(query);
+    const rows = this.db
+      .prepare(`
+        SELECT id, input, output, importance, metadata, timestamp, embedding
+        FROM memories WHERE namespace = ? AND embedding IS NOT NULL
+      `)
+      .all(this.config.namespace) as Array<MemoryRow & { embedding: Buffer }>;
+
+    return rows
+      .filter(row => !exclude.has(row.id))
+      .map(({ embedding, ...row }) => ({ row, score: cosineSimilarity(queryEmbedding, blobToVector(embedding)!) }))
+      .filter(item => item.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(item => item.row);
+  }
+
+  /**
+   * Embeds a memory if an embedding service is configured
+   */
+  private async embed(entry: MemoryEntry): Promise<number[] | undefined> {
+    return this.config.embeddingService?.embedText(`${entry.input}\n${entry.output}`);
+  }
+
+  /**
+   * Creates the schema if it doesn't exist
+   */
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS memories (
+        seq INTEGER PRIMARY KEY,
+        id TEXT NOT NULL UNIQUE,
+        namespace TEXT NOT NULL,
+        input TEXT NOT NULL,
+        output TEXT NOT NULL,
+        importance REAL,
+        metadata TEXT,
+        timestamp INTEGER NOT NULL,
+        embedding BLOB
+      );
+      CREATE INDEX IF NOT EXISTS idx_memories_namespace ON memories (namespace, timestamp);
+
+      CREATE TABLE IF NOT EXISTS memory_tags (
+        memory_id TEXT NOT NULL REFERENCES memories (id) ON DELETE CASCADE,
+        tag TEXT NOT NULL,
+        PRIMARY KEY (memory_id, tag)
+      );
+      CREATE INDEX IF NOT EXISTS idx_memory_tags_tag ON memory_tags (tag);
+      ${createFtsSchema('memories', ['input', 'output'])}
+    `);
+  }
+}
+
+/**
+ * Converts a memories row to a memory entry
+ */
+function toMemoryEntry(row: MemoryRow): MemoryEntry {
+  return {
+    id: row.id,
+    input: row.input,
+    output: row.output,
+    ...(row.importance !== null ? { importance: row.importance } : {}),
+    ...(row.metadata ? { metadata: JSON.parse(row.metadata) } : {}),
+    timestamp: row.timestamp
+  };
+}
+
+/**
+ * Collects the tags of a memory from metadata.tags and metadata.category
+ */
+function getTags(entry: MemoryEntry): string[] {
+  const tags: unknown[] = [
+    ...(Array.isArray(entry.metadata?.tags) ? entry.metadata!.tags : []),
+    entry.metadata?.category
+  ];
+  return tags
+    .filter((tag): tag is string => typeof tag === 'string' && tag.length > 0)
+    .map(tag => tag.toLowerCase());
+}
@@ -0,0 +1,94 @@
+/**
+ * Helpers shared by the SQLite memory stores
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+/**
+ * Opens a SQLite database, creating its directory if needed
+ *
+ * @param filePath - Path to the database file (":memory:" for a temporary database)
+ * @returns The database connection
+ */
+export function openDatabase(filePath: string): Database.Database {
+  if (filePath !== ':memory:') {
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  return db;
+}
+
+/**
+ * Builds the schema of an external-content FTS5 index over a table
+ *
+ * The index is named `${table}_fts` and kept in sync by triggers; the table
+ * needs an INTEGER PRIMARY KEY column named seq.
+ *
+ * @param table - The indexed table
+ * @param columns - The text columns to index
+ * @returns SQL creating the index and its triggers if they don't exist
+ */
+export function createFtsSchema(table: string, columns: string[]): string {
+  const fts = `${table}_fts`;
+  const names = columns.join(', ');
+  const values = (prefix: string) => columns.map(column => `${prefix}.${column}`).join(', ');
+
+  return `
+    CREATE VIRTUAL TABLE IF NOT EXISTS ${fts} USING fts5(${names}, content='${table}', content_rowid='seq');
+    CREATE TRIGGER IF NOT EXISTS ${fts}_insert AFTER INSERT ON ${table} BEGIN
+      INSERT INTO ${fts} (rowid, ${names}) VALUES (new.seq, ${values('new')});
+    END;
+    CREATE TRIGGER IF NOT EXISTS ${fts}_delete AFTER DELETE ON ${table} BEGIN
+      INSERT INTO ${fts} (${fts}, rowid, ${names}) VALUES ('delete', old.seq, ${values('old')});
+    END;
+    CREATE TRIGGER IF NOT EXISTS ${fts}_update AFTER UPDATE OF ${names} ON ${table} BEGIN
+      INSERT INTO ${fts} (${fts}, rowid, ${names}) VALUES ('delete', old.seq, ${values('old')});
+      INSERT INTO ${fts} (rowid, ${names}) VALUES (new.seq, ${values('new')});
+    END;
+  `;
+}
+
+/**
+ * Packs an embedding into a BLOB of 32-bit floats
+ *
+ * @param vector - The embedding, or undefined
+ * @returns The BLOB, or null for no embedding
+ */
+export function vectorToBlob(vector?: number[]): Buffer | null {
+  return vector && vector.length > 0 ? Buffer.from(new Float32Array(vector).buffer) : null;
+}
+
+/**
+ * Unpacks an embedding stored with vectorToBlob
+ *
+ * @param blob - The BLOB, or null
+ * @returns The embedding, or undefined for no embedding
+ */
+export function blobToVector(blob: Buffer | null): number[] | undefined {
+  if (!blob) {
+    return undefined;
+  }
+  return Array.from(new Float32Array(blob.buffer, blob.byteOffset, blob.byteLength / 4));
+}
+
+/**
+ * Turns free text into an FTS5 query matching any of its words
+ *
+ * Words are quoted so FTS5 operators and punctuation in the text are taken literally.
+ *
+ * @param text - The search text
+ * @returns The MATCH expression, or undefined if the text has no searchable words
+ */
+export function toFtsQuery(text: string): string | undefined {
+  const words = Array.from(new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []))
+    .filter(word => word.length >= 2);
+  return words.length > 0 ? words.map(word => `"${word}"`).join(' OR ') : undefined;
+}
@@ -1,19 +1,22 @@
 /**
  * Vector memory implementation
  * 
- * Note: This is a placeholder implementation. In a real application, 
- * you would integrate with a vector database like Pinecone, Weaviate, 
- * or use a local vector store.
+ * Memories are embedded with an embedding provider (the offline
+ * LocalEmbeddingService by default, or EmbeddingService for OpenAI
+ * embeddings) and kept in a vector database service (in memory by default;
+ * implement VectorDBService to plug in another backend).
  */
 
 import { v4 as uuidv4 } from 'uuid';
 import { MemoryInterface, MemoryEntry } from './memory-interface';
+import { EmbeddingProvider } from './embedding-service';
+import { LocalEmbeddingService } from './local-embedding-service';
 import { Logger } from '../utils/logger';
 
 /**
  * Interface for a vector database service
  */
-interface VectorDBService {
+export interface VectorDBService {
   // Store a vector with its data
   storeVector(id: string, vector: number[], data: any): Promise<void>;
   
@@ -29,12 +32,18 @@ interface VectorDBService {
   
   // Clear all vectors
   clearVectors(): Promise<void>;
+  
+  // List all stored entries (optional; used by getAll)
+  listVectors?(): Promise<Array<{
+    id: string;
+    data: any;
+  }>>;
 }
 
 /**
- * Mock vector database service for demonstration
+ * Vector database service that keeps vectors in process memory
  */
-class MockVectorDBService implements VectorDBService {
+export class InMemoryVectorDBService implements VectorDBService {
   private vectors: Array<{
     id: string;
     vector: number[];
@@ -42,6 +51,8 @@ class MockVectorDBService implements VectorDBService {
   }> = [];
   
   async storeVector(id: string, vector: number[], data: any): Promise<void> {
+    // Storing an existing ID replaces it
+    this.vectors = this.vectors.filter(item => item.id !== id);
     this.vectors.push({ id, vector, data });
   }
   
@@ -76,6 +87,13 @@ class MockVectorDBService implements VectorDBService {
     this.vectors = [];
   }
   
+  async listVectors(): Promise<Array<{
+    id: string;
+    data: any;
+  }>> {
+    return this.vectors.map(item => ({ id: item.id, data: item.data }));
+  }
+  
   // Helper: Calculate cosine similarity between two vectors
   private cosineSimilarity(a: number[], b: number[]): number {
     if (a.length !== b.length) {
@@ -100,33 +118,12 @@ class MockVectorDBService implements VectorDBService {
   }
 }
 
-/**
- * Simple mock for text-to-vector embedding service
- */
-class MockEmbeddingService {
-  // Mock function to convert text to a vector
-  async textToVector(text: string): Promise<number[]> {
-    // In a real application, you would call an embedding API
-    // like OpenAI's text-embedding-ada-002 or similar
-    
-    // For demo purposes, create a random vector
-    // Real embeddings typically have 1024-4096 dimensions
-    const dimensions = 128;
-    const vector = Array(dimensions).fill(0)
-      .map(() => Math.random() * 2 - 1); // Random values between -1 and 1
-    
-    // Normalize the vector
-    const norm = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
-    return vector.map(val => val / norm);
-  }
-}
-
 /**
  * Configuration for vector memory
  */
 export interface VectorMemoryConfig {
-  vectorService?: VectorDBService;
-  embeddingService?: MockEmbeddingService;
+  vectorService?: VectorDBService;        // Where vectors are kept (default: InMemoryVectorDBService)
+  embeddingService?: EmbeddingProvider;   // How text is embedded, e.g. EmbeddingService (default: LocalEmbeddingService)
 }
 
 /**
@@ -135,7 +132,8 @@ export interface VectorMemoryConfig {
  */
 export class VectorMemory implements MemoryInterface {
   private vectorDB: VectorDBService;
-  private embeddingService: MockEmbeddingService;
+  private embeddingService: EmbeddingProvider;
+  private dimensions?: number; // Size of the vectors seen so far
   private logger: Logger;
   
   /**
@@ -144,8 +142,8 @@ export class VectorMemory implements MemoryInterface {
    * @param config - Configuration for the vector memory
    */
   constructor(config?: VectorMemoryConfig) {
-    this.vectorDB = config?.vectorService || new MockVectorDBService();
-    this.embeddingService = config?.embeddingService || new MockEmbeddingService();
+    this.vectorDB = config?.vectorService || new InMemoryVectorDBService();
+    this.embeddingService = config?.embeddingService || new LocalEmbeddingService();
     this.logger = new Logger('VectorMemory');
   }
   
@@ -164,7 +162,8 @@ export class VectorMemory implements MemoryInterface {
     
     try {
       // Convert text to vector
-      const vector = await this.embeddingService.textToVector(textToEmbed);
+      const vector = await this.embeddingService.embedText(textToEmbed);
+      this.dimensions = vector.length;
       
       // Store in vector database
       await this.vectorDB.storeVector(id, vector, {
@@ -191,7 +190,8 @@ export class VectorMemory implements MemoryInterface {
     
     try {
       // Convert query to vector
-      const queryVector = await this.embeddingService.textToVector(query);
+      const queryVector = await this.embeddingService.embedText(query);
+      this.dimensions = queryVector.length;
       
       // Search for similar vectors
       const results = await this.vectorDB.searchVectors(queryVector, limit);
@@ -209,15 +209,20 @@ export class VectorMemory implements MemoryInterface {
   
   /**
    * Get all stored memories
-   * Note: This is inefficient with large vector DBs
+   * Note: Without listVectors on the vector service this falls back to a
+   * similarity search capped at 1000 entries
    * 
    * @returns Promise resolving to all memory entries
    */
   async getAll(): Promise<MemoryEntry[]> {
-    // In a real implementation, this would be more complex and paginated
     try {
+      if (this.vectorDB.listVectors) {
+        const entries = await this.vectorDB.listVectors();
+        return entries.map(entry => entry.data as MemoryEntry);
+      }
+      
       // Search with a generic vector and high limit
-      const genericVector = Array(128).fill(0);
+      const genericVector = Array(this.dimensions ?? (await this.embeddingService.embedText('')).length).fill(0);
       const results = await this.vectorDB.searchVectors(genericVector, 1000);
       
       return results.map(result => result.data as MemoryEntry);
@@ -6,10 +6,14 @@ import {
   PlanTask, 
   PlannerInterface, 
   PlanOptions, 
-  PlanningStrategy 
+  PlanningStrategy,
+  createSubtaskOptions,
+  createSummaryOptions
 } from './planner-interface';
-import { createPlanningPrompt, createReplanningPrompt } from '../utils/prompt-utils';
+import { createPlanningPrompt, createReplanningPrompt, TASK_LIST_SCHEMA } from '../utils/prompt-utils';
 import { Logger } from '../utils/logger';
+import { createCancelledResult } from '../utils/abort-utils';
+import { emitTaskStatus } from '../utils/event-stream';
 
 /**
  * Default planner implementation that uses the LLM to break down tasks
@@ -35,14 +39,16 @@ export class DefaultPlanner implements PlannerInterface {
     // Generate a planning prompt
     const planningPrompt = createPlanningPrompt(task);
     
-    // Ask the LLM to break down the task
-    const planResult = await agent.run({
+    // Ask the LLM to break down the task as a structured list of steps
+    const planResult = await agent.run<{ tasks: string[] }>({
       task: planningPrompt,
+      responseSchema: TASK_LIST_SCHEMA,
+      signal: options?.signal,
+      usageRunId: options?.usageRunId
     });
     
-    // Parse the response into tasks
-    // This is a simplistic implementation; in a real system you'd want more robust parsing
-    const taskDescriptions = this.parseTasksFromResponse(planResult.response);
+    // Fall back to parsing the text if the model never produced a valid list
+    const taskDescriptions = planResult.data?.tasks ?? this.parseTasksFromResponse(planResult.response);
     
     // Create the plan object
     const plan: Plan = {
@@ -86,6 +92,12 @@ export class DefaultPlanner implements PlannerInterface {
     
     // Execute tasks in sequence, respecting dependencies
     for (const task of currentPlan.tasks) {
+      // Stop before starting new work once the run is cancelled
+      if (options.signal?.aborted) {
+        currentPlan = { ...currentPlan, status: 'cancelled', updated: Date.now() };
+        break;
+      }
+      
       // Check if all dependencies are completed
       const dependencies = currentPlan.tasks.filter(t => task.dependencies.includes(t.id));
       const canExecute = dependencies.every(d => d.status === 'completed');
@@ -94,11 +106,13 @@ export class DefaultPlanner implements PlannerInterface {
         this.logger.warn('Cannot execute task, dependencies not met', { taskId: task.id });
         currentPlan = this.updateTaskStatus(currentPlan, task.id, 'failed', 
           undefined, 'Dependencies not satisfied');
+        emitTaskStatus(options, currentPlan, task.id);
         continue;
       }
       
       // Update status to in_progress
       currentPlan = this.updateTaskStatus(currentPlan, task.id, 'in_progress');
+      emitTaskStatus(options, currentPlan, task.id);
       
       // Emit progress event
       agent.emit(AgentEvent.THINKING, { 
@@ -107,10 +121,15 @@ export class DefaultPlanner implements PlannerInterface {
       
       try {
         // Execute the task
-        const taskResult = await agent.run({
-          ...options,
-          task: task.description,
-        });
+        const taskResult = await agent.run(createSubtaskOptions(options, task.description));
+        
+        if (taskResult.cancelled) {
+          currentPlan = this.updateTaskStatus(currentPlan, task.id, 'failed', 
+            taskResult.response, 'Cancelled');
+          emitTaskStatus(options, currentPlan, task.id);
+          currentPlan = { ...currentPlan, status: 'cancelled', updated: Date.now() };
+          break;
+        }
         
         // Store the result
         results.push(taskResult.response);
@@ -122,6 +141,7 @@ export class DefaultPlanner implements PlannerInterface {
           'completed', 
           taskResult.response
         );
+        emitTaskStatus(options, currentPlan, task.id);
       } catch (error) {
         this.logger.error('Task execution failed', { taskId: task.id, error });
         
@@ -133,6 +153,7 @@ export class DefaultPlanner implements PlannerInterface {
           undefined, 
           error instanceof Error ? error.message : String(error)
         );
+        emitTaskStatus(options, currentPlan, task.id);
         
         // Mark the plan as failed
         currentPlan = {
@@ -145,6 +166,12 @@ export class DefaultPlanner implements PlannerInterface {
       }
     }
     
+    // Return the partial results without a summary call if the run was cancelled
+    if (currentPlan.status === 'cancelled') {
+      this.logger.info('Plan execution cancelled', { planId: plan.id });
+      return createCancelledResult(results.join('\n\n'), options.conversation, options.signal);
+    }
+    
     // Check if all tasks completed successfully
     const allCompleted = currentPlan.tasks.every(t => t.status === 'completed');
     if (allCompleted && currentPlan.status !== 'failed') {
@@ -173,10 +200,7 @@ export class DefaultPlanner implements PlannerInterface {
     `;
     
     // Get the summary
-    const summary = await agent.run({
-      ...options,
-      task: summaryPrompt,
-    });
+    const summary = await agent.run(createSummaryOptions(options, summaryPrompt));
     
     this.logger.info('Plan execution completed', { 
       planId: plan.id, 
@@ -187,6 +211,8 @@ export class DefaultPlanner implements PlannerInterface {
     return {
       response: summary.response,
       conversation: summary.conversation,
+      data: summary.data,
+      dataErrors: summary.dataErrors,
     };
   }
   
@@ -245,9 +271,10 @@ export class DefaultPlanner implements PlannerInterface {
    * 
    * @param originalPlan - The original plan that needs revision
    * @param agent - The agent creating the revised plan
+   * @param options - Optional planning configuration
    * @returns Promise resolving to the revised plan
    */
-  async replan(originalPlan: Plan, agent: Agent): Promise<Plan> {
+  async replan(originalPlan: Plan, agent: Agent, options?: PlanOptions): Promise<Plan> {
     // Extract completed and failed tasks
     const completedTasks = originalPlan.tasks.filter(t => t.status === 'completed');
     const failedTasks = originalPlan.tasks.filter(t => t.status === 'failed');
@@ -275,12 +302,15 @@ export class DefaultPlanner implements PlannerInterface {
     );
     
     // Ask the LLM to create a revised plan
-    const replanResult = await agent.run({
+    const replanResult = await agent.run<{ tasks: string[] }>({
       task: replanPrompt,
+      responseSchema: TASK_LIST_SCHEMA,
+      signal: options?.signal,
+      usageRunId: options?.usageRunId
     });
     
-    // Parse the response into tasks
-    const taskDescriptions = this.parseTasksFromResponse(replanResult.response);
+    // Fall back to parsing the text if the model never produced a valid list
+    const taskDescriptions = replanResult.data?.tasks ?? this.parseTasksFromResponse(replanResult.response);
     
     // Create the revised plan
     const revisedPlan: Plan = {
@@ -6,14 +6,19 @@ import {
   PlanTask, 
   PlannerInterface, 
   PlanOptions, 
-  PlanningStrategy 
+  PlanningStrategy,
+  createSubtaskOptions,
+  createSummaryOptions
 } from './planner-interface';
 import { 
   createHierarchicalPlanningPrompt, 
   createPlanningPrompt, 
-  createReplanningPrompt 
+  createReplanningPrompt,
+  TASK_LIST_SCHEMA
 } from '../utils/prompt-utils';
 import { Logger } from '../utils/logger';
+import { AbortError, createCancelledResult } from '../utils/abort-utils';
+import { emitTaskStatus } from '../utils/event-stream';
 
 /**
  * Enhanced planner implementation that supports hierarchical planning,
@@ -86,13 +91,16 @@ export class EnhancedPlanner implements PlannerInterface {
     // Generate a planning prompt
     const planningPrompt = createPlanningPrompt(task, 'sequential');
     
-    // Ask the LLM to break down the task
-    const planResult = await agent.run({
+    // Ask the LLM to break down the task as a structured list of steps
+    const planResult = await agent.run<{ tasks: string[] }>({
       task: planningPrompt,
+      responseSchema: TASK_LIST_SCHEMA,
+      signal: planOptions.signal,
+      usageRunId: planOptions.usageRunId
     });
     
-    // Parse the response into tasks
-    const taskDescriptions = this.parseTasksFromResponse(planResult.response);
+    // Fall back to parsing the text if the model never produced a valid list
+    const taskDescriptions = planResult.data?.tasks ?? this.parseTasksFromResponse(planResult.response);
     
     // Create sequential tasks with simple next-item dependencies
     const tasks: PlanTask[] = [];
@@ -158,13 +166,16 @@ export class EnhancedPlanner implements PlannerInterface {
     // Generate a planning prompt
     const planningPrompt = createPlanningPrompt(task, 'parallel');
     
-    // Ask the LLM to break down the task
-    const planResult = await agent.run({
+    // Ask the LLM to break down the task as a structured list of steps
+    const planResult = await agent.run<{ tasks: string[] }>({
       task: planningPrompt,
+      responseSchema: TASK_LIST_SCHEMA,
+      signal: planOptions.signal,
+      usageRunId: planOptions.usageRunId
     });
     
-    // Parse the response into tasks
-    const taskDescriptions = this.parseTasksFromResponse(planResult.response);
+    // Fall back to parsing the text if the model never produced a valid list
+    const taskDescriptions = planResult.data?.tasks ?? this.parseTasksFromResponse(planResult.response);
     
     // Create tasks (we'll set dependencies in a second pass)
     const tasks: PlanTask[] = taskDescriptions.map(description => {
@@ -196,6 +207,8 @@ export class EnhancedPlanner implements PlannerInterface {
     
     const dependencyResult = await agent.run({
       task: dependencyPrompt,
+      signal: planOptions.signal,
+      usageRunId: planOptions.usageRunId
     });
     
     // Parse dependencies from the response
@@ -248,6 +261,8 @@ export class EnhancedPlanner implements PlannerInterface {
     // Ask the LLM to create a hierarchical plan
     const planResult = await agent.run({
       task: planningPrompt,
+      signal: planOptions.signal,
+      usageRunId: planOptions.usageRunId
     });
     
     // Parse the response into hierarchical tasks
@@ -368,6 +383,12 @@ export class EnhancedPlanner implements PlannerInterface {
     
     // Execute tasks in sequence, respecting dependencies
     for (const task of currentPlan.tasks) {
+      // Stop before starting new work once the run is cancelled
+      if (options.signal?.aborted) {
+        currentPlan = { ...currentPlan, status: 'cancelled', updated: Date.now() };
+        break;
+      }
+      
       // Check if all dependencies are completed
       const dependencies = currentPlan.tasks.filter(t => task.dependencies.includes(t.id));
       const canExecute = dependencies.every(d => d.status === 'completed');
@@ -376,11 +397,13 @@ export class EnhancedPlanner implements PlannerInterface {
         this.logger.warn('Cannot execute task, dependencies not met', { taskId: task.id });
         currentPlan = this.updateTaskStatus(currentPlan, task.id, 'failed', 
           undefined, 'Dependencies not satisfied');
+        emitTaskStatus(options, currentPlan, task.id);
         continue;
       }
       
       // Update status to in_progress
       currentPlan = this.updateTaskStatus(currentPlan, task.id, 'in_progress');
+      emitTaskStatus(options, currentPlan, task.id);
       
       // Emit progress event
       agent.emit(AgentEvent.THINKING, { 
@@ -389,10 +412,15 @@ export class EnhancedPlanner implements PlannerInterface {
       
       try {
         // Execute the task
-        const taskResult = await agent.run({
-          ...options,
-          task: task.description,
-        });
+        const taskResult = await agent.run(createSubtaskOptions(options, task.description));
+        
+        if (taskResult.cancelled) {
+          currentPlan = this.updateTaskStatus(currentPlan, task.id, 'failed', 
+            taskResult.response, 'Cancelled');
+          emitTaskStatus(options, currentPlan, task.id);
+          currentPlan = { ...currentPlan, status: 'cancelled', updated: Date.now() };
+          break;
+        }
         
         // Store the result
         results.push(taskResult.response);
@@ -404,6 +432,7 @@ export class EnhancedPlanner implements PlannerInterface {
           'completed', 
           taskResult.response
         );
+        emitTaskStatus(options, currentPlan, task.id);
         
         // Update progress
         const completedCount = currentPlan.tasks.filter(t => t.status === 'completed').length;
@@ -422,6 +451,7 @@ export class EnhancedPlanner implements PlannerInterface {
           undefined, 
           error instanceof Error ? error.message : String(error)
         );
+        emitTaskStatus(options, currentPlan, task.id);
         
         // Mark the plan as failed
         currentPlan = {
@@ -471,6 +501,12 @@ export class EnhancedPlanner implements PlannerInterface {
     
     // Process tasks until all are done or the plan fails
     while (pendingTasks.length > 0 || inProgressTasks.length > 0) {
+      // Stop before starting new work once the run is cancelled
+      if (options.signal?.aborted) {
+        currentPlan = { ...currentPlan, status: 'cancelled', updated: Date.now() };
+        break;
+      }
+      
       // Find tasks that can be started (all dependencies completed)
       const tasksToStart = pendingTasks
         .filter(task => {
@@ -485,6 +521,7 @@ export class EnhancedPlanner implements PlannerInterface {
       for (const task of tasksToStart) {
         // Update status to in_progress
         currentPlan = this.updateTaskStatus(currentPlan, task.id, 'in_progress');
+        emitTaskStatus(options, currentPlan, task.id);
         
         // Remove from pending tasks
         const index = pendingTasks.findIndex(t => t.id === task.id);
@@ -506,6 +543,7 @@ export class EnhancedPlanner implements PlannerInterface {
               'completed', 
               result
             );
+            emitTaskStatus(options, currentPlan, task.id);
             
             // Remove from in-progress and add to completed
             inProgressTasks = inProgressTasks.filter(t => t.id !== task.id);
@@ -530,6 +568,7 @@ export class EnhancedPlanner implements PlannerInterface {
               undefined, 
               error instanceof Error ? error.message : String(error)
             );
+            emitTaskStatus(options, currentPlan, task.id);
             
             // Remove from in-progress and add to failed
             inProgressTasks = inProgressTasks.filter(t => t.id !== task.id);
@@ -606,8 +645,15 @@ export class EnhancedPlanner implements PlannerInterface {
     
     // Process each top-level task in sequence
     for (const task of topTasks) {
+      // Stop before starting new work once the run is cancelled
+      if (options.signal?.aborted) {
+        currentPlan = { ...currentPlan, status: 'cancelled', updated: Date.now() };
+        break;
+      }
+      
       // Update status to in_progress
       currentPlan = this.updateTaskStatus(currentPlan, task.id, 'in_progress');
+      emitTaskStatus(options, currentPlan, task.id);
       
       // Emit progress event
       agent.emit(AgentEvent.THINKING, { 
@@ -634,6 +680,11 @@ export class EnhancedPlanner implements PlannerInterface {
           // Execute the sub-plan
           const subResult = await this.executeHierarchicalPlan(subPlan, agent, options);
           
+          if (subResult.cancelled) {
+            currentPlan = { ...currentPlan, status: 'cancelled', updated: Date.now() };
+            break;
+          }
+          
           // Store the result
           results.push(subResult.response);
           
@@ -645,6 +696,7 @@ export class EnhancedPlanner implements PlannerInterface {
               'completed', 
               subResult.response
             );
+            emitTaskStatus(options, currentPlan, task.id);
           } else {
             // Otherwise, mark as failed
             currentPlan = this.updateTaskStatus(
@@ -654,6 +706,7 @@ export class EnhancedPlanner implements PlannerInterface {
               undefined, 
               `Sub-plan failed: ${subPlan.status}`
             );
+            emitTaskStatus(options, currentPlan, task.id);
             
             // Mark the plan as failed
             currentPlan = {
@@ -666,10 +719,15 @@ export class EnhancedPlanner implements PlannerInterface {
           }
         } else {
           // This is a leaf task, execute it directly
-          const taskResult = await agent.run({
-            ...options,
-            task: task.description,
-          });
+          const taskResult = await agent.run(createSubtaskOptions(options, task.description));
+          
+          if (taskResult.cancelled) {
+            currentPlan = this.updateTaskStatus(currentPlan, task.id, 'failed', 
+              taskResult.response, 'Cancelled');
+            emitTaskStatus(options, currentPlan, task.id);
+            currentPlan = { ...currentPlan, status: 'cancelled', updated: Date.now() };
+            break;
+          }
           
           // Store the result
           results.push(taskResult.response);
@@ -681,6 +739,7 @@ export class EnhancedPlanner implements PlannerInterface {
             'completed', 
             taskResult.response
           );
+          emitTaskStatus(options, currentPlan, task.id);
         }
         
         // Update progress
@@ -701,6 +760,7 @@ export class EnhancedPlanner implements PlannerInterface {
           undefined, 
           error instanceof Error ? error.message : String(error)
         );
+        emitTaskStatus(options, currentPlan, task.id);
         
         // Mark the plan as failed
         currentPlan = {
@@ -741,6 +801,11 @@ export class EnhancedPlanner implements PlannerInterface {
     // Start with hierarchical execution
     const result = await this.executeHierarchicalPlan(currentPlan, agent, options);
     
+    // Never replan a cancelled run
+    if (result.cancelled) {
+      return result;
+    }
+    
     // Check if we need to replan
     const needsReplan = await this.shouldReplan(currentPlan, agent);
     
@@ -779,7 +844,7 @@ export class EnhancedPlanner implements PlannerInterface {
       });
       
       // Create a revised plan
-      const revisedPlan = await this.replan(currentPlan, agent);
+      const revisedPlan = await this.replan(currentPlan, agent, { signal: options.signal, usageRunId: options.usageRunId });
       
       // Update the replan count
       revisedPlan.metadata = {
@@ -808,10 +873,11 @@ export class EnhancedPlanner implements PlannerInterface {
   private async executeTask(task: PlanTask, agent: Agent, options: RunOptions): Promise<string> {
     try {
       // Execute the task
-      const taskResult = await agent.run({
-        ...options,
-        task: task.description,
-      });
+      const taskResult = await agent.run(createSubtaskOptions(options, task.description));
+      
+      if (taskResult.cancelled) {
+        throw new AbortError(taskResult.cancelReason);
+      }
       
       return taskResult.response;
     } catch (error) {
@@ -912,9 +978,10 @@ export class EnhancedPlanner implements PlannerInterface {
    * 
    * @param originalPlan - The original plan that needs revision
    * @param agent - The agent creating the revised plan
+   * @param options - Optional planning configuration
    * @returns Promise resolving to the revised plan
    */
-  async replan(originalPlan: Plan, agent: Agent): Promise<Plan> {
+  async replan(originalPlan: Plan, agent: Agent, options?: PlanOptions): Promise<Plan> {
     // Extract data needed for replanning
     const originalTask = originalPlan.originalTask;
     
@@ -938,6 +1005,8 @@ export class EnhancedPlanner implements PlannerInterface {
     // Ask the LLM to revise the plan
     const replanResult = await agent.run({
       task: replanningPrompt,
+      signal: options?.signal,
+      usageRunId: options?.usageRunId
     });
     
     // Parse the response into a new plan
@@ -972,6 +1041,16 @@ export class EnhancedPlanner implements PlannerInterface {
    * @returns Promise resolving to the summary result
    */
   private async generateSummary(plan: Plan, agent: Agent, options: RunOptions): Promise<RunResult> {
+    // Return the partial results without a summary call if the run was cancelled
+    if (plan.status === 'cancelled') {
+      this.logger.info('Plan execution cancelled', { planId: plan.id });
+      const partialResults = plan.tasks
+        .filter(t => t.status === 'completed' && t.result)
+        .map(t => t.result)
+        .join('\n\n');
+      return createCancelledResult(partialResults, options.conversation, options.signal);
+    }
+    
     // Generate a summary prompt
     const summaryPrompt = `
       I've ${plan.status === 'completed' ? 'completed' : 'worked on'} the following complex task:
@@ -989,10 +1068,7 @@ export class EnhancedPlanner implements PlannerInterface {
     `;
     
     // Get the summary
-    const summary = await agent.run({
-      ...options,
-      task: summaryPrompt,
-    });
+    const summary = await agent.run(createSummaryOptions(options, summaryPrompt));
     
     this.logger.info('Plan execution completed', { 
       planId: plan.id, 
@@ -1003,6 +1079,8 @@ export class EnhancedPlanner implements PlannerInterface {
     return {
       response: summary.response,
       conversation: summary.conversation,
+      data: summary.data,
+      dataErrors: summary.dataErrors,
     };
   }
   
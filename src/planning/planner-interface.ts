@@ -27,7 +27,7 @@ export interface Plan {
   tasks: PlanTask[];
   created: number;
   updated: number;
-  status: 'created' | 'in_progress' | 'completed' | 'failed' | 'replanning';
+  status: 'created' | 'in_progress' | 'completed' | 'failed' | 'replanning' | 'cancelled';
   estimatedCompletionTime?: number; // Estimated completion timestamp
   progress?: number; // Progress percentage (0-100)
   metadata?: Record<string, any>; // Additional metadata for the plan
@@ -53,7 +53,9 @@ export interface PlanOptions {
   timeout?: number; // Overall timeout in milliseconds
   agents?: Agent[]; // Multiple agents for distributed task execution
   resourceConstraints?: Record<string, number>; // Resource limits
+  signal?: AbortSignal; // Cancels the planning model calls
   _skipPlanning?: boolean; // Internal flag to prevent recursion
+  usageRunId?: string; // Usage ledger run that planning calls are charged to
 }
 
 /**
@@ -75,8 +77,9 @@ export interface PlannerInterface {
    * 
    * @param plan - The plan to execute
    * @param agent - The agent executing the plan
-   * @param options - The original run options
-   * @returns Promise resolving to the execution result
+   * @param options - The original run options (options.signal cancels execution)
+   * @returns Promise resolving to the execution result; partial and flagged
+   *          as cancelled if options.signal aborts
    */
   executePlan(plan: Plan, agent: Agent, options: RunOptions): Promise<RunResult>;
   
@@ -112,7 +115,38 @@ export interface PlannerInterface {
    * 
    * @param originalPlan - The original plan that needs revision
    * @param agent - The agent creating the revised plan
+   * @param options - Optional planning configuration (options.signal cancels the model call)
    * @returns Promise resolving to the revised plan
    */
-  replan(originalPlan: Plan, agent: Agent): Promise<Plan>;
-}
\ No newline at end of file
+  replan(originalPlan: Plan, agent: Agent, options?: PlanOptions): Promise<Plan>;
+}
+
+/**
+ * Builds the run options for one step of a plan
+ *
+ * Steps answer in free text; the caller's response schema only applies to
+ * the final summary.
+ *
+ * @param options - The original run options
+ * @param task - Description of the step
+ * @returns Run options for the step
+ */
+export function createSubtaskOptions(options: RunOptions, task: string): RunOptions {
+  const { responseSchema, maxRepairAttempts, ...rest } = createSummaryOptions(options, task);
+  return rest;
+}
+
+/**
+ * Builds the run options for the summary of a plan
+ *
+ * Runs of a plan don't touch the caller's conversation; the outer run
+ * records the task and the summary in it.
+ *
+ * @param options - The original run options
+ * @param task - The summary prompt
+ * @returns Run options for the summary
+ */
+export function createSummaryOptions(options: RunOptions, task: string): RunOptions {
+  const { conversation, conversationId, ...rest } = options;
+  return { ...rest, task };
+}
@@ -1240,26 +1240,8 @@ export class TwitterConnector extends EventEmitter {
    * @returns Promise resolving to Grok's response
    */
   async askGrok(question: string, conversationId?: string): Promise<string> {
-    if (!this.connected || !this.scraper) {
-      throw new Error('Not connected to Twitter');
-    }
-    
     try {
-      // Check if grokChat method exists on the scraper
-      if (typeof (this.scraper as any).grokChat !== 'function') {
-        throw new Error('Grok integration is not available in this version of agent-twitter-client');
-      }
-      
-      // Call the grokChat method
-      const response = await (this.scraper as any).grokChat({
-        messages: [{ role: 'user', content: question }],
-        conversationId
-      }) as GrokResponse;
-      
-      if (response.rateLimit?.isRateLimited) {
-        this.logger.warn('Grok rate limited', { message: response.rateLimit.message });
-      }
-      
+      const response = await this.grokChat([{ role: 'user', content: question }], conversationId);
       return response.message;
     } catch (error) {
       this.logger.error('Error asking Grok', error);
@@ -1267,6 +1249,38 @@ export class TwitterConnector extends EventEmitter {
     }
   }
   
+  /**
+   * Sends a conversation to Twitter's Grok AI
+   * 
+   * @param messages - The conversation so far, ending with the user's turn
+   * @param conversationId - Optional existing conversation ID
+   * @returns Promise resolving to Grok's response, including the conversation ID
+   */
+  async grokChat(
+    messages: { role: 'user' | 'assistant', content: string }[],
+    conversationId?: string
+  ): Promise<GrokResponse> {
+    if (!this.connected || !this.scraper) {
+      throw new Error('Not connected to Twitter');
+    }
+    
+    // Check if grokChat method exists on the scraper
+    if (typeof (this.scraper as any).grokChat !== 'function') {
+      throw new Error('Grok integration is not available in this version of agent-twitter-client');
+    }
+    
+    const response = await (this.scraper as any).grokChat({
+      messages,
+      conversationId
+    }) as GrokResponse;
+    
+    if (response.rateLimit?.isRateLimited) {
+      this.logger.warn('Grok rate limited', { message: response.rateLimit.message });
+    }
+    
+    return response;
+  }
+  
   /**
    * Sets up monitoring for tweets
    * Polls periodically for new tweets from monitored users and keywords
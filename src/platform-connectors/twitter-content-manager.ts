@@ -971,10 +971,10 @@ export class TwitterContentManager {
     try {
       if ('runOperation' in this.agent) {
         // It's an AutonomousAgent
-        return await (this.agent as AutonomousAgent).runOperation(task);
+        return await (this.agent as AutonomousAgent).runOperation({ task, usageSource: 'twitter-content' });
       } else {
         // It's a regular Agent
-        return await (this.agent as Agent).run({ task });
+        return await (this.agent as Agent).run({ task, usageSource: 'twitter-content' });
       }
     } catch (error) {
       this.logger.error('Error running agent task', error);
@@ -1,6 +1,7 @@
 import { EventEmitter } from 'events';
 import { Agent } from '../core/agent';
 import { AgentSwarm } from '../core/agent-swarm';
+import { ContentPart } from '../core/types';
 import { Logger } from '../utils/logger';
 import { Scraper, SearchMode } from 'agent-twitter-client';
 
@@ -25,6 +26,7 @@ export interface TwitterDirectConnectorConfig {
   monitorMentions?: boolean;
   monitorReplies?: boolean;
   autoReply?: boolean;
+  replyWithMedia?: boolean; // Show tweet images to the agent when generating replies (default: true)
   
   // Poll interval in milliseconds (default: 60000 = 1 minute)
   pollInterval?: number;
@@ -132,7 +134,8 @@ export class TwitterDirectConnector extends EventEmitter {
       persistCookies: config.persistCookies || false,
       cookiesPath: config.cookiesPath || './twitter-cookies.json',
       monitorMentions: config.monitorMentions || false,
-      monitorReplies: config.monitorReplies || false
+      monitorReplies: config.monitorReplies || false,
+      replyWithMedia: config.replyWithMedia ?? true
     };
     this.logger = new Logger('TwitterDirectConnector');
   }
@@ -935,7 +938,7 @@ export class TwitterDirectConnector extends EventEmitter {
    * @returns The formatted Tweet object
    */
   private formatTweet(tweet: any): Tweet {
-    // Extract media URLs if available
+    // Extract media URLs if available (videos are represented by their preview image)
     const mediaUrls: string[] = [];
     if (tweet.media && Array.isArray(tweet.media)) {
       tweet.media.forEach((media: any) => {
@@ -944,6 +947,20 @@ export class TwitterDirectConnector extends EventEmitter {
         }
       });
     }
+    if (tweet.photos && Array.isArray(tweet.photos)) {
+      tweet.photos.forEach((photo: any) => {
+        if (photo.url) {
+          mediaUrls.push(photo.url);
+        }
+      });
+    }
+    if (tweet.videos && Array.isArray(tweet.videos)) {
+      tweet.videos.forEach((video: any) => {
+        if (video.preview) {
+          mediaUrls.push(video.preview);
+        }
+      });
+    }
     
     // Extract hashtags and mentions
     const hashtags: string[] = [];
@@ -1269,11 +1286,15 @@ export class TwitterDirectConnector extends EventEmitter {
         entities: tweet.entities
       };
       
+      // Let the agent see the tweet's images
+      const attachments = this.config.replyWithMedia ? this.getMediaAttachments(tweet) : [];
+      
       // Generate a response using the agent
-      this.logger.debug('Generating auto-reply using agent');
+      this.logger.debug('Generating auto-reply using agent', { mediaCount: attachments.length });
       const result = await agent.run({ 
+        attachments,
         task: `Generate a helpful, engaging reply to this tweet from @${tweet.author.username}:
-Tweet: "${tweet.text}"
+Tweet: "${tweet.text}"${attachments.length > 0 ? `\n(The tweet's ${attachments.length} attached image(s) are included below.)` : ''}
 
 Consider the following context about the tweet:
 ${JSON.stringify(tweetContext, null, 2)}
@@ -1302,6 +1323,19 @@ Do not include hashtags unless they add significant value.`
     }
   }
   
+  /**
+   * Builds image attachments for a tweet's media, for passing to an agent
+   * 
+   * @param tweet - The tweet
+   * @returns Image content parts (empty if the tweet has no media)
+   */
+  private getMediaAttachments(tweet: Tweet): ContentPart[] {
+    return (tweet.mediaUrls || []).map(url => ({
+      type: 'image' as const,
+      source: { type: 'url' as const, url }
+    }));
+  }
+  
   /**
    * Interacts with Grok through Twitter's interface
    * 
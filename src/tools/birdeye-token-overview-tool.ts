@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { Tool } from '../core/types';
+import { Tool, ToolExecutionContext } from '../core/types';
 import { Logger } from '../utils/logger';
 
 /**
@@ -137,9 +137,10 @@ export class BirdEyeTokenOverviewTool implements Tool {
    * Execute the BirdEye token overview fetch
    * 
    * @param params - Parameters for the API call
+   * @param context - Optional execution context with the cancellation signal
    * @returns Promise resolving to token overview data
    */
-  async execute(params: Record<string, any>): Promise<any> {
+  async execute(params: Record<string, any>, context?: ToolExecutionContext): Promise<any> {
     const { token, chain = 'solana' } = params;
 
     // Resolve token address from symbol if needed
@@ -160,7 +161,8 @@ export class BirdEyeTokenOverviewTool implements Tool {
             'X-API-KEY': this.apiKey,
             'accept': 'application/json',
             'x-chain': chain
-          }
+          },
+          signal: context?.signal
         }
       );
 
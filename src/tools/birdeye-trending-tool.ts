@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { Tool } from '../core/types';
+import { Tool, ToolExecutionContext } from '../core/types';
 import { Logger } from '../utils/logger';
 
 /**
@@ -66,9 +66,10 @@ export class BirdEyeTrendingTool implements Tool {
    * Execute the BirdEye trending tokens fetch
    * 
    * @param params - Parameters for the API call
+   * @param context - Optional execution context with the cancellation signal
    * @returns Promise resolving to trending tokens data
    */
-  async execute(params: Record<string, any>): Promise<any> {
+  async execute(params: Record<string, any>, context?: ToolExecutionContext): Promise<any> {
     const limit = Math.min(params.limit || 20, 20); // Cap at 20 results
     
     this.logger.debug('Executing BirdEye trending tokens fetch', { limit });
@@ -83,7 +84,8 @@ export class BirdEyeTrendingTool implements Tool {
             'X-API-KEY': this.apiKey,
             'accept': 'application/json',
             'x-chain': 'solana'
-          }
+          },
+          signal: context?.signal
         }
       );
       
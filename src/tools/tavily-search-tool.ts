@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { Tool } from '../core/types';
+import { Tool, ToolExecutionContext } from '../core/types';
 import { Logger } from '../utils/logger';
 
 /**
@@ -42,15 +42,18 @@ export class TavilySearchTool implements Tool {
       },
       maxResults: {
         type: 'number',
+        default: 5,
         description: 'Number of results to return (default: 5, max: 10)'
       },
       includeAnswer: {
         type: 'boolean',
+        default: false,
         description: 'Whether to include an AI-generated answer (default: false)'
       },
       searchDepth: {
         type: 'string',
         enum: ['basic', 'advanced'],
+        default: 'basic',
         description: 'Depth of search to perform (basic or advanced)'
       }
     },
@@ -75,9 +78,10 @@ export class TavilySearchTool implements Tool {
    * Execute the web search using Tavily API
    * 
    * @param params - Parameters for the search
+   * @param context - Optional execution context with the cancellation signal
    * @returns Promise resolving to search results
    */
-  async execute(params: Record<string, any>): Promise<any> {
+  async execute(params: Record<string, any>, context?: ToolExecutionContext): Promise<any> {
     const query = params.query as string;
     const maxResults = Math.min(params.maxResults || 5, 10); // Cap at 10 results
     const includeAnswer = params.includeAnswer || false;
@@ -99,7 +103,8 @@ export class TavilySearchTool implements Tool {
           headers: {
             'Content-Type': 'application/json',
             'Authorization': `Bearer ${this.apiKey}`
-          }
+          },
+          signal: context?.signal
         }
       );
       
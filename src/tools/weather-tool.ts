@@ -22,6 +22,7 @@ export class WeatherTool implements Tool {
       units: {
         type: 'string',
         enum: ['metric', 'imperial'],
+        default: 'metric',
         description: 'Units to use for temperature (metric = Celsius, imperial = Fahrenheit)'
       }
     },
@@ -21,6 +21,7 @@ export class WebSearchTool implements Tool {
       },
       numResults: {
         type: 'number',
+        default: 5,
         description: 'Number of results to return (default: 5)'
       }
     },
@@ -0,0 +1,498 @@
+/**
+ * Token usage and cost tracking for the Agentis framework
+ *
+ * Every model call made through an Agent (including calls made on its behalf
+ * by planners, swarms, the feedback system, the context manager's summarizer
+ * and the Twitter content manager) or a MemoryConsolidator given the ledger
+ * is recorded with its provider, model, token counts and estimated cost.
+ * Optional budgets stop runs gracefully once they are exceeded.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_MODEL_CATALOG, ModelCatalog } from '../core/model-catalog';
+import { AbortError } from '../utils/abort-utils';
+import { Logger } from '../utils/logger';
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * Default prices (USD per million tokens), matched by model name prefix
+ */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = Object.fromEntries(
+  Object.entries(DEFAULT_MODEL_CATALOG)
+    .filter(([, info]) => info.pricing)
+    .map(([prefix, info]) => [prefix, info.pricing!])
+);
+
+/**
+ * Limits for a run or a day; a limit is exceeded when usage goes above it
+ */
+export interface UsageLimit {
+  tokens?: number;        // Total (input + output) tokens
+  cost?: number;          // Estimated cost in USD
+}
+
+/**
+ * Budgets enforced by the ledger
+ */
+export interface UsageBudgets {
+  perRun?: UsageLimit;    // Applies to one top-level run, including nested planner and swarm calls
+  perDay?: UsageLimit;    // Applies to all calls recorded in a UTC day
+}
+
+/**
+ * Configuration for the usage ledger
+ */
+export interface UsageLedgerConfig {
+  pricing?: Record<string, ModelPricing>; // Merged over DEFAULT_MODEL_PRICING
+  budgets?: UsageBudgets;
+  storageFile?: string;   // Persists daily totals so per-day budgets survive restarts
+  retainDays?: number;    // Days of daily totals kept, including today (default: 7)
+  maxRecords?: number;    // Individual call records kept in memory (default: 10000)
+  onBudgetExceeded?: (event: BudgetExceededEvent) => void;
+}
+
+/**
+ * A model call to record
+ */
+export interface UsageEntry {
+  runId?: string;
+  agent: string;
+  provider: string;
+  model: string;
+  source?: string;        // What made the call, e.g. 'feedback' or 'twitter-content'
+  input: number;
+  output: number;
+}
+
+/**
+ * A recorded model call
+ */
+export interface UsageRecord extends UsageEntry {
+  id: string;
+  cost: number;           // Estimated cost in USD (0 for models without pricing)
+  timestamp: number;
+}
+
+/**
+ * Aggregated token counts and cost
+ */
+export interface UsageTotals {
+  calls: number;
+  input: number;
+  output: number;
+  total: number;
+  cost: number;
+}
+
+/**
+ * Usage totals with per provider/model breakdown
+ */
+export interface UsageSummary extends UsageTotals {
+  byModel: Record<string, UsageTotals>; // Keyed by "provider:model"
+}
+
+/**
+ * Filters for summarizing recorded usage
+ */
+export interface UsageFilter {
+  runId?: string;
+  agent?: string;
+  source?: string;
+  since?: number;
+  until?: number;
+}
+
+/**
+ * Details passed to onBudgetExceeded
+ */
+export interface BudgetExceededEvent {
+  scope: 'run' | 'day';
+  runId?: string;
+  reason: string;
+  usage: UsageTotals;
+}
+
+/**
+ * Abort reason used when a budget stops a run
+ */
+export class BudgetExceededError extends AbortError {
+  constructor(message: string, public readonly scope: 'run' | 'day') {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * A run being tracked against the per-run budget
+ */
+interface ActiveRun {
+  totals: UsageTotals;
+  abort?: (error: BudgetExceededError) => void;
+}
+
+/**
+ * Records model usage and enforces budgets
+ */
+export class UsageLedger {
+  private config: UsageLedgerConfig;
+  private pricing: Record<string, ModelPricing>;
+  private records: UsageRecord[] = [];
+  private dailyTotals: Record<string, UsageTotals> = {};
+  private activeRuns: Map<string, ActiveRun> = new Map();
+  private saving: Promise<void> = Promise.resolve();
+  private savePending = false;
+  private logger: Logger;
+
+  /**
+   * Creates a new usage ledger
+   *
+   * @param config - Ledger configuration
+   */
+  constructor(config: UsageLedgerConfig = {}) {
+    this.config = {
+      maxRecords: 10000,
+      retainDays: 7,
+      ...config
+    };
+    this.pricing = { ...DEFAULT_MODEL_PRICING, ...config.pricing };
+    this.logger = new Logger('UsageLedger');
+
+    this.load();
+  }
+
+  /**
+   * Starts tracking a top-level run against the per-run budget
+   *
+   * If the daily budget is already exhausted the abort callback is called
+   * immediately.
+   *
+   * @param abort - Called with a BudgetExceededError when a budget is exceeded
+   * @returns The run ID to pass to record()
+   */
+  beginRun(abort?: (error: BudgetExceededError) => void): string {
+    const runId = uuidv4();
+    this.activeRuns.set(runId, { totals: emptyTotals(), abort });
+
+    const dayReason = this.checkLimit(this.getDayTotals(), this.config.budgets?.perDay, 'Daily');
+    if (dayReason) {
+      this.exceed('day', dayReason, this.getDayTotals(), runId);
+    }
+
+    return runId;
+  }
+
+  /**
+   * Stops tracking a run
+   *
+   * @param runId - ID returned by beginRun()
+   * @returns Usage recorded for the run
+   */
+  endRun(runId: string): UsageSummary {
+    this.activeRuns.delete(runId);
+    return this.getSummary({ runId });
+  }
+
+  /**
+   * Records a model call and enforces budgets
+   *
+   * @param entry - The call to record
+   * @returns The stored record
+   */
+  record(entry: UsageEntry): UsageRecord {
+    const record: UsageRecord = {
+      ...entry,
+      id: uuidv4(),
+      cost: this.estimateCost(entry.model, entry.input, entry.output),
+      timestamp: Date.now()
+    };
+
+    this.records.push(record);
+    if (this.records.length > this.config.maxRecords!) {
+      this.records.splice(0, this.records.length - this.config.maxRecords!);
+    }
+
+    const day = dayKey(record.timestamp);
+    if (!this.dailyTotals[day]) {
+      this.pruneDailyTotals();
+    }
+    this.dailyTotals[day] = addTotals(this.dailyTotals[day] || emptyTotals(), record);
+    this.save();
+
+    const run = entry.runId ? this.activeRuns.get(entry.runId) : undefined;
+    if (run) {
+      run.totals = addTotals(run.totals, record);
+    }
+
+    this.logger.debug('Recorded usage', {
+      agent: record.agent,
+      model: record.model,
+      tokens: record.input + record.output,
+      cost: record.cost
+    });
+
+    this.enforceBudgets(entry.runId);
+    return record;
+  }
+
+  /**
+   * Estimates the cost of a call
+   *
+   * @param model - The model name
+   * @param input - Input tokens
+   * @param output - Output tokens
+   * @returns Estimated cost in USD (0 if the model has no known price)
+   */
+  estimateCost(model: string, input: number, output: number): number {
+    const pricing = this.getPricing(model);
+    if (!pricing) {
+      return 0;
+    }
+    return (input * pricing.input + output * pricing.output) / 1_000_000;
+  }
+
+  /**
+   * Sets or overrides the price of a model
+   *
+   * @param modelPrefix - Model name or prefix
+   * @param pricing - Price per million tokens
+   */
+  setPricing(modelPrefix: string, pricing: ModelPricing): void {
+    this.pricing[modelPrefix] = pricing;
+  }
+
+  /**
+   * Updates the budgets
+   *
+   * @param budgets - The new budgets
+   */
+  setBudgets(budgets: UsageBudgets): void {
+    this.config.budgets = budgets;
+  }
+
+  /**
+   * Summarizes recorded calls
+   *
+   * @param filter - Optional filters
+   * @returns Totals with a per provider/model breakdown
+   */
+  getSummary(filter: UsageFilter = {}): UsageSummary {
+    const summary: UsageSummary = { ...emptyTotals(), byModel: {} };
+
+    for (const record of this.getRecords(filter)) {
+      Object.assign(summary, addTotals(summary, record));
+      const key = `${record.provider}:${record.model}`;
+      summary.byModel[key] = addTotals(summary.byModel[key] || emptyTotals(), record);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Gets totals for a UTC day, including calls from previous processes when persisted
+   *
+   * @param date - Any time within the day (default: now)
+   * @returns The day's totals
+   */
+  getDayTotals(date: number = Date.now()): UsageTotals {
+    return { ...(this.dailyTotals[dayKey(date)] || emptyTotals()) };
+  }
+
+  /**
+   * Gets recorded calls
+   *
+   * @param filter - Optional filters
+   * @returns Matching records, oldest first
+   */
+  getRecords(filter: UsageFilter = {}): UsageRecord[] {
+    return this.records.filter(r =>
+      (!filter.runId || r.runId === filter.runId) &&
+      (!filter.agent || r.agent === filter.agent) &&
+      (!filter.source || r.source === filter.source) &&
+      (filter.since === undefined || r.timestamp >= filter.since) &&
+      (filter.until === undefined || r.timestamp <= filter.until)
+    );
+  }
+
+  /**
+   * Waits until the daily totals recorded so far are written to the storage file
+   *
+   * @returns Promise that resolves when pending writes have finished
+   */
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  /**
+   * Finds the price for a model by longest matching prefix
+   *
+   * Models without a configured price fall back to the model catalog, so
+   * models registered there at runtime are priced too.
+   *
+   * @param model - The model name
+   * @returns The pricing, or undefined if unknown
+   */
+  private getPricing(model: string): ModelPricing | undefined {
+    const match = Object.keys(this.pricing)
+      .filter(prefix => model.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0];
+    return match ? this.pricing[match] : ModelCatalog.getInstance().getModel(model)?.pricing;
+  }
+
+  /**
+   * Aborts runs whose budgets have been exceeded
+   *
+   * @param runId - The run that just recorded usage, if any
+   */
+  private enforceBudgets(runId?: string): void {
+    const budgets = this.config.budgets;
+    if (!budgets) {
+      return;
+    }
+
+    const dayTotals = this.getDayTotals();
+    const dayReason = this.checkLimit(dayTotals, budgets.perDay, 'Daily');
+    if (dayReason) {
+      // The daily budget is shared, so every active run stops
+      for (const id of Array.from(this.activeRuns.keys())) {
+        this.exceed('day', dayReason, dayTotals, id);
+      }
+      return;
+    }
+
+    const run = runId ? this.activeRuns.get(runId) : undefined;
+    const runReason = run ? this.checkLimit(run.totals, budgets.perRun, 'Run') : undefined;
+    if (run && runReason) {
+      this.exceed('run', runReason, run.totals, runId);
+    }
+  }
+
+  /**
+   * Checks totals against a limit
+   *
+   * @param totals - Usage so far
+   * @param limit - The limit to check
+   * @param label - Name of the budget for the message
+   * @returns A reason if the limit is exceeded
+   */
+  private checkLimit(totals: UsageTotals, limit: UsageLimit | undefined, label: string): string | undefined {
+    if (!limit) {
+      return undefined;
+    }
+    if (limit.tokens !== undefined && totals.total > limit.tokens) {
+      return `${label} token budget exceeded (${totals.total} > ${limit.tokens})`;
+    }
+    if (limit.cost !== undefined && totals.cost > limit.cost) {
+      return `${label} cost budget exceeded ($${totals.cost.toFixed(4)} > $${limit.cost})`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Reports an exceeded budget and aborts the affected run
+   */
+  private exceed(scope: 'run' | 'day', reason: string, usage: UsageTotals, runId?: string): void {
+    const run = runId ? this.activeRuns.get(runId) : undefined;
+    if (!run) {
+      return;
+    }
+
+    this.logger.warn(reason, { runId });
+    if (this.config.onBudgetExceeded) {
+      this.config.onBudgetExceeded({ scope, runId, reason, usage });
+    }
+
+    // Abort once; the run keeps being tracked until it ends
+    const abort = run.abort;
+    run.abort = undefined;
+    abort?.(new BudgetExceededError(reason, scope));
+  }
+
+  /**
+   * Drops daily totals older than the retention window
+   */
+  private pruneDailyTotals(): void {
+    const oldest = dayKey(Date.now() - (this.config.retainDays! - 1) * DAY_MS);
+    for (const day of Object.keys(this.dailyTotals)) {
+      if (day < oldest) {
+        delete this.dailyTotals[day];
+      }
+    }
+  }
+
+  /**
+   * Loads persisted daily totals
+   */
+  private load(): void {
+    if (!this.config.storageFile || !fs.existsSync(this.config.storageFile)) {
+      return;
+    }
+
+    try {
+      this.dailyTotals = JSON.parse(fs.readFileSync(this.config.storageFile, 'utf8')).dailyTotals || {};
+      this.pruneDailyTotals();
+    } catch (error) {
+      this.logger.error('Failed to load usage totals', error);
+    }
+  }
+
+  /**
+   * Persists daily totals
+   *
+   * Writes are serialized and coalesced: calls recorded while a write is
+   * queued are included in it, so a burst of calls costs one write. Each
+   * write goes to a temporary file first so a crash never leaves a truncated file.
+   *
+   * @returns Promise that resolves when the queued write has finished
+   */
+  private save(): Promise<void> {
+    if (!this.config.storageFile || this.savePending) {
+      return this.saving;
+    }
+
+    const storageFile = this.config.storageFile;
+    this.savePending = true;
+    this.saving = this.saving
+      .then(async () => {
+        this.savePending = false;
+        const data = JSON.stringify({ dailyTotals: this.dailyTotals }, null, 2);
+
+        await fs.promises.mkdir(path.dirname(storageFile), { recursive: true });
+        const tempPath = `${storageFile}.tmp`;
+        await fs.promises.writeFile(tempPath, data, 'utf8');
+        await fs.promises.rename(tempPath, storageFile);
+      })
+      .catch(error => {
+        this.logger.error('Failed to save usage totals', error);
+      });
+    return this.saving;
+  }
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, input: 0, output: 0, total: 0, cost: 0 };
+}
+
+function addTotals(totals: UsageTotals, record: UsageRecord): UsageTotals {
+  return {
+    calls: totals.calls + 1,
+    input: totals.input + record.input,
+    output: totals.output + record.output,
+    total: totals.total + record.input + record.output,
+    cost: totals.cost + record.cost
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dayKey(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
\ No newline at end of file
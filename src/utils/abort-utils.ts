@@ -0,0 +1,238 @@
+/**
+ * Cancellation and timeout helpers for the Agentis framework
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Conversation, RunResult } from '../core/types';
+
+/**
+ * Error raised when an operation is cancelled or exceeds its deadline
+ */
+export class AbortError extends Error {
+  constructor(message: string = 'Operation was cancelled', public readonly isTimeout: boolean = false) {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * A signal combined from a parent signal and an optional timeout
+ */
+export interface LinkedSignal {
+  signal: AbortSignal;
+  /** Aborts the linked signal without affecting the parent */
+  abort: (reason?: unknown) => void;
+  /** Clears the timer and detaches from the parent signal */
+  cleanup: () => void;
+}
+
+/**
+ * Creates a signal that aborts when the parent aborts or the timeout elapses
+ *
+ * @param parent - Optional parent signal to follow
+ * @param timeoutMs - Optional timeout in milliseconds
+ * @param label - Name used in the timeout error message
+ * @returns The linked signal and a cleanup function
+ */
+export function createLinkedSignal(
+  parent?: AbortSignal,
+  timeoutMs?: number,
+  label: string = 'Operation'
+): LinkedSignal {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+
+  const onParentAbort = () => controller.abort(parent?.reason ?? new AbortError());
+
+  if (parent) {
+    if (parent.aborted) {
+      onParentAbort();
+    } else {
+      parent.addEventListener('abort', onParentAbort, { once: true });
+    }
+  }
+
+  if (timeoutMs !== undefined && timeoutMs > 0 && !controller.signal.aborted) {
+    timer = setTimeout(() => {
+      controller.abort(new AbortError(`${label} timed out after ${timeoutMs}ms`, true));
+    }, timeoutMs);
+  }
+
+  return {
+    signal: controller.signal,
+    abort: (reason?: unknown) => {
+      if (!controller.signal.aborted) {
+        controller.abort(reason ?? new AbortError());
+      }
+    },
+    cleanup: () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      parent?.removeEventListener('abort', onParentAbort);
+    }
+  };
+}
+
+/**
+ * Races a promise against a signal, rejecting with an AbortError on abort
+ *
+ * The underlying work is not stopped unless it observes the signal itself;
+ * this only guarantees the caller is released.
+ *
+ * @param promise - The promise to race
+ * @param signal - Optional signal to observe
+ * @returns Promise resolving to the original result
+ */
+export function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  if (signal.aborted) {
+    // Avoid unhandled rejections from the abandoned promise
+    promise.catch(() => undefined);
+    return Promise.reject(toAbortError(signal.reason));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(toAbortError(signal.reason));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Runs an operation with its own timeout, linked to a parent signal
+ *
+ * @param operation - The operation to run; receives the linked signal
+ * @param timeoutMs - Optional timeout in milliseconds
+ * @param parent - Optional parent signal
+ * @param label - Name used in the timeout error message
+ * @returns Promise resolving to the operation's result
+ */
+export async function runWithTimeout<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs?: number,
+  parent?: AbortSignal,
+  label?: string
+): Promise<T> {
+  const linked = createLinkedSignal(parent, timeoutMs, label);
+
+  try {
+    return await raceWithSignal(operation(linked.signal), linked.signal);
+  } finally {
+    linked.cleanup();
+  }
+}
+
+/**
+ * Waits for a number of milliseconds, rejecting early if the signal aborts
+ *
+ * @param ms - Time to wait in milliseconds
+ * @param signal - Optional signal that cancels the wait
+ * @returns Promise resolving after the delay
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(toAbortError(signal.reason));
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(toAbortError(signal!.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Throws an AbortError if the signal has been aborted
+ *
+ * @param signal - Optional signal to check
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw toAbortError(signal.reason);
+  }
+}
+
+/**
+ * Checks if an error represents a cancellation
+ *
+ * @param error - The error to check
+ * @returns True for AbortErrors and SDK user-abort errors
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof AbortError ||
+    (error instanceof Error && (error.name === 'AbortError' || error.constructor.name === 'APIUserAbortError'));
+}
+
+/**
+ * Describes why a signal was aborted
+ *
+ * @param signal - The aborted signal
+ * @returns A human-readable reason
+ */
+export function getAbortReason(signal?: AbortSignal): string {
+  const reason = signal?.reason;
+  if (reason instanceof Error) {
+    return reason.message;
+  }
+  return reason !== undefined ? String(reason) : 'Operation was cancelled';
+}
+
+/**
+ * Builds a partial result for a run that was cancelled
+ *
+ * @param response - Whatever response text was produced before cancellation
+ * @param conversation - The conversation so far, if any
+ * @param signal - The aborted signal, used for the reason
+ * @returns A RunResult flagged as cancelled
+ */
+export function createCancelledResult(
+  response: string,
+  conversation: Conversation | undefined,
+  signal?: AbortSignal
+): RunResult {
+  return {
+    response,
+    conversation: conversation || {
+      id: uuidv4(),
+      messages: [],
+      created: Date.now(),
+      updated: Date.now(),
+      metadata: {}
+    },
+    cancelled: true,
+    cancelReason: getAbortReason(signal)
+  };
+}
+
+/**
+ * Converts an abort reason into an AbortError
+ *
+ * @param reason - The signal's abort reason
+ * @returns The reason if it is already an AbortError, otherwise a new one
+ */
+export function toAbortError(reason: unknown): AbortError {
+  if (reason instanceof AbortError) {
+    return reason;
+  }
+  return new AbortError(reason instanceof Error ? reason.message : 'Operation was cancelled');
+}
\ No newline at end of file
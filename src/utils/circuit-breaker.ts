@@ -0,0 +1,144 @@
+/**
+ * Circuit breaker for calls to an unreliable dependency
+ */
+
+/**
+ * State of a circuit breaker
+ *
+ * - closed: calls go through
+ * - open: calls are rejected until the cooldown has passed
+ * - half-open: one trial call is allowed; success closes the circuit, failure reopens it
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Configuration for a circuit breaker
+ */
+export interface CircuitBreakerConfig {
+  failureThreshold?: number; // Consecutive failures that open the circuit (default: 3)
+  cooldownMs?: number;       // How long the circuit stays open before a trial call (default: 30000)
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+/**
+ * Tracks consecutive failures and stops calls while a dependency is failing
+ */
+export class CircuitBreaker {
+  private config: Required<Omit<CircuitBreakerConfig, 'onStateChange'>> & CircuitBreakerConfig;
+  private state: CircuitState = 'closed';
+  private failures: number = 0;
+  private openedAt: number = 0;
+  private trialInFlight: boolean = false;
+
+  /**
+   * Creates a new circuit breaker
+   *
+   * @param config - Thresholds and callbacks
+   */
+  constructor(config: CircuitBreakerConfig = {}) {
+    this.config = {
+      failureThreshold: 3,
+      cooldownMs: 30000,
+      ...config
+    };
+  }
+
+  /**
+   * Checks whether a call may go through, moving to half-open after the cooldown
+   *
+   * @returns True if the call is allowed
+   */
+  canRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.config.cooldownMs) {
+      this.setState('half-open');
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Records a successful call and closes the circuit
+   */
+  recordSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+    this.setState('closed');
+  }
+
+  /**
+   * Records a failed call, opening the circuit at the threshold or after a failed trial
+   */
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || this.failures >= this.config.failureThreshold) {
+      this.openedAt = Date.now();
+      this.setState('open');
+    }
+  }
+
+  /**
+   * Ends a half-open trial whose outcome says nothing about the dependency
+   * (e.g. the caller cancelled), so the next call can be the trial
+   *
+   * Does nothing if the outcome was already recorded.
+   */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Gets the current state
+   *
+   * @returns The circuit state
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.config.cooldownMs) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  /**
+   * Gets the time until an open circuit allows a trial call
+   *
+   * @returns Milliseconds remaining (0 if calls are allowed)
+   */
+  getRemainingCooldown(): number {
+    if (this.state !== 'open') {
+      return 0;
+    }
+    return Math.max(0, this.openedAt + this.config.cooldownMs - Date.now());
+  }
+
+  /**
+   * Closes the circuit and clears the failure count
+   */
+  reset(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+    this.setState('closed');
+  }
+
+  /**
+   * Changes state and reports the transition
+   *
+   * @param state - The new state
+   */
+  private setState(state: CircuitState): void {
+    if (state === this.state) {
+      return;
+    }
+    const previous = this.state;
+    this.state = state;
+    this.config.onStateChange?.(state, previous);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,174 @@
+/**
+ * Helpers for typed run events and turning them into an AsyncIterable
+ */
+
+import { AbortError } from './abort-utils';
+import { RunOptions } from '../core/types';
+import { GenerateOptions, GenerateResult, ProviderStreamEvent } from '../core/provider-interface';
+
+/**
+ * Minimal shape shared by planner and swarm plans
+ */
+interface StatusPlan {
+  id: string;
+  tasks: {
+    id: string;
+    description: string;
+    status: 'pending' | 'in_progress' | 'completed' | 'failed';
+    agentId?: string;
+    result?: string;
+    error?: string;
+  }[];
+}
+
+/**
+ * Reports a task's current status through RunOptions.onEvent
+ *
+ * @param options - The run options carrying the event callback
+ * @param plan - The plan containing the task (after the status update)
+ * @param taskId - ID of the task that changed
+ */
+export function emitTaskStatus(options: RunOptions, plan: StatusPlan, taskId: string): void {
+  const task = plan.tasks.find(t => t.id === taskId);
+  if (!task || !options.onEvent) {
+    return;
+  }
+
+  options.onEvent({
+    type: 'task_status',
+    planId: plan.id,
+    taskId: task.id,
+    description: task.description,
+    status: task.status,
+    agentId: task.agentId,
+    result: task.result,
+    error: task.error
+  });
+}
+
+/**
+ * Describes a complete generation result as provider stream events
+ *
+ * @param result - A result that was produced without streaming
+ * @returns One text delta for the whole message and one start/delta pair per tool call
+ */
+export function resultToStreamEvents(result: GenerateResult): ProviderStreamEvent[] {
+  const events: ProviderStreamEvent[] = [];
+  if (result.message) {
+    events.push({ type: 'text_delta', text: result.message });
+  }
+  for (const tc of result.toolCalls || []) {
+    events.push({ type: 'tool_call_start', id: tc.id!, name: tc.name });
+    events.push({ type: 'tool_call_delta', id: tc.id!, argsDelta: JSON.stringify(tc.parameters) });
+  }
+  return events;
+}
+
+/**
+ * Feeds provider stream events to the stream callbacks of GenerateOptions
+ *
+ * Used by providers that return a stored or emulated response but must still
+ * behave like a streaming provider.
+ *
+ * @param events - The events to emit, in order
+ * @param message - The final message text, reported with done = true
+ * @param options - Generation options holding the callbacks
+ */
+export function emitProviderStream(events: ProviderStreamEvent[], message: string, options: GenerateOptions): void {
+  let text = '';
+  for (const event of events) {
+    options.onStreamEvent?.(event);
+    if (event.type === 'text_delta') {
+      text += event.text;
+      options.onPartialResponse?.(text, false);
+    }
+  }
+  options.onPartialResponse?.(message, true);
+}
+
+/**
+ * Creates an async iterable fed by a producer function
+ *
+ * The producer starts when iteration begins. Events are buffered until the
+ * consumer reads them; the iterable ends when the producer resolves and
+ * rethrows if it rejects. Leaving the loop early (break/return) aborts the
+ * signal passed to the producer.
+ *
+ * @param producer - Emits events; receives a signal that aborts if the consumer stops early
+ * @param parentSignal - Optional caller signal that also aborts the producer
+ * @returns An async iterable of the emitted events
+ */
+export function createEventStream<E>(
+  producer: (emit: (event: E) => void, signal: AbortSignal) => Promise<void>,
+  parentSignal?: AbortSignal
+): AsyncIterable<E> {
+  return {
+    [Symbol.asyncIterator](): AsyncIterator<E> {
+      // Aborted by the caller's signal or when the consumer stops iterating
+      const controller = new AbortController();
+      const onParentAbort = () => controller.abort(parentSignal?.reason);
+      if (parentSignal?.aborted) {
+        onParentAbort();
+      } else {
+        parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+      }
+      const detach = () => parentSignal?.removeEventListener('abort', onParentAbort);
+
+      const buffer: E[] = [];
+      let finished = false;
+      let failure: { error: unknown } | undefined;
+      let wake: (() => void) | undefined;
+
+      const notify = () => {
+        const resolve = wake;
+        wake = undefined;
+        resolve?.();
+      };
+
+      producer(event => {
+        if (!finished) {
+          buffer.push(event);
+          notify();
+        }
+      }, controller.signal)
+        .catch(error => {
+          failure = { error };
+        })
+        .finally(() => {
+          finished = true;
+          detach();
+          notify();
+        });
+
+      return {
+        async next(): Promise<IteratorResult<E>> {
+          while (buffer.length === 0 && !finished) {
+            await new Promise<void>(resolve => {
+              wake = resolve;
+            });
+          }
+
+          if (buffer.length > 0) {
+            return { value: buffer.shift()!, done: false };
+          }
+          if (failure) {
+            const { error } = failure;
+            failure = undefined;
+            throw error;
+          }
+          return { value: undefined, done: true };
+        },
+
+        async return(): Promise<IteratorResult<E>> {
+          if (!finished) {
+            controller.abort(new AbortError('Stream consumer stopped iterating'));
+          }
+          finished = true;
+          buffer.length = 0;
+          detach();
+          return { value: undefined, done: true };
+        }
+      };
+    }
+  };
+}
\ No newline at end of file
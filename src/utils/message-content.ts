@@ -0,0 +1,134 @@
+/**
+ * Helpers for multimodal message content
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ContentPart, MediaSource, MessageContent } from '../core/types';
+
+/**
+ * Rough token cost of an image or document part, used when estimating context usage
+ */
+export const MEDIA_PART_TOKEN_ESTIMATE = 1600;
+
+/**
+ * Media types inferred from file extensions
+ */
+const MEDIA_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/plain'
+};
+
+/**
+ * A media source with its bytes available, ready to send to a provider
+ */
+export type ResolvedMedia =
+  | { type: 'url'; url: string; mediaType?: string }
+  | { type: 'base64'; data: string; mediaType: string };
+
+/**
+ * Gets the text of message content, dropping image and document parts
+ *
+ * @param content - The message content
+ * @returns The text parts joined by newlines
+ */
+export function getTextContent(content: MessageContent): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .filter((part): part is Extract<ContentPart, { type: 'text' }> => part.type === 'text')
+    .map(part => part.text)
+    .join('\n');
+}
+
+/**
+ * Checks whether message content carries images or documents
+ *
+ * @param content - The message content
+ * @returns True if any part is not text
+ */
+export function hasMediaParts(content: MessageContent): boolean {
+  return typeof content !== 'string' && content.some(part => part.type !== 'text');
+}
+
+/**
+ * Appends parts to message content, converting plain text to a text part
+ *
+ * @param content - The existing content
+ * @param parts - Parts to append
+ * @returns The combined content (unchanged if there are no parts)
+ */
+export function appendContentParts(content: MessageContent, parts: ContentPart[]): MessageContent {
+  if (parts.length === 0) {
+    return content;
+  }
+  const existing: ContentPart[] = typeof content === 'string'
+    ? (content ? [{ type: 'text', text: content }] : [])
+    : content;
+  return [...existing, ...parts];
+}
+
+/**
+ * Guesses a media type from a file name or URL
+ *
+ * @param location - File path or URL
+ * @returns The media type, or undefined if the extension is unknown
+ */
+export function guessMediaType(location: string): string | undefined {
+  const pathname = /^https?:\/\//i.test(location) ? new URL(location).pathname : location;
+  return MEDIA_TYPES[path.extname(pathname).toLowerCase()];
+}
+
+/**
+ * Loads local files so every source is either a URL or base64 data
+ *
+ * @param source - The media source
+ * @param inlineUrls - Download URL sources too, for APIs that only accept inline data
+ * @returns Promise resolving to the resolved source
+ */
+export async function resolveMediaSource(source: MediaSource, inlineUrls: boolean = false): Promise<ResolvedMedia> {
+  switch (source.type) {
+    case 'url': {
+      if (!inlineUrls) {
+        return { type: 'url', url: source.url, mediaType: guessMediaType(source.url) };
+      }
+      const response = await fetch(source.url);
+      if (!response.ok) {
+        throw new Error(`Failed to download ${source.url}: ${response.status} ${response.statusText}`);
+      }
+      const mediaType = response.headers.get('content-type')?.split(';')[0] || guessMediaType(source.url);
+      if (!mediaType) {
+        throw new Error(`Cannot determine the media type of ${source.url}`);
+      }
+      const data = Buffer.from(await response.arrayBuffer()).toString('base64');
+      return { type: 'base64', data, mediaType };
+    }
+    case 'base64':
+      return source;
+    case 'file': {
+      const mediaType = source.mediaType || guessMediaType(source.path);
+      if (!mediaType) {
+        throw new Error(`Cannot determine the media type of ${source.path}; set mediaType explicitly`);
+      }
+      const data = await fs.promises.readFile(source.path);
+      return { type: 'base64', data: data.toString('base64'), mediaType };
+    }
+  }
+}
+
+/**
+ * Builds a data URL from base64 data
+ *
+ * @param media - Base64 media
+ * @returns The data URL
+ */
+export function toDataUrl(media: { data: string; mediaType: string }): string {
+  return `data:${media.mediaType};base64,${media.data}`;
+}
\ No newline at end of file
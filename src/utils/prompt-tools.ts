@@ -0,0 +1,125 @@
+/**
+ * Prompt-based tool calling for models without native tool support
+ *
+ * Tools are described in the system prompt, the model answers with a JSON
+ * object naming the calls, and tool calls and results in the history are
+ * rewritten as plain text turns.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Message, Tool } from '../core/types';
+import { ToolCall } from '../core/provider-interface';
+import { extractJson } from './structured-output';
+import { getTextContent } from './message-content';
+
+/**
+ * Rewrites tool calls and tool results as plain messages
+ *
+ * @param messages - The conversation messages
+ * @returns Messages using only system, user and assistant roles
+ */
+export function toolMessagesToText(messages: Message[]): Message[] {
+  const converted: Message[] = [];
+
+  for (const msg of messages) {
+    if (msg.role === 'tool') {
+      const text = `Result of tool "${msg.name || 'unknown'}"${msg.isError ? ' (failed)' : ''}:\n${getTextContent(msg.content)}`;
+      const previous = converted[converted.length - 1];
+
+      // Keep consecutive results in one user turn
+      if (previous && previous.role === 'user' && previous.metadata?.toolResults) {
+        previous.content = `${getTextContent(previous.content)}\n\n${text}`;
+      } else {
+        converted.push({ role: 'user', content: text, metadata: { toolResults: true } });
+      }
+    } else if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+      const calls = JSON.stringify({
+        tool_calls: msg.toolCalls.map(tc => ({ name: tc.name, arguments: tc.parameters }))
+      });
+      const text = getTextContent(msg.content);
+      converted.push({ ...msg, content: text ? `${text}\n${calls}` : calls, toolCalls: undefined });
+    } else {
+      converted.push(msg);
+    }
+  }
+
+  return converted;
+}
+
+/**
+ * Describes the available tools and the expected call format
+ *
+ * @param tools - The available tools
+ * @returns Instructions for the system prompt
+ */
+export function buildToolInstructions(tools: Tool[]): string {
+  const descriptions = tools.map(tool =>
+    `- ${tool.name}: ${tool.description}\n  Arguments (JSON Schema): ${JSON.stringify(tool.schema)}`
+  ).join('\n');
+
+  return `You can use the following tools:
+${descriptions}
+
+To use tools, reply with only a JSON object in this exact form and nothing else:
+{"tool_calls": [{"name": "<tool name>", "arguments": {<arguments>}}]}
+You will receive the results in the next message. If you do not need a tool, answer normally.`;
+}
+
+/**
+ * Asks for a final answer in JSON matching a schema
+ *
+ * @param schema - The JSON Schema of the answer
+ * @returns Instructions for the system prompt
+ */
+export function buildSchemaInstructions(schema: Record<string, any>): string {
+  return `When you give your final answer, reply with only JSON matching this JSON Schema:\n${JSON.stringify(schema, null, 2)}`;
+}
+
+/**
+ * Merges instructions into the leading system message
+ *
+ * Many chat templates accept only one system message, at the start.
+ *
+ * @param messages - The conversation messages
+ * @param instructions - Text to add
+ * @returns Messages with the instructions in the first system message
+ */
+export function addSystemInstructions(messages: Message[], instructions: string): Message[] {
+  if (messages.length > 0 && messages[0].role === 'system') {
+    return [
+      { ...messages[0], content: `${getTextContent(messages[0].content)}\n\n${instructions}` },
+      ...messages.slice(1)
+    ];
+  }
+  return [{ role: 'system', content: instructions }, ...messages];
+}
+
+/**
+ * Parses prompt-based tool calls from a model answer
+ *
+ * Accepts {"tool_calls": [...]}, a bare array of calls, or a single
+ * {"name", "arguments"} object, as smaller models often drift between them.
+ *
+ * @param text - The model's answer
+ * @param tools - The available tools
+ * @returns The tool calls found (empty if the answer is not a tool call)
+ */
+export function parseToolCalls(text: string, tools: Tool[]): ToolCall[] {
+  const parsed = extractJson(text);
+  if (!parsed || typeof parsed !== 'object') {
+    return [];
+  }
+
+  const candidates: any[] = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray(parsed.tool_calls) ? parsed.tool_calls : [parsed];
+  const toolNames = new Set(tools.map(tool => tool.name));
+
+  return candidates
+    .filter(call => call && typeof call.name === 'string' && toolNames.has(call.name))
+    .map(call => ({
+      id: `call_${uuidv4()}`,
+      name: call.name,
+      parameters: call.arguments ?? call.parameters ?? {}
+    }));
+}
\ No newline at end of file
@@ -74,6 +74,22 @@ Please help me create a ${strategy} plan by:
 Please format your response as a structured plan with clear steps that I can follow.`;
 }
 
+/**
+ * Response schema for planning prompts that return a flat list of steps
+ */
+export const TASK_LIST_SCHEMA = {
+  type: 'object',
+  properties: {
+    tasks: {
+      type: 'array',
+      description: 'The steps of the plan, in execution order',
+      items: { type: 'string', minLength: 1 },
+      minItems: 1
+    }
+  },
+  required: ['tasks']
+};
+
 /**
  * Creates an enhanced hierarchical planning prompt
  * 
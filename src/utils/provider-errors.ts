@@ -0,0 +1,102 @@
+/**
+ * Classification of errors raised by LLM providers
+ */
+
+/**
+ * Network error codes that indicate a transient connection problem
+ */
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET'
+]);
+
+/**
+ * Gets the HTTP status of a provider error, if it has one
+ *
+ * @param error - The error raised by a provider SDK
+ * @returns The status code, or undefined
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as any)?.status ?? (error as any)?.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Checks whether a provider error is worth retrying or failing over
+ *
+ * Rate limits (429), request timeouts (408), lock conflicts (409), server
+ * errors (5xx, including Anthropic's 529 "overloaded"), timeouts and
+ * connection failures are retryable. Cancellations and other client errors
+ * are not.
+ *
+ * @param error - The error raised by a provider SDK
+ * @returns True if the request may succeed when repeated
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  // AbortErrors created for our own timeouts carry isTimeout
+  if ((error as any).isTimeout === true) {
+    return true;
+  }
+
+  const name = error.constructor.name;
+  if (name === 'APIConnectionTimeoutError' || name === 'APIConnectionError') {
+    return true;
+  }
+
+  const code = (error as any).code ?? (error as any).cause?.code;
+  return typeof code === 'string' && RETRYABLE_ERROR_CODES.has(code);
+}
+
+/**
+ * Gets how long the provider asked us to wait before retrying
+ *
+ * Reads the `retry-after-ms` and `retry-after` headers (seconds or an HTTP
+ * date) that rate limit and overload responses carry.
+ *
+ * @param error - The error raised by a provider SDK
+ * @returns The delay in milliseconds, or undefined if the error has none
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const headers = (error as any)?.headers ?? (error as any)?.response?.headers;
+  if (!headers) {
+    return undefined;
+  }
+
+  const read = (name: string): string | undefined => {
+    const value = typeof headers.get === 'function' ? headers.get(name) : headers[name];
+    return value === null || value === undefined ? undefined : String(value);
+  };
+
+  const retryAfterMs = Number(read('retry-after-ms'));
+  if (read('retry-after-ms') !== undefined && Number.isFinite(retryAfterMs)) {
+    return Math.max(0, retryAfterMs);
+  }
+
+  const retryAfter = read('retry-after');
+  if (retryAfter === undefined) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
\ No newline at end of file
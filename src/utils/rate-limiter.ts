@@ -0,0 +1,387 @@
+/**
+ * Client-side rate limiting and retries for LLM provider requests
+ *
+ * Requests wait in a FIFO queue until both a requests-per-minute and a
+ * tokens-per-minute bucket have capacity. Limiters are shared per provider
+ * endpoint and API key, so every agent using the same account draws from the
+ * same budget, and a `retry-after` from one request pauses all of them.
+ */
+
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { Message, Tool } from '../core/types';
+import { estimateMessageTokens, estimateToolTokens } from '../core/context-manager';
+import { isAbortError, sleep, toAbortError } from './abort-utils';
+import { getErrorStatus, getRetryAfterMs, isRetryableError } from './provider-errors';
+import { Logger } from './logger';
+
+/**
+ * Request and token budgets for one provider account
+ */
+export interface RateLimits {
+  requestsPerMinute?: number; // Omitted means unlimited
+  tokensPerMinute?: number;   // Input plus maximum output tokens; omitted means unlimited
+}
+
+/**
+ * Events emitted by a rate limiter
+ */
+export enum RateLimiterEvent {
+  QUEUED = 'queued',     // A request has to wait: { key, queueDepth, tokens, estimatedWaitMs }
+  ACQUIRED = 'acquired', // A request may be sent: { key, queueDepth, tokens, waitMs }
+  RETRY = 'retry',       // A request failed and will be retried: { key, attempt, delayMs, status?, error }
+  PAUSED = 'paused'      // The provider asked us to back off: { key, durationMs }
+}
+
+/**
+ * Options for a scheduled request
+ */
+export interface ScheduleOptions {
+  tokens?: number;        // Estimated tokens the request will use (default: 0)
+  signal?: AbortSignal;   // Cancels waiting and retries
+  maxRetries?: number;    // Retries on rate limits, server errors and timeouts (default: 3)
+}
+
+/**
+ * Current state of a rate limiter
+ */
+export interface RateLimiterStats {
+  key: string;
+  queueDepth: number;
+  availableRequests: number; // Infinity when unlimited
+  availableTokens: number;   // Infinity when unlimited
+  pausedForMs: number;
+}
+
+/**
+ * Backoff used when the provider gives no retry-after
+ */
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * A bucket that refills continuously up to a per-minute capacity
+ */
+class TokenBucket {
+  private level: number;
+  private updated: number = Date.now();
+
+  constructor(private perMinute: number) {
+    this.level = perMinute;
+  }
+
+  /** Time in milliseconds until the bucket holds the amount (capped at capacity) */
+  timeUntil(amount: number): number {
+    this.refill();
+    const needed = Math.min(amount, this.perMinute) - this.level;
+    return needed <= 0 ? 0 : Math.ceil(needed / (this.perMinute / 60000));
+  }
+
+  take(amount: number): void {
+    this.refill();
+    this.level -= Math.min(amount, this.perMinute);
+  }
+
+  /** Returns (or charges) the difference between estimated and actual usage */
+  adjust(delta: number): void {
+    this.refill();
+    this.level = Math.min(this.perMinute, this.level + delta);
+  }
+
+  available(): number {
+    this.refill();
+    return Math.max(0, Math.floor(this.level));
+  }
+
+  setRate(perMinute: number): void {
+    this.refill();
+    this.level = Math.min(this.level, perMinute);
+    this.perMinute = perMinute;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.level = Math.min(this.perMinute, this.level + (now - this.updated) * (this.perMinute / 60000));
+    this.updated = now;
+  }
+}
+
+/**
+ * A request waiting for capacity
+ */
+interface Waiter {
+  tokens: number;
+  enqueued: number;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Token-bucket limiter with a retry policy for one provider account
+ */
+export class RateLimiter extends EventEmitter {
+  readonly key: string;
+  private requestBucket?: TokenBucket;
+  private tokenBucket?: TokenBucket;
+  private queue: Waiter[] = [];
+  private pausedUntil: number = 0;
+  private timer?: NodeJS.Timeout;
+  private logger: Logger;
+
+  /**
+   * Creates a new rate limiter
+   *
+   * @param key - Name used in events and logs
+   * @param limits - Request and token budgets
+   */
+  constructor(key: string, limits: RateLimits = {}) {
+    super();
+    this.key = key;
+    this.logger = new Logger(`RateLimiter:${key}`);
+    this.setLimits(limits);
+  }
+
+  /**
+   * Runs a request once capacity is available, retrying retryable failures
+   *
+   * A `retry-after` on the failure pauses the whole limiter; otherwise the
+   * request backs off exponentially with jitter.
+   *
+   * @param operation - Sends the request
+   * @param options - Token estimate, signal and retry count
+   * @returns Promise resolving to the operation's result
+   */
+  async schedule<T>(operation: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const maxRetries = options.maxRetries ?? 3;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(options.tokens || 0, options.signal);
+
+      try {
+        return await operation();
+      } catch (error) {
+        if (isAbortError(error) || options.signal?.aborted || attempt >= maxRetries || !isRetryableError(error)) {
+          throw error;
+        }
+
+        const retryAfter = getRetryAfterMs(error);
+        const delayMs = retryAfter ?? Math.min(
+          MAX_RETRY_DELAY_MS,
+          BASE_RETRY_DELAY_MS * Math.pow(2, attempt) * (0.5 + Math.random() / 2)
+        );
+        const status = getErrorStatus(error);
+
+        this.logger.warn(`Request failed${status ? ` with status ${status}` : ''}, retry ${attempt + 1}/${maxRetries} in ${Math.round(delayMs)}ms`);
+        this.emit(RateLimiterEvent.RETRY, { key: this.key, attempt: attempt + 1, delayMs, status, error });
+
+        if (retryAfter !== undefined) {
+          // The limit applies to the whole account, so hold every queued request
+          this.pause(retryAfter);
+        } else {
+          await sleep(delayMs, options.signal);
+        }
+      }
+    }
+  }
+
+  /**
+   * Waits until a request with the given token estimate may be sent
+   *
+   * @param tokens - Estimated tokens the request will use
+   * @param signal - Optional signal that cancels the wait
+   * @returns Promise resolving once capacity has been taken
+   */
+  acquire(tokens: number = 0, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(toAbortError(signal.reason));
+    }
+
+    if (this.queue.length === 0 && this.getWaitTime(tokens) === 0) {
+      this.take(tokens);
+      this.emit(RateLimiterEvent.ACQUIRED, { key: this.key, queueDepth: 0, tokens, waitMs: 0 });
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = { tokens, enqueued: Date.now(), resolve, reject, signal };
+
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter(w => w !== waiter);
+          reject(toAbortError(signal.reason));
+          this.pump();
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      this.queue.push(waiter);
+      const queuedTokens = this.queue.reduce((sum, w) => sum + w.tokens, 0);
+      const estimatedWaitMs = this.getWaitTime(queuedTokens, this.queue.length);
+      this.logger.debug(`Request queued (depth ${this.queue.length}, ~${estimatedWaitMs}ms)`);
+      this.emit(RateLimiterEvent.QUEUED, { key: this.key, queueDepth: this.queue.length, tokens, estimatedWaitMs });
+      this.pump();
+    });
+  }
+
+  /**
+   * Corrects the token budget once a request's actual usage is known
+   *
+   * @param estimated - Tokens reserved when the request was scheduled
+   * @param actual - Tokens the request actually used
+   */
+  settle(estimated: number, actual: number): void {
+    if (this.tokenBucket && actual > 0) {
+      this.tokenBucket.adjust(estimated - actual);
+      this.pump();
+    }
+  }
+
+  /**
+   * Holds all requests for a while, e.g. after a 429 with retry-after
+   *
+   * @param durationMs - How long to pause in milliseconds
+   */
+  pause(durationMs: number): void {
+    const until = Date.now() + durationMs;
+    if (until > this.pausedUntil) {
+      this.pausedUntil = until;
+      this.emit(RateLimiterEvent.PAUSED, { key: this.key, durationMs });
+    }
+    this.pump();
+  }
+
+  /**
+   * Changes the request and token budgets
+   *
+   * @param limits - New budgets (omitted values become unlimited)
+   */
+  setLimits(limits: RateLimits): void {
+    this.requestBucket = this.updateBucket(this.requestBucket, limits.requestsPerMinute);
+    this.tokenBucket = this.updateBucket(this.tokenBucket, limits.tokensPerMinute);
+    this.pump();
+  }
+
+  /**
+   * Gets the queue depth and remaining capacity
+   *
+   * @returns Current limiter state
+   */
+  getStats(): RateLimiterStats {
+    return {
+      key: this.key,
+      queueDepth: this.queue.length,
+      availableRequests: this.requestBucket ? this.requestBucket.available() : Infinity,
+      availableTokens: this.tokenBucket ? this.tokenBucket.available() : Infinity,
+      pausedForMs: Math.max(0, this.pausedUntil - Date.now())
+    };
+  }
+
+  /**
+   * Releases queued requests in order while there is capacity
+   */
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    while (this.queue.length > 0) {
+      const waiter = this.queue[0];
+      const waitMs = this.getWaitTime(waiter.tokens);
+
+      if (waitMs > 0) {
+        this.timer = setTimeout(() => this.pump(), waitMs);
+        return;
+      }
+
+      this.queue.shift();
+      this.take(waiter.tokens);
+      if (waiter.signal && waiter.onAbort) {
+        waiter.signal.removeEventListener('abort', waiter.onAbort);
+      }
+
+      this.emit(RateLimiterEvent.ACQUIRED, {
+        key: this.key,
+        queueDepth: this.queue.length,
+        tokens: waiter.tokens,
+        waitMs: Date.now() - waiter.enqueued
+      });
+      waiter.resolve();
+    }
+  }
+
+  /**
+   * Gets the time until requests of the given size fit
+   *
+   * @param tokens - Estimated tokens of the requests
+   * @param requests - Number of requests
+   * @returns Milliseconds to wait (0 if they may go now)
+   */
+  private getWaitTime(tokens: number, requests: number = 1): number {
+    return Math.max(
+      this.pausedUntil - Date.now(),
+      this.requestBucket ? this.requestBucket.timeUntil(requests) : 0,
+      this.tokenBucket && tokens > 0 ? this.tokenBucket.timeUntil(tokens) : 0,
+      0
+    );
+  }
+
+  private take(tokens: number): void {
+    this.requestBucket?.take(1);
+    if (tokens > 0) {
+      this.tokenBucket?.take(tokens);
+    }
+  }
+
+  private updateBucket(bucket: TokenBucket | undefined, perMinute?: number): TokenBucket | undefined {
+    if (!perMinute || perMinute <= 0) {
+      return undefined;
+    }
+    if (bucket) {
+      bucket.setRate(perMinute);
+      return bucket;
+    }
+    return new TokenBucket(perMinute);
+  }
+}
+
+/**
+ * Limiters shared across provider instances, keyed by endpoint and API key hash
+ */
+const sharedLimiters: Map<string, RateLimiter> = new Map();
+
+/**
+ * Gets the limiter shared by every provider using the same endpoint and API key
+ *
+ * @param scope - Provider and endpoint, e.g. 'anthropic' or 'openai:http://localhost:11434/v1'
+ * @param apiKey - The API key (only a hash is kept)
+ * @param limits - Budgets to apply; when given they replace the limiter's current budgets
+ * @returns The shared limiter
+ */
+export function getSharedRateLimiter(scope: string, apiKey?: string, limits?: RateLimits): RateLimiter {
+  const keyHash = crypto.createHash('sha256').update(apiKey || '').digest('hex').slice(0, 12);
+  const key = `${scope}:${keyHash}`;
+
+  let limiter = sharedLimiters.get(key);
+  if (!limiter) {
+    limiter = new RateLimiter(key, limits);
+    sharedLimiters.set(key, limiter);
+  } else if (limits) {
+    limiter.setLimits(limits);
+  }
+  return limiter;
+}
+
+/**
+ * Estimates the tokens a request counts against a tokens-per-minute budget
+ *
+ * @param messages - The request messages
+ * @param tools - The tools sent with the request
+ * @param maxTokens - The maximum output tokens
+ * @returns Estimated input plus maximum output tokens
+ */
+export function estimateRequestTokens(messages: Message[], tools: Tool[] | undefined, maxTokens: number): number {
+  return messages.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0) + estimateToolTokens(tools) + maxTokens;
+}
\ No newline at end of file
@@ -0,0 +1,241 @@
+/**
+ * Lightweight JSON Schema validation for tool parameters and structured output
+ *
+ * Supports the subset of JSON Schema used by the framework's tools: type,
+ * properties, required, additionalProperties, items, enum, const, default,
+ * minimum/maximum, minLength/maxLength, minItems/maxItems, pattern, anyOf
+ * and oneOf.
+ */
+
+/**
+ * A single validation problem
+ */
+export interface SchemaValidationError {
+  path: string; // Location of the invalid value, e.g. "$.query" or "$.items[2]"
+  message: string;
+}
+
+/**
+ * Result of validating a value against a schema
+ */
+export interface SchemaValidationResult<T = any> {
+  valid: boolean;
+  value: T; // The input with schema defaults applied
+  errors: SchemaValidationError[];
+}
+
+/**
+ * Validates a value against a JSON Schema and applies defaults
+ *
+ * The input is not mutated; defaults are applied to a copy which is returned
+ * as `value`.
+ *
+ * @param schema - The JSON Schema to validate against
+ * @param value - The value to validate
+ * @returns The validation result
+ */
+export function validateSchema<T = any>(
+  schema: Record<string, any>,
+  value: any
+): SchemaValidationResult<T> {
+  const errors: SchemaValidationError[] = [];
+  const result = validateNode(schema, cloneValue(value), '$', errors);
+
+  return {
+    valid: errors.length === 0,
+    value: result as T,
+    errors
+  };
+}
+
+/**
+ * Formats validation errors as a single human-readable string
+ *
+ * @param errors - The errors to format
+ * @returns One line per error
+ */
+export function formatSchemaErrors(errors: SchemaValidationError[]): string {
+  return errors.map(e => `${e.path}: ${e.message}`).join('\n');
+}
+
+/**
+ * Validates one node of the schema tree, returning the value with defaults applied
+ */
+function validateNode(
+  schema: Record<string, any>,
+  value: any,
+  path: string,
+  errors: SchemaValidationError[]
+): any {
+  if (!schema || typeof schema !== 'object') {
+    return value;
+  }
+
+  if (Array.isArray(schema.anyOf) || Array.isArray(schema.oneOf)) {
+    const variants: Record<string, any>[] = schema.anyOf || schema.oneOf;
+    const matches = variants
+      .map(variant => {
+        const variantErrors: SchemaValidationError[] = [];
+        const variantValue = validateNode(variant, cloneValue(value), path, variantErrors);
+        return { variantValue, variantErrors };
+      })
+      .filter(m => m.variantErrors.length === 0);
+
+    if (matches.length === 0 || (schema.oneOf && matches.length > 1)) {
+      errors.push({
+        path,
+        message: schema.oneOf && matches.length > 1
+          ? 'must match exactly one schema in oneOf'
+          : `must match ${schema.oneOf ? 'one' : 'at least one'} of the allowed schemas`
+      });
+      return value;
+    }
+    value = matches[0].variantValue;
+  }
+
+  if (schema.const !== undefined && !deepEqual(value, schema.const)) {
+    errors.push({ path, message: `must be equal to ${JSON.stringify(schema.const)}` });
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: any) => deepEqual(option, value))) {
+    errors.push({ path, message: `must be one of ${schema.enum.map((o: any) => JSON.stringify(o)).join(', ')}` });
+    return value;
+  }
+
+  if (schema.type !== undefined) {
+    const allowed: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!allowed.some(type => matchesType(type, value))) {
+      errors.push({ path, message: `must be of type ${allowed.join(' | ')} (got ${describeType(value)})` });
+      return value;
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push({ path, message: `must be at least ${schema.minLength} characters long` });
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push({ path, message: `must be at most ${schema.maxLength} characters long` });
+    }
+    if (typeof schema.pattern === 'string') {
+      const pattern = compilePattern(schema.pattern);
+      if (!pattern) {
+        errors.push({ path, message: `cannot be checked: the schema's pattern ${schema.pattern} is not a valid regular expression` });
+      } else if (!pattern.test(value)) {
+        errors.push({ path, message: `must match pattern ${schema.pattern}` });
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push({ path, message: `must contain at least ${schema.minItems} items` });
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push({ path, message: `must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.items && typeof schema.items === 'object') {
+      value = value.map((item, index) => validateNode(schema.items, item, `${path}[${index}]`, errors));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties: Record<string, any> = schema.properties || {};
+
+    // Apply defaults for missing properties
+    for (const [key, propertySchema] of Object.entries(properties)) {
+      if (value[key] === undefined && propertySchema && propertySchema.default !== undefined) {
+        value[key] = cloneValue(propertySchema.default);
+      }
+    }
+
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required) {
+        if (value[key] === undefined) {
+          errors.push({ path: `${path}.${key}`, message: 'is required' });
+        }
+      }
+    }
+
+    for (const key of Object.keys(value)) {
+      if (properties[key]) {
+        if (value[key] !== undefined) {
+          value[key] = validateNode(properties[key], value[key], `${path}.${key}`, errors);
+        }
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: `${path}.${key}`, message: 'is not an allowed property' });
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        value[key] = validateNode(schema.additionalProperties, value[key], `${path}.${key}`, errors);
+      }
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Checks a value against a single JSON Schema type name
+ */
+function matchesType(type: string, value: any): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return isPlainObject(value);
+    case 'null': return value === null;
+    default: return true;
+  }
+}
+
+/**
+ * Compiles a schema pattern, returning undefined if it is not a valid regular expression
+ */
+function compilePattern(pattern: string): RegExp | undefined {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Describes the JSON type of a value for error messages
+ */
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function cloneValue<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => cloneValue(item)) as any;
+  }
+  if (isPlainObject(value)) {
+    const copy: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = cloneValue(item);
+    }
+    return copy as T;
+  }
+  return value;
+}
+
+function deepEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
\ No newline at end of file
@@ -0,0 +1,96 @@
+/**
+ * Helpers for structured (schema-typed) model output
+ */
+
+/**
+ * Name of the property used to wrap non-object schemas
+ */
+const WRAPPED_VALUE_KEY = 'value';
+
+/**
+ * A response schema prepared for providers that only accept object schemas
+ */
+export interface ObjectResponseSchema {
+  schema: Record<string, any>;
+  wrapped: boolean; // True if the original schema was wrapped in { value: ... }
+}
+
+/**
+ * Ensures a response schema has an object at its root
+ *
+ * Both Anthropic tool inputs and OpenAI json_schema responses must be objects,
+ * so array or primitive schemas are wrapped in a single `value` property.
+ *
+ * @param schema - The caller's response schema
+ * @returns The object schema and whether it was wrapped
+ */
+export function toObjectSchema(schema: Record<string, any>): ObjectResponseSchema {
+  if (schema.type === 'object' || (schema.type === undefined && schema.properties)) {
+    return { schema: { ...schema, type: 'object' }, wrapped: false };
+  }
+
+  return {
+    schema: {
+      type: 'object',
+      properties: { [WRAPPED_VALUE_KEY]: schema },
+      required: [WRAPPED_VALUE_KEY]
+    },
+    wrapped: true
+  };
+}
+
+/**
+ * Reverses toObjectSchema wrapping on a parsed value
+ *
+ * @param value - The parsed provider output
+ * @param wrapped - Whether the schema was wrapped
+ * @returns The value matching the caller's schema
+ */
+export function unwrapStructuredOutput(value: any, wrapped: boolean): any {
+  if (wrapped && value && typeof value === 'object' && WRAPPED_VALUE_KEY in value) {
+    return value[WRAPPED_VALUE_KEY];
+  }
+  return value;
+}
+
+/**
+ * Extracts a JSON value from model text
+ *
+ * Accepts bare JSON, JSON inside a ```json fenced block, or the first
+ * top-level object/array embedded in surrounding prose.
+ *
+ * @param text - The model's response text
+ * @returns The parsed value, or undefined if no JSON could be parsed
+ */
+export function extractJson(text: string): any {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  const candidates: string[] = [trimmed];
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    candidates.push(fenced[1].trim());
+  }
+
+  const firstBrace = trimmed.search(/[\[{]/);
+  if (firstBrace !== -1) {
+    const closing = trimmed[firstBrace] === '{' ? '}' : ']';
+    const lastBrace = trimmed.lastIndexOf(closing);
+    if (lastBrace > firstBrace) {
+      candidates.push(trimmed.slice(firstBrace, lastBrace + 1));
+    }
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return undefined;
+}
\ No newline at end of file
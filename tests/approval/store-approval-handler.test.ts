@@ -0,0 +1,114 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApprovalRecord, ApprovalRequest } from '../../src/approval/approval-interface';
+import { InMemoryApprovalStore } from '../../src/approval/in-memory-approval-store';
+import { JsonFileApprovalStore } from '../../src/approval/json-file-approval-store';
+import { StoreApprovalHandler } from '../../src/approval/store-approval-handler';
+import { AbortError } from '../../src/utils/abort-utils';
+
+function createRequest(id = 'approval-1'): ApprovalRequest {
+  return {
+    id,
+    agentName: 'Tester',
+    conversationId: 'conv-1',
+    callId: 'call_1',
+    tool: 'send_email',
+    params: { to: 'someone@example.com' },
+    created: Date.now()
+  };
+}
+
+describe('StoreApprovalHandler', () => {
+  it('waits for a decision recorded in the store', async () => {
+    const store = new InMemoryApprovalStore();
+    const handler = new StoreApprovalHandler({ store, pollInterval: 5 });
+
+    const pending = handler.requestApproval(createRequest());
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect((await store.listPending()).map(record => record.id)).toEqual(['approval-1']);
+    await store.decide('approval-1', { action: 'approve' });
+
+    await expect(pending).resolves.toEqual({ action: 'approve' });
+  });
+
+  it('rejects and marks the request expired when nobody decides in time', async () => {
+    const store = new InMemoryApprovalStore();
+    const handler = new StoreApprovalHandler({ store, pollInterval: 5, timeout: 20 });
+
+    const decision = await handler.requestApproval(createRequest());
+
+    expect(decision.action).toBe('reject');
+    expect((await store.get('approval-1'))?.status).toBe('expired');
+  });
+
+  it('keeps a decision recorded just before the request expires', async () => {
+    const store = new InMemoryApprovalStore();
+    const close = store.close.bind(store);
+    jest.spyOn(store, 'close').mockImplementation(async (id, status) => {
+      // Someone decides between the handler's last poll and its expiry write
+      await store.decide(id, { action: 'approve' });
+      return close(id, status);
+    });
+    const handler = new StoreApprovalHandler({ store, pollInterval: 5, timeout: 0 });
+
+    const decision = await handler.requestApproval(createRequest());
+
+    expect(decision).toEqual({ action: 'approve' });
+    expect((await store.get('approval-1'))?.status).toBe('decided');
+  });
+
+  it('marks the request cancelled and stops waiting when the signal aborts', async () => {
+    const store = new InMemoryApprovalStore();
+    const handler = new StoreApprovalHandler({ store, pollInterval: 5 });
+    const controller = new AbortController();
+
+    const pending = handler.requestApproval(createRequest(), controller.signal);
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    expect((await store.get('approval-1'))?.status).toBe('cancelled');
+  });
+});
+
+describe('JsonFileApprovalStore', () => {
+  let storageDir: string;
+
+  beforeEach(() => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'approvals-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('keeps concurrent writes to the same record intact', async () => {
+    const store = new JsonFileApprovalStore({ storageDir });
+    const record: ApprovalRecord = { ...createRequest(), status: 'pending' };
+
+    await Promise.all([
+      store.save(record),
+      store.save({ ...record, params: { to: 'other@example.com' } }),
+      store.decide('approval-1', { action: 'reject', reason: 'Not now' }),
+      store.close('approval-1', 'expired')
+    ]);
+
+    const stored = await store.get('approval-1');
+    expect(stored?.status).toBe('decided');
+    expect(stored?.decision).toEqual({ action: 'reject', reason: 'Not now' });
+    expect(stored?.params).toEqual({ to: 'other@example.com' });
+    expect(fs.readdirSync(storageDir)).toEqual(['approval-1.json']);
+  });
+
+  it('lists pending requests and refuses to decide twice', async () => {
+    const store = new JsonFileApprovalStore({ storageDir });
+    await store.save({ ...createRequest('b'), status: 'pending', created: 2 });
+    await store.save({ ...createRequest('a'), status: 'pending', created: 1 });
+
+    await store.decide('b', { action: 'approve' });
+
+    expect((await store.listPending()).map(record => record.id)).toEqual(['a']);
+    await expect(store.decide('b', { action: 'approve' })).rejects.toThrow(/already decided/);
+    expect(await store.close('missing', 'expired')).toBeUndefined();
+  });
+});
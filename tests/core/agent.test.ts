@@ -0,0 +1,345 @@
+import { Agent } from '../../src/core/agent';
+import { GenerateOptions, GenerateResult } from '../../src/core/provider-interface';
+import { AgentEvent, AgentRole, Tool } from '../../src/core/types';
+import { ContextManager } from '../../src/core/context-manager';
+import { InMemoryConversationStore } from '../../src/conversation/in-memory-store';
+import { ApprovalDecision, ApprovalRequest } from '../../src/approval/approval-interface';
+import { UsageLedger } from '../../src/usage/usage-ledger';
+import { getTextContent } from '../../src/utils/message-content';
+import { DefaultPlanner } from '../../src/planning/default-planner';
+import { PlannerInterface } from '../../src/planning/planner-interface';
+
+/**
+ * Provider that answers with the given results, in order
+ */
+function scriptedProvider(...results: GenerateResult[]) {
+  const generateResponse = jest.fn<Promise<GenerateResult>, [GenerateOptions]>();
+  for (const result of results) {
+    generateResponse.mockResolvedValueOnce(result);
+  }
+  return { generateResponse, updateConfig: jest.fn() };
+}
+
+function createAgent(provider: ReturnType<typeof scriptedProvider>, name = 'Tester'): Agent {
+  return new Agent({
+    name,
+    role: AgentRole.ASSISTANT,
+    personality: { traits: ['precise'], background: 'A test agent' },
+    goals: ['Answer questions']
+  }, provider);
+}
+
+const addTool: Tool = {
+  name: 'add',
+  description: 'Adds two numbers',
+  schema: {
+    type: 'object',
+    properties: { a: { type: 'number' }, b: { type: 'number' } },
+    required: ['a', 'b']
+  },
+  execute: async ({ a, b }) => a + b
+};
+
+describe('Agent tool loop', () => {
+  it('executes tool calls and feeds the results back until the model answers', async () => {
+    const provider = scriptedProvider(
+      { message: '', toolCalls: [{ name: 'add', parameters: { a: 2, b: 3 } }] },
+      { message: '', toolCalls: [{ name: 'add', parameters: { a: 5, b: 1 } }] },
+      { message: 'The sum is 6' }
+    );
+
+    const result = await createAgent(provider).run({ task: 'Add 2, 3 and 1', tools: [addTool] });
+
+    expect(result.response).toBe('The sum is 6');
+    expect(result.toolCalls?.map(call => [call.result, call.step])).toEqual([[5, 0], [6, 1]]);
+    expect(provider.generateResponse).toHaveBeenCalledTimes(3);
+  });
+
+  it('records failing tools as errors and keeps going', async () => {
+    const failing: Tool = {
+      name: 'fail',
+      description: 'Always fails',
+      schema: { type: 'object', properties: {} },
+      execute: async () => { throw new Error('Boom'); }
+    };
+    const provider = scriptedProvider(
+      { message: '', toolCalls: [{ name: 'fail', parameters: {} }] },
+      { message: 'It failed' }
+    );
+
+    const result = await createAgent(provider).run({ task: 'Try it', tools: [failing] });
+
+    expect(result.response).toBe('It failed');
+    expect(JSON.stringify(result.toolCalls?.[0].result)).toContain('Boom');
+  });
+
+  it('sends tool results as tool messages answering the call IDs', async () => {
+    const provider = scriptedProvider(
+      { message: '', toolCalls: [{ id: 'call_1', name: 'add', parameters: { a: 2, b: 3 } }] },
+      { message: 'The sum is 5' }
+    );
+
+    await createAgent(provider).run({ task: 'Add 2 and 3', tools: [addTool] });
+
+    const messages = provider.generateResponse.mock.calls[1][0].messages;
+    expect(messages.find(message => message.role === 'assistant')?.toolCalls)
+      .toEqual([{ id: 'call_1', name: 'add', parameters: { a: 2, b: 3 } }]);
+    expect(messages.find(message => message.role === 'tool'))
+      .toEqual(expect.objectContaining({ toolCallId: 'call_1', name: 'add', content: '5' }));
+  });
+
+  it('returns invalid arguments to the model without executing the tool', async () => {
+    const execute = jest.fn(addTool.execute);
+    const provider = scriptedProvider(
+      { message: '', toolCalls: [{ name: 'add', parameters: { a: 'two' } }] },
+      { message: 'Sorry' }
+    );
+
+    const result = await createAgent(provider).run({ task: 'Add', tools: [{ ...addTool, execute }] });
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(result.toolCalls?.[0].errorKind).toBe('validation');
+    expect(result.toolCalls?.[0].result.validationErrors.map((error: any) => error.path).sort()).toEqual(['$.a', '$.b']);
+  });
+
+  it('stops after maxSteps model calls and forbids tool calls on the last one', async () => {
+    const call: GenerateResult = { message: 'Working', toolCalls: [{ name: 'add', parameters: { a: 1, b: 1 } }] };
+    const provider = scriptedProvider(call, { message: 'Done' }, call);
+
+    const result = await createAgent(provider).run({ task: 'Keep adding', tools: [addTool], maxSteps: 2 });
+
+    expect(result.response).toBe('Done');
+    expect(provider.generateResponse).toHaveBeenCalledTimes(2);
+    expect(provider.generateResponse.mock.calls[0][0].toolChoice).toBeUndefined();
+    expect(provider.generateResponse.mock.calls[1][0]).toEqual(expect.objectContaining({
+      tools: [addTool],
+      toolChoice: 'none'
+    }));
+  });
+});
+
+describe('Agent structured output', () => {
+  const schema = {
+    type: 'object',
+    properties: { answer: { type: 'number' } },
+    required: ['answer']
+  };
+
+  it('returns the validated answer as data', async () => {
+    const provider = scriptedProvider({ message: 'Here you go: {"answer": 42}' });
+
+    const result = await createAgent(provider).run({ task: 'What is the answer?', responseSchema: schema });
+
+    expect(result.data).toEqual({ answer: 42 });
+    expect(provider.generateResponse.mock.calls[0][0].responseFormat?.schema).toEqual(schema);
+  });
+
+  it('asks the model to repair an invalid answer without letting it call tools', async () => {
+    const provider = scriptedProvider(
+      { message: '{"answer": "forty-two"}' },
+      { message: '{"answer": 42}' }
+    );
+
+    const result = await createAgent(provider).run({ task: 'What is the answer?', tools: [addTool], responseSchema: schema });
+
+    expect(result.data).toEqual({ answer: 42 });
+    expect(provider.generateResponse).toHaveBeenCalledTimes(2);
+    expect(provider.generateResponse.mock.calls[1][0]).toEqual(expect.objectContaining({
+      tools: [addTool],
+      toolChoice: 'none'
+    }));
+  });
+
+  it('reports the remaining errors once the repair attempts are used up', async () => {
+    const provider = scriptedProvider({ message: 'No idea' }, { message: 'Still no idea' });
+
+    const result = await createAgent(provider).run({ task: 'What is the answer?', responseSchema: schema, maxRepairAttempts: 1 });
+
+    expect(result.data).toBeUndefined();
+    expect(result.dataErrors?.length).toBeGreaterThan(0);
+    expect(provider.generateResponse).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('Agent context management', () => {
+  it('compacts the conversation before calling the model', async () => {
+    const provider = scriptedProvider({ message: 'First' }, { message: 'Second' });
+    const agent = createAgent(provider).setContextManager(new ContextManager({
+      maxContextTokens: 400,
+      reserveOutputTokens: 0,
+      keepRecentTurns: 1
+    }));
+    const onCompacted = jest.fn();
+    agent.on(AgentEvent.CONTEXT_COMPACTED, onCompacted);
+
+    const first = await agent.run({ task: `Remember this: ${'x'.repeat(1200)}` });
+    await agent.run({ task: 'And now?', conversation: first.conversation });
+
+    const sent = provider.generateResponse.mock.calls[1][0].messages;
+    expect(sent.some(message => getTextContent(message.content).startsWith('Remember this'))).toBe(false);
+    expect(sent.some(message => message.content === 'And now?')).toBe(true);
+    expect(onCompacted).toHaveBeenCalledTimes(1);
+  });
+
+  it("charges the context summarizer's calls to the run", async () => {
+    const tokens = { input: 100, output: 10, total: 110 };
+    const provider = scriptedProvider(
+      { message: 'First', tokens, provider: 'openai', model: 'gpt-4o' },
+      { message: 'Second', tokens, provider: 'openai', model: 'gpt-4o' }
+    );
+    const summarizer = scriptedProvider({ message: 'A long message', tokens, provider: 'openai', model: 'gpt-4o-mini' });
+    const ledger = new UsageLedger();
+    const agent = createAgent(provider).setUsageLedger(ledger).setContextManager(new ContextManager({
+      maxContextTokens: 400,
+      reserveOutputTokens: 0,
+      keepRecentTurns: 1,
+      summarizer
+    }));
+
+    const first = await agent.run({ task: `Remember this: ${'x'.repeat(1200)}` });
+    const second = await agent.run({ task: 'And now?', conversation: first.conversation });
+
+    expect(summarizer.generateResponse).toHaveBeenCalledTimes(1);
+    expect(second.usage).toEqual(expect.objectContaining({ calls: 2, total: 220 }));
+    expect(ledger.getRecords({ source: 'context-summary' })).toEqual([
+      expect.objectContaining({ agent: 'Tester', model: 'gpt-4o-mini', input: 100 })
+    ]);
+  });
+});
+
+describe('Agent stored conversations', () => {
+  it('resumes and saves a conversation by ID', async () => {
+    const store = new InMemoryConversationStore();
+    const provider = scriptedProvider({ message: 'First answer' }, { message: 'Second answer' });
+    const agent = createAgent(provider).setConversationStore(store);
+
+    await agent.run({ task: 'First question', conversationId: 'conv-1' });
+    await agent.run({ task: 'Second question', conversationId: 'conv-1' });
+
+    const stored = await store.get('conv-1');
+    expect(stored?.messages.filter(message => message.role === 'assistant').map(message => message.content))
+      .toEqual(['First answer', 'Second answer']);
+  });
+
+  it("refuses to resume another agent's conversation", async () => {
+    const store = new InMemoryConversationStore();
+    await createAgent(scriptedProvider({ message: 'Hello' }), 'Owner').setConversationStore(store)
+      .run({ task: 'Hi', conversationId: 'conv-1' });
+
+    const provider = scriptedProvider({ message: 'Hijacked' });
+    const other = createAgent(provider, 'Other').setConversationStore(store);
+
+    await expect(other.run({ task: 'Hi', conversationId: 'conv-1' })).rejects.toThrow(/belongs to agent 'Owner'/);
+    expect(provider.generateResponse).not.toHaveBeenCalled();
+  });
+});
+
+describe('Agent tool approval', () => {
+  function approvalHandler(decision: ApprovalDecision) {
+    return { requestApproval: jest.fn(async (_request: ApprovalRequest) => decision) };
+  }
+
+  it('does not execute a call the reviewer rejects', async () => {
+    const execute = jest.fn(addTool.execute);
+    const provider = scriptedProvider(
+      { message: '', toolCalls: [{ name: 'add', parameters: { a: 1, b: 2 } }] },
+      { message: 'Skipped' }
+    );
+    const handler = approvalHandler({ action: 'reject', reason: 'Not allowed' });
+    const agent = createAgent(provider).setApprovalHandler(handler).setApprovalPolicy('add', 'always');
+
+    const result = await agent.run({ task: 'Add', tools: [{ ...addTool, execute }] });
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(handler.requestApproval.mock.calls[0][0]).toEqual(expect.objectContaining({ tool: 'add', params: { a: 1, b: 2 } }));
+    expect(result.toolCalls?.[0].errorKind).toBe('rejected');
+  });
+
+  it('executes an approved call with the edited arguments', async () => {
+    const provider = scriptedProvider(
+      { message: '', toolCalls: [{ name: 'add', parameters: { a: 1, b: 2 } }] },
+      { message: 'Done' }
+    );
+    const agent = createAgent(provider)
+      .setApprovalHandler(approvalHandler({ action: 'edit', params: { a: 10, b: 20 } }))
+      .setApprovalPolicy('add', params => params.a < 5);
+
+    const result = await agent.run({ task: 'Add', tools: [addTool] });
+
+    expect(result.toolCalls?.[0].result).toBe(30);
+  });
+});
+
+describe('Agent cancellation', () => {
+  it('returns a cancelled result without calling the model if the signal is already aborted', async () => {
+    const provider = scriptedProvider({ message: 'Too late' });
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await createAgent(provider).run({ task: 'Hello', signal: controller.signal });
+
+    expect(result.cancelled).toBe(true);
+    expect(provider.generateResponse).not.toHaveBeenCalled();
+  });
+
+  it('cancels a model call that outlives the run timeout', async () => {
+    const provider = scriptedProvider();
+    provider.generateResponse.mockImplementation(() => new Promise(() => undefined));
+
+    const result = await createAgent(provider).run({ task: 'Hello', timeout: 20 });
+
+    expect(result.cancelled).toBe(true);
+    expect(result.cancelReason).toContain('timed out');
+  });
+
+  it('reports a tool that exceeds its timeout and keeps going', async () => {
+    const slow: Tool = {
+      name: 'slow',
+      description: 'Never finishes on its own',
+      schema: { type: 'object', properties: {} },
+      timeout: 20,
+      execute: (_params, context) => new Promise((_resolve, reject) => {
+        context?.signal.addEventListener('abort', () => reject(context.signal.reason));
+      })
+    };
+    const provider = scriptedProvider(
+      { message: '', toolCalls: [{ name: 'slow', parameters: {} }] },
+      { message: 'It timed out' }
+    );
+
+    const result = await createAgent(provider).run({ task: 'Try it', tools: [slow] });
+
+    expect(result.response).toBe('It timed out');
+    expect(result.toolCalls?.[0].errorKind).toBe('timeout');
+  });
+
+  it('passes the run signal to the planner', async () => {
+    const controller = new AbortController();
+    let planSignal: AbortSignal | undefined;
+    const planner = {
+      createPlan: jest.fn((_task: string, _agent: Agent, options?: { signal?: AbortSignal }) => {
+        planSignal = options?.signal;
+        controller.abort();
+        return new Promise(() => undefined);
+      })
+    };
+    const provider = scriptedProvider({ message: 'Answered directly' });
+    const agent = createAgent(provider).setPlanner(planner as unknown as PlannerInterface);
+
+    const result = await agent.run({ task: 'Do this step by step', signal: controller.signal });
+
+    expect(planSignal?.aborted).toBe(true);
+    expect(result.cancelled).toBe(true);
+    expect(provider.generateResponse).not.toHaveBeenCalled();
+  });
+
+  it('forwards the planning signal to the planning model call', async () => {
+    const agent = createAgent(scriptedProvider({ message: '{"tasks": ["Look it up"]}' }));
+    const run = jest.spyOn(agent, 'run');
+    const controller = new AbortController();
+
+    await new DefaultPlanner().createPlan('Find the answer', agent, { signal: controller.signal });
+
+    expect(run).toHaveBeenCalledWith(expect.objectContaining({ signal: controller.signal }));
+  });
+});
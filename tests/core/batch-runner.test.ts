@@ -0,0 +1,141 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BatchRunner } from '../../src/core/batch-runner';
+import { GenerateOptions, GenerateResult, LLMProviderInterface } from '../../src/core/provider-interface';
+import { getTextContent } from '../../src/utils/message-content';
+import { toAbortError } from '../../src/utils/abort-utils';
+
+function ask(question: string): GenerateOptions {
+  return { messages: [{ role: 'user', content: question, timestamp: 0 }] };
+}
+
+/**
+ * Provider that answers with the question, or fails questions starting with "fail"
+ */
+function answeringProvider(): LLMProviderInterface & { generateResponse: jest.Mock } {
+  return {
+    generateResponse: jest.fn(async (options: GenerateOptions): Promise<GenerateResult> => {
+      const question = getTextContent(options.messages[0].content);
+      if (question.startsWith('fail')) {
+        throw new Error(`Cannot answer ${question}`);
+      }
+      return { message: `Answer to ${question}` };
+    }),
+    updateConfig: jest.fn()
+  };
+}
+
+describe('BatchRunner', () => {
+  let storageDir: string;
+
+  beforeEach(() => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-runner-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('resumes the pending requests of a cancelled local batch', async () => {
+    let blocked!: () => void;
+    const started = new Promise<void>(resolve => { blocked = resolve; });
+    const blockingProvider: LLMProviderInterface = {
+      generateResponse: async options => {
+        if (getTextContent(options.messages[0].content) === 'two') {
+          blocked();
+          await new Promise((_, reject) => {
+            options.signal!.addEventListener('abort', () => reject(toAbortError(options.signal!.reason)));
+          });
+        }
+        return { message: 'Answer to one' };
+      },
+      updateConfig: () => undefined
+    };
+
+    const handle = await new BatchRunner({ provider: blockingProvider, storageDir, concurrency: 1 })
+      .submit([ask('one'), ask('two'), ask('three')]);
+    await started;
+    await handle.cancel();
+
+    expect(handle.getProgress()).toMatchObject({ status: 'cancelled', succeeded: 1, pending: 2 });
+
+    const provider = answeringProvider();
+    const resumed = await new BatchRunner({ provider, storageDir }).resume(handle.id);
+    const results = await resumed.wait();
+
+    expect(results.map(item => item.result?.message)).toEqual(['Answer to one', 'Answer to two', 'Answer to three']);
+    expect(provider.generateResponse).toHaveBeenCalledTimes(2);
+    expect(resumed.getProgress()).toMatchObject({ status: 'completed', succeeded: 3, pending: 0 });
+  });
+
+  it('runs failed requests again only when asked to', async () => {
+    const provider = answeringProvider();
+    const runner = new BatchRunner({ provider, storageDir });
+
+    const handle = await runner.submit([ask('one'), { id: 'flaky', options: ask('fail once') }]);
+    await handle.wait();
+    expect(handle.getProgress()).toMatchObject({ succeeded: 1, failed: 1 });
+
+    await (await runner.resume(handle.id)).wait();
+    expect(provider.generateResponse).toHaveBeenCalledTimes(2);
+
+    provider.generateResponse.mockResolvedValueOnce({ message: 'Recovered' });
+    const retried = await runner.resume(handle.id, { retryFailed: true });
+    const results = await retried.wait();
+
+    expect(provider.generateResponse).toHaveBeenCalledTimes(3);
+    expect(results.find(item => item.id === 'flaky')?.result?.message).toBe('Recovered');
+    expect(retried.getProgress()).toMatchObject({ succeeded: 2, failed: 0 });
+  });
+
+  it('marks the batch failed when the worker stops on an error and resumes it', async () => {
+    const provider = answeringProvider();
+    const runner = new BatchRunner({ provider, storageDir, concurrency: 1 });
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    provider.generateResponse.mockImplementationOnce(async () => {
+      await gate;
+      return { message: 'Answer to one' };
+    });
+
+    const handle = await runner.submit([ask('one'), ask('two')]);
+    // A directory in the way of the temporary file makes saving progress fail
+    const tempPath = path.join(storageDir, `${handle.id}.json.tmp`);
+    fs.mkdirSync(tempPath);
+    release();
+
+    await expect(handle.wait()).rejects.toThrow();
+    expect(handle.getProgress()).toMatchObject({ status: 'failed', error: expect.any(String) });
+
+    fs.rmSync(tempPath, { recursive: true });
+    const resumed = await runner.resume(handle.id);
+    const results = await resumed.wait();
+
+    expect(results).toHaveLength(2);
+    expect(resumed.getProgress()).toMatchObject({ status: 'completed', succeeded: 2 });
+  });
+
+  it('polls provider batches and counts missing results as failed', async () => {
+    const provider = {
+      ...answeringProvider(),
+      supportsBatch: () => true,
+      submitBatch: jest.fn(async () => 'remote-1'),
+      getBatchStatus: jest.fn()
+        .mockResolvedValueOnce('in_progress')
+        .mockResolvedValueOnce('ended'),
+      getBatchResults: jest.fn(async () => [{ id: 'r0', result: { message: 'Remote answer' } }]),
+      cancelBatch: jest.fn(async () => undefined)
+    };
+
+    const handle = await new BatchRunner({ provider, storageDir, pollInterval: 1 }).submit([ask('one'), ask('two')]);
+    const results = await handle.wait();
+
+    expect(provider.submitBatch).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([
+      { id: 'r0', result: { message: 'Remote answer' } },
+      { id: 'r1', error: 'No result returned by the provider batch' }
+    ]);
+    expect(handle.getProgress()).toMatchObject({ mode: 'remote', status: 'completed' });
+  });
+});
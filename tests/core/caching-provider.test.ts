@@ -0,0 +1,88 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CachingProvider } from '../../src/core/caching-provider';
+import { MockProvider } from '../../src/core/mock-provider';
+import { GenerateOptions } from '../../src/core/provider-interface';
+
+const request: GenerateOptions = { messages: [{ role: 'user', content: 'Hello', timestamp: 0 }] };
+
+describe('CachingProvider', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'caching-provider-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('serves repeated requests from the cache and persists it', async () => {
+    const provider = new MockProvider({ defaultResponse: 'Hi there' });
+    const cacheFile = path.join(dir, 'cache.json');
+    const cache = new CachingProvider({ provider, cacheFile });
+
+    await cache.generateResponse(request);
+    const second = await cache.generateResponse(request);
+
+    expect(second.message).toBe('Hi there');
+    expect(second.cached).toBe(true);
+    expect(provider.calls).toHaveLength(1);
+
+    const reloaded = new CachingProvider({ provider, cacheFile });
+    expect((await reloaded.generateResponse(request)).cached).toBe(true);
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  it("keys entries on the wrapped provider's model", async () => {
+    const provider = new MockProvider({ defaultResponse: 'Hi there', model: 'model-a' });
+    const cache = new CachingProvider({ provider, cacheFile: path.join(dir, 'cache.json') });
+
+    await cache.generateResponse(request);
+    provider.updateConfig({ model: 'model-b' });
+    const result = await cache.generateResponse(request);
+
+    expect(result.cached).toBeUndefined();
+    expect(provider.calls).toHaveLength(2);
+  });
+
+  it('returns the response when the cache cannot be saved', async () => {
+    const blocker = path.join(dir, 'not-a-directory');
+    fs.writeFileSync(blocker, '');
+    const provider = new MockProvider({ defaultResponse: 'Hi there' });
+    const cache = new CachingProvider({ provider, cacheFile: path.join(blocker, 'cache.json') });
+
+    const result = await cache.generateResponse(request);
+
+    expect(result.message).toBe('Hi there');
+    expect((await cache.generateResponse(request)).cached).toBe(true);
+  });
+
+  it('keys file media on the file contents and skips unreadable files', async () => {
+    const provider = new MockProvider({ defaultResponse: 'A chart' });
+    const cache = new CachingProvider({ provider, cacheFile: path.join(dir, 'cache.json') });
+    const imagePath = path.join(dir, 'chart.png');
+    const withImage = (filePath: string): GenerateOptions => ({
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Describe this' },
+          { type: 'image', source: { type: 'file', path: filePath } }
+        ],
+        timestamp: 0
+      }]
+    });
+
+    fs.writeFileSync(imagePath, 'first version');
+    await cache.generateResponse(withImage(imagePath));
+    expect((await cache.generateResponse(withImage(imagePath))).cached).toBe(true);
+
+    fs.writeFileSync(imagePath, 'second version');
+    expect((await cache.generateResponse(withImage(imagePath))).cached).toBeUndefined();
+
+    await cache.generateResponse(withImage(path.join(dir, 'missing.png')));
+    expect(cache.getStats().skipped).toBe(1);
+    expect(provider.calls).toHaveLength(3);
+  });
+});
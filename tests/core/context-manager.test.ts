@@ -0,0 +1,102 @@
+import { ContextManager, getModelContextLimit } from '../../src/core/context-manager';
+import { GenerateOptions, GenerateResult } from '../../src/core/provider-interface';
+import { Message } from '../../src/core/types';
+
+// Roughly 100 tokens per message with the 4 characters per token estimate
+const filler = 'x'.repeat(400);
+
+function conversation(turns: number): Message[] {
+  const messages: Message[] = [{ role: 'system', content: 'You are a test agent' }];
+  for (let i = 0; i < turns; i++) {
+    messages.push({ role: 'user', content: `Question ${i} ${filler}` });
+    messages.push({ role: 'assistant', content: `Answer ${i} ${filler}` });
+  }
+  return messages;
+}
+
+describe('ContextManager', () => {
+  it('leaves conversations within the budget untouched', async () => {
+    const messages = conversation(2);
+
+    const result = await new ContextManager({ maxContextTokens: 10000 }).fit(messages);
+
+    expect(result.compacted).toBe(false);
+    expect(result.messages).toBe(messages);
+  });
+
+  it('drops the oldest turns but keeps system prompts, pinned and recent turns', async () => {
+    const messages = conversation(6);
+    messages[1].pinned = true;
+    const onCompaction = jest.fn();
+
+    const result = await new ContextManager({
+      maxContextTokens: 700,
+      reserveOutputTokens: 0,
+      keepRecentTurns: 2,
+      onCompaction
+    }).fit(messages);
+
+    expect(result.compacted).toBe(true);
+    expect(result.messages[0].role).toBe('system');
+    expect(result.messages).toContain(messages[1]);
+    expect(result.messages.slice(-4)).toEqual(messages.slice(-4));
+    expect(result.report!.tokensAfter).toBeLessThanOrEqual(700);
+    expect(result.report!.dropped[0]).toBe(messages[3]);
+    expect(onCompaction).toHaveBeenCalledWith(result.report);
+    expect(messages).toHaveLength(13);
+  });
+
+  it('never separates tool calls from their results', async () => {
+    const messages: Message[] = [
+      { role: 'user', content: `Look it up ${filler}` },
+      { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'search', parameters: {} }] },
+      { role: 'tool', content: filler, toolCallId: 'call_1', name: 'search' },
+      { role: 'assistant', content: `Found it ${filler}` },
+      { role: 'user', content: 'Thanks' }
+    ];
+
+    const result = await new ContextManager({ maxContextTokens: 100, reserveOutputTokens: 0, keepRecentTurns: 1 }).fit(messages);
+
+    expect(result.messages).toEqual([messages[4]]);
+    expect(result.report!.dropped).toEqual(messages.slice(0, 4));
+  });
+
+  it('folds dropped turns into a synopsis when a summarizer is configured', async () => {
+    const generateResponse = jest.fn<Promise<GenerateResult>, [GenerateOptions]>()
+      .mockResolvedValue({ message: 'The user asked two questions' });
+
+    const result = await new ContextManager({
+      maxContextTokens: 700,
+      reserveOutputTokens: 0,
+      summarizer: { generateResponse, updateConfig: jest.fn() }
+    }).fit(conversation(6));
+
+    expect(generateResponse).toHaveBeenCalledTimes(1);
+    expect(result.messages[1]).toEqual(expect.objectContaining({
+      role: 'system',
+      content: 'Summary of earlier conversation:\nThe user asked two questions',
+      metadata: expect.objectContaining({ synopsis: true })
+    }));
+  });
+
+  it('trims without a synopsis if the summarizer fails', async () => {
+    const generateResponse = jest.fn<Promise<GenerateResult>, [GenerateOptions]>()
+      .mockRejectedValue(new Error('Unavailable'));
+
+    const result = await new ContextManager({
+      maxContextTokens: 700,
+      reserveOutputTokens: 0,
+      summarizer: { generateResponse, updateConfig: jest.fn() }
+    }).fit(conversation(6));
+
+    expect(result.compacted).toBe(true);
+    expect(result.report!.synopsis).toBeUndefined();
+    expect(result.messages.some(message => message.metadata?.synopsis)).toBe(false);
+  });
+
+  it('looks up context limits by the longest matching model prefix', () => {
+    expect(getModelContextLimit('gpt-4o-mini')).toBe(128000);
+    expect(getModelContextLimit('gpt-4-0613')).toBe(8192);
+    expect(getModelContextLimit('unknown-model')).toBe(8192);
+  });
+});
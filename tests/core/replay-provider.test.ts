@@ -0,0 +1,75 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockProvider } from '../../src/core/mock-provider';
+import { ReplayMissError, ReplayProvider } from '../../src/core/replay-provider';
+import { GenerateOptions } from '../../src/core/provider-interface';
+
+function ask(question: string): GenerateOptions {
+  return { messages: [{ role: 'user', content: question, timestamp: Date.now() }] };
+}
+
+describe('ReplayProvider', () => {
+  let dir: string;
+  let cassettePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-provider-'));
+    cassettePath = path.join(dir, 'cassette.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records concurrent requests and replays them without a provider', async () => {
+    const questions = ['one', 'two', 'three', 'four', 'five', 'six'];
+    const provider = new MockProvider({
+      defaultResponse: options => `Answer to ${options.messages[0].content}`
+    });
+    const recorder = new ReplayProvider({ cassettePath, provider, mode: 'record' });
+
+    await Promise.all(questions.map(question => recorder.generateResponse(ask(question))));
+
+    const cassette = JSON.parse(fs.readFileSync(cassettePath, 'utf8'));
+    expect(cassette.interactions).toHaveLength(questions.length);
+    expect(fs.existsSync(`${cassettePath}.tmp`)).toBe(false);
+
+    const player = new ReplayProvider({ cassettePath });
+    for (const question of questions) {
+      expect((await player.generateResponse(ask(question))).message).toBe(`Answer to ${question}`);
+    }
+    expect(provider.calls).toHaveLength(questions.length);
+  });
+
+  it('replays identical requests in recording order', async () => {
+    const recorder = new ReplayProvider({ cassettePath, provider: new MockProvider(['First', 'Second']), mode: 'record' });
+    await recorder.generateResponse(ask('again'));
+    await recorder.generateResponse(ask('again'));
+
+    const player = new ReplayProvider({ cassettePath });
+    const answers = [];
+    for (let i = 0; i < 3; i++) {
+      answers.push((await player.generateResponse(ask('again'))).message);
+    }
+
+    expect(answers).toEqual(['First', 'Second', 'Second']);
+  });
+
+  it('throws on requests that were not recorded', async () => {
+    const player = new ReplayProvider({ cassettePath });
+
+    await expect(player.generateResponse(ask('unknown'))).rejects.toThrow(ReplayMissError);
+  });
+
+  it('records only the missing requests in auto mode', async () => {
+    const provider = new MockProvider({ defaultResponse: 'Recorded' });
+    const replay = new ReplayProvider({ cassettePath, provider });
+
+    await replay.generateResponse(ask('hello'));
+    await replay.generateResponse(ask('hello'));
+
+    expect(provider.calls).toHaveLength(1);
+    expect(replay.getInteractions()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,59 @@
+import { MockProvider } from '../../src/core/mock-provider';
+import { NoProviderAvailableError, RoutingProvider } from '../../src/core/routing-provider';
+import { GenerateOptions } from '../../src/core/provider-interface';
+
+const messages: GenerateOptions['messages'] = [{ role: 'user', content: 'Hello', timestamp: 0 }];
+
+function unavailable(): Error {
+  return Object.assign(new Error('Service unavailable'), { status: 503 });
+}
+
+describe('RoutingProvider', () => {
+  it('fails over to the next provider on retryable errors', async () => {
+    const primary = new MockProvider([{ error: unavailable() }]);
+    const backup = new MockProvider(['From backup']);
+    const router = new RoutingProvider({
+      providers: [{ name: 'primary', provider: primary }, { name: 'backup', provider: backup }]
+    });
+
+    const result = await router.generateResponse({ messages });
+
+    expect(result.message).toBe('From backup');
+  });
+
+  it('skips a provider while its circuit is open', async () => {
+    const primary = new MockProvider({ defaultResponse: { error: unavailable() } });
+    const router = new RoutingProvider({
+      providers: [{ name: 'primary', provider: primary }],
+      failureThreshold: 1,
+      cooldownMs: 60000
+    });
+
+    await expect(router.generateResponse({ messages })).rejects.toThrow(NoProviderAvailableError);
+    await expect(router.generateResponse({ messages })).rejects.toThrow(/all circuits are open/);
+    expect(primary.calls).toHaveLength(1);
+  });
+
+  it('releases the half-open trial when the caller aborts it', async () => {
+    const controller = new AbortController();
+    const primary = new MockProvider([
+      { error: unavailable() },
+      options => new Promise((_, reject) => {
+        options.signal!.addEventListener('abort', () => reject(options.signal!.reason));
+        controller.abort();
+      }),
+      'Recovered'
+    ]);
+    const router = new RoutingProvider({
+      providers: [{ name: 'primary', provider: primary }],
+      failureThreshold: 1,
+      cooldownMs: 0
+    });
+
+    await expect(router.generateResponse({ messages })).rejects.toThrow(NoProviderAvailableError);
+    await expect(router.generateResponse({ messages, signal: controller.signal })).rejects.toThrow();
+
+    const result = await router.generateResponse({ messages });
+    expect(result.message).toBe('Recovered');
+  });
+});
@@ -0,0 +1,78 @@
+import { BM25Index, HybridRetriever, RetrievalDocument, Reranker } from '../../src/memory/hybrid-retriever';
+import { cosineSimilarity } from '../../src/memory/embedding-service';
+
+const documents: RetrievalDocument[] = [
+  { id: 'cats', fields: { text: 'Cats sleep most of the day' }, embedding: [1, 0, 0], metadata: { topic: 'pets' } },
+  { id: 'dogs', fields: { text: 'Dogs need a walk every day' }, embedding: [0, 1, 0], metadata: { topic: 'pets' } },
+  { id: 'stocks', fields: { text: 'Stocks fell sharply today' }, embedding: [0, 0, 1], metadata: { topic: 'finance' } }
+];
+
+describe('BM25Index', () => {
+  it('ranks documents by the query words they contain', () => {
+    const index = new BM25Index();
+    index.sync(documents);
+
+    const results = index.search('dogs walk');
+
+    expect(results.map(result => result.id)).toEqual(['dogs']);
+  });
+
+  it('reindexes changed documents and drops removed ones', () => {
+    const index = new BM25Index();
+    index.add('note', { text: 'Buy milk' });
+    index.add('note', { text: 'Buy bread' });
+
+    expect(index.search('milk')).toEqual([]);
+    expect(index.search('bread').map(result => result.id)).toEqual(['note']);
+
+    index.remove('note');
+    expect(index.search('bread')).toEqual([]);
+  });
+});
+
+describe('HybridRetriever', () => {
+  it('finds documents by keywords and by embedding', async () => {
+    const retriever = new HybridRetriever();
+
+    const byKeyword = await retriever.retrieve('stocks', documents, { limit: 1 });
+    const byVector = await retriever.retrieve('feline naps', documents, { limit: 1, queryEmbedding: [0.9, 0.1, 0] });
+
+    expect(byKeyword.map(result => result.id)).toEqual(['stocks']);
+    expect(byVector.map(result => result.id)).toEqual(['cats']);
+  });
+
+  it('ranks documents matched both ways above the others', async () => {
+    const retriever = new HybridRetriever();
+
+    const results = await retriever.retrieve('day', documents, { limit: 3, queryEmbedding: [0, 1, 0] });
+
+    expect(results[0].id).toBe('dogs');
+  });
+
+  it('applies metadata filters', async () => {
+    const retriever = new HybridRetriever();
+
+    const results = await retriever.retrieve('day today', documents, { limit: 3, filter: { topic: 'finance' } });
+
+    expect(results.map(result => result.id)).toEqual(['stocks']);
+  });
+
+  it('reorders the top results with the reranker', async () => {
+    const reranker: Reranker = {
+      rerank: async (_query, texts) => texts.map(text => text.startsWith('Cats') ? 1 : 0)
+    };
+    const retriever = new HybridRetriever({ reranker });
+
+    const results = await retriever.retrieve('day', documents, { limit: 2 });
+
+    expect(results[0].id).toBe('cats');
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('compares vectors by angle and returns 0 for mismatched or zero vectors', () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
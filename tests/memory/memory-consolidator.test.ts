@@ -0,0 +1,63 @@
+import { MockProvider } from '../../src/core/mock-provider';
+import { MemoryConsolidator } from '../../src/memory/memory-consolidator';
+import { SqliteEnhancedMemory } from '../../src/memory/sqlite-enhanced-memory';
+import { UsageLedger } from '../../src/usage/usage-ledger';
+
+describe('MemoryConsolidator', () => {
+  let memory: SqliteEnhancedMemory;
+
+  beforeEach(async () => {
+    memory = new SqliteEnhancedMemory({ filePath: ':memory:' });
+    const twoHoursAgo = Date.now() - 2 * 60 * 60 * 1000;
+    await memory.storeShortTerm({ input: 'Weather in Paris?', output: 'Rainy', importance: 0.9, timestamp: twoHoursAgo });
+    await memory.storeShortTerm({ input: 'Weather in Paris tomorrow?', output: 'Rainy again', importance: 0.9, timestamp: twoHoursAgo });
+  });
+
+  afterEach(() => {
+    memory.close();
+  });
+
+  it('summarizes related memories into long-term memory and a note', async () => {
+    const provider = new MockProvider([{
+      structuredOutput: { title: 'Paris weather', summary: 'It rains in Paris', importance: 0.8, insight: 'Pack an umbrella for Paris' }
+    }]);
+    const consolidator = new MemoryConsolidator({ memory, provider, similarityThreshold: 0 });
+
+    const report = await consolidator.consolidate();
+
+    expect(report.consolidated).toHaveLength(2);
+    expect(report.noteIds).toHaveLength(1);
+    expect(await memory.getShortTermMemories()).toEqual([]);
+    expect((await memory.retrieve('paris weather', { minRelevance: 0 })).longTerm.map(m => m.output))
+      .toContain('It rains in Paris');
+  });
+
+  it('records the summarization calls in the usage ledger', async () => {
+    const provider = new MockProvider([{
+      structuredOutput: { title: 'Paris weather', summary: 'It rains in Paris' },
+      tokens: { input: 300, output: 50, total: 350 }
+    }]);
+    const usageLedger = new UsageLedger();
+    const consolidator = new MemoryConsolidator({ memory, provider, similarityThreshold: 0, usageLedger });
+
+    await consolidator.consolidate();
+
+    expect(usageLedger.getRecords()).toEqual([expect.objectContaining({
+      agent: 'MemoryConsolidator',
+      provider: 'mock',
+      source: 'memory-consolidation',
+      input: 300,
+      output: 50
+    })]);
+  });
+
+  it('leaves a cluster in short-term memory when summarizing fails', async () => {
+    const provider = new MockProvider([{ error: 'Service unavailable' }]);
+    const consolidator = new MemoryConsolidator({ memory, provider, similarityThreshold: 0 });
+
+    const report = await consolidator.consolidate();
+
+    expect(report.failedClusters).toBe(1);
+    expect(await memory.getShortTermMemories()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SqliteEnhancedMemory } from '../../src/memory/sqlite-enhanced-memory';
+
+describe('SqliteEnhancedMemory', () => {
+  let dir: string;
+  let filePath: string;
+  const opened: SqliteEnhancedMemory[] = [];
+
+  const open = (namespace: string = 'default'): SqliteEnhancedMemory => {
+    const memory = new SqliteEnhancedMemory({ filePath, namespace });
+    opened.push(memory);
+    return memory;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-enhanced-memory-'));
+    filePath = path.join(dir, 'memory.db');
+  });
+
+  afterEach(() => {
+    opened.splice(0).forEach(memory => memory.close());
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('retrieves short-term memories, long-term memories and notes', async () => {
+    const memory = open();
+    await memory.initialize();
+    await memory.storeShortTerm({ input: 'Weather today?', output: 'Sunny and warm', timestamp: Date.now() });
+    await memory.storeLongTerm({ input: 'Weather today?', output: 'Sunny and warm', timestamp: Date.now() });
+    await memory.saveNote({ title: 'Weather', content: 'The user asks about the weather daily', tags: ['Habits'], importance: 0.8 });
+
+    const result = await memory.retrieve('weather today', { minRelevance: 0.1 });
+
+    expect(result.shortTerm.map(m => m.output)).toEqual(['Sunny and warm']);
+    expect(result.longTerm.map(m => m.output)).toEqual(['Sunny and warm']);
+    expect(result.notes.map(note => note.title)).toEqual(['Weather']);
+    expect(await memory.getNotesByTag('habits')).toHaveLength(1);
+  });
+
+  it('moves short-term memories to long-term memory', async () => {
+    const memory = open();
+    const id = await memory.storeShortTerm({ input: 'Favourite colour?', output: 'Blue', timestamp: Date.now() });
+
+    expect(await memory.transferToLongTerm([id, 'missing'])).toHaveLength(1);
+
+    const result = await memory.retrieve('favourite colour', { minRelevance: 0.1 });
+    expect(result.shortTerm).toEqual([]);
+    expect(result.longTerm.map(m => m.output)).toEqual(['Blue']);
+  });
+
+  it('keeps namespaces apart', async () => {
+    const work = open('work');
+    const home = open('home');
+    const id = await work.saveNote({ title: 'Standup', content: 'Daily at nine', tags: [], importance: 0.5 });
+    await work.storeShortTerm({ input: 'Meeting room?', output: 'Room 4', timestamp: Date.now() });
+
+    expect(await home.getNote(id)).toBeUndefined();
+    expect(await home.getAllNotes()).toEqual([]);
+    expect((await home.retrieve('meeting room')).shortTerm).toEqual([]);
+  });
+
+  it('imports EnhancedMemory JSON files once and refuses IDs of another namespace', async () => {
+    const jsonDir = path.join(dir, 'json');
+    fs.mkdirSync(jsonDir);
+    const now = Date.now();
+    fs.writeFileSync(path.join(jsonDir, 'short-term.json'), JSON.stringify([
+      { id: 's1', input: 'Weather today?', output: 'Sunny', timestamp: now, expiresAt: now + 60000 },
+      { id: 's2', input: 'Old question', output: 'Expired', timestamp: 0, expiresAt: 1 }
+    ]));
+    fs.writeFileSync(path.join(jsonDir, 'notes.json'), JSON.stringify([
+      { id: 'n1', title: 'Weather', content: 'Asks daily', tags: ['habits'], importance: 0.5, created: now, updated: now }
+    ]));
+    const memory = open();
+
+    expect(await memory.importJson(jsonDir)).toEqual({ shortTerm: 1, notes: 1 });
+    expect(await memory.importJson(jsonDir)).toEqual({ shortTerm: 0, notes: 0 });
+    expect((await memory.getNote('n1'))?.tags).toEqual(['habits']);
+
+    await expect(open('other').importJson(jsonDir)).rejects.toThrow("belongs to scope 'default/default'");
+  });
+});
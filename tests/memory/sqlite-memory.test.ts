@@ -0,0 +1,77 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SqliteMemory } from '../../src/memory/sqlite-memory';
+import { MemoryEntry } from '../../src/memory/memory-interface';
+
+function memory(id: string, input: string, output: string, timestamp: number = 0): MemoryEntry {
+  return { id, input, output, timestamp };
+}
+
+describe('SqliteMemory', () => {
+  let dir: string;
+  let filePath: string;
+  const opened: SqliteMemory[] = [];
+
+  const open = (namespace: string = 'default'): SqliteMemory => {
+    const store = new SqliteMemory({ filePath, namespace });
+    opened.push(store);
+    return store;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-memory-'));
+    filePath = path.join(dir, 'memory.db');
+  });
+
+  afterEach(() => {
+    opened.splice(0).forEach(store => store.close());
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('retrieves memories by keyword and lists them by tag', async () => {
+    const store = open();
+    await store.store({ ...memory('m1', 'Favourite colour?', 'Blue', 1), metadata: { tags: ['profile'] } });
+    await store.store(memory('m2', 'Weather today?', 'Sunny and warm', 2));
+
+    expect(await store.retrieve('weather')).toEqual(['Weather today?\nSunny and warm']);
+    expect((await store.find({ tag: 'profile' })).map(entry => entry.id)).toEqual(['m1']);
+    expect((await store.getAll()).map(entry => entry.id)).toEqual(['m1', 'm2']);
+  });
+
+  it('replaces a memory stored again under the same ID', async () => {
+    const store = open();
+    await store.store(memory('m1', 'Weather today?', 'Sunny'));
+    await store.store(memory('m1', 'Weather today?', 'Raining'));
+
+    expect((await store.getAll()).map(entry => entry.output)).toEqual(['Raining']);
+    expect(await store.retrieve('raining')).toHaveLength(1);
+  });
+
+  it('keeps namespaces apart and refuses to overwrite another namespace', async () => {
+    const alice = open('alice');
+    const bob = open('bob');
+    await alice.store(memory('shared-id', 'Weather today?', 'Sunny'));
+
+    expect(await bob.retrieve('weather')).toEqual([]);
+    expect(await bob.delete('shared-id')).toBe(false);
+    await expect(bob.store(memory('shared-id', 'Weather today?', 'Raining')))
+      .rejects.toThrow("Memory shared-id belongs to namespace 'alice'");
+    expect((await alice.getAll())[0].output).toBe('Sunny');
+  });
+
+  it('imports a PersistentMemory file once', async () => {
+    const jsonPath = path.join(dir, 'memories.json');
+    fs.writeFileSync(jsonPath, JSON.stringify([
+      memory('m1', 'Favourite colour?', 'Blue'),
+      memory('m2', 'Weather today?', 'Sunny')
+    ]));
+    const store = open();
+
+    expect(await store.importJson(jsonPath)).toBe(2);
+    expect(await store.importJson(jsonPath)).toBe(0);
+    expect(await store.getAll()).toHaveLength(2);
+
+    await expect(open('other').importJson(jsonPath)).rejects.toThrow("belongs to namespace 'default'");
+  });
+});
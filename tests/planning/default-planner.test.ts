@@ -0,0 +1,74 @@
+import { Agent } from '../../src/core/agent';
+import { GenerateOptions, GenerateResult } from '../../src/core/provider-interface';
+import { AgentRole, RunOptions } from '../../src/core/types';
+import { InMemoryConversationStore } from '../../src/conversation/in-memory-store';
+import { DefaultPlanner } from '../../src/planning/default-planner';
+import { Plan, PlanOptions } from '../../src/planning/planner-interface';
+
+const schema = {
+  type: 'object',
+  properties: { answer: { type: 'number' } },
+  required: ['answer']
+};
+
+function createPlan(task: string): Plan {
+  return {
+    id: 'plan-1',
+    originalTask: task,
+    tasks: [
+      { id: 'task-1', description: 'Gather the numbers', dependencies: [], status: 'pending' },
+      { id: 'task-2', description: 'Add them up', dependencies: ['task-1'], status: 'pending' }
+    ],
+    created: Date.now(),
+    updated: Date.now(),
+    status: 'created'
+  };
+}
+
+describe('DefaultPlanner', () => {
+  const task = 'Work out the answer step by step';
+  let generateResponse: jest.Mock<Promise<GenerateResult>, [GenerateOptions]>;
+  let agent: Agent;
+
+  beforeEach(() => {
+    // Steps answer in text; only a request with a response format gets JSON
+    generateResponse = jest.fn(async (options: GenerateOptions) => ({
+      message: options.responseFormat ? '{"answer": 42}' : 'Step done'
+    }));
+    agent = new Agent({
+      name: 'Planner',
+      role: AgentRole.ASSISTANT,
+      personality: { traits: ['methodical'], background: 'A test agent' },
+      goals: ['Finish plans']
+    }, { generateResponse, updateConfig: jest.fn() });
+  });
+
+  it('applies the response schema only to the summary and returns its data', async () => {
+    const options: RunOptions & PlanOptions = { task, responseSchema: schema, _skipPlanning: true };
+
+    const result = await new DefaultPlanner().executePlan(createPlan(task), agent, options);
+
+    expect(result.data).toEqual({ answer: 42 });
+    const calls = generateResponse.mock.calls.map(([callOptions]) => callOptions);
+    expect(calls).toHaveLength(3);
+    expect(calls[0].responseFormat).toBeUndefined();
+    expect(calls[1].responseFormat).toBeUndefined();
+    expect(calls[2].responseFormat?.schema).toEqual(schema);
+  });
+
+  it('records only the task and the summary in a stored conversation', async () => {
+    const planner = new DefaultPlanner();
+    jest.spyOn(planner, 'createPlan').mockResolvedValue(createPlan(task));
+    const store = new InMemoryConversationStore();
+    agent.setPlanner(planner).setConversationStore(store);
+
+    const result = await agent.run({ task, conversationId: 'conv-1' });
+
+    const stored = await store.get('conv-1');
+    expect(stored?.messages.filter(message => message.role !== 'system')).toEqual([
+      expect.objectContaining({ role: 'user', content: task }),
+      expect.objectContaining({ role: 'assistant', content: result.response })
+    ]);
+    expect(await store.list()).toHaveLength(1);
+  });
+});
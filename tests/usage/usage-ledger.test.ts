@@ -0,0 +1,100 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BudgetExceededError, UsageLedger } from '../../src/usage/usage-ledger';
+
+const call = { agent: 'Tester', provider: 'openai', model: 'gpt-4o-mini', input: 1000, output: 500 };
+
+describe('UsageLedger', () => {
+  it('prices calls by the longest matching model prefix', () => {
+    const ledger = new UsageLedger();
+
+    const record = ledger.record(call);
+
+    expect(record.cost).toBeCloseTo((1000 * 0.15 + 500 * 0.6) / 1_000_000);
+    expect(ledger.estimateCost('unknown-model', 1000, 1000)).toBe(0);
+  });
+
+  it('aborts a run once it goes over the per-run budget', () => {
+    const onBudgetExceeded = jest.fn();
+    const ledger = new UsageLedger({ budgets: { perRun: { tokens: 2000 } }, onBudgetExceeded });
+    const abort = jest.fn();
+    const runId = ledger.beginRun(abort);
+
+    ledger.record({ ...call, runId });
+    expect(abort).not.toHaveBeenCalled();
+    ledger.record({ ...call, runId });
+
+    expect(abort).toHaveBeenCalledTimes(1);
+    expect(abort.mock.calls[0][0]).toBeInstanceOf(BudgetExceededError);
+    expect(onBudgetExceeded).toHaveBeenCalledWith(expect.objectContaining({ scope: 'run', runId }));
+    expect(ledger.endRun(runId).total).toBe(3000);
+  });
+
+  it('stops new runs immediately once the daily budget is spent', () => {
+    const ledger = new UsageLedger({ budgets: { perDay: { tokens: 1000 } } });
+    ledger.record(call);
+    const abort = jest.fn();
+
+    ledger.beginRun(abort);
+
+    expect(abort.mock.calls[0][0]).toEqual(expect.objectContaining({ scope: 'day' }));
+  });
+
+  describe('with a storage file', () => {
+    let storageDir: string;
+    let storageFile: string;
+
+    beforeEach(() => {
+      storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-'));
+      storageFile = path.join(storageDir, 'usage.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(storageDir, { recursive: true, force: true });
+    });
+
+    it('persists daily totals so they survive a restart', async () => {
+      const ledger = new UsageLedger({ storageFile });
+      for (let i = 0; i < 20; i++) {
+        ledger.record(call);
+      }
+      await ledger.flush();
+
+      const restarted = new UsageLedger({ storageFile });
+
+      expect(restarted.getDayTotals()).toEqual(expect.objectContaining({ calls: 20, total: 30000 }));
+      expect(fs.readdirSync(storageDir)).toEqual(['usage.json']);
+    });
+
+    it('coalesces the writes of a burst of calls', async () => {
+      const ledger = new UsageLedger({ storageFile });
+      const rename = jest.spyOn(fs.promises, 'rename');
+
+      try {
+        for (let i = 0; i < 20; i++) {
+          ledger.record(call);
+        }
+        await ledger.flush();
+
+        expect(rename.mock.calls.length).toBeLessThanOrEqual(2);
+      } finally {
+        rename.mockRestore();
+      }
+    });
+
+    it('drops days older than the retention window', async () => {
+      const today = new Date().toISOString().slice(0, 10);
+      const totals = { calls: 1, input: 1, output: 1, total: 2, cost: 0 };
+      fs.writeFileSync(storageFile, JSON.stringify({ dailyTotals: { '2000-01-01': totals, [today]: totals } }));
+
+      const ledger = new UsageLedger({ storageFile, retainDays: 2 });
+      ledger.record(call);
+      await ledger.flush();
+
+      const stored = JSON.parse(fs.readFileSync(storageFile, 'utf8'));
+      expect(Object.keys(stored.dailyTotals)).toEqual([today]);
+      expect(stored.dailyTotals[today].calls).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { CircuitBreaker } from '../../src/utils/circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  it('opens after the failure threshold and allows one trial after the cooldown', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 0 });
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+    breaker.recordFailure();
+
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('stays open during the cooldown', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 60000 });
+    breaker.recordFailure();
+
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.getRemainingCooldown()).toBeGreaterThan(0);
+  });
+
+  it('closes after a successful trial and reopens after a failed one', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 0 });
+    breaker.recordFailure();
+
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('allows a new trial once an unrecorded trial is released', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 0 });
+    breaker.recordFailure();
+
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+
+    breaker.releaseTrial();
+    expect(breaker.canRequest()).toBe(true);
+  });
+});
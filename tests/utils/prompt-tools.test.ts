@@ -0,0 +1,39 @@
+import { toolMessagesToText } from '../../src/utils/prompt-tools';
+import { Message } from '../../src/core/types';
+import { getTextContent } from '../../src/utils/message-content';
+
+describe('toolMessagesToText', () => {
+  it('rewrites tool calls and merges consecutive results into one user turn', () => {
+    const messages: Message[] = [
+      { role: 'user', content: 'Add and multiply' },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [
+          { id: 'call_1', name: 'add', parameters: { a: 1, b: 2 } },
+          { id: 'call_2', name: 'multiply', parameters: { a: 2, b: 3 } }
+        ]
+      },
+      { role: 'tool', content: '3', toolCallId: 'call_1', name: 'add' },
+      { role: 'tool', content: 'Overflow', toolCallId: 'call_2', name: 'multiply', isError: true }
+    ];
+
+    const converted = toolMessagesToText(messages);
+
+    expect(converted.map(message => message.role)).toEqual(['user', 'assistant', 'user']);
+    expect(converted[1].toolCalls).toBeUndefined();
+    expect(JSON.parse(getTextContent(converted[1].content))).toEqual({
+      tool_calls: [
+        { name: 'add', arguments: { a: 1, b: 2 } },
+        { name: 'multiply', arguments: { a: 2, b: 3 } }
+      ]
+    });
+    expect(converted[2].content).toBe('Result of tool "add":\n3\n\nResult of tool "multiply" (failed):\nOverflow');
+  });
+
+  it('leaves messages without tool calls unchanged', () => {
+    const messages: Message[] = [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hi' }];
+
+    expect(toolMessagesToText(messages)).toEqual(messages);
+  });
+});
@@ -0,0 +1,122 @@
+import { RateLimiter, RateLimiterEvent, getSharedRateLimiter } from '../../src/utils/rate-limiter';
+
+function rateLimitError(retryAfterSeconds: number): Error {
+  return Object.assign(new Error('Rate limited'), {
+    status: 429,
+    headers: { 'retry-after': String(retryAfterSeconds) }
+  });
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('queues requests in order once the request budget is spent', async () => {
+    const limiter = new RateLimiter('test', { requestsPerMinute: 2 });
+    const order: number[] = [];
+
+    await Promise.all([1, 2].map(n => limiter.acquire().then(() => order.push(n))));
+    const third = limiter.acquire().then(() => order.push(3));
+    const fourth = limiter.acquire().then(() => order.push(4));
+
+    expect(limiter.getStats().queueDepth).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(order).toEqual([1, 2, 3]);
+
+    await jest.advanceTimersByTimeAsync(30000);
+    await Promise.all([third, fourth]);
+    expect(order).toEqual([1, 2, 3, 4]);
+  });
+
+  it('holds requests against the token budget and returns unused tokens on settle', async () => {
+    const limiter = new RateLimiter('test', { tokensPerMinute: 1000 });
+
+    await limiter.acquire(800);
+    let acquired = false;
+    const pending = limiter.acquire(500).then(() => { acquired = true; });
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(acquired).toBe(false);
+
+    // The first request used far fewer tokens than estimated
+    limiter.settle(800, 100);
+    await pending;
+    expect(acquired).toBe(true);
+  });
+
+  it('pauses every request for the retry-after of a rate limited one', async () => {
+    const limiter = new RateLimiter('test');
+    const retries: any[] = [];
+    limiter.on(RateLimiterEvent.RETRY, event => retries.push(event));
+
+    const operation = jest.fn()
+      .mockRejectedValueOnce(rateLimitError(5))
+      .mockResolvedValueOnce('done');
+    const result = limiter.schedule(operation);
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(retries).toEqual([expect.objectContaining({ attempt: 1, delayMs: 5000, status: 429 })]);
+    expect(limiter.getStats().pausedForMs).toBe(5000);
+
+    let otherSent = false;
+    const other = limiter.schedule(async () => { otherSent = true; });
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(otherSent).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('done');
+    await other;
+    expect(otherSent).toBe(true);
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry client errors and gives up after maxRetries', async () => {
+    const limiter = new RateLimiter('test');
+
+    const rejected = jest.fn().mockRejectedValue(Object.assign(new Error('Bad request'), { status: 400 }));
+    await expect(limiter.schedule(rejected)).rejects.toThrow('Bad request');
+    expect(rejected).toHaveBeenCalledTimes(1);
+
+    const failing = jest.fn().mockRejectedValue(Object.assign(new Error('Server error'), { status: 500 }));
+    const result = limiter.schedule(failing, { maxRetries: 2 });
+    const assertion = expect(result).rejects.toThrow('Server error');
+    await jest.advanceTimersByTimeAsync(10000);
+    await assertion;
+    expect(failing).toHaveBeenCalledTimes(3);
+  });
+
+  it('removes a cancelled request from the queue', async () => {
+    const limiter = new RateLimiter('test', { requestsPerMinute: 1 });
+    await limiter.acquire();
+
+    const controller = new AbortController();
+    const cancelled = limiter.acquire(0, controller.signal);
+    const next = limiter.acquire();
+    expect(limiter.getStats().queueDepth).toBe(2);
+
+    controller.abort();
+    await expect(cancelled).rejects.toThrow();
+    expect(limiter.getStats().queueDepth).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(60000);
+    await next;
+    expect(limiter.getStats().queueDepth).toBe(0);
+  });
+});
+
+describe('getSharedRateLimiter', () => {
+  it('shares one limiter per endpoint and API key', () => {
+    const first = getSharedRateLimiter('test-endpoint', 'key-a', { requestsPerMinute: 10 });
+
+    expect(getSharedRateLimiter('test-endpoint', 'key-a')).toBe(first);
+    expect(getSharedRateLimiter('test-endpoint', 'key-b')).not.toBe(first);
+    expect(getSharedRateLimiter('other-endpoint', 'key-a')).not.toBe(first);
+    expect(first.key).not.toContain('key-a');
+  });
+});
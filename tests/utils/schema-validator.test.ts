@@ -0,0 +1,55 @@
+import { formatSchemaErrors, validateSchema } from '../../src/utils/schema-validator';
+
+describe('validateSchema', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      query: { type: 'string', minLength: 2 },
+      limit: { type: 'integer', minimum: 1, maximum: 10, default: 5 },
+      tags: { type: 'array', items: { type: 'string', enum: ['news', 'blog'] } }
+    },
+    required: ['query'],
+    additionalProperties: false
+  };
+
+  it('applies defaults without mutating the input', () => {
+    const input = { query: 'cats' };
+
+    const result = validateSchema(schema, input);
+
+    expect(result.valid).toBe(true);
+    expect(result.value).toEqual({ query: 'cats', limit: 5 });
+    expect(input).toEqual({ query: 'cats' });
+  });
+
+  it('reports every problem with its path', () => {
+    const result = validateSchema(schema, { limit: 20, tags: ['news', 'video'], extra: true });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(error => error.path)).toEqual(
+      expect.arrayContaining(['$.query', '$.limit', '$.tags[1]', '$.extra'])
+    );
+    expect(formatSchemaErrors(result.errors)).toContain('$.query');
+  });
+
+  it('matches string patterns', () => {
+    const pattern = { type: 'string', pattern: '^[A-Z]{3}$' };
+
+    expect(validateSchema(pattern, 'USD').valid).toBe(true);
+    expect(validateSchema(pattern, 'usd').errors[0].message).toContain('must match pattern');
+  });
+
+  it('reports an invalid pattern as a validation error instead of throwing', () => {
+    const result = validateSchema({ type: 'string', pattern: '([a-z' }, 'abc');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0].message).toContain('not a valid regular expression');
+  });
+
+  it('accepts values matching one of anyOf', () => {
+    const anyOf = { anyOf: [{ type: 'string' }, { type: 'number' }] };
+
+    expect(validateSchema(anyOf, 3).valid).toBe(true);
+    expect(validateSchema(anyOf, true).valid).toBe(false);
+  });
+});